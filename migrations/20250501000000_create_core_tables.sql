@@ -0,0 +1,90 @@
+-- Variables, AI tools, RBAC and command metadata tables.
+-- migrate:up
+DROP TABLE IF EXISTS commands; -- Replaced by command_metadata / command_input_arguments
+
+CREATE TABLE IF NOT EXISTS variables (
+    name VARCHAR(255) NOT NULL PRIMARY KEY,
+    datatype VARCHAR(50) NOT NULL,
+    value TEXT,
+    max REAL,
+    min REAL,
+    default_value TEXT
+);
+
+CREATE TABLE IF NOT EXISTS ai_tools (
+    name VARCHAR(255) NOT NULL PRIMARY KEY,
+    description TEXT NOT NULL,
+    args_description TEXT NOT NULL,
+    isactive BOOLEAN NOT NULL DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS users (
+    user_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username VARCHAR(100) NOT NULL UNIQUE,
+    password_hash TEXT, -- Placeholder for secure password storage
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS roles (
+    role_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    role_name VARCHAR(50) NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS permissions (
+    permission_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    permission_name VARCHAR(100) NOT NULL UNIQUE -- e.g., 'execute_sql', 'manage_variables'
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id INTEGER NOT NULL,
+    role_id INTEGER NOT NULL,
+    PRIMARY KEY (user_id, role_id),
+    FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE,
+    FOREIGN KEY (role_id) REFERENCES roles (role_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role_id INTEGER NOT NULL,
+    permission_id INTEGER NOT NULL,
+    PRIMARY KEY (role_id, permission_id),
+    FOREIGN KEY (role_id) REFERENCES roles (role_id) ON DELETE CASCADE,
+    FOREIGN KEY (permission_id) REFERENCES permissions (permission_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS command_metadata (
+    command_name TEXT NOT NULL PRIMARY KEY,
+    command_description TEXT,
+    result_description TEXT,
+    result_type TEXT,
+    result_min REAL,
+    result_max REAL,
+    result_length INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS command_input_arguments (
+    argument_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    command_name TEXT NOT NULL,
+    argument_name TEXT NOT NULL,
+    argument_type TEXT NOT NULL,
+    argument_purpose TEXT,
+    argument_default_value TEXT,
+    argument_min REAL,
+    argument_max REAL,
+    argument_length INTEGER,
+    is_required BOOLEAN DEFAULT 1,
+    position INTEGER,
+    FOREIGN KEY (command_name) REFERENCES command_metadata (command_name) ON DELETE CASCADE,
+    UNIQUE (command_name, argument_name),
+    UNIQUE (command_name, position)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS command_input_arguments;
+DROP TABLE IF EXISTS command_metadata;
+DROP TABLE IF EXISTS role_permissions;
+DROP TABLE IF EXISTS user_roles;
+DROP TABLE IF EXISTS permissions;
+DROP TABLE IF EXISTS roles;
+DROP TABLE IF EXISTS users;
+DROP TABLE IF EXISTS ai_tools;
+DROP TABLE IF EXISTS variables;
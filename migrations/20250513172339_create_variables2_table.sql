@@ -0,0 +1,13 @@
+-- Fallback variables table, used when 'variables' is missing.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS variables2 (
+    name VARCHAR(255) NOT NULL PRIMARY KEY,
+    datatype VARCHAR(50) NOT NULL,
+    value TEXT,
+    max REAL,
+    min REAL,
+    default_value TEXT
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS variables2;
@@ -0,0 +1,16 @@
+-- Persistent command history, one row per executed command.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS command_history (
+    history_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER,
+    mode VARCHAR(20) NOT NULL,
+    command TEXT NOT NULL,
+    category VARCHAR(20), -- Category returned by command classification
+    duration_ms INTEGER,
+    success BOOLEAN NOT NULL DEFAULT 1,
+    error_message TEXT,
+    executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS command_history;
@@ -0,0 +1,26 @@
+-- Virtual filesystem backing unix and windows modes.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS vfs_nodes (
+    node_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    path TEXT NOT NULL, -- Canonical unix-style absolute path, shared by unix and windows modes
+    parent_path TEXT NOT NULL,
+    node_type VARCHAR(10) NOT NULL, -- 'file' or 'dir'
+    content TEXT,
+    size INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    modified_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vfs_nodes_parent ON vfs_nodes (user_id, parent_path);
+
+CREATE TABLE IF NOT EXISTS vfs_state (
+    user_id INTEGER NOT NULL PRIMARY KEY,
+    cwd TEXT NOT NULL DEFAULT '/'
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS vfs_state;
+DROP INDEX IF EXISTS idx_vfs_nodes_parent;
+DROP TABLE IF EXISTS vfs_nodes;
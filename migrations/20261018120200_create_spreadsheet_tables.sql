@@ -0,0 +1,40 @@
+-- Sheets, cells and formula dependencies for excel mode.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS sheets (
+    sheet_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS sheet_cells (
+    sheet_name VARCHAR(100) NOT NULL,
+    cell_ref VARCHAR(10) NOT NULL, -- e.g. 'B12'
+    col_index INTEGER NOT NULL,
+    row_index INTEGER NOT NULL,
+    input TEXT NOT NULL, -- As entered; formulas start with '='
+    value TEXT, -- Last computed value
+    value_type VARCHAR(10) NOT NULL, -- 'number', 'string', 'boolean', 'error' or 'empty'
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (sheet_name, cell_ref)
+);
+
+CREATE TABLE IF NOT EXISTS sheet_dependencies ( -- Cells/ranges read by each formula cell
+    sheet_name VARCHAR(100) NOT NULL,
+    cell_ref VARCHAR(10) NOT NULL,
+    ref_sheet VARCHAR(100) NOT NULL, -- Lower-case name of the referenced sheet
+    min_col INTEGER NOT NULL,
+    min_row INTEGER NOT NULL,
+    max_col INTEGER NOT NULL,
+    max_row INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_dependencies_ref ON sheet_dependencies (ref_sheet, min_col, max_col);
+
+-- Default sheet for excel mode
+INSERT OR IGNORE INTO sheets (name) VALUES ('Sheet1');
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_sheet_dependencies_ref;
+DROP TABLE IF EXISTS sheet_dependencies;
+DROP TABLE IF EXISTS sheet_cells;
+DROP TABLE IF EXISTS sheets;
@@ -0,0 +1,14 @@
+-- Custom internal commands defined with add_int_cmd, shared across sessions.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS custom_commands (
+    name VARCHAR(100) PRIMARY KEY COLLATE NOCASE,
+    alias VARCHAR(100) UNIQUE COLLATE NOCASE, -- Optional short name that also invokes the command
+    description TEXT,
+    action TEXT NOT NULL,
+    owner INTEGER REFERENCES users(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    visibility VARCHAR(10) NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private')) -- private: only the owner sees and runs it
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS custom_commands;
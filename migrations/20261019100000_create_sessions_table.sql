@@ -0,0 +1,17 @@
+-- Login sessions. The session token only lives in the user's HTTP-only cookie; the table stores its SHA-256 hash.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL -- ISO 8601, UTC
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions (user_id);
+
+-- The seeded placeholder hashes never matched any password; NULL means "no password set"
+UPDATE users SET password_hash = NULL WHERE password_hash = 'dummy_hash';
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_sessions_user_id;
+DROP TABLE IF EXISTS sessions;
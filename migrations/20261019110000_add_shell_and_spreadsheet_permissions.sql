@@ -0,0 +1,15 @@
+-- Permissions for the virtual shell (unix and windows modes) and spreadsheets (excel mode, 'show sheet'),
+-- which were open to everyone before the permission policy (src/lib/policy.ts) covered them.
+-- Every seeded role keeps its access; on a fresh database the roles do not exist yet and 'init db' grants them.
+-- migrate:up
+INSERT OR IGNORE INTO permissions (permission_name) VALUES ('use_virtual_shell');
+INSERT OR IGNORE INTO permissions (permission_name) VALUES ('use_spreadsheets');
+
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name IN ('use_virtual_shell', 'use_spreadsheets')
+WHERE r.role_name IN ('administrator', 'developer', 'basic_user');
+
+-- migrate:down
+DELETE FROM role_permissions WHERE permission_id IN (
+    SELECT permission_id FROM permissions WHERE permission_name IN ('use_virtual_shell', 'use_spreadsheets'));
+DELETE FROM permissions WHERE permission_name IN ('use_virtual_shell', 'use_spreadsheets');
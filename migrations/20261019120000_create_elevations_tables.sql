@@ -0,0 +1,40 @@
+-- Time-bound privilege elevation ('elevate <minutes> [reason]'). An elevation belongs to one login session
+-- (its token hash) and lets that session pass every permission check until it expires or is ended.
+-- elevation_uses records each command that only passed its permission check because of an elevation.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS elevations (
+    elevation_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(user_id),
+    token_hash TEXT NOT NULL, -- The session that was elevated
+    reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL, -- ISO 8601, UTC
+    ended_at TIMESTAMP -- Set by 'elevate end' or a new elevation; NULL while it runs until expires_at
+);
+
+CREATE INDEX IF NOT EXISTS idx_elevations_token_hash ON elevations (token_hash);
+
+CREATE TABLE IF NOT EXISTS elevation_uses (
+    use_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    elevation_id INTEGER NOT NULL REFERENCES elevations(elevation_id),
+    user_id INTEGER NOT NULL REFERENCES users(user_id),
+    mode TEXT NOT NULL,
+    command TEXT NOT NULL,
+    permission TEXT NOT NULL, -- The permission the user lacked
+    used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_elevation_uses_elevation_id ON elevation_uses (elevation_id);
+
+INSERT OR IGNORE INTO permissions (permission_name) VALUES ('elevate');
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name = 'elevate'
+WHERE r.role_name = 'administrator';
+
+-- migrate:down
+DELETE FROM role_permissions WHERE permission_id IN (SELECT permission_id FROM permissions WHERE permission_name = 'elevate');
+DELETE FROM permissions WHERE permission_name = 'elevate';
+DROP INDEX IF EXISTS idx_elevation_uses_elevation_id;
+DROP TABLE IF EXISTS elevation_uses;
+DROP INDEX IF EXISTS idx_elevations_token_hash;
+DROP TABLE IF EXISTS elevations;
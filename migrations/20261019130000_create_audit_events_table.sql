@@ -0,0 +1,53 @@
+-- Security audit trail: permission denials, elevations, logins, RBAC changes, 'init db', restores and database exports.
+-- Rows are only ever inserted, by recordAuditEvent (src/lib/audit.ts); the triggers reject updates and deletes
+-- so the history cannot be rewritten, the policy (src/lib/policy.ts) forbids every statement that writes
+-- audit_events or changes its schema, and PRAGMA writable_schema, wherever users run SQL (sql mode, imports,
+-- exports, .sim and @sql: scripts), and this migration cannot be reverted while the table holds events.
+-- Not covered: 'restore db' replaces the whole database file, trail included, and whoever can write the
+-- database file directly can rewrite anything.
+-- migrate:up
+CREATE TABLE IF NOT EXISTS audit_events (
+    event_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    occurred_at TIMESTAMP NOT NULL, -- ISO 8601, UTC
+    actor_id INTEGER NOT NULL, -- 0 for the guest
+    actor TEXT NOT NULL, -- The actor's username at the time of the event
+    action TEXT NOT NULL, -- e.g. 'permission.denied', 'rbac.grant_role', 'database.export'
+    target TEXT, -- What the action was applied to, e.g. the command, user or file
+    outcome TEXT NOT NULL CHECK (outcome IN ('success', 'denied', 'failure')),
+    details TEXT -- JSON
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events (occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events (actor);
+CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events (action);
+
+CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events
+BEGIN
+    SELECT RAISE(ABORT, 'audit_events is append-only');
+END;
+
+INSERT OR IGNORE INTO permissions (permission_name) VALUES ('view_audit');
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name = 'view_audit'
+WHERE r.role_name = 'administrator';
+
+-- migrate:down
+-- Refuses to drop a trail that holds events: the failing CHECK aborts the statement and the migration's transaction
+CREATE TEMP TABLE audit_events_revert_guard (
+    event_count INTEGER CONSTRAINT audit_events_must_be_empty_to_revert CHECK (event_count = 0)
+);
+INSERT INTO audit_events_revert_guard SELECT COUNT(*) FROM audit_events;
+DROP TABLE audit_events_revert_guard;
+DELETE FROM role_permissions WHERE permission_id IN (SELECT permission_id FROM permissions WHERE permission_name = 'view_audit');
+DELETE FROM permissions WHERE permission_name = 'view_audit';
+DROP TRIGGER IF EXISTS audit_events_no_delete;
+DROP TRIGGER IF EXISTS audit_events_no_update;
+DROP INDEX IF EXISTS idx_audit_events_action;
+DROP INDEX IF EXISTS idx_audit_events_actor;
+DROP INDEX IF EXISTS idx_audit_events_occurred_at;
+DROP TABLE IF EXISTS audit_events;
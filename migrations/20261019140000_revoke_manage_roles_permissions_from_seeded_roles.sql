@@ -0,0 +1,12 @@
+-- 'manage_roles_permissions' gates grant_perm, add_role, init, migrate and restore db, so holding it
+-- means holding every permission. The seed used to give it to the developer and basic_user roles;
+-- it is now for administrators only. On a fresh database the roles do not exist yet and 'init db' no longer grants it.
+-- migrate:up
+DELETE FROM role_permissions
+WHERE role_id IN (SELECT role_id FROM roles WHERE role_name IN ('developer', 'basic_user'))
+  AND permission_id IN (SELECT permission_id FROM permissions WHERE permission_name = 'manage_roles_permissions');
+
+-- migrate:down
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name = 'manage_roles_permissions'
+WHERE r.role_name IN ('developer', 'basic_user');
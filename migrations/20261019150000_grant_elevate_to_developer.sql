@@ -0,0 +1,12 @@
+-- The developer role gets 'elevate', so developers can run an administrator-only command for a limited
+-- time with a reason on record instead of being given the permission itself. On a fresh database the
+-- role does not exist yet and 'init db' grants it.
+-- migrate:up
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name = 'elevate'
+WHERE r.role_name = 'developer';
+
+-- migrate:down
+DELETE FROM role_permissions
+WHERE role_id IN (SELECT role_id FROM roles WHERE role_name = 'developer')
+  AND permission_id IN (SELECT permission_id FROM permissions WHERE permission_name = 'elevate');
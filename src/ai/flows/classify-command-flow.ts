@@ -73,12 +73,12 @@ Analyze the command based on its syntax, keywords, and typical usage patterns ON
 {{/each}}
 
 **General Category Definitions (for context only, do NOT use inactive categories for classification):**
-- internal: SimShell specific commands like 'help', 'clear', 'mode', 'history', 'define', 'refine', 'add_int_cmd', 'export log', 'export db', 'pause', 'create sqlite', 'init', 'init db', 'list py vars', 'show requirements', 'persist memory db to', 'ai', 'add ai_tool', 'set ai_tool', 'set sim_mode', any custom defined internal commands, AND variable assignments (e.g., 'x = 5', 'name = "test"').
+- internal: SimShell specific commands like 'help', 'clear', 'mode', 'history', 'define', 'refine', 'add_int_cmd', 'export log', 'export db', 'pause', 'create sqlite', 'init', 'init db', 'list py vars', 'show requirements', 'persist memory db to', 'ai', 'add ai_tool', 'set ai_tool', 'set sim_mode', 'show sheet', 'migrate', 'db', 'restore db from', 'snapshot', 'export query', 'import csv', 'import json', 'list custom cmds', 'remove_int_cmd', 'run', '@sim:', 'login', 'logout', 'whoami', 'passwd', 'elevate', 'audit', 'add_user', 'remove_user', 'list users', 'grant_role', 'revoke_role', 'grant_perm', 'revoke_perm', 'list roles', 'show perms', 'show policy', any custom defined internal commands, AND variable assignments (e.g., 'x = 5', 'name = "test"').
 - python: Python code snippets or commands (e.g., 'print("hello")', 'import os', 'def my_func():'). *Excludes* simple variable assignments if 'internal' mode is active.
 - unix: Common Unix/Linux shell commands (e.g., 'ls -la', 'cd /home', 'grep "pattern" file.txt', 'echo $PATH').
 - windows: Common Windows Command Prompt or PowerShell commands (e.g., 'dir C:\\', 'cd %USERPROFILE%', 'echo %VAR%', 'Copy-Item'). Note that 'echo' and 'cd' can also be Unix.
 - sql: SQL queries (e.g., 'SELECT * FROM users WHERE id = 1;', 'INSERT INTO products (...) VALUES (...)', 'CREATE TABLE ...', 'SELECT 1;').
-- excel: Excel-like formulas (e.g., 'SUM(A1:B5)', 'VLOOKUP(...)').
+- excel: Excel-like formulas and cell assignments (e.g., 'SUM(A1:B5)', 'VLOOKUP(...)', 'A1 = 10', 'B2 = =A1*2', 'sheet Budget').
 - typescript: TypeScript code snippets, type definitions, or expressions (e.g., 'console.log("hello")', 'let x: number = 10;', 'type User = { id: number; }', 'interface Product { name: string; }').
 
 **User Command:**
@@ -102,6 +102,15 @@ const classifyCommandFlow = ai.defineFlow<
   },
   async (input) => {
 
+    // Spreadsheet cell assignments (e.g. 'A1 = 10', 'Sheet2!B3 = =A1*2') belong to excel mode,
+    // even though they also look like internal variable assignments
+    if (input.activeCategories.includes('excel')) {
+        const cellAssignmentRegex = /^\s*(?:(?:'[^']+'|[A-Za-z_][\w.]*)!)?\$?[A-Za-z]{1,3}\$?\d+\s*=/;
+        if (cellAssignmentRegex.test(input.command)) {
+            return { category: 'excel' };
+        }
+    }
+
     // Add simple pre-checks for common internal commands to potentially bypass AI call
     // ONLY if 'internal' is an active category
     if (input.activeCategories.includes('internal')) {
@@ -111,7 +120,11 @@ const classifyCommandFlow = ai.defineFlow<
             'add_int_cmd', 'export log', 'export db', 'pause', 'create sqlite',
             'init', 'init db', 'list py vars',
             'show requirements', 'persist memory db to', 'ai',
-            'add ai_tool', 'set ai_tool', 'set sim_mode' // Add base commands for multi-step ones
+            'add ai_tool', 'set ai_tool', 'set sim_mode', // Add base commands for multi-step ones
+            'show sheet', 'migrate', 'db', 'restore db from', 'snapshot', 'export query', 'import csv', 'import json',
+            'list custom cmds', 'list_custom_cmds', 'remove_int_cmd', 'run', 'login', 'logout', 'whoami', 'passwd', 'elevate', 'audit',
+            'add_user', 'remove_user', 'list users', 'list_users', 'grant_role', 'revoke_role',
+            'grant_perm', 'revoke_perm', 'list roles', 'list_roles', 'show perms', 'show policy'
         ];
         // Check for simple variable assignment pattern as well
         const assignmentRegex = /^\s*([a-zA-Z_]\w*)\s*=\s*.+\s*$/;
@@ -120,6 +133,11 @@ const classifyCommandFlow = ai.defineFlow<
              return { category: 'internal' }; // Directly classify assignment as internal if active
         }
 
+        // SimShell scripts: '@sim:<file>.sim'
+        if (commandLower.startsWith('@sim:')) {
+             return { category: 'internal' };
+        }
+
         // **Ensure 'help' is always internal if 'internal' is active**
         if (commandLower === 'help') {
              return { category: 'internal' };
@@ -135,7 +153,7 @@ const classifyCommandFlow = ai.defineFlow<
              }
              // Check for commands requiring arguments that start with the base command + space
              // Handle specific multi-word commands needing args
-             const commandsNeedingArgs = ['persist memory db to', 'create sqlite', 'add_int_cmd', 'add ai_tool', 'set ai_tool', 'set sim_mode', 'ai'];
+             const commandsNeedingArgs = ['persist memory db to', 'create sqlite', 'add_int_cmd', 'add ai_tool', 'set ai_tool', 'set sim_mode', 'ai', 'show sheet', 'restore db from', 'export query', 'import csv', 'import json', 'remove_int_cmd', 'run', 'login', 'add_user', 'remove_user', 'grant_role', 'revoke_role', 'grant_perm', 'revoke_perm', 'show perms'];
              if (commandsNeedingArgs.includes(intCmd) && commandLower.startsWith(intCmd + ' ')) {
                  matchedInternal = true;
                  break;
@@ -143,7 +161,7 @@ const classifyCommandFlow = ai.defineFlow<
              // Check for single-word commands that might take args
              if (!intCmd.includes(' ') && commandLower.startsWith(intCmd + ' ')) {
                   // Limit which single-word commands accept args
-                 if (['help', 'mode', 'define', 'refine'].includes(intCmd)) { // 'help' is redundant here due to check above, but harmless
+                 if (['help', 'mode', 'history', 'define', 'refine', 'migrate', 'db', 'snapshot', 'passwd', 'elevate', 'audit'].includes(intCmd)) { // 'help' is redundant here due to check above, but harmless
                     matchedInternal = true;
                     break;
                  }
@@ -26,9 +26,12 @@ import { executeSqlScript } from '@/lib/sql-script-runner';
 import { listAllTablesQuery } from '@/ai/flows/list-all-tables-flow';
 import { getSqlScriptFiles } from '@/lib/file-actions';
 import { Cpu, FlaskConical } from 'lucide-react';
-import { getUserDetailsById } from '@/lib/users';
+import { getCurrentUser } from '@/lib/users';
+import { listCustomCommands } from '@/lib/custom-commands';
+import { PasswordDialog, getPasswordPromptKind, type PasswordPrompt } from '@/components/password-dialog';
+import type { CommandCredentials } from '@/lib/passwords';
 
-const SIMULATED_USER_ID = 1;
+const GUEST_USER = { username: 'guest', role: 'none' }; // Shown while no one is logged in
 
 export default function Home() {
   const [history, setHistory] = React.useState<OutputLine[]>([]);
@@ -39,12 +42,40 @@ export default function Home() {
 
   const [selectedCategories, setSelectedCategories] = React.useState<CommandMode[]>(['internal']);
   const { suggestions, addSuggestion, initialSuggestions } = useSuggestions();
-  const { customCommands, addCustomCommand, getCustomCommandAction } = useCustomCommands();
+  const { customCommands, addCustomCommand, removeCustomCommand, getCustomCommandAction } = useCustomCommands();
 
   const [sqlScriptFiles, setSqlScriptFiles] = React.useState<string[]>([]);
   const [selectedSqlScript, setSelectedSqlScript] = React.useState<string>("");
 
   const [currentUser, setCurrentUser] = React.useState<{ username: string; role: string }>({ username: 'Loading...', role: 'Loading...' });
+  const [passwordPrompt, setPasswordPrompt] = React.useState<PasswordPrompt | null>(null);
+  const loadedCustomCommandNamesRef = React.useRef<string[]>([]); // Stored custom commands of the current user, replaced on login/logout
+
+  // Fetches the session's user and the stored custom commands they can see
+  const loadCurrentUser = React.useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      setCurrentUser(user ? { username: user.username, role: user.role } : GUEST_USER);
+    } catch (error) {
+      console.error("Failed to fetch the current user:", error);
+      setCurrentUser({ username: GUEST_USER.username, role: 'Error Fetching Role' });
+    }
+
+    try {
+      // Load the stored custom commands (by name and alias) the session's user can see, for suggestions
+      const storedCommands = await listCustomCommands();
+      loadedCustomCommandNamesRef.current.forEach(name => removeCustomCommand(name));
+      loadedCustomCommandNamesRef.current = [];
+      storedCommands.forEach(cmd => {
+        [cmd.name, ...(cmd.alias ? [cmd.alias] : [])].forEach(name => {
+          addCustomCommand(name, cmd.action);
+          loadedCustomCommandNamesRef.current.push(name);
+        });
+      });
+    } catch (error) {
+      console.error("Failed to load custom commands:", error);
+    }
+  }, [addCustomCommand, removeCustomCommand]);
 
 
   React.useEffect(() => {
@@ -91,6 +122,8 @@ export default function Home() {
         setLogEntries(prev => [...prev, { timestamp, type: 'E', flag: 1, text: errorLine.text }]);
       }
 
+      await loadCurrentUser();
+
       try {
         const files = await getSqlScriptFiles();
         setSqlScriptFiles(files);
@@ -105,23 +138,10 @@ export default function Home() {
           variant: "destructive",
         });
       }
-
-      try {
-        const userDetails = await getUserDetailsById(SIMULATED_USER_ID);
-        if (userDetails) {
-          setCurrentUser(userDetails);
-        } else {
-          console.warn(`Could not fetch details for user ID: ${SIMULATED_USER_ID}. Display prefix might be affected.`);
-          setCurrentUser({ username: `User${SIMULATED_USER_ID}`, role: 'Unknown' });
-        }
-      } catch (error) {
-        console.error("Failed to fetch user details:", error);
-        setCurrentUser({ username: `User${SIMULATED_USER_ID}`, role: 'Error Fetching Role' });
-      }
     };
 
     fetchInitialData();
-  }, [toast]);
+  }, [toast, loadCurrentUser]);
 
   const handleCategoryChange = (category: CommandMode, checked: boolean | 'indeterminate') => {
     setSelectedCategories(prev =>
@@ -137,7 +157,7 @@ export default function Home() {
 
     setIsRunning(true);
     const timestamp = new Date().toISOString();
-    const sqlScriptRegex = /^@sql:([a-zA-Z0-9_.-]+\.sql)$/i;
+    const sqlScriptRegex = /^@sql:([a-zA-Z0-9_.-]+\.sql)(?:\s+(.*))?$/i; // Optional flags and name=value parameters
     const scriptMatch = commandTrimmed.match(sqlScriptRegex);
 
     if (scriptMatch && scriptMatch[1]) {
@@ -154,7 +174,7 @@ export default function Home() {
         setLogEntries(prev => [...prev, { timestamp, type: 'I', flag: 0, text: `Executing SQL script file: ${scriptFilename}` }]);
 
         try {
-            const scriptResult = await executeSqlScript(scriptFilename);
+            const scriptResult = await executeSqlScript(scriptFilename, scriptMatch[2] ?? '');
             
             if (scriptResult.outputLines) {
                 const outputToDisplay = scriptResult.outputLines.map(line => ({
@@ -215,13 +235,11 @@ export default function Home() {
 
         try {
             const executionResult = await executeCommand({
-                userId: SIMULATED_USER_ID,
                 command: commandTrimmed,
                 mode: 'sql',
                 currentLogEntries: logEntries,
                 initialSuggestions,
                 customCommands: customCommands, // Pass the customCommands object
-                overridePermissionChecks: true,
             });
 
             if (executionResult && executionResult.outputLines) {
@@ -315,8 +333,14 @@ export default function Home() {
     }
   };
 
-  const handleCommandSubmit = async (originalCommand: string) => {
+  const handleCommandSubmit = async (originalCommand: string, credentials?: CommandCredentials) => {
     const commandTrimmed = originalCommand.trim();
+    // Passwords are asked for in a dialog and sent next to the command, never as part of it
+    const passwordPromptKind = credentials ? null : getPasswordPromptKind(commandTrimmed, currentUser.username);
+    if (passwordPromptKind) {
+      setPasswordPrompt({ command: commandTrimmed, kind: passwordPromptKind });
+      return;
+    }
     const timestamp = new Date().toISOString();
     let commandLogOutput: OutputLine | null = null;
     let finalCommandLower = ''; // Initialize here for wider scope
@@ -481,13 +505,13 @@ export default function Home() {
 
       // If not client-handled, proceed to server-side execution
       executionResult = await executeCommand({
-        userId: SIMULATED_USER_ID,
         command: finalCommand,
         mode: category as CommandMode, // Pass the classified category
         currentLogEntries: logEntries, // Pass current log entries
         initialSuggestions,
         customCommands: customCommands, // Pass the customCommands object
-        overridePermissionChecks: true, // Passing the override flag
+        classifiedCategory: category, // Recorded in command_history
+        credentials,
       });
       
       // Process results from server-side execution
@@ -532,6 +556,12 @@ export default function Home() {
             if (executionResult.newCustomCommands) {
                 executionResult.newCustomCommands.forEach(cc => addCustomCommand(cc.name, cc.action));
             }
+            if (executionResult.removedCustomCommands) {
+                executionResult.removedCustomCommands.forEach(name => removeCustomCommand(name));
+            }
+            if (executionResult.sessionChanged) {
+                await loadCurrentUser(); // Logged in or out: update the prompt's user and their custom commands
+            }
 
       } else {
           // Handle the case where executionResult or executionResult.outputLines is not as expected
@@ -813,6 +843,16 @@ export default function Home() {
             disabled={isRunning || isTesting} // Disable if tests or command is running
          />
       </footer>
+
+      <PasswordDialog
+        prompt={passwordPrompt}
+        onSubmit={(credentials) => {
+          const command = passwordPrompt?.command;
+          setPasswordPrompt(null);
+          if (command) handleCommandSubmit(command, credentials);
+        }}
+        onCancel={() => setPasswordPrompt(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,34 @@
+// src/components/highlighted-text.tsx
+"use client";
+
+import * as React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string; // Case-insensitive; empty means no highlighting
+}
+
+/**
+ * Renders `text` with every occurrence of `query` wrapped in a <mark>.
+ */
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  if (!query) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  let position = 0;
+  let matchIndex = lowerText.indexOf(lowerQuery);
+  while (matchIndex !== -1) {
+    if (matchIndex > position) parts.push(text.substring(position, matchIndex));
+    parts.push(
+      <mark key={matchIndex} className="rounded-sm bg-yellow-300/70 text-inherit dark:bg-yellow-500/50">
+        {text.substring(matchIndex, matchIndex + query.length)}
+      </mark>
+    );
+    position = matchIndex + query.length;
+    matchIndex = lowerText.indexOf(lowerQuery, position);
+  }
+  if (position < text.length) parts.push(text.substring(position));
+  return <>{parts}</>;
+}
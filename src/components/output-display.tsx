@@ -4,14 +4,30 @@
 
 import * as React from 'react';
 import { Card, CardContent } from "@/components/ui/card";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
 import { cn } from "@/lib/utils";
+import { ResultGrid } from "@/components/result-grid";
+import { HighlightedText } from "@/components/highlighted-text";
+import { useVirtualList } from "@/hooks/use-virtual-list";
 import type { CommandMode } from '@/types/command-types'; // Import shared type
+import { ALL_COMMAND_MODES } from '@/types/command-types';
 import type { LogEntry } from '@/types/log-types'; // Import LogEntry type
 
+export type OutputTableCell = string | number | boolean | null;
+
+// Structured query results, rendered as an interactive grid
+export type OutputTableData = {
+  columns: string[];
+  rows: OutputTableCell[][]; // One array per row, in column order
+};
+
 export type OutputLine = {
   id: string; // For React key prop
-  text: string;
+  text: string; // For tabular output, the plain-text table (used for log export and copying)
+  table?: OutputTableData; // Optional structured rows; rendered as a grid instead of `text`
   type?: 'command' | 'output' | 'error' | 'info' | 'warning';
   category?: CommandMode | 'internal';
   timestamp?: string;
@@ -27,6 +43,11 @@ interface OutputDisplayProps {
   className?: string;
 }
 
+type OutputLineType = NonNullable<OutputLine['type']>;
+
+const LINE_TYPES: OutputLineType[] = ['command', 'output', 'error', 'info', 'warning'];
+const BOTTOM_THRESHOLD = 32; // px from the bottom within which new output keeps the view scrolled down
+
 // Helper to determine category styling
 const getCategoryStyle = (category?: OutputLine['category']): string => {
   switch (category) {
@@ -50,57 +71,221 @@ const getTypeIndicator = (type?: OutputLine['type']): string | null => {
     }
 }
 
+// Whether a line is shown as a log entry: "timestamp,type,flag,text"
+const isLogFormatted = (line: OutputLine): boolean =>
+    (line.type === 'info' || line.type === 'error' || line.type === 'warning') && !!line.timestamp && line.flag !== undefined;
+
+// The text a line displays (and that search matches against)
+const getDisplayText = (line: OutputLine): string => {
+    if (isLogFormatted(line)) {
+        return `${line.timestamp},${getTypeIndicator(line.type)},${line.flag},${line.text}`;
+    }
+    if (line.type === 'command') {
+        const commandDisplayPrefix = line.issuer && line.issuer.username && line.issuer.role
+            ? `partner in role ${line.issuer.role}: ${line.issuer.username}$ `
+            : "$ "; // Fallback prefix for commands
+        return `${commandDisplayPrefix}${line.text}`;
+    }
+    return line.text;
+};
+
+interface OutputLineViewProps {
+  line: OutputLine;
+  query: string;
+  isCurrentMatch: boolean;
+}
+
+const OutputLineView = React.memo(function OutputLineView({ line, query, isCurrentMatch }: OutputLineViewProps) {
+  const showLogFormat = isLogFormatted(line);
+
+  if (line.table && !showLogFormat) {
+    return (
+      <div className={cn("font-sans rounded-sm", isCurrentMatch && "ring-2 ring-primary", getCategoryStyle(line.category))}>
+        <ResultGrid data={line.table} highlight={query} />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex items-start space-x-2 rounded-sm", isCurrentMatch && "ring-2 ring-primary")}>
+       <span className={cn(
+         "whitespace-pre-wrap break-words",
+         line.type === 'command' && 'text-foreground font-semibold',
+         line.type === 'error' && 'text-destructive',
+         (line.type === 'info' || line.type === 'warning') && !showLogFormat && 'text-muted-foreground italic', // Avoid italic if it's a log-formatted line
+         (line.type === 'info' || line.type === 'warning') && showLogFormat && 'text-muted-foreground', // For log-formatted, don't italicize
+         getCategoryStyle(line.category)
+       )}>
+          <HighlightedText text={getDisplayText(line)} query={query} />
+        </span>
+    </div>
+  );
+});
+
+/**
+ * Shows the output history. Only the lines near the viewport are rendered, so long sessions stay fast.
+ * Lines can be filtered by type and category, and searched with highlighted matches and next/previous navigation.
+ */
 export function OutputDisplay({ history, className }: OutputDisplayProps) {
-  const scrollAreaRef = React.useRef<HTMLDivElement>(null);
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const stickToBottomRef = React.useRef(true); // False while the user has scrolled up to read older output
+  const [query, setQuery] = React.useState('');
+  const [typeFilter, setTypeFilter] = React.useState<Set<OutputLineType>>(new Set()); // Empty = all types
+  const [categoryFilter, setCategoryFilter] = React.useState<CommandMode | 'all'>('all');
+  const [currentMatch, setCurrentMatch] = React.useState(0);
+
+  const visibleLines = React.useMemo(() => history.filter(line =>
+    (typeFilter.size === 0 || typeFilter.has(line.type ?? 'output')) &&
+    (categoryFilter === 'all' || line.category === categoryFilter)
+  ), [history, typeFilter, categoryFilter]);
+
+  // Indices (into visibleLines) of the lines that contain the search text
+  const matches = React.useMemo(() => {
+    if (!query) return [];
+    const lowerQuery = query.toLowerCase();
+    const result: number[] = [];
+    visibleLines.forEach((line, index) => {
+      if (getDisplayText(line).toLowerCase().includes(lowerQuery)) result.push(index);
+    });
+    return result;
+  }, [visibleLines, query]);
+
+  const getKey = React.useCallback((index: number) => visibleLines[index].id, [visibleLines]);
+  const { items, totalHeight, measureElement, scrollToIndex } = useVirtualList(scrollRef, {
+    count: visibleLines.length,
+    getKey,
+  });
+
+  // Keep following new output unless the user scrolled away from the bottom
+  React.useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const onScroll = () => {
+      stickToBottomRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < BOTTOM_THRESHOLD;
+    };
+    element.addEventListener('scroll', onScroll, { passive: true });
+    return () => element.removeEventListener('scroll', onScroll);
+  }, []);
+
+  React.useEffect(() => {
+    const element = scrollRef.current;
+    if (element && stickToBottomRef.current && !query) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [visibleLines, totalHeight, query]);
+
+  // A new search starts at the most recent match
+  React.useEffect(() => {
+    setCurrentMatch(Math.max(0, matches.length - 1));
+  }, [query, typeFilter, categoryFilter]); // Not on `matches`, so new output does not move the selection
+
+  const currentLineIndex = matches.length > 0 ? matches[Math.min(currentMatch, matches.length - 1)] : -1;
 
   React.useEffect(() => {
-    if (scrollAreaRef.current) {
-      const viewport = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
-      if (viewport) {
-        viewport.scrollTop = viewport.scrollHeight;
-      }
+    if (currentLineIndex >= 0) {
+      stickToBottomRef.current = false;
+      scrollToIndex(currentLineIndex);
     }
-  }, [history]);
+  }, [currentLineIndex]); // Only jump when the selected match changes, not when heights are re-measured
+
+  const goToMatch = (step: 1 | -1) => {
+    if (matches.length === 0) return;
+    setCurrentMatch(current => (current + step + matches.length) % matches.length);
+  };
+
+  const toggleType = (type: OutputLineType) => {
+    setTypeFilter(current => {
+      const next = new Set(current);
+      if (next.has(type)) next.delete(type);
+      else next.add(type);
+      return next;
+    });
+  };
 
+  const isFiltered = typeFilter.size > 0 || categoryFilter !== 'all';
 
   return (
     <Card className={cn("h-full flex flex-col", className)}>
+      <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                goToMatch(e.shiftKey ? -1 : 1);
+              } else if (e.key === 'Escape') {
+                setQuery('');
+              }
+            }}
+            placeholder="Search output (Enter: next, Shift+Enter: previous)"
+            className="h-8 pl-8 pr-8"
+            aria-label="Search output"
+          />
+          {query && (
+            <button type="button" className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground" onClick={() => setQuery('')} aria-label="Clear search">
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <span className="min-w-[4.5rem] text-xs text-muted-foreground tabular-nums">
+          {query ? (matches.length > 0 ? `${Math.min(currentMatch, matches.length - 1) + 1} of ${matches.length}` : 'No matches') : ''}
+        </span>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => goToMatch(-1)} disabled={matches.length === 0} title="Previous match (Shift+Enter)">
+          <ChevronUp />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => goToMatch(1)} disabled={matches.length === 0} title="Next match (Enter)">
+          <ChevronDown />
+        </Button>
+        <div className="flex items-center gap-1" role="group" aria-label="Filter by type">
+          {LINE_TYPES.map(type => (
+            <Button
+              key={type}
+              variant={typeFilter.has(type) ? 'secondary' : 'ghost'}
+              size="sm"
+              className={cn("h-8 px-2 text-xs", type === 'error' && typeFilter.has(type) && 'text-destructive')}
+              onClick={() => toggleType(type)}
+              aria-pressed={typeFilter.has(type)}
+            >
+              {type}
+            </Button>
+          ))}
+        </div>
+        <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as CommandMode | 'all')}>
+          <SelectTrigger className="h-8 w-[8.5rem] text-xs" aria-label="Filter by category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {ALL_COMMAND_MODES.map(mode => (
+              <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isFiltered && (
+          <Button variant="link" size="sm" className="h-8 px-1 text-xs" onClick={() => { setTypeFilter(new Set()); setCategoryFilter('all'); }}>
+            Clear filters ({visibleLines.length} of {history.length})
+          </Button>
+        )}
+      </div>
       <CardContent className="flex-1 p-4 overflow-hidden">
-         <ScrollArea className="h-full w-full pr-4" ref={scrollAreaRef}>
-          <div className="space-y-2 font-mono text-sm">
-            {history.map((line) => {
-                const typeIndicator = getTypeIndicator(line.type);
-                const showLogFormat = (line.type === 'info' || line.type === 'error' || line.type === 'warning') && line.timestamp && typeIndicator && line.flag !== undefined;
-
-                let commandDisplayPrefix = "";
-                if (line.type === 'command' && !showLogFormat) { // Only apply custom prefix if not in log format
-                    if (line.issuer && line.issuer.username && line.issuer.role) { // Changed to line.issuer.username
-                        commandDisplayPrefix = `partner in role ${line.issuer.role}: ${line.issuer.username}$ `;
-                    } else {
-                        commandDisplayPrefix = "$ "; // Fallback prefix for commands
-                    }
-                }
-
-                return (
-                  <div key={line.id} className="flex items-start space-x-2">
-                     <span className={cn(
-                       "whitespace-pre-wrap break-words",
-                       line.type === 'command' && 'text-foreground font-semibold',
-                       line.type === 'error' && 'text-destructive',
-                       (line.type === 'info' || line.type === 'warning') && !showLogFormat && 'text-muted-foreground italic', // Avoid italic if it's a log-formatted line
-                       (line.type === 'info' || line.type === 'warning') && showLogFormat && 'text-muted-foreground', // For log-formatted, don't italicize
-                       getCategoryStyle(line.category)
-                     )}>
-                        {showLogFormat
-                           ? `${line.timestamp},${typeIndicator},${line.flag},${line.text}`
-                           : `${commandDisplayPrefix}${line.text}`
-                        }
-                      </span>
-                  </div>
-                );
-            })}
+        <div ref={scrollRef} className="h-full w-full overflow-y-auto pr-4">
+          <div className="relative font-mono text-sm" style={{ height: totalHeight }}>
+            {items.map(({ index, key, start }) => (
+              <div
+                key={key}
+                ref={measureElement}
+                data-virtual-key={key}
+                className="absolute left-0 top-0 w-full pb-2" // Padding keeps the spacing between lines
+                style={{ transform: `translateY(${start}px)` }}
+              >
+                <OutputLineView line={visibleLines[index]} query={query} isCurrentMatch={index === currentLineIndex} />
+              </div>
+            ))}
           </div>
-        </ScrollArea>
+        </div>
       </CardContent>
     </Card>
   );
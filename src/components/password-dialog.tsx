@@ -0,0 +1,109 @@
+// src/components/password-dialog.tsx
+"use client";
+
+import * as React from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import type { CommandCredentials } from "@/lib/passwords";
+
+export type PasswordPromptKind = 'login' | 'passwd-self' | 'passwd-other' | 'elevate';
+
+export interface PasswordPrompt {
+  command: string; // The command to run once the passwords are entered, e.g. "login admin"
+  kind: PasswordPromptKind;
+}
+
+/**
+ * Decides whether a typed command needs a password prompt before it is sent to the server.
+ * @param command - The trimmed command.
+ * @param currentUsername - The logged-in user; 'passwd <own name>' asks for the current password.
+ * @returns The kind of prompt, or null for commands without passwords.
+ */
+export function getPasswordPromptKind(command: string, currentUsername: string): PasswordPromptKind | null {
+  if (/^login\s+\S+$/i.test(command)) return 'login';
+  if (/^elevate\s+\d+(\s|$)/i.test(command)) return 'elevate';
+  const passwdMatch = command.match(/^passwd(?:\s+(\S+))?$/i);
+  if (!passwdMatch) return null;
+  return !passwdMatch[1] || passwdMatch[1] === currentUsername ? 'passwd-self' : 'passwd-other';
+}
+
+const PROMPT_ACTIONS: Record<PasswordPromptKind, string> = {
+  'login': 'Log in',
+  'passwd-self': 'Change password',
+  'passwd-other': 'Change password',
+  'elevate': 'Elevate',
+};
+
+interface PasswordDialogProps {
+  prompt: PasswordPrompt | null; // The dialog is open while a prompt is set
+  onSubmit: (credentials: CommandCredentials) => void;
+  onCancel: () => void;
+}
+
+export function PasswordDialog({ prompt, onSubmit, onCancel }: PasswordDialogProps) {
+  const [password, setPassword] = React.useState("");
+  const [newPassword, setNewPassword] = React.useState("");
+  const [confirmPassword, setConfirmPassword] = React.useState("");
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    // Never keep passwords around between prompts
+    setPassword("");
+    setNewPassword("");
+    setConfirmPassword("");
+    setError(null);
+  }, [prompt]);
+
+  const asksCurrentPassword = prompt?.kind === 'login' || prompt?.kind === 'passwd-self' || prompt?.kind === 'elevate';
+  const asksNewPassword = prompt?.kind === 'passwd-self' || prompt?.kind === 'passwd-other';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (asksNewPassword && newPassword !== confirmPassword) {
+      setError("The new passwords do not match.");
+      return;
+    }
+    onSubmit({
+      password: asksCurrentPassword ? password : undefined,
+      newPassword: asksNewPassword ? newPassword : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={!!prompt} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{prompt ? PROMPT_ACTIONS[prompt.kind] : ''}</DialogTitle>
+            <DialogDescription className="font-mono">{prompt?.command}</DialogDescription>
+          </DialogHeader>
+          {asksCurrentPassword && (
+            <div className="space-y-2">
+              <Label htmlFor="password-current">{prompt?.kind === 'passwd-self' ? 'Current password' : 'Password'}</Label>
+              <Input id="password-current" type="password" autoComplete="current-password" autoFocus value={password} onChange={(e) => setPassword(e.target.value)} />
+            </div>
+          )}
+          {asksNewPassword && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="password-new">New password</Label>
+                <Input id="password-new" type="password" autoComplete="new-password" autoFocus={!asksCurrentPassword} value={newPassword} onChange={(e) => setNewPassword(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password-confirm">Confirm new password</Label>
+                <Input id="password-confirm" type="password" autoComplete="new-password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} />
+              </div>
+            </>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button type="submit">{prompt ? PROMPT_ACTIONS[prompt.kind] : ''}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
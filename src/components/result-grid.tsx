@@ -0,0 +1,217 @@
+// src/components/result-grid.tsx
+"use client";
+
+import * as React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Copy } from 'lucide-react';
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { HighlightedText } from "@/components/highlighted-text";
+import type { OutputTableCell, OutputTableData } from '@/components/output-display';
+
+const TRUNCATE_LENGTH = 80; // Longer values are truncated until expanded
+const MIN_COLUMN_WIDTH = 48; // px
+const ROWS_PER_PAGE = 200; // Rows rendered at first and added by each 'show more'
+
+interface ResultGridProps {
+  data: OutputTableData;
+  highlight?: string; // Search text to highlight in headers and cells
+  className?: string;
+}
+
+type SortState = { column: number; direction: 'asc' | 'desc' } | null;
+
+// NULL copies as an empty string, like an empty CSV field
+const cellToText = (cell: OutputTableCell): string => (cell === null ? '' : String(cell));
+
+// Sorts numbers numerically and everything else as text; NULLs always go last
+const compareCells = (a: OutputTableCell, b: OutputTableCell): number => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/**
+ * Renders structured query results as a table with sortable and resizable columns,
+ * click-to-copy cells, a copy button per row, highlighted NULLs and expandable long values.
+ * Only the first ROWS_PER_PAGE rows (in the current sort order) are rendered until more are requested.
+ */
+export function ResultGrid({ data, highlight, className }: ResultGridProps) {
+  const { toast } = useToast();
+  const [sort, setSort] = React.useState<SortState>(null);
+  const [columnWidths, setColumnWidths] = React.useState<Record<number, number>>({});
+  const [expandedCells, setExpandedCells] = React.useState<Set<string>>(new Set());
+  const [visibleRowCount, setVisibleRowCount] = React.useState(ROWS_PER_PAGE);
+
+  const rowOrder = React.useMemo(() => {
+    const order = data.rows.map((_, index) => index);
+    if (sort) {
+      const direction = sort.direction === 'asc' ? 1 : -1;
+      order.sort((a, b) => {
+        const cellA = data.rows[a][sort.column];
+        const cellB = data.rows[b][sort.column];
+        if (cellA === null || cellB === null) return compareCells(cellA, cellB); // NULLs last in both directions
+        return direction * compareCells(cellA, cellB) || a - b;
+      });
+    }
+    return order;
+  }, [data.rows, sort]);
+
+  // Cycles a column through ascending, descending and unsorted
+  const toggleSort = (column: number) => {
+    setSort(current => {
+      if (!current || current.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const startResize = (column: number, event: React.MouseEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const header = event.currentTarget.parentElement;
+    if (!header) return;
+    const startX = event.clientX;
+    const startWidth = header.getBoundingClientRect().width;
+
+    const onMouseMove = (moveEvent: MouseEvent) => {
+      setColumnWidths(current => ({ ...current, [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX) }));
+    };
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text)
+      .then(() => toast({ title: "Copied", description: `${label} copied to clipboard.` }))
+      .catch(() => toast({ title: "Copy failed", description: "Could not write to the clipboard.", variant: "destructive" }));
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedCells(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const renderCell = (cell: OutputTableCell, key: string) => {
+    if (cell === null) {
+      return <span className="rounded bg-muted px-1 italic text-muted-foreground">NULL</span>;
+    }
+    const text = String(cell);
+    if (text.length <= TRUNCATE_LENGTH) return <HighlightedText text={text} query={highlight} />;
+    const expanded = expandedCells.has(key);
+    return (
+      <>
+        <HighlightedText text={expanded ? text : `${text.substring(0, TRUNCATE_LENGTH)}…`} query={highlight} />
+        <button
+          type="button"
+          className="ml-1 text-xs text-primary underline-offset-2 hover:underline"
+          onClick={(event) => { event.stopPropagation(); toggleExpanded(key); }}
+        >
+          {expanded ? 'less' : `more (${text.length} chars)`}
+        </button>
+      </>
+    );
+  };
+
+  return (
+    <Table className={cn("w-auto font-mono text-xs", className)}>
+      <TableCaption className="mt-1 text-left text-xs">
+        {visibleRowCount < data.rows.length ? (
+          <>
+            Showing {visibleRowCount} of {data.rows.length} rows
+            <Button
+              variant="link"
+              size="sm"
+              className="ml-2 h-auto p-0 text-xs"
+              onClick={() => setVisibleRowCount(count => count + ROWS_PER_PAGE)}
+            >
+              Show {Math.min(ROWS_PER_PAGE, data.rows.length - visibleRowCount)} more
+            </Button>
+          </>
+        ) : (
+          <>{data.rows.length} row{data.rows.length === 1 ? '' : 's'}</>
+        )}
+      </TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="h-8 w-8 px-1" aria-label="Copy row" />
+          {data.columns.map((column, columnIndex) => {
+            const width = columnWidths[columnIndex];
+            const SortIcon = sort?.column === columnIndex ? (sort.direction === 'asc' ? ArrowUp : ArrowDown) : ArrowUpDown;
+            return (
+              <TableHead
+                key={`${column}-${columnIndex}`}
+                className="relative h-8 select-none px-2"
+                style={width ? { width, minWidth: width, maxWidth: width } : undefined}
+                aria-sort={sort?.column === columnIndex ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+              >
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-1 truncate font-semibold hover:text-foreground"
+                  onClick={() => toggleSort(columnIndex)}
+                  title="Sort"
+                >
+                  <span className="truncate"><HighlightedText text={column} query={highlight} /></span>
+                  <SortIcon className={cn("h-3 w-3 shrink-0", sort?.column !== columnIndex && "opacity-40")} />
+                </button>
+                <div
+                  className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-border"
+                  onMouseDown={(event) => startResize(columnIndex, event)}
+                  role="separator"
+                  aria-orientation="vertical"
+                  aria-label={`Resize column ${column}`}
+                />
+              </TableHead>
+            );
+          })}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rowOrder.slice(0, visibleRowCount).map(rowIndex => {
+          const row = data.rows[rowIndex];
+          return (
+            <TableRow key={rowIndex} className="group">
+              <TableCell className="w-8 px-1 py-0.5">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                  onClick={() => copyToClipboard(row.map(cellToText).join('\t'), 'Row')}
+                  title="Copy row (tab-separated)"
+                >
+                  <Copy />
+                </Button>
+              </TableCell>
+              {row.map((cell, columnIndex) => {
+                const width = columnWidths[columnIndex];
+                const key = `${rowIndex}:${columnIndex}`;
+                return (
+                  <TableCell
+                    key={columnIndex}
+                    className={cn(
+                      "cursor-copy whitespace-pre-wrap break-words px-2 py-0.5 align-top",
+                      typeof cell === 'number' && "text-right tabular-nums"
+                    )}
+                    style={width ? { width, minWidth: width, maxWidth: width } : undefined}
+                    onClick={() => copyToClipboard(cellToText(cell), 'Cell')}
+                    title="Click to copy"
+                  >
+                    {renderCell(cell, key)}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -17,6 +17,13 @@ export const useCustomCommands = () => {
     }));
   }, []);
 
+  const removeCustomCommand = React.useCallback((name: string) => {
+    setCustomCommands((prev) => {
+      const { [name.toLowerCase()]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
   const getCustomCommandAction = React.useCallback(
     (name: string): CustomCommandAction | undefined => {
       return customCommands[name.toLowerCase()];
@@ -24,5 +31,5 @@ export const useCustomCommands = () => {
     [customCommands]
   );
 
-  return { customCommands, addCustomCommand, getCustomCommandAction };
+  return { customCommands, addCustomCommand, removeCustomCommand, getCustomCommandAction };
 };
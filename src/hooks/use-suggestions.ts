@@ -28,7 +28,7 @@ const initialSuggestionsData: Record<CommandMode, string[]> = {
   unix: ['ls', 'cd <directory>', 'pwd', 'mkdir <directory_name>', 'rm <file_or_directory>', 'cp <source> <destination>', 'mv <source> <destination>', 'cat <file>', 'grep "<pattern>" <file>', 'echo "<text>"', 'man <command>', 'sudo <command>'],
   windows: ['dir [drive:][path][filename]', 'cd [drive:][path]', 'cls', 'mkdir [drive:]path', 'rmdir [drive:]path', 'copy <source> <destination>', 'move <source> <destination>', 'type [drive:][path]filename', 'findstr /C:"string" <filename>', 'echo [message]', 'help [command]'],
   sql: ['SELECT * FROM <table_name>;', 'INSERT INTO <table_name> (column1, column2) VALUES (value1, value2);', 'UPDATE <table_name> SET column1 = value1 WHERE condition;', 'DELETE FROM <table_name> WHERE condition;', 'CREATE TABLE <table_name> (column1 datatype, column2 datatype);', 'ALTER TABLE <table_name> ADD column_name datatype;', 'DROP TABLE <table_name>;', 'SELECT 1;', 'SELECT * FROM INFORMATION_SCHEMA.TABLES;', "SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'your_table_name';"],
-  excel: ['SUM(A1:B5)', 'AVERAGE(C1:C10)', 'COUNT(D1:D100)', 'MAX(E1:E50)', 'MIN(F1:F20)', 'IF(logical_test, value_if_true, value_if_false)', 'VLOOKUP(lookup_value, table_array, col_index_num, [range_lookup])', 'HLOOKUP(lookup_value, table_array, row_index_num, [range_lookup])', 'INDEX(array, row_num, [column_num])', 'MATCH(lookup_value, lookup_array, [match_type])'],
+  excel: ['A1 = 10', 'B1 = =SUM(A1:A5)', 'sheet Sheet2', 'SUM(A1:B5)', 'AVERAGE(C1:C10)', 'COUNT(D1:D100)', 'MAX(E1:E50)', 'MIN(F1:F20)', 'IF(logical_test, value_if_true, value_if_false)', 'VLOOKUP(lookup_value, table_array, col_index_num, [range_lookup])', 'HLOOKUP(lookup_value, table_array, row_index_num, [range_lookup])', 'INDEX(array, row_num, [column_num])', 'MATCH(lookup_value, lookup_array, [match_type])'],
   typescript: [
     'console.log("message");', 'let variableName: type = value;', 'const constantName: type = value;', 'type CustomType = { property: type };', 'interface MyInterface { method(): void; }', 'function functionName(param: type): returnType { /* ... */ }', 'import { member } from "module";', 'export const exportedValue = 123;'
   ],
@@ -0,0 +1,132 @@
+// src/hooks/use-virtual-list.ts
+import * as React from 'react';
+
+interface UseVirtualListOptions {
+  count: number; // Number of items in the list
+  getKey: (index: number) => string; // Stable key per item; measured heights are remembered by key
+  estimateHeight?: number; // Height in px assumed for items that have not been rendered yet
+  overscan?: number; // Extra px rendered above and below the viewport
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number; // Offset in px from the top of the list
+}
+
+/**
+ * Windowed rendering for long lists of variable-height items.
+ * Only the items in (or near) the scroll container's viewport are returned; each rendered
+ * item must attach `measureElement` so its real height replaces the estimate.
+ * @param scrollRef - The scrollable container element.
+ */
+export function useVirtualList(scrollRef: React.RefObject<HTMLElement>, { count, getKey, estimateHeight = 24, overscan = 600 }: UseVirtualListOptions) {
+  const heightsRef = React.useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = React.useState(0);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewportHeight, setViewportHeight] = React.useState(0);
+
+  // offsets[i] is the top of item i; offsets[count] is the total height
+  const offsets = React.useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (heightsRef.current.get(getKey(i)) ?? estimateHeight);
+    }
+    return result;
+  }, [count, getKey, estimateHeight, measureVersion]); // measureVersion changes whenever a measured height changes
+
+  React.useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    let frame = 0;
+    const onScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setScrollTop(element.scrollTop));
+    };
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    element.addEventListener('scroll', onScroll, { passive: true });
+    resizeObserver.observe(element);
+    setViewportHeight(element.clientHeight);
+    setScrollTop(element.scrollTop);
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener('scroll', onScroll);
+      resizeObserver.disconnect();
+    };
+  }, [scrollRef]);
+
+  // One observer for all rendered items; height changes are applied together on the next frame
+  const itemObserver = React.useMemo(() => {
+    if (typeof ResizeObserver === 'undefined') return null;
+    let frame = 0;
+    return new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (key !== undefined && heightsRef.current.get(key) !== height) {
+          heightsRef.current.set(key, height);
+          changed = true;
+        }
+      }
+      if (changed) {
+        cancelAnimationFrame(frame);
+        frame = requestAnimationFrame(() => setMeasureVersion(version => version + 1));
+      }
+    });
+  }, []);
+
+  const observedElementsRef = React.useRef(new Set<HTMLElement>());
+
+  React.useEffect(() => () => {
+    itemObserver?.disconnect();
+    observedElementsRef.current.clear();
+  }, [itemObserver]);
+
+  // Stop observing items that scrolled out of the window and were unmounted
+  React.useEffect(() => {
+    observedElementsRef.current.forEach(element => {
+      if (!element.isConnected) {
+        itemObserver?.unobserve(element);
+        observedElementsRef.current.delete(element);
+      }
+    });
+  });
+
+  const measureElement = React.useCallback((element: HTMLElement | null) => {
+    if (element && itemObserver && !observedElementsRef.current.has(element)) {
+      itemObserver.observe(element);
+      observedElementsRef.current.add(element);
+    }
+  }, [itemObserver]);
+
+  // Binary search for the first item whose bottom edge is below the window start
+  const windowStart = Math.max(0, scrollTop - overscan);
+  const windowEnd = scrollTop + viewportHeight + overscan;
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= windowStart) low = mid + 1;
+    else high = mid;
+  }
+  const items: VirtualItem[] = [];
+  for (let i = low; i < count && offsets[i] < windowEnd; i++) {
+    items.push({ index: i, key: getKey(i), start: offsets[i] });
+  }
+
+  const scrollToIndex = React.useCallback((index: number, align: 'start' | 'center' | 'end' = 'center') => {
+    const element = scrollRef.current;
+    if (!element || index < 0 || index >= count) return;
+    const itemHeight = offsets[index + 1] - offsets[index];
+    const top = align === 'start'
+      ? offsets[index]
+      : align === 'end'
+        ? offsets[index + 1] - element.clientHeight
+        : offsets[index] - (element.clientHeight - itemHeight) / 2;
+    element.scrollTop = Math.max(0, top);
+  }, [scrollRef, count, offsets]);
+
+  return { items, totalHeight: offsets[count], measureElement, scrollToIndex };
+}
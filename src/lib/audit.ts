@@ -0,0 +1,107 @@
+// src/lib/audit.ts
+/**
+ * @fileOverview The security audit trail (the append-only audit_events table).
+ * Security-relevant paths record an event here on the server, so the history survives reloads
+ * unlike the client-held log. The 'audit' command reads it. What keeps the trail append-only, and
+ * what does not, is described in migrations/20261019130000_create_audit_events_table.sql.
+ * Not a 'use server' module: clients must not be able to write (or forge) audit events.
+ */
+
+import { runSql } from './database';
+import { GUEST_USER_ID } from './sessions';
+
+export type AuditOutcome = 'success' | 'denied' | 'failure';
+
+export interface AuditEvent {
+    actorId: number;
+    action: string; // Dotted name, e.g. 'permission.denied', 'rbac.add_role', 'database.export'
+    target?: string | null;
+    outcome: AuditOutcome;
+    details?: Record<string, unknown>;
+}
+
+export interface AuditEventFilters {
+    actor?: string; // Username
+    action?: string; // Exact action, or a prefix ending in '*' (e.g. 'rbac.*')
+    outcome?: AuditOutcome;
+    since?: string; // ISO 8601
+    until?: string; // ISO 8601
+    last?: number;
+}
+
+/**
+ * Appends an event to the audit trail.
+ * Failures are logged to the console but never thrown, like command history, so a missing
+ * table (before 'init db' or 'migrate up') does not break the command being audited.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+    try {
+        await runSql(
+            `INSERT INTO audit_events (occurred_at, actor_id, actor, action, target, outcome, details)
+             VALUES (?, ?, COALESCE((SELECT username FROM users WHERE user_id = ?), ?), ?, ?, ?, ?)`,
+            [
+                new Date().toISOString(),
+                event.actorId,
+                event.actorId,
+                event.actorId === GUEST_USER_ID ? 'guest' : `user#${event.actorId}`,
+                event.action,
+                event.target ?? null,
+                event.outcome,
+                event.details ? JSON.stringify(event.details) : null,
+            ]
+        );
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('no such table')) {
+            console.warn(`Audit event '${event.action}' not recorded: 'audit_events' table missing. Run 'migrate up' (or 'init db').`);
+            return;
+        }
+        console.error('Error recording audit event:', error);
+    }
+}
+
+/**
+ * Retrieves audit events, newest last, applying the optional filters.
+ * @returns The matching events; 50 unless `last` is given.
+ * @throws Throws an error if the database query fails.
+ */
+export async function queryAuditEvents(filters: AuditEventFilters = {}): Promise<any[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.actor) {
+        conditions.push('actor = ?');
+        params.push(filters.actor);
+    }
+    if (filters.action) {
+        if (filters.action.endsWith('*')) {
+            conditions.push(`action LIKE ? || '%' ESCAPE '\\'`);
+            params.push(filters.action.slice(0, -1).replace(/[\\%_]/g, '\\$&'));
+        } else {
+            conditions.push('action = ?');
+            params.push(filters.action);
+        }
+    }
+    if (filters.outcome) {
+        conditions.push('outcome = ?');
+        params.push(filters.outcome);
+    }
+    if (filters.since) {
+        conditions.push('occurred_at >= ?');
+        params.push(filters.since);
+    }
+    if (filters.until) {
+        conditions.push('occurred_at <= ?');
+        params.push(filters.until);
+    }
+    params.push(filters.last && filters.last > 0 ? filters.last : 50);
+
+    const { results } = await runSql(`
+        SELECT * FROM (
+            SELECT event_id AS id, occurred_at, actor, action, target, outcome, details
+            FROM audit_events
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ORDER BY event_id DESC
+            LIMIT ?
+        ) ORDER BY id ASC`, params);
+    return results || [];
+}
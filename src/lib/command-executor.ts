@@ -5,42 +5,65 @@
 import type { CustomCommandAction, CustomCommands } from '@/hooks/use-custom-commands';
 import type { OutputLine } from '@/components/output-display';
 import type { CommandMode } from '@/types/command-types';
-import { formatResultsAsTable } from '@/lib/formatting';
+import { formatResultsAsTable, formatResultsAs, formatResultsAsTableData } from '@/lib/formatting';
+import type { ResultTextFormat } from '@/lib/formatting';
 import { handleInternalCommand, type HandlerResult as InternalHandlerResult } from '@/lib/internal-commands';
 import { storeVariableInDb } from '@/lib/variables';
+import { runPythonCode } from '@/lib/python-runner';
+import { runTypeScriptCode } from '@/lib/typescript-runner';
+import { runVirtualShellCommand } from '@/lib/virtual-shell';
+import { runSpreadsheetCommand } from '@/lib/spreadsheet';
 import { getUserPermissions } from '@/lib/permissions';
 import type { LogEntry } from '@/types/log-types';
 import { runSql } from '@/lib/database';
+import { recordCommandHistory } from '@/lib/command-history';
+import { ensureSnapshotScheduler } from '@/lib/snapshots';
+import { GUEST_USER_ID, getSession, isLoginBootstrapNeeded, readSessionCookie, writeSessionCookie } from '@/lib/sessions';
+import { getActiveElevation, recordElevationUse } from '@/lib/elevations';
+import { recordAuditEvent } from '@/lib/audit';
+import type { CommandCredentials } from '@/lib/passwords';
+import { canAccess, evaluatePolicy, type PolicyContext } from '@/lib/policy';
 
 interface ExecuteCommandParams {
-  userId: number;
   command: string;
   mode: CommandMode;
   currentLogEntries: LogEntry[];
   initialSuggestions: Record<string, string[]>;
   customCommands: CustomCommands; // Pass the customCommands object
-  overridePermissionChecks?: boolean;
+  classifiedCategory?: string; // Category returned by classifyCommand, recorded in command_history
+  macroDepth?: number; // Nesting level when run as a step of a custom command or .sim script
+  credentials?: CommandCredentials; // Passwords for login/passwd, collected by the client outside the command text
 }
 
 export interface ExecuteCommandResult {
   outputLines: OutputLine[];
   newSuggestions?: { mode: CommandMode; command: string }[];
   newCustomCommands?: { name: string; action: CustomCommandAction }[];
+  removedCustomCommands?: string[];
   newLogEntries?: LogEntry[];
   toastInfo?: { message: string; variant?: 'default' | 'destructive' };
+  sessionChanged?: boolean; // The command logged in or out; the client should refresh the current user
 }
 
 export async function executeCommand ({
-    userId,
     command,
     mode,
     currentLogEntries,
     initialSuggestions,
     customCommands, // Receive customCommands object
-    overridePermissionChecks = false
+    classifiedCategory,
+    macroDepth = 0,
+    credentials
 }: ExecuteCommandParams): Promise<ExecuteCommandResult> {
+  // The user comes from the session cookie, never from the client; without a session commands run as the guest
+  const sessionToken = await readSessionCookie();
+  const session = sessionToken ? await getSession(sessionToken) : null;
+  const userId = session?.userId ?? GUEST_USER_ID;
+  const elevation = session ? await getActiveElevation(sessionToken!) : null;
   console.log(`[executeCommand] Received command: "${command}", Mode: "${mode}", User ID: ${userId}`);
+  await ensureSnapshotScheduler(); // No-op after the first command of the server process
 
+  const startedAt = Date.now();
   const timestamp = new Date().toISOString();
   const commandTrimmed = command.trim();
   const commandLower = commandTrimmed.toLowerCase();
@@ -59,48 +82,74 @@ export async function executeCommand ({
 
   let newSuggestionsResult: ExecuteCommandResult['newSuggestions'];
   let newCustomCommandsResult: ExecuteCommandResult['newCustomCommands'];
+  let removedCustomCommandsResult: ExecuteCommandResult['removedCustomCommands'];
   let toastInfoResult: ExecuteCommandResult['toastInfo'];
-
-
-  if (overridePermissionChecks) {
-    const warningMsg = `WARNING: All permission checks are currently bypassed for user ${userId}.`;
-    logEntryToAdd = { timestamp, type: 'W', flag: 1, text: warningMsg };
-    outputLines.push({ id: `perm-override-warn-${timestamp}`, text: warningMsg, type: 'warning', category: 'internal', timestamp, flag: 1 });
-    potentiallyUpdatedLogs = logEntryToAdd ? [...currentLogEntries, logEntryToAdd] : [...currentLogEntries];
-  }
+  let sessionChanged = false;
 
 
   let userPermissions: string[] = [];
-  if (!overridePermissionChecks) {
-      if (commandLower !== 'help' && commandLower !== 'init db') {
-          const permResult = await getUserPermissions(userId);
-          if (Array.isArray(permResult)) {
-              userPermissions = permResult;
-          } else {
-               const errorMsg = permResult.code === 'DB_NOT_INITIALIZED'
-                    ? "Permission check skipped: Database RBAC tables not initialized. Please run 'init db'."
-                    : `Error fetching user permissions: ${permResult.error}`;
-               outputLines.push({ id: `perm-err-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 });
-               const permErrorLog: LogEntry = { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User ID: ${userId})` };
-               return {
-                   outputLines: [commandOutput, ...outputLines],
-                   newLogEntries: potentiallyUpdatedLogs ? [...potentiallyUpdatedLogs, permErrorLog] : [...currentLogEntries, permErrorLog],
-                   newSuggestions: newSuggestionsResult,
-                   newCustomCommands: newCustomCommandsResult,
-                   toastInfo: toastInfoResult
-               };
-          }
+  if (userId !== GUEST_USER_ID) {
+      const permResult = await getUserPermissions(userId);
+      if (Array.isArray(permResult)) {
+          userPermissions = permResult;
+      } else {
+           const errorMsg = permResult.code === 'DB_NOT_INITIALIZED'
+                ? "Permission check skipped: Database RBAC tables not initialized. Please run 'init db'."
+                : `Error fetching user permissions: ${permResult.error}`;
+           outputLines.push({ id: `perm-err-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 });
+           const permErrorLog: LogEntry = { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User ID: ${userId})` };
+           await recordCommandHistory({ userId, mode, command: commandTrimmed, category: classifiedCategory ?? mode, durationMs: Date.now() - startedAt, success: false, errorMessage: errorMsg, executedAt: timestamp });
+           return {
+               outputLines: [commandOutput, ...outputLines],
+               newLogEntries: potentiallyUpdatedLogs ? [...potentiallyUpdatedLogs, permErrorLog] : [...currentLogEntries, permErrorLog],
+               newSuggestions: newSuggestionsResult,
+               newCustomCommands: newCustomCommandsResult,
+               toastInfo: toastInfoResult
+           };
       }
-  } else {
-      userPermissions = ['override_all_permissions'];
   }
 
 
+  const policyContext: PolicyContext = { userPermissions, elevation };
+
   try {
       const assignmentRegex = /^\s*([a-zA-Z_]\w*)\s*=\s*(.+)\s*$/;
       const assignmentMatch = commandTrimmed.match(assignmentRegex);
+      // The one permission check for the command itself; see POLICY_RULES in policy.ts
+      let policyDecision = evaluatePolicy(mode, commandTrimmed, policyContext);
+      if (!policyDecision.allowed && policyDecision.rule.bootstrap && await isLoginBootstrapNeeded()) {
+          policyDecision = evaluatePolicy(mode, commandTrimmed, { ...policyContext, bootstrapping: true });
+      }
+      if (policyDecision.elevated && elevation) {
+          await recordElevationUse(elevation, userId, mode, commandTrimmed, policyDecision.permission!);
+          await recordAuditEvent({ actorId: userId, action: 'elevation.use', target: commandTrimmed, outcome: 'success', details: { mode, permission: policyDecision.permission, elevationId: elevation.elevationId } });
+          const warningMsg = `Elevated: '${policyDecision.permission}' is granted by elevation #${elevation.elevationId} (expires ${elevation.expiresAt}). This use is recorded.`;
+          outputLines.push({ id: `elevation-used-${timestamp}`, text: warningMsg, type: 'warning', category: 'internal', timestamp, flag: 1 });
+          potentiallyUpdatedLogs = [...currentLogEntries, { timestamp, type: 'W', flag: 1, text: `${warningMsg} Command: ${commandTrimmed} (User: ${userId})` }];
+      }
+
+      if (!policyDecision.allowed) {
+          const hint = !policyDecision.rule.forbidden && canAccess('elevation', { userPermissions }) ? " Use 'elevate <minutes> [reason]' to run it with elevated privileges." : '';
+          outputLines.push({ id: `perm-denied-${timestamp}`, text: `${policyDecision.message}${hint}`, type: 'error', category: mode, timestamp, flag: 1 });
+          logEntryToAdd = { timestamp, type: 'E', flag: 1, text: `${policyDecision.message} (User: ${userId})` };
+          await recordAuditEvent({ actorId: userId, action: 'permission.denied', target: commandTrimmed, outcome: 'denied', details: { mode, permission: policyDecision.permission, resource: policyDecision.rule.resource } });
+      }
+      else if (assignmentMatch && mode === 'internal') {
+          const variableName = assignmentMatch[1];
+          const valueString = assignmentMatch[2].trim();
+          let dataType = 'unknown';
+          let actualValue: any = valueString;
+
+          if (/^\d+$/.test(valueString)) { dataType = 'integer'; actualValue = parseInt(valueString, 10); }
+          else if (/^\d+\.\d+$/.test(valueString)) { dataType = 'real'; actualValue = parseFloat(valueString); }
+          else if (valueString === 'True' || valueString === 'False') { dataType = 'boolean'; actualValue = valueString === 'True'; }
+          else if ((valueString.startsWith('"') && valueString.endsWith('"')) || (valueString.startsWith("'") && valueString.endsWith("'"))) { dataType = 'string'; actualValue = valueString.slice(1, -1); }
+          else { dataType = 'string'; actualValue = valueString; }
 
-      if (mode === 'internal') {
+          await storeVariableInDb(variableName, String(actualValue), dataType);
+          logEntryToAdd = { timestamp, type: 'I', flag: 0, text: `Stored/Updated ${mode} variable '${variableName}' type '${dataType}' value: ${String(actualValue)} (User: ${userId})` };
+      }
+      else if (mode === 'internal') {
         const internalResult: InternalHandlerResult = await handleInternalCommand({
             userId,
             userPermissions,
@@ -113,70 +162,110 @@ export async function executeCommand ({
             customCommands, // Pass customCommands object
             currentLogEntries: potentiallyUpdatedLogs || currentLogEntries,
             initialSuggestions,
-            overridePermissionChecks
+            elevation,
+            macroDepth,
+            sessionToken,
+            credentials
         });
         outputLines = [...outputLines, ...internalResult.outputLines];
         potentiallyUpdatedLogs = internalResult.newLogEntries;
         toastInfoResult = internalResult.toastInfo;
         newSuggestionsResult = internalResult.newSuggestions;
         newCustomCommandsResult = internalResult.newCustomCommands;
+        removedCustomCommandsResult = internalResult.removedCustomCommands;
+        if (internalResult.session !== undefined) {
+            try {
+                await writeSessionCookie(internalResult.session);
+                sessionChanged = true;
+            } catch (error) {
+                const warningMsg = `Warning: Could not update the session cookie: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                outputLines.push({ id: `session-cookie-warn-${timestamp}`, text: warningMsg, type: 'warning', category: 'internal', timestamp, flag: 1 });
+            }
+        }
       }
-      else if (assignmentMatch && (mode === 'internal' || mode === 'python')) {
-          if (!overridePermissionChecks && !userPermissions.includes('manage_variables')) {
-              const errorMsg = "Permission denied: Cannot manage variables.";
-              throw new Error(errorMsg);
-          }
-          const variableName = assignmentMatch[1];
-          const valueString = assignmentMatch[2].trim();
-          let dataType = 'unknown';
-          let actualValue: any = valueString;
+      else if (mode === 'python') {
+         const canReadVariables = canAccess('variables:read', policyContext);
+         const canManageVariables = canAccess('variables:write', policyContext);
 
-          if (/^\d+$/.test(valueString)) { dataType = 'integer'; actualValue = parseInt(valueString, 10); }
-          else if (/^\d+\.\d+$/.test(valueString)) { dataType = 'real'; actualValue = parseFloat(valueString); }
-          else if (valueString === 'True' || valueString === 'False') { dataType = 'boolean'; actualValue = valueString === 'True'; }
-          else if ((valueString.startsWith('"') && valueString.endsWith('"')) || (valueString.startsWith("'") && valueString.endsWith("'"))) { dataType = 'string'; actualValue = valueString.slice(1, -1); }
-          else if (mode === 'python' && valueString.toLowerCase() === 'none') { dataType = 'none'; actualValue = null; }
-          else { dataType = 'string'; actualValue = valueString; }
+         const pyResult = await runPythonCode(userId, commandTrimmed, { seedFromVariables: canReadVariables });
+         if (pyResult.stdout) {
+             outputLines.push({ id: `out-${timestamp}`, text: pyResult.stdout.replace(/\n$/, ''), type: 'output', category: 'python', timestamp: undefined, flag: 0 });
+         }
+         if (pyResult.stderr) {
+             outputLines.push({ id: `py-stderr-${timestamp}`, text: pyResult.stderr.replace(/\n$/, ''), type: 'warning', category: 'python', timestamp, flag: 1 });
+         }
+         if (pyResult.error) {
+             outputLines.push({ id: `py-err-${timestamp}`, text: pyResult.error.replace(/\n$/, ''), type: 'error', category: 'python', timestamp, flag: 1 });
+         }
+         if (pyResult.timedOut) {
+             outputLines.push({ id: `py-timeout-${timestamp}`, text: 'Python execution timed out. The interpreter was stopped and its session state was reset.', type: 'error', category: 'python', timestamp, flag: 1 });
+         }
 
-          await storeVariableInDb(variableName, String(actualValue), dataType);
-          logEntryToAdd = { timestamp, type: 'I', flag: 0, text: `Stored/Updated ${mode} variable '${variableName}' type '${dataType}' value: ${String(actualValue)} (User: ${userId})` };
-      }
-      else if (mode === 'python') {
-         if (commandLower.startsWith('print(')) {
-            const matchPrint = commandTrimmed.match(/print\((['"]?)(.*?)\1\)/);
-            const printOutput = matchPrint ? matchPrint[2] : 'Syntax Error in print';
-            const type: OutputLine['type'] = matchPrint ? 'output' : 'error';
-            outputLines.push({ id: `out-${timestamp}`, text: printOutput, type: type, category: 'python', timestamp: type === 'error' ? timestamp : undefined, flag: type === 'error' ? 1 : 0 });
-            logEntryToAdd = { timestamp, type: matchPrint ? 'I' : 'E', flag: matchPrint ? 0 : 1, text: `Python print: ${printOutput} (User: ${userId})` };
-         } else {
-            await new Promise(resolve => setTimeout(resolve, Math.random() * 500 + 100));
-            const simOutput = `Simulating Python: ${commandTrimmed} (output placeholder)`;
-            outputLines.push({ id: `out-${timestamp}`, text: simOutput, type: 'output', category: 'python', timestamp: undefined, flag: 0 });
-            logEntryToAdd = { timestamp, type: 'I', flag: 0, text: `${simOutput} (User: ${userId})` };
+         // Mirror simple variables assigned in Python into the 'variables' table
+         let mirroredCount = 0;
+         if (pyResult.changedVariables.length > 0) {
+             if (canManageVariables) {
+                 for (const variable of pyResult.changedVariables) {
+                     await storeVariableInDb(variable.name, variable.value, variable.datatype);
+                     mirroredCount++;
+                 }
+             } else {
+                 outputLines.push({ id: `py-vars-perm-${timestamp}`, text: `Python variables (${pyResult.changedVariables.map(v => v.name).join(', ')}) were not stored: permission 'manage_variables' required.`, type: 'warning', category: 'python', timestamp, flag: 1 });
+             }
          }
+
+         const pyFailed = !!pyResult.error || pyResult.timedOut;
+         logEntryToAdd = {
+             timestamp,
+             type: pyFailed ? 'E' : 'I',
+             flag: pyFailed ? 1 : 0,
+             text: `Python execution ${pyResult.timedOut ? 'timed out' : (pyResult.error ? 'failed' : 'succeeded')}. ${mirroredCount} variable(s) mirrored. (User: ${userId})`
+         };
       }
       else if (mode === 'unix' || mode === 'windows') {
-        await new Promise(resolve => setTimeout(resolve, Math.random() * 800 + 100));
-        let simOutput = `Simulating ${mode}: ${commandTrimmed} (output placeholder)`;
-        if (commandLower === 'ls' && mode === 'unix') simOutput = 'file1.txt  directoryA  script.sh';
-        else if (commandLower === 'dir' && mode === 'windows') simOutput = ' Volume in drive C ...\nfile1.txt ...';
-        else if (commandLower.startsWith('echo ')) simOutput = commandTrimmed.substring(5);
-        outputLines.push({ id: `out-${timestamp}`, text: simOutput, type: 'output', category: mode, timestamp: undefined, flag: 0 });
-        logEntryToAdd = { timestamp, type: 'I', flag: 0, text: `${mode} simulation output: ${simOutput} (User: ${userId})` };
+        try {
+          const shellResult = await runVirtualShellCommand(userId, mode, commandTrimmed);
+          if (shellResult.stdout) {
+            outputLines.push({ id: `out-${timestamp}`, text: shellResult.stdout.replace(/\n$/, ''), type: 'output', category: mode, timestamp: undefined, flag: 0 });
+          }
+          if (shellResult.stderr) {
+            outputLines.push({ id: `shell-err-${timestamp}`, text: shellResult.stderr, type: 'error', category: mode, timestamp, flag: 1 });
+          }
+          logEntryToAdd = {
+            timestamp,
+            type: shellResult.stderr ? 'E' : 'I',
+            flag: shellResult.stderr ? 1 : 0,
+            text: `${mode} command exited with code ${shellResult.exitCode} in ${shellResult.cwd}. (User: ${userId})`
+          };
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Unknown virtual filesystem error';
+          const displayError = errorMsg.includes('no such table') ? `${errorMsg}. Consider running 'init db'.` : errorMsg;
+          outputLines.push({ id: `err-${timestamp}`, text: displayError, type: 'error', category: mode, timestamp, flag: 1 });
+          logEntryToAdd = { timestamp, type: 'E', flag: 1, text: `${mode} error: ${displayError} (User: ${userId})` };
+        }
       }
       else if (mode === 'sql') {
          await new Promise(resolve => setTimeout(resolve, Math.random() * 200 + 50));
          try {
-           const isSelectQuery = commandTrimmed.trim().toUpperCase().startsWith('SELECT');
-           if (!overridePermissionChecks && isSelectQuery && !userPermissions.includes('execute_sql_select')) throw new Error("Permission denied: Cannot execute SELECT queries.");
-           if (!overridePermissionChecks && !isSelectQuery && !userPermissions.includes('execute_sql_modify')) throw new Error("Permission denied: Cannot execute modifying SQL queries.");
+           // Optional trailing '--format csv|json|md|tsv' (otherwise an SQL comment) selects a machine-readable output format
+           const formatMatch = commandTrimmed.match(/\s*--format[\s=]+(\S+?)\s*;?\s*$/i);
+           const outputFormat = formatMatch ? formatMatch[1].toLowerCase() : null;
+           if (outputFormat && !['csv', 'json', 'md', 'tsv'].includes(outputFormat)) {
+             throw new Error(`Unsupported format '${formatMatch![1]}'. Use csv, json, md or tsv (xlsx is available via 'export query').`);
+           }
+           const sqlToRun = formatMatch ? commandTrimmed.slice(0, formatMatch.index).trim() : commandTrimmed;
 
-           const { results, changes, lastInsertRowid } = await runSql(commandTrimmed);
+           const { results, changes, lastInsertRowid } = await runSql(sqlToRun);
            let sqlLogText: string;
-           if (results) {
+           if (results && outputFormat && results.length > 0) {
+             const formattedResults = await formatResultsAs(results, outputFormat as ResultTextFormat);
+             outputLines.push({ id: `out-${timestamp}`, text: formattedResults, type: 'output', category: 'sql', timestamp: undefined, flag: 0 });
+             sqlLogText = `SQL query result: ${results.length} row(s) as ${outputFormat}. (User: ${userId})`;
+           } else if (results) {
              const formattedTable = await formatResultsAsTable(results);
              const sqlOutput = formattedTable || "Query executed successfully, no results returned.";
-             outputLines.push({ id: `out-${timestamp}`, text: sqlOutput, type: 'output', category: 'sql', timestamp: undefined, flag: 0 });
+             const tableData = await formatResultsAsTableData(results);
+             outputLines.push({ id: `out-${timestamp}`, text: sqlOutput, table: tableData ?? undefined, type: 'output', category: 'sql', timestamp: undefined, flag: 0 });
              sqlLogText = `SQL query result: ${results.length} row(s). (User: ${userId})`;
            } else if (changes !== null) {
              let infoText = `Query executed successfully. ${changes} row${changes === 1 ? '' : 's'} affected.`;
@@ -197,33 +286,60 @@ export async function executeCommand ({
          }
       }
       else if (mode === 'excel') {
-         await new Promise(resolve => setTimeout(resolve, Math.random() * 500 + 100));
-         let excelOutput = `Simulating Excel: ${commandTrimmed} (output placeholder)`;
-         let excelLogType: 'I' | 'E' = 'I'; let outputTypeExcel: OutputLine['type'] = 'output'; let logFlagExcel: 0 | 1 = 0;
-         if (commandLower.startsWith('sum(')) {
-             const numbersMatch = commandTrimmed.match(/sum\(([\d\s,.]+)\)/i);
-             if (numbersMatch && numbersMatch[1]) {
-                 try {
-                     const numbers = numbersMatch[1].split(',').map(n => parseFloat(n.trim())).filter(n => !isNaN(n));
-                     excelOutput = `${numbers.reduce((acc, val) => acc + val, 0)}`;
-                 } catch (e) { excelOutput = '#VALUE!'; excelLogType = 'E'; outputTypeExcel = 'error'; logFlagExcel = 1; }
-             } else { excelOutput = '#NAME?'; excelLogType = 'E'; outputTypeExcel = 'error'; logFlagExcel = 1; }
+         try {
+           const sheetResult = await runSpreadsheetCommand(userId, commandTrimmed);
+           sheetResult.outputs.forEach((output, index) => {
+             const isPlainOutput = output.type === 'output';
+             outputLines.push({ id: `${index === 0 ? 'out' : `excel-${index}`}-${timestamp}`, text: output.text, type: output.type, category: 'excel', timestamp: isPlainOutput ? undefined : timestamp, flag: output.type === 'error' ? 1 : 0 });
+           });
+           logEntryToAdd = { timestamp, type: sheetResult.isError ? 'E' : 'I', flag: sheetResult.isError ? 1 : 0, text: `${sheetResult.logText} (User: ${userId})` };
+         } catch (error) {
+           const errorMsg = error instanceof Error ? error.message : 'Unknown spreadsheet error';
+           const displayError = errorMsg.includes('no such table') ? `${errorMsg}. Consider running 'init db'.` : errorMsg;
+           outputLines.push({ id: `err-${timestamp}`, text: displayError, type: 'error', category: 'excel', timestamp, flag: 1 });
+           logEntryToAdd = { timestamp, type: 'E', flag: 1, text: `Excel error: ${displayError} (User: ${userId})` };
          }
-         outputLines.push({ id: `out-${timestamp}`, text: excelOutput, type: outputTypeExcel, category: 'excel', timestamp: outputTypeExcel === 'error' ? timestamp : undefined, flag: logFlagExcel });
-         logEntryToAdd = { timestamp, type: excelLogType, flag: logFlagExcel, text: `Excel simulation: ${excelOutput} (User: ${userId})` };
       }
       else if (mode === 'typescript') {
-        await new Promise(resolve => setTimeout(resolve, Math.random() * 300 + 50));
-        let simOutput = `Simulating TypeScript: ${commandTrimmed} (output placeholder)`;
-        let tsLogType: 'I' | 'E' = 'I'; let tsOutputType: 'output' | 'error' = 'output'; let tsLogFlag: 0 | 1 = 0;
-        if (commandLower.startsWith('console.log(')) {
-            const matchConsoleLog = commandTrimmed.match(/console\.log\((['"]?)(.*?)\1\)/);
-            simOutput = matchConsoleLog ? `Output: ${matchConsoleLog[2]}` : 'Syntax Error in console.log';
-            tsOutputType = matchConsoleLog ? 'output' : 'error'; if (!matchConsoleLog) { tsLogType = 'E'; tsLogFlag = 1; }
-        } else if (commandLower.includes('=')) simOutput = `Simulating TypeScript: ${commandTrimmed} (Variable notionally assigned)`;
-        else if (commandLower.startsWith('type ') || commandLower.startsWith('interface ')) simOutput = `Simulating TypeScript: ${commandTrimmed} (Type/Interface notionally defined)`;
-        outputLines.push({ id: `out-${timestamp}`, text: simOutput, type: tsOutputType, category: 'typescript', timestamp: tsOutputType === 'error' ? timestamp : undefined, flag: tsLogFlag });
-        logEntryToAdd = { timestamp, type: tsLogType, flag: tsLogFlag, text: `TypeScript simulation: ${simOutput} (User: ${userId})` };
+         const canReadVariables = canAccess('variables:read', policyContext);
+         const canManageVariables = canAccess('variables:write', policyContext);
+
+         const tsResult = await runTypeScriptCode(userId, commandTrimmed, { readVariables: canReadVariables });
+         if (tsResult.typeErrors.length > 0) {
+             outputLines.push({ id: `ts-type-err-${timestamp}`, text: `TypeScript error(s), snippet not executed:\n${tsResult.typeErrors.join('\n')}`, type: 'error', category: 'typescript', timestamp, flag: 1 });
+         }
+         tsResult.consoleEntries.forEach((entry, index) => {
+             const entryType: OutputLine['type'] = entry.level === 'error' ? 'error' : (entry.level === 'warn' ? 'warning' : 'output');
+             const isPlainOutput = entryType === 'output';
+             outputLines.push({ id: `ts-console-${index}-${timestamp}`, text: entry.text, type: entryType, category: 'typescript', timestamp: isPlainOutput ? undefined : timestamp, flag: isPlainOutput ? 0 : 1 });
+         });
+         if (tsResult.resultText !== null) {
+             outputLines.push({ id: `out-${timestamp}`, text: tsResult.resultText, type: 'output', category: 'typescript', timestamp: undefined, flag: 0 });
+         }
+         if (tsResult.runtimeError) {
+             outputLines.push({ id: `ts-err-${timestamp}`, text: `Uncaught ${tsResult.runtimeError}`, type: 'error', category: 'typescript', timestamp, flag: 1 });
+         }
+
+         // Store entries assigned to `vars` in the 'variables' table
+         let storedCount = 0;
+         if (tsResult.changedVariables.length > 0) {
+             if (canManageVariables) {
+                 for (const variable of tsResult.changedVariables) {
+                     await storeVariableInDb(variable.name, variable.value, variable.datatype);
+                     storedCount++;
+                 }
+             } else {
+                 outputLines.push({ id: `ts-vars-perm-${timestamp}`, text: `Variables (${tsResult.changedVariables.map(v => v.name).join(', ')}) were not stored: permission 'manage_variables' required.`, type: 'warning', category: 'typescript', timestamp, flag: 1 });
+             }
+         }
+
+         const tsFailed = tsResult.typeErrors.length > 0 || !!tsResult.runtimeError;
+         logEntryToAdd = {
+             timestamp,
+             type: tsFailed ? 'E' : 'I',
+             flag: tsFailed ? 1 : 0,
+             text: `TypeScript execution ${tsResult.typeErrors.length > 0 ? 'rejected (type errors)' : (tsResult.runtimeError ? 'failed' : 'succeeded')}. ${storedCount} variable(s) stored. (User: ${userId})`
+         };
       }
 
   } catch (error) {
@@ -239,12 +355,25 @@ export async function executeCommand ({
       finalLogEntries.push(logEntryToAdd);
   }
 
+  const firstError = outputLines.find(line => line.type === 'error');
+  await recordCommandHistory({
+      userId,
+      mode,
+      command: commandTrimmed,
+      category: classifiedCategory ?? mode,
+      durationMs: Date.now() - startedAt,
+      success: !firstError,
+      errorMessage: firstError ? firstError.text : null,
+      executedAt: timestamp,
+  });
 
   return {
     outputLines: [commandOutput, ...outputLines],
     newLogEntries: finalLogEntries,
     newSuggestions: newSuggestionsResult,
     newCustomCommands: newCustomCommandsResult,
+    removedCustomCommands: removedCustomCommandsResult,
     toastInfo: toastInfoResult,
+    sessionChanged,
   };
 }
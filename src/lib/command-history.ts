@@ -0,0 +1,103 @@
+// src/lib/command-history.ts
+'use server';
+
+import { runSql } from './database';
+
+export interface CommandHistoryRecord {
+    userId: number;
+    mode: string;
+    command: string;
+    category?: string | null;
+    durationMs: number;
+    success: boolean;
+    errorMessage?: string | null;
+    executedAt: string;
+}
+
+export interface CommandHistoryFilters {
+    mode?: string;
+    username?: string;
+    grep?: string;
+    last?: number;
+}
+
+/**
+ * Appends a single executed command to the 'command_history' table.
+ * Failures are logged to the console but never thrown, so a missing table
+ * (e.g. before 'init db') does not break command execution.
+ * @param record - The details of the executed command.
+ */
+export async function recordCommandHistory(record: CommandHistoryRecord): Promise<void> {
+    const sql = `
+        INSERT INTO command_history (user_id, mode, command, category, duration_ms, success, error_message, executed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?);
+    `;
+    const params = [
+        record.userId,
+        record.mode,
+        record.command,
+        record.category ?? null,
+        Math.round(record.durationMs),
+        record.success ? 1 : 0,
+        record.errorMessage ?? null,
+        record.executedAt,
+    ];
+
+    try {
+        await runSql(sql, params);
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('no such table: command_history')) {
+            console.warn("Command history not recorded: 'command_history' table missing. Run 'init db'.");
+            return;
+        }
+        console.error('Error recording command history:', error);
+    }
+}
+
+/**
+ * Retrieves recorded commands, newest last, applying the optional filters.
+ * @param filters - Optional mode, username, substring and row-count filters.
+ * @returns A promise that resolves to the matching history rows.
+ * @throws Throws an error if the database query fails.
+ */
+export async function queryCommandHistory(filters: CommandHistoryFilters = {}): Promise<any[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.mode) {
+        conditions.push('h.mode = ?');
+        params.push(filters.mode.toLowerCase());
+    }
+    if (filters.username) {
+        conditions.push('u.username = ?');
+        params.push(filters.username);
+    }
+    if (filters.grep) {
+        // Escape LIKE wildcards so '%' and '_' in the search term match literally
+        conditions.push(`h.command LIKE '%' || ? || '%' ESCAPE '\\'`);
+        params.push(filters.grep.replace(/[\\%_]/g, '\\$&'));
+    }
+    params.push(filters.last && filters.last > 0 ? filters.last : 20);
+
+    const sql = `
+        SELECT * FROM (
+            SELECT
+                h.history_id AS id,
+                h.executed_at,
+                COALESCE(u.username, 'user#' || h.user_id) AS user,
+                h.mode,
+                h.category,
+                h.duration_ms,
+                CASE WHEN h.success THEN 'ok' ELSE 'error' END AS status,
+                h.command
+            FROM command_history h
+            LEFT JOIN users u ON u.user_id = h.user_id
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ORDER BY h.history_id DESC
+            LIMIT ?
+        ) ORDER BY id ASC;
+    `;
+
+    const { results } = await runSql(sql, params);
+    return results || [];
+}
@@ -0,0 +1,120 @@
+// src/lib/command-macros.ts
+/**
+ * @fileOverview Parsing helpers for custom command bodies (macros).
+ * A body is a sequence of SimShell commands separated by '&&'. Each step may start with a
+ * mode prefix such as 'sql>' or 'py>' (default: internal) and may reference the invocation's
+ * parameters as $1, ${1}, ${name}, ${name:-default} and $@ ('$$' is a literal '$').
+ */
+
+import type { CommandMode } from '@/types/command-types';
+
+export interface MacroStep {
+    mode: CommandMode;
+    command: string;
+}
+
+export interface MacroArguments {
+    positional: string[];
+    named: Record<string, string>;
+}
+
+/** Mode prefixes accepted before a step ('sql> SELECT 1'), keyed by lowercase prefix. */
+export const MODE_PREFIXES: Record<string, CommandMode> = {
+    internal: 'internal',
+    int: 'internal',
+    sql: 'sql',
+    py: 'python',
+    python: 'python',
+    ts: 'typescript',
+    typescript: 'typescript',
+    unix: 'unix',
+    sh: 'unix',
+    win: 'windows',
+    windows: 'windows',
+    excel: 'excel',
+};
+
+/**
+ * Splits a leading mode prefix ('sql>', 'py>', ...) off a command.
+ * @returns The mode (null when there is no known prefix) and the command without the prefix.
+ */
+export function parseModePrefix(text: string): { mode: CommandMode | null; command: string } {
+    const match = text.match(/^\s*([a-zA-Z]+)>\s*([\s\S]*)$/);
+    if (match && MODE_PREFIXES[match[1].toLowerCase()]) {
+        return { mode: MODE_PREFIXES[match[1].toLowerCase()], command: match[2].trim() };
+    }
+    return { mode: null, command: text.trim() };
+}
+
+/**
+ * Splits a body into steps at '&&' outside single or double quotes.
+ */
+function splitOnAnd(body: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let start = 0;
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '&' && body[i + 1] === '&') {
+            parts.push(body.slice(start, i));
+            start = i + 2;
+            i++;
+        }
+    }
+    parts.push(body.slice(start));
+    return parts.map(part => part.trim()).filter(part => part !== '');
+}
+
+/**
+ * Parses a custom command body into steps.
+ * @returns The steps, or null when the body is plain text to print (a single step without a mode prefix).
+ */
+export function parseMacroBody(body: string): MacroStep[] | null {
+    const parts = splitOnAnd(body);
+    const steps = parts.map(part => parseModePrefix(part));
+    if (steps.length <= 1 && steps.every(step => step.mode === null)) return null;
+    return steps.map(step => ({ mode: step.mode ?? 'internal', command: step.command }));
+}
+
+/**
+ * Parses the text after a custom command's name into positional and named (name=value) arguments.
+ * Arguments may be quoted with single or double quotes to include spaces; a quoted argument is always positional.
+ */
+export function parseMacroArguments(text: string): MacroArguments {
+    const args: MacroArguments = { positional: [], named: {} };
+    const tokenRegex = /(?:([a-zA-Z_]\w*)=)?(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(text)) !== null) {
+        const value = match[2] ?? match[3] ?? match[4] ?? '';
+        if (match[1]) args.named[match[1]] = value;
+        else args.positional.push(value);
+    }
+    return args;
+}
+
+/**
+ * Replaces parameter references in one step.
+ * @param text - The step text.
+ * @param args - The invocation's arguments.
+ * @returns The substituted text and the references that had no value (and no default).
+ */
+export function substituteMacroParameters(text: string, args: MacroArguments): { text: string; missing: string[] } {
+    const missing: string[] = [];
+    const lookup = (name: string): string | undefined =>
+        /^\d+$/.test(name) ? args.positional[Number(name) - 1] : args.named[name];
+
+    const result = text.replace(/\$\$|\$@|\$(\d+)|\$\{([a-zA-Z_]\w*|\d+)(?::-([^}]*))?\}/g, (reference, digits?: string, name?: string, fallback?: string) => {
+        if (reference === '$$') return '$';
+        if (reference === '$@') return args.positional.join(' ');
+        const value = lookup(digits ?? name ?? '');
+        if (value !== undefined) return value;
+        if (fallback !== undefined) return fallback;
+        missing.push(reference);
+        return reference;
+    });
+    return { text: result, missing };
+}
@@ -0,0 +1,53 @@
+// src/lib/command-options.ts
+/**
+ * @fileOverview Parses `--option <value>` arguments of internal commands such as 'history' and 'audit'.
+ * Each command validates and converts the values itself.
+ */
+
+/**
+ * Splits the argument string into tokens, keeping double-quoted segments together.
+ * e.g. `--grep "SELECT *" --last 5` -> ['--grep', 'SELECT *', '--last', '5']
+ */
+export function tokenizeArgs(argString: string): string[] {
+    const tokens: string[] = [];
+    const tokenRegex = /"([^"]*)"|(\S+)/g;
+    let match;
+    while ((match = tokenRegex.exec(argString)) !== null) {
+        tokens.push(match[1] !== undefined ? match[1] : match[2]);
+    }
+    return tokens;
+}
+
+/**
+ * Reads `--option <value>` pairs from the tokens; a repeated option keeps its last value.
+ * Option names are matched case-insensitively and returned in lower case.
+ * Returns an error message instead if an option is unknown or has no value.
+ * @param allowedOptions - The options the command accepts, e.g. ['--mode', '--last'].
+ */
+export function parseOptions(tokens: string[], allowedOptions: string[]): Record<string, string> | string {
+    const options: Record<string, string> = {};
+    for (let i = 0; i < tokens.length; i += 2) {
+        const option = tokens[i].toLowerCase();
+        const value = tokens[i + 1];
+        if (!allowedOptions.includes(option)) {
+            return `Unknown option '${tokens[i]}'.`;
+        }
+        if (value === undefined) {
+            return `Missing value for option '${tokens[i]}'.`;
+        }
+        options[option] = value;
+    }
+    return options;
+}
+
+/**
+ * Parses the value of a count option such as --last.
+ * Returns an error message instead if the value is not a positive integer.
+ */
+export function parsePositiveIntOption(option: string, value: string): number | string {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed <= 0 || String(parsed) !== value) {
+        return `Invalid value for ${option}: '${value}'. Expected a positive integer.`;
+    }
+    return parsed;
+}
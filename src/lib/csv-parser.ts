@@ -0,0 +1,69 @@
+// src/lib/csv-parser.ts
+/**
+ * @fileOverview Parses delimited text (CSV, TSV, ...) into records.
+ * Follows RFC 4180: fields may be quoted, quoted fields may contain the delimiter,
+ * line breaks and doubled quotes, and records end with LF or CRLF.
+ */
+
+export interface CsvRecord {
+    fields: string[];
+    line: number; // 1-based source line where the record starts
+}
+
+/**
+ * Splits `source` into records, skipping blank lines.
+ * An unterminated quoted field extends to the end of the input.
+ * @param source - The file contents (a leading byte order mark is ignored).
+ * @param delimiter - The single-character field separator.
+ * @returns The records in source order with their starting line numbers.
+ */
+export function parseCsv(source: string, delimiter: string = ','): CsvRecord[] {
+    const text = source.charCodeAt(0) === 0xfeff ? source.slice(1) : source;
+    const records: CsvRecord[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false; // Inside a quoted field
+    let recordHasContent = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const finishRecord = () => {
+        fields.push(field);
+        if (recordHasContent || fields.length > 1 || field !== '') records.push({ fields, line: recordLine });
+        fields = [];
+        field = '';
+        recordHasContent = false;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+            recordHasContent = true;
+        } else if (char === delimiter) {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            finishRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || fields.length > 0 || recordHasContent) finishRecord();
+    return records;
+}
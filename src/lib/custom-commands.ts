@@ -0,0 +1,99 @@
+// src/lib/custom-commands.ts
+'use server';
+
+import { runSql } from './database';
+import { GUEST_USER_ID, getSession, readSessionCookie } from './sessions';
+
+export interface CustomCommandRecord {
+  name: string;
+  alias: string | null; // Optional short name that also invokes the command
+  description: string | null;
+  action: string;
+  owner: number | null; // user_id of the creator
+  created_at: string;
+  visibility: 'public' | 'private'; // private: only the owner sees and runs it
+}
+
+const SELECT_VISIBLE_COMMANDS = `
+    SELECT name, alias, description, action, owner, created_at, visibility
+    FROM custom_commands
+    WHERE (visibility = 'public' OR owner = ?)`;
+
+/**
+ * Lists the custom commands the current request's user can see: all public commands and the
+ * user's own private ones. The user comes from the session cookie (the guest without one), never
+ * from the caller, since clients call this directly.
+ * Returns an empty list when the custom_commands table does not exist yet (run 'migrate up').
+ * @returns A promise that resolves with the commands, ordered by name.
+ */
+export async function listCustomCommands(): Promise<CustomCommandRecord[]> {
+  const sessionToken = await readSessionCookie();
+  const session = sessionToken ? await getSession(sessionToken) : null;
+  const userId = session?.userId ?? GUEST_USER_ID;
+  try {
+    const { results } = await runSql(`${SELECT_VISIBLE_COMMANDS} ORDER BY name`, [userId]);
+    return (results ?? []) as CustomCommandRecord[];
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('no such table: custom_commands')) {
+      console.warn("custom_commands table not found; run 'migrate up' to enable persistent custom commands.");
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds a custom command the user can run by its name or alias (case-insensitive).
+ * @param nameOrAlias - The command word typed by the user.
+ * @param userId - The ID of the user.
+ * @returns A promise that resolves with the command, or null if none matches.
+ */
+export async function findCustomCommand(nameOrAlias: string, userId: number): Promise<CustomCommandRecord | null> {
+  try {
+    const { results } = await runSql(`${SELECT_VISIBLE_COMMANDS} AND (name = ? OR alias = ?) ORDER BY name = ? DESC LIMIT 1`, [userId, nameOrAlias, nameOrAlias, nameOrAlias]);
+    return results && results.length > 0 ? results[0] as CustomCommandRecord : null;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('no such table')) {
+      return null; // Not initialized or not migrated yet; callers fall back to session commands
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stores a new custom command.
+ * @throws Throws an error if the name or alias is already used by another custom command.
+ */
+export async function saveCustomCommand(command: Omit<CustomCommandRecord, 'created_at'>): Promise<void> {
+  const { results } = await runSql(
+    `SELECT name FROM custom_commands WHERE name IN (?, ?) OR alias IN (?, ?) LIMIT 1`,
+    [command.name, command.alias ?? command.name, command.name, command.alias ?? command.name]
+  );
+  if (results && results.length > 0) {
+    throw new Error(`The name or alias is already used by custom command '${results[0].name}'. Remove it first with 'remove_int_cmd ${results[0].name}'.`);
+  }
+  await runSql(
+    'INSERT INTO custom_commands (name, alias, description, action, owner, visibility) VALUES (?, ?, ?, ?, ?, ?)',
+    [command.name, command.alias, command.description, command.action, command.owner, command.visibility]
+  );
+}
+
+/**
+ * Deletes a custom command by name or alias.
+ * @param nameOrAlias - The command's name or alias.
+ * @param userId - The ID of the user removing it.
+ * @param canRemoveAny - Whether the user may remove commands owned by others.
+ * @returns A promise that resolves with the removed command.
+ * @throws Throws an error if the command does not exist or belongs to another user.
+ */
+export async function removeCustomCommand(nameOrAlias: string, userId: number, canRemoveAny: boolean): Promise<CustomCommandRecord> {
+  const command = await findCustomCommand(nameOrAlias, userId);
+  if (!command) {
+    throw new Error(`Custom command '${nameOrAlias}' not found.`);
+  }
+  if (command.owner !== userId && !canRemoveAny) {
+    throw new Error(`Custom command '${command.name}' belongs to another user.`);
+  }
+  await runSql('DELETE FROM custom_commands WHERE name = ?', [command.name]);
+  return command;
+}
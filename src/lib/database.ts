@@ -6,12 +6,15 @@ import Database from 'better-sqlite3';
 import type { Database as DB } from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
+import { loadMigrations, getAppliedMigrations, applyMigration } from '@/lib/migrations';
+import type { Migration } from '@/lib/migrations';
 
 const dataDir = path.join(process.cwd(), 'data');
 const DEFAULT_PERSISTENT_DB_FILENAME = 'sim_shell.db'; // Updated default persistent DB
 
 let dbInstance: DB | null = null;
 let loadedDbPath: string | null = null;
+const attachedDbPaths = new Map<string, string>(); // alias -> absolute path, for the active connection
 
 /**
  * Validates a SQLite filename.
@@ -39,119 +42,36 @@ function ensureDataDirectory(): void {
 }
 
 /**
- * Creates essential tables if they don't already exist in the database.
- * This is called after a file-based DB connection is established.
+ * Brings a database that has never been migrated up to the current schema.
+ * Migrations use CREATE ... IF NOT EXISTS, so databases created before migrations
+ * existed are adopted without data loss. Once any migration is recorded, schema
+ * changes are left to the 'migrate' command.
  */
-async function ensureTablesExist(db: DB): Promise<void> {
-    console.log("Ensuring essential tables exist...");
-    const coreTableCheckSql = "SELECT name FROM sqlite_master WHERE type='table' AND name='users';";
-    let tablesExist = false;
-    try {
-        const coreTable = db.prepare(coreTableCheckSql).get();
-        if (coreTable) {
-            tablesExist = true;
-            console.log("Core tables appear to exist.");
-        }
-    } catch (error) {
-        // This catch might not be strictly necessary if get() returns undefined for no rows
-        console.warn("Could not verify core table existence, assuming tables need creation:", error);
-    }
-
-    if (!tablesExist) {
-        console.log("Core tables not found. Creating essential tables...");
-        const createTableStatements = [
-            `CREATE TABLE IF NOT EXISTS variables (
-                name VARCHAR(255) NOT NULL PRIMARY KEY,
-                datatype VARCHAR(50) NOT NULL,
-                value TEXT,
-                max REAL,
-                min REAL,
-                default_value TEXT
-            );`,
-            `CREATE TABLE IF NOT EXISTS variables2 (
-                name VARCHAR(255) NOT NULL PRIMARY KEY,
-                datatype VARCHAR(50) NOT NULL,
-                value TEXT,
-                max REAL,
-                min REAL,
-                default_value TEXT
-            );`,
-            `CREATE TABLE IF NOT EXISTS ai_tools (
-                name VARCHAR(255) NOT NULL PRIMARY KEY,
-                description TEXT NOT NULL,
-                args_description TEXT NOT NULL,
-                isactive BOOLEAN NOT NULL DEFAULT 1
-            );`,
-            `CREATE TABLE IF NOT EXISTS users (
-                user_id INTEGER PRIMARY KEY AUTOINCREMENT,
-                username VARCHAR(100) NOT NULL UNIQUE,
-                password_hash TEXT,
-                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-            );`,
-            `CREATE TABLE IF NOT EXISTS roles (
-                role_id INTEGER PRIMARY KEY AUTOINCREMENT,
-                role_name VARCHAR(50) NOT NULL UNIQUE
-            );`,
-            `CREATE TABLE IF NOT EXISTS permissions (
-                permission_id INTEGER PRIMARY KEY AUTOINCREMENT,
-                permission_name VARCHAR(100) NOT NULL UNIQUE
-            );`,
-            `CREATE TABLE IF NOT EXISTS user_roles (
-                user_id INTEGER NOT NULL,
-                role_id INTEGER NOT NULL,
-                PRIMARY KEY (user_id, role_id),
-                FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE,
-                FOREIGN KEY (role_id) REFERENCES roles (role_id) ON DELETE CASCADE
-            );`,
-            `CREATE TABLE IF NOT EXISTS role_permissions (
-                role_id INTEGER NOT NULL,
-                permission_id INTEGER NOT NULL,
-                PRIMARY KEY (role_id, permission_id),
-                FOREIGN KEY (role_id) REFERENCES roles (role_id) ON DELETE CASCADE,
-                FOREIGN KEY (permission_id) REFERENCES permissions (permission_id) ON DELETE CASCADE
-            );`,
-            `CREATE TABLE IF NOT EXISTS command_metadata (
-                command_name TEXT NOT NULL PRIMARY KEY,
-                command_description TEXT,
-                result_description TEXT,
-                result_type TEXT,
-                result_min REAL,
-                result_max REAL,
-                result_length INTEGER
-            );`,
-            `CREATE TABLE IF NOT EXISTS command_input_arguments (
-                argument_id INTEGER PRIMARY KEY AUTOINCREMENT,
-                command_name TEXT NOT NULL,
-                argument_name TEXT NOT NULL,
-                argument_type TEXT NOT NULL,
-                argument_purpose TEXT,
-                argument_default_value TEXT,
-                argument_min REAL,
-                argument_max REAL,
-                argument_length INTEGER,
-                is_required BOOLEAN DEFAULT 1,
-                position INTEGER,
-                FOREIGN KEY (command_name) REFERENCES command_metadata (command_name) ON DELETE CASCADE,
-                UNIQUE (command_name, argument_name),
-                UNIQUE (command_name, position)
-            );`
-        ];
-
-        try {
-            db.transaction(() => {
-                for (const sql of createTableStatements) {
-                    db.prepare(sql).run();
-                }
-            })();
-            console.log("Successfully created essential tables.");
-        } catch (error) {
-            console.error("Error creating essential tables:", error);
-            throw new Error(`Failed to create essential tables: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+function ensureSchemaMigrated(db: DB): void {
+    if (getAppliedMigrations(db).length > 0) return;
+    console.log("No applied migrations recorded. Applying all migrations...");
+    for (const migration of loadMigrations()) {
+        applyMigration(db, migration, 'up');
     }
+    console.log("Successfully applied all migrations.");
 }
 
 
+/**
+ * Opens a database file in WAL mode and brings it up to the current schema.
+ * Migration failures are logged rather than thrown so a damaged schema can still be inspected.
+ */
+function openDatabaseFile(dbPath: string): DB {
+    const db = new Database(dbPath);
+    db.pragma('journal_mode = WAL');
+    try {
+        ensureSchemaMigrated(db);
+    } catch (err) {
+        console.error(`Failed to apply migrations on DB load (${dbPath}), this might lead to issues:`, err);
+    }
+    return db;
+}
+
 /**
  * Gets the singleton SQLite database instance.
  * Prioritizes SIMSHELL_DB_FILE env var, then DEFAULT_PERSISTENT_DB_FILENAME.
@@ -179,16 +99,9 @@ function getDb(): DB {
     }
 
     try {
-      dbInstance = new Database(dbPathToUse); // This creates the file if it doesn't exist
-      dbInstance.pragma('journal_mode = WAL');
+      dbInstance = openDatabaseFile(dbPathToUse); // This creates the file if it doesn't exist
       loadedDbPath = dbPathToUse;
-      
-      // Ensure tables exist for the file-based DB
-      ensureTablesExist(dbInstance).catch(err => {
-          console.error("Failed to ensure tables exist on DB load, this might lead to issues:", err);
-          // Depending on severity, could throw here or try to close/nullify dbInstance
-      });
-      // Status logged by getDbStatusAction or ensureTablesExist
+      // Status logged by getDbStatusAction or ensureSchemaMigrated
 
     } catch (error) {
         console.error(`Failed to initialize SQLite database (file: ${dbPathToUse}):`, error);
@@ -196,13 +109,8 @@ function getDb(): DB {
         // Fallback to in-memory if file DB fails catastrophically (e.g., disk permissions)
         try {
             console.warn("Falling back to in-memory database due to file DB initialization failure.");
-            dbInstance = new Database(':memory:');
-            dbInstance.pragma('journal_mode = WAL');
+            dbInstance = openDatabaseFile(':memory:');
             loadedDbPath = ':memory:';
-            // We might want to run ensureTablesExist for in-memory too if it's a fallback
-            ensureTablesExist(dbInstance).catch(err => {
-                 console.error("Failed to ensure tables for fallback in-memory DB:", err);
-            });
         } catch (memError) {
             console.error("Catastrophic failure: Could not initialize file-based or in-memory database.", memError);
             throw memError; // Re-throw critical failure
@@ -228,28 +136,193 @@ function getLoadedDbPathInternal(): string | null {
 }
 
 
+/**
+ * Converts a better-sqlite3 error into the user-facing error raised by the SQL helpers.
+ */
+function toSqlError(sql: string, error: unknown): Error {
+    if (error instanceof Error) {
+        if (error.message.includes('syntax error')) {
+            return new Error(`SQL Syntax Error near '${sql.substring(0, 50)}...'`);
+        }
+        return new Error(`SQL Error: ${error.message}`);
+    }
+    return new Error('An unknown SQL error occurred.');
+}
+
+/**
+ * Prepares and runs one statement on the given connection (synchronously).
+ */
+function executeStatement(db: DB, sql: string, params: any[]): { results: any[] | null, changes: number | null, lastInsertRowid: number | null } {
+    const stmt = db.prepare(sql);
+    if (stmt.reader) {
+        const results = stmt.all(...params);
+        return { results, changes: null, lastInsertRowid: null };
+    }
+    const info = stmt.run(...params);
+    const lastInsertRowid = typeof info.lastInsertRowid === 'bigint' ? Number(info.lastInsertRowid) : info.lastInsertRowid;
+    return { results: null, changes: info.changes, lastInsertRowid };
+}
+
 export async function runSql(sql: string, params: any[] = []): Promise<{ results: any[] | null, changes: number | null, lastInsertRowid: bigint | number | null }> {
+  const db = getDb();
+  try {
+    return executeStatement(db, sql, params);
+  } catch (error) {
+    console.error(`Error executing SQL: ${sql}`, error);
+    throw toSqlError(sql, error);
+  }
+}
+
+/**
+ * Runs a statement that only reads, for commands that must not change the database (e.g. 'export query').
+ * @returns A promise that resolves with the rows.
+ * @throws Throws an error, without running the statement, if it returns no rows or could write
+ *   (e.g. UPDATE ... RETURNING, which returns rows too).
+ */
+export async function runReadOnlyQuery(sql: string, params: any[] = []): Promise<any[]> {
   const db = getDb();
   try {
     const stmt = db.prepare(sql);
-    if (stmt.reader) {
-        const results = stmt.all(params);
-        return { results, changes: null, lastInsertRowid: null };
-    } else {
-        const info = stmt.run(params);
-        const lastInsertRowid = typeof info.lastInsertRowid === 'bigint' ? Number(info.lastInsertRowid) : info.lastInsertRowid;
-        return { results: null, changes: info.changes, lastInsertRowid: lastInsertRowid };
+    if (!stmt.reader || !stmt.readonly) {
+      throw new Error('Only statements that read rows without changing the database (SELECT, WITH ... SELECT) are allowed here.');
     }
+    return stmt.all(...params);
   } catch (error) {
     console.error(`Error executing SQL: ${sql}`, error);
-    if (error instanceof Error) {
-        if (error.message.includes('syntax error')) {
-            throw new Error(`SQL Syntax Error near '${sql.substring(0, 50)}...'`);
+    throw toSqlError(sql, error);
+  }
+}
+
+export interface SqlBatchOptions {
+    transaction?: boolean; // Run all statements in one transaction, rolled back on the first error
+    rollback?: boolean; // Run in a transaction that is always rolled back (dry run); errors do not stop the batch unless combined with `transaction` or `stopOnError`
+    stopOnError?: boolean; // Skip the remaining statements after the first error
+}
+
+export interface SqlBatchStatement {
+    sql: string;
+    params?: any[]; // Bind values; an object element binds named parameters
+}
+
+export interface SqlBatchStatementResult {
+    status: 'ok' | 'error' | 'skipped';
+    results: any[] | null;
+    changes: number | null;
+    lastInsertRowid: number | null;
+    error?: string;
+}
+
+export interface SqlBatchResult {
+    statementResults: SqlBatchStatementResult[];
+    transaction: 'none' | 'committed' | 'rolled_back';
+}
+
+/**
+ * Executes several statements back-to-back without yielding, so no other request can
+ * interleave statements into the batch's transaction.
+ * @param statements - The SQL statements and their bind values, in execution order.
+ * @param options - Transaction, dry-run and stop-on-error behaviour.
+ * @returns A promise that resolves with one result per statement and the transaction outcome.
+ * @throws Throws an error if the transaction cannot be started or finished.
+ */
+export async function runSqlBatch(statements: SqlBatchStatement[], options: SqlBatchOptions = {}): Promise<SqlBatchResult> {
+    const db = getDb();
+    const useTransaction = !!(options.transaction || options.rollback);
+    const stopOnError = !!(options.transaction || options.stopOnError);
+    const statementResults: SqlBatchStatementResult[] = [];
+    let failed = false;
+
+    if (useTransaction) db.exec('BEGIN');
+    try {
+        for (const { sql, params } of statements) {
+            if (failed && stopOnError) {
+                statementResults.push({ status: 'skipped', results: null, changes: null, lastInsertRowid: null });
+                continue;
+            }
+            try {
+                statementResults.push({ status: 'ok', ...executeStatement(db, sql, params ?? []) });
+            } catch (error) {
+                console.error(`Error executing SQL: ${sql}`, error);
+                failed = true;
+                statementResults.push({ status: 'error', results: null, changes: null, lastInsertRowid: null, error: toSqlError(sql, error).message });
+            }
+        }
+    } finally {
+        // A statement like COMMIT inside the script may already have ended the transaction
+        if (useTransaction && db.inTransaction) {
+            db.exec(failed || options.rollback ? 'ROLLBACK' : 'COMMIT');
         }
-        throw new Error(`SQL Error: ${error.message}`);
     }
-    throw new Error('An unknown SQL error occurred.');
-  }
+
+    return {
+        statementResults,
+        transaction: !useTransaction ? 'none' : (failed || options.rollback ? 'rolled_back' : 'committed'),
+    };
+}
+
+export interface MigrationStatusEntry {
+    version: string;
+    name: string;
+    status: 'applied' | 'pending' | 'missing'; // 'missing': recorded as applied, but its file is gone
+    applied_at: string | null;
+}
+
+/**
+ * Lists every known migration (from files and from `schema_migrations`) with its state.
+ * @returns A promise that resolves with the migrations ordered by version.
+ */
+export async function getMigrationStatus(): Promise<MigrationStatusEntry[]> {
+    const db = getDb();
+    const applied = new Map(getAppliedMigrations(db).map(row => [row.version, row]));
+    const entries: MigrationStatusEntry[] = loadMigrations().map(migration => ({
+        version: migration.version,
+        name: migration.name,
+        status: applied.has(migration.version) ? 'applied' : 'pending',
+        applied_at: applied.get(migration.version)?.applied_at ?? null,
+    }));
+    for (const row of Array.from(applied.values())) {
+        if (!entries.some(entry => entry.version === row.version)) {
+            entries.push({ version: row.version, name: row.name, status: 'missing', applied_at: row.applied_at });
+        }
+    }
+    return entries.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+/**
+ * Applies pending migrations (oldest first) or reverts applied ones (newest first).
+ * Each migration runs in its own transaction; the run stops at the first failure.
+ * @param direction - 'up' to apply, 'down' to revert.
+ * @param count - Number of migrations to process; defaults to all pending for 'up' and 1 for 'down'.
+ * @returns A promise that resolves with the filenames processed and the error that stopped the run, if any.
+ */
+export async function migrateDatabase(direction: 'up' | 'down', count?: number): Promise<{ migrated: string[]; error: string | null }> {
+    const db = getDb();
+    const migrations = loadMigrations();
+    const appliedVersions = getAppliedMigrations(db).map(row => row.version);
+    const migrated: string[] = [];
+
+    let queue: Migration[];
+    if (direction === 'up') {
+        queue = migrations.filter(migration => !appliedVersions.includes(migration.version));
+        if (count !== undefined) queue = queue.slice(0, count);
+    } else {
+        const toRevert = appliedVersions.slice().reverse().slice(0, count ?? 1);
+        const missing = toRevert.find(version => !migrations.some(migration => migration.version === version));
+        if (missing) {
+            return { migrated, error: `Migration file for applied version ${missing} not found; cannot revert it.` };
+        }
+        queue = toRevert.map(version => migrations.find(migration => migration.version === version)!);
+    }
+
+    for (const migration of queue) {
+        try {
+            applyMigration(db, migration, direction);
+            migrated.push(migration.filename);
+        } catch (error) {
+            return { migrated, error: error instanceof Error ? error.message : 'Unknown migration error' };
+        }
+    }
+    return { migrated, error: null };
 }
 
 export async function persistDbToFile(targetFilename: string): Promise<boolean> {
@@ -285,6 +358,291 @@ export async function persistDbToFile(targetFilename: string): Promise<boolean>
     }
 }
 
+export interface DbFileInfo {
+    file: string;
+    size_kb: number;
+    modified: string;
+    status: string; // 'active', 'attached as <alias>' or ''
+}
+
+/**
+ * Lists the database files in the data directory with their role in the current session.
+ */
+export async function listDbFiles(): Promise<DbFileInfo[]> {
+    getDb();
+    ensureDataDirectory();
+    return fs.readdirSync(dataDir)
+        .filter(isValidFilename)
+        .sort()
+        .map(file => {
+            const filePath = path.join(dataDir, file);
+            const stats = fs.statSync(filePath);
+            const alias = Array.from(attachedDbPaths.entries()).find(([, attachedPath]) => attachedPath === filePath)?.[0];
+            return {
+                file,
+                size_kb: Math.round(stats.size / 102.4) / 10,
+                modified: stats.mtime.toISOString().replace('T', ' ').substring(0, 19),
+                status: filePath === loadedDbPath ? 'active' : alias ? `attached as ${alias}` : '',
+            };
+        });
+}
+
+/**
+ * Whether an administrator can log in to a database: some user with a password holds
+ * manage_roles_permissions. Without one nobody could manage it, and while no user has a password
+ * 'init db' is open to guests (see isLoginBootstrapNeeded), so the first guest could claim it.
+ */
+function hasLoginAdministrator(db: DB): boolean {
+    try {
+        return !!db.prepare(`
+            SELECT 1
+            FROM users u
+            JOIN user_roles ur ON ur.user_id = u.user_id
+            JOIN role_permissions rp ON rp.role_id = ur.role_id
+            JOIN permissions p ON p.permission_id = rp.permission_id
+            WHERE u.password_hash IS NOT NULL AND p.permission_name = 'manage_roles_permissions'
+            LIMIT 1
+        `).get();
+    } catch {
+        return false; // No RBAC tables
+    }
+}
+
+/**
+ * Makes another file in the data directory the active database for this process.
+ * The new file is opened (and migrated), made active, passed to `initialize` and checked for an
+ * administrator who can log in; only then is the previous connection closed. If any step fails the
+ * previous database stays active, and a file created for the switch is removed again. Attached
+ * databases belong to the old connection and are detached.
+ * @param filename - The database file, e.g. 'simshell_export.db'.
+ * @param create - True to create a new file (which must not exist), false to open an existing one.
+ * @param initialize - Runs against the new database before the check, e.g. to seed a new file like 'init db'.
+ * @returns A promise that resolves with the aliases that were detached by the switch.
+ * @throws Throws an error if the filename is invalid, the file's existence doesn't match `create`, it cannot be
+ *   opened, `initialize` throws, or no administrator of the database has a password.
+ */
+export async function switchDatabase(filename: string, create: boolean, initialize?: () => Promise<void>): Promise<{ dbPath: string; detachedAliases: string[] }> {
+    if (!isValidFilename(filename)) {
+        throw new Error('Invalid database filename. Use only alphanumeric, underscores, hyphens, and periods, ending with .db.');
+    }
+    ensureDataDirectory();
+    const targetPath = path.join(dataDir, filename);
+    const exists = fs.existsSync(targetPath);
+    if (create && exists) {
+        throw new Error(`Database file 'data/${filename}' already exists. Use 'db use ${filename}' to open it.`);
+    }
+    if (!create && !exists) {
+        throw new Error(`Database file 'data/${filename}' not found. Use 'db new ${filename}' to create it.`);
+    }
+    if (targetPath === loadedDbPath) {
+        return { dbPath: targetPath, detachedAliases: [] };
+    }
+
+    const newDb = openDatabaseFile(targetPath);
+    const previousDb = dbInstance;
+    const previousPath = loadedDbPath;
+    dbInstance = newDb;
+    loadedDbPath = targetPath;
+    try {
+        if (initialize) await initialize();
+        if (!hasLoginAdministrator(newDb)) {
+            throw new Error(`No administrator of 'data/${filename}' has a password, so nobody could manage it and the first guest could claim it with 'init db'.`);
+        }
+    } catch (error) {
+        newDb.close();
+        dbInstance = previousDb;
+        loadedDbPath = previousPath;
+        if (create) {
+            for (const suffix of ['', '-wal', '-shm']) fs.rmSync(`${targetPath}${suffix}`, { force: true });
+        }
+        throw error;
+    }
+
+    const detachedAliases = Array.from(attachedDbPaths.keys());
+    attachedDbPaths.clear();
+    if (previousDb) {
+        try {
+            previousDb.close();
+        } catch (error) {
+            console.error(`Error closing database ${previousPath}:`, error);
+        }
+    }
+    console.log(`Switched active DB instance to ${targetPath}`);
+    return { dbPath: targetPath, detachedAliases };
+}
+
+/**
+ * Attaches an existing database file from the data directory to the active connection,
+ * making its tables available as `<alias>.<table>`.
+ * @throws Throws an error if the filename or alias is invalid or already in use, or the file doesn't exist.
+ */
+export async function attachDatabase(filename: string, alias: string): Promise<string> {
+    const db = getDb();
+    if (!isValidFilename(filename)) {
+        throw new Error('Invalid database filename. Use only alphanumeric, underscores, hyphens, and periods, ending with .db.');
+    }
+    if (!/^[a-zA-Z_]\w*$/.test(alias) || ['main', 'temp'].includes(alias.toLowerCase())) {
+        throw new Error(`Invalid alias '${alias}'. Use letters, digits and underscores (not 'main' or 'temp').`);
+    }
+    const aliasKey = alias.toLowerCase();
+    if (attachedDbPaths.has(aliasKey)) {
+        throw new Error(`Alias '${alias}' is already in use.`);
+    }
+    const filePath = path.join(dataDir, filename);
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`Database file 'data/${filename}' not found.`);
+    }
+    if (filePath === loadedDbPath) {
+        throw new Error(`'${filename}' is the active database.`);
+    }
+    const existingAlias = Array.from(attachedDbPaths.entries()).find(([, attachedPath]) => attachedPath === filePath)?.[0];
+    if (existingAlias) {
+        throw new Error(`'${filename}' is already attached as '${existingAlias}'.`);
+    }
+    try {
+        db.prepare(`ATTACH DATABASE ? AS ${aliasKey}`).run(filePath);
+    } catch (error) {
+        throw toSqlError('ATTACH DATABASE', error);
+    }
+    attachedDbPaths.set(aliasKey, filePath);
+    return filePath;
+}
+
+/**
+ * Detaches a database previously attached with `attachDatabase`.
+ * @throws Throws an error if no database is attached under the alias.
+ */
+export async function detachDatabase(alias: string): Promise<string> {
+    const db = getDb();
+    const aliasKey = alias.toLowerCase();
+    const filePath = attachedDbPaths.get(aliasKey);
+    if (!filePath) {
+        throw new Error(`No database is attached as '${alias}'.`);
+    }
+    try {
+        db.prepare(`DETACH DATABASE ${aliasKey}`).run();
+    } catch (error) {
+        throw toSqlError('DETACH DATABASE', error);
+    }
+    attachedDbPaths.delete(aliasKey);
+    return filePath;
+}
+
+const snapshotsDir = path.join(dataDir, 'snapshots');
+
+/**
+ * Writes a timestamped copy of the active database into data/snapshots/ using the SQLite
+ * online backup API, so it is safe to run while other requests use the database.
+ * @returns A promise that resolves with the snapshot's filename and the database it was taken from.
+ */
+export async function createDbSnapshot(): Promise<{ file: string; sourcePath: string }> {
+    const db = getDb();
+    const sourcePath = loadedDbPath ?? ':memory:';
+    fs.mkdirSync(snapshotsDir, { recursive: true });
+    const baseName = sourcePath === ':memory:' ? 'memory' : path.basename(sourcePath, '.db');
+    const stamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    let file = `${baseName}_${stamp}.db`;
+    for (let suffix = 2; fs.existsSync(path.join(snapshotsDir, file)); suffix++) {
+        file = `${baseName}_${stamp}_${suffix}.db`;
+    }
+    await db.backup(path.join(snapshotsDir, file));
+    return { file, sourcePath };
+}
+
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+const CORE_RBAC_TABLES = ['users', 'roles', 'permissions', 'user_roles', 'role_permissions'];
+
+/**
+ * Checks that a file is a readable SQLite database containing the core RBAC tables.
+ * @throws Throws an error describing the first check that failed.
+ */
+function validateBackupFile(filePath: string): void {
+    const header = Buffer.alloc(SQLITE_HEADER.length);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        fs.readSync(fd, header, 0, header.length, 0);
+    } finally {
+        fs.closeSync(fd);
+    }
+    if (header.toString('latin1') !== SQLITE_HEADER) {
+        throw new Error('File is not a SQLite database (invalid header).');
+    }
+
+    const candidate = new Database(filePath, { readonly: true, fileMustExist: true });
+    try {
+        const integrity = candidate.pragma('quick_check', { simple: true });
+        if (integrity !== 'ok') {
+            throw new Error(`Integrity check failed: ${integrity}`);
+        }
+        const tables = (candidate.prepare("SELECT name FROM sqlite_master WHERE type='table'").all() as { name: string }[]).map(row => row.name);
+        const missingTables = CORE_RBAC_TABLES.filter(table => !tables.includes(table));
+        if (missingTables.length > 0) {
+            throw new Error(`Missing core RBAC table(s): ${missingTables.join(', ')}.`);
+        }
+    } finally {
+        candidate.close();
+    }
+}
+
+/**
+ * Replaces the contents of the active database file with a backup from the data directory.
+ * The backup is validated first, and the current contents are saved to
+ * `data/<name>_pre_restore_<timestamp>.db` before anything is overwritten. If copying
+ * fails, the safety backup is put back.
+ * @param filename - The backup file in the data directory, e.g. 'sim_shell_exp.db', or a snapshot as 'snapshots/<file.db>'.
+ * @returns A promise that resolves with the active, source and safety backup paths.
+ * @throws Throws an error if validation, the safety backup, or the restore fails.
+ */
+export async function restoreDatabaseFromFile(filename: string): Promise<{ activePath: string; sourcePath: string; safetyBackupPath: string }> {
+    const currentDb = getDb();
+    const fromSnapshots = filename.startsWith('snapshots/');
+    const backupName = fromSnapshots ? filename.slice('snapshots/'.length) : filename;
+    if (!isValidFilename(backupName)) {
+        throw new Error('Invalid backup filename. Use only alphanumeric, underscores, hyphens, and periods, ending with .db.');
+    }
+    const activePath = loadedDbPath;
+    if (!activePath || activePath === ':memory:') {
+        throw new Error("Restore requires a file-based active database. Use 'db use <file.db>' first.");
+    }
+    const sourcePath = path.join(fromSnapshots ? snapshotsDir : dataDir, backupName);
+    if (!fs.existsSync(sourcePath)) {
+        throw new Error(`Backup file 'data/${filename}' not found.`);
+    }
+    if (sourcePath === activePath) {
+        throw new Error(`'${filename}' is the active database.`);
+    }
+
+    try {
+        validateBackupFile(sourcePath);
+    } catch (error) {
+        throw new Error(`Backup 'data/${filename}' failed validation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const stamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    const safetyBackupPath = path.join(dataDir, `${path.basename(activePath, '.db')}_pre_restore_${stamp}.db`);
+    await currentDb.backup(safetyBackupPath);
+    console.log(`Saved safety backup of ${activePath} to ${safetyBackupPath}`);
+
+    // Close the active connection (checkpointing its WAL) before its file is overwritten
+    attachedDbPaths.clear();
+    currentDb.close();
+    dbInstance = null;
+    const source = new Database(sourcePath, { readonly: true, fileMustExist: true });
+    try {
+        await source.backup(activePath);
+    } catch (error) {
+        console.error(`Error restoring ${sourcePath} into ${activePath}, putting the safety backup back:`, error);
+        fs.copyFileSync(safetyBackupPath, activePath);
+        throw new Error(`Failed to restore database: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+        source.close();
+        dbInstance = openDatabaseFile(activePath);
+        loadedDbPath = activePath;
+    }
+    console.log(`Restored ${activePath} from ${sourcePath}`);
+    return { activePath, sourcePath, safetyBackupPath };
+}
+
 export async function isDatabaseInitialized(): Promise<boolean> {
     try {
         const db = getDb();
@@ -312,11 +670,11 @@ export async function getDbStatusAction(): Promise<string> {
             dbIsInitialized = !!table;
             tableStatus = dbIsInitialized ? "tables ok" : "tables NOT ok (run 'init db')";
         } catch (e) {
-             // This might happen if ensureTablesExist failed silently or was interrupted
+             // This might happen if ensureSchemaMigrated failed silently or was interrupted
             tableStatus = `error checking tables (${e instanceof Error ? e.message.substring(0,30) : 'unknown err'})`;
         }
     } else if (dbInstance && path === ':memory:') {
-        // For in-memory, we can assume tables are created by ensureTablesExist if it ran.
+        // For in-memory, we can assume tables are created by ensureSchemaMigrated if it ran.
         // A more robust check would be similar to file DB.
         try {
             const table = dbInstance.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='users';").get();
@@ -328,10 +686,14 @@ export async function getDbStatusAction(): Promise<string> {
     }
 
 
+    const attachedText = attachedDbPaths.size > 0
+        ? `, attached: ${Array.from(attachedDbPaths.entries()).map(([alias, attachedPath]) => `${alias}=${attachedPath}`).join('; ')}`
+        : '';
+
     if (path === ':memory:') {
-        return `Database loaded with status ok (in-memory, ${tableStatus})`;
+        return `Database loaded with status ok (in-memory, ${tableStatus}${attachedText})`;
     } else if (path) {
-        return `Database loaded with status ok (file: ${path}, ${tableStatus})`;
+        return `Database loaded with status ok (file: ${path}, ${tableStatus}${attachedText})`;
     } else {
         return "Database status: nok (not initialized or error during load)";
     }
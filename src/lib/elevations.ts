@@ -0,0 +1,79 @@
+// src/lib/elevations.ts
+/**
+ * @fileOverview Time-bound privilege elevation, the replacement for bypassing permission checks.
+ * 'elevate <minutes> [reason]' grants the current login session an elevation that passes every
+ * permission check until it expires or is ended. The elevations table and the uses recorded in
+ * elevation_uses are the audit trail of who elevated, why, and what ran because of it.
+ * Not a 'use server' module: granting elevations must only be reachable through 'elevate'.
+ */
+
+import { runSql } from './database';
+import { hashToken } from './sessions';
+import type { CommandMode } from '@/types/command-types';
+
+export const MAX_ELEVATION_MINUTES = 60;
+
+export interface Elevation {
+    elevationId: number;
+    reason: string | null;
+    expiresAt: string; // ISO 8601, UTC
+}
+
+/**
+ * Elevates a session, ending any elevation it already has.
+ * @returns The new elevation.
+ */
+export async function createElevation(userId: number, sessionToken: string, minutes: number, reason: string | null): Promise<Elevation> {
+    await endElevation(sessionToken);
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    const { lastInsertRowid } = await runSql(
+        'INSERT INTO elevations (user_id, token_hash, reason, expires_at) VALUES (?, ?, ?, ?)',
+        [userId, hashToken(sessionToken), reason, expiresAt]
+    );
+    return { elevationId: Number(lastInsertRowid), reason, expiresAt };
+}
+
+/**
+ * Looks up the running elevation of a session.
+ * @returns The elevation, or null if there is none or the elevations table does not exist yet.
+ */
+export async function getActiveElevation(sessionToken: string): Promise<Elevation | null> {
+    try {
+        const { results } = await runSql(
+            `SELECT elevation_id, reason, expires_at FROM elevations
+             WHERE token_hash = ? AND ended_at IS NULL AND expires_at > ?
+             ORDER BY elevation_id DESC LIMIT 1`,
+            [hashToken(sessionToken), new Date().toISOString()]
+        );
+        if (!results || results.length === 0) return null;
+        return { elevationId: results[0].elevation_id, reason: results[0].reason, expiresAt: results[0].expires_at };
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('no such table')) {
+            return null; // Not migrated yet; nobody can be elevated
+        }
+        throw error;
+    }
+}
+
+/**
+ * Ends the running elevation of a session before it expires.
+ * @returns Whether the session had a running elevation.
+ */
+export async function endElevation(sessionToken: string): Promise<boolean> {
+    const { changes } = await runSql(
+        'UPDATE elevations SET ended_at = ? WHERE token_hash = ? AND ended_at IS NULL AND expires_at > ?',
+        [new Date().toISOString(), hashToken(sessionToken), new Date().toISOString()]
+    );
+    return !!changes;
+}
+
+/**
+ * Records that a command only passed its permission check because of an elevation.
+ * @param permission - The permission the user lacked.
+ */
+export async function recordElevationUse(elevation: Elevation, userId: number, mode: CommandMode, command: string, permission: string): Promise<void> {
+    await runSql(
+        'INSERT INTO elevation_uses (elevation_id, user_id, mode, command, permission) VALUES (?, ?, ?, ?, ?)',
+        [elevation.elevationId, userId, mode, command, permission]
+    );
+}
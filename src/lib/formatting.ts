@@ -2,6 +2,8 @@
 // src/lib/formatting.ts
 // src/lib/formatting.ts
 
+import type { OutputTableCell, OutputTableData } from '@/components/output-display';
+
 /**
  * Formats database results (array of objects) into a simple text table.
  * Marked as async as it's used within Server Actions.
@@ -45,3 +47,82 @@ export async function formatResultsAsTable(results: any[]): Promise<string | nul
 
     return [headerLine, separatorLine, ...dataLines, `(${results.length} row${results.length === 1 ? '' : 's'})`].join('\n');
 }
+
+export type ResultTextFormat = 'csv' | 'tsv' | 'json' | 'md';
+
+/**
+ * Converts a cell value to text for the delimited and Markdown formats; NULL becomes an empty cell.
+ */
+function cellToText(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Buffer.isBuffer(value)) return value.toString('hex');
+    return String(value);
+}
+
+/**
+ * Quotes a CSV field when it contains the delimiter, a quote or a line break (RFC 4180).
+ */
+function quoteDelimitedField(text: string, delimiter: string): string {
+    return text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r')
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+}
+
+/**
+ * Formats database results in a machine-readable format for pasting into other tools.
+ * csv/tsv have a header row, json is an array of row objects, md is a GitHub-flavoured Markdown table.
+ * @param results Array of result objects from better-sqlite3.
+ * @param format The output format.
+ * @returns The formatted text (just the header, or '[]', when there are no rows and no known columns).
+ */
+export async function formatResultsAs(results: any[], format: ResultTextFormat): Promise<string> {
+    if (format === 'json') {
+        // BigInt values (from safeIntegers) are not JSON-serialisable; blobs become hex strings
+        return JSON.stringify(results ?? [], (_key, value) => {
+            if (typeof value === 'bigint') return value.toString();
+            if (value && value.type === 'Buffer' && Array.isArray(value.data)) return Buffer.from(value.data).toString('hex');
+            return value;
+        }, 2);
+    }
+
+    const headers = results && results.length > 0 ? Object.keys(results[0]) : [];
+    if (format === 'md') {
+        const escapeMd = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+        return [
+            `| ${headers.map(escapeMd).join(' | ')} |`,
+            `| ${headers.map(() => '---').join(' | ')} |`,
+            ...results.map(row => `| ${headers.map(header => escapeMd(cellToText(row[header]))).join(' | ')} |`),
+        ].join('\n');
+    }
+
+    const delimiter = format === 'tsv' ? '\t' : ',';
+    return [
+        headers.map(header => quoteDelimitedField(header, delimiter)).join(delimiter),
+        ...results.map(row => headers.map(header => quoteDelimitedField(cellToText(row[header]), delimiter)).join(delimiter)),
+    ].join('\n');
+}
+
+/**
+ * Converts database results into structured table data for the output grid.
+ * Values are made serializable for the client: bigints become numbers (or strings when
+ * they exceed the safe integer range) and blobs become hex strings.
+ * @param results Array of result objects from better-sqlite3.
+ * @returns The columns and rows, or null if there are no results.
+ */
+export async function formatResultsAsTableData(results: any[]): Promise<OutputTableData | null> {
+    if (!results || results.length === 0) return null;
+
+    const columns = Object.keys(results[0]);
+    const toCell = (value: unknown): OutputTableCell => {
+        if (value === null || value === undefined) return null;
+        if (typeof value === 'bigint') {
+            return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+        }
+        if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+        return cellToText(value);
+    };
+    return {
+        columns,
+        rows: results.map(row => columns.map(column => toCell(row[column]))),
+    };
+}
@@ -3,7 +3,7 @@
 /**
  * @fileOverview Centralized definitions for all internal SimShell commands.
  * This file provides metadata for each command, including its description,
- * argument format, example usage, and any required permissions.
+ * argument format and example usage. The permissions are in the policy (src/lib/policy.ts).
  */
 
 export interface CommandDefinition {
@@ -12,7 +12,6 @@ export interface CommandDefinition {
   argsFormat?: string; // A concise representation of arguments, e.g., "<name> <description> <action>"
   argsDetails?: { name: string; description: string; optional?: boolean }[]; // Detailed argument breakdown
   exampleUsage?: string; // A concrete example of how to use the command.
-  requiredPermission?: string; // Optional permission needed to see/use this command in help.
 }
 
 export const internalCommandDefinitions: CommandDefinition[] = [
@@ -31,8 +30,15 @@ export const internalCommandDefinitions: CommandDefinition[] = [
   },
   {
     name: 'history',
-    description: 'Placeholder command. Intended to show command history (currently only shows in output area).',
-    requiredPermission: 'view_history',
+    description: 'Shows previously executed commands recorded in the "command_history" table (user, mode, category, duration, status). Shows the 20 most recent entries unless --last is given.',
+    argsFormat: '[--mode <mode>] [--user <username>] [--last <n>] [--grep <text>]',
+    argsDetails: [
+      { name: '--mode', description: 'Optional. Only show commands executed in this mode (e.g., sql, python).', optional: true },
+      { name: '--user', description: 'Optional. Only show commands executed by this username.', optional: true },
+      { name: '--last', description: 'Optional. Number of most recent matching entries to show. Defaults to 20.', optional: true },
+      { name: '--grep', description: 'Optional. Only show commands containing this text (use quotes for text with spaces).', optional: true },
+    ],
+    exampleUsage: 'history --mode sql --user dev --last 50 --grep SELECT',
   },
   {
     name: 'define',
@@ -41,7 +47,6 @@ export const internalCommandDefinitions: CommandDefinition[] = [
     argsDetails: [
       { name: 'term_to_define', description: 'The term or concept you want a definition for.' },
     ],
-    requiredPermission: 'use_ai_tools',
   },
   {
     name: 'refine',
@@ -50,20 +55,32 @@ export const internalCommandDefinitions: CommandDefinition[] = [
     argsDetails: [
       { name: 'text_to_refine', description: 'The text or concept to refine.' },
     ],
-    requiredPermission: 'use_ai_tools',
   },
   {
     name: 'add_int_cmd',
-    description: 'Adds a new custom internal command to the current session. The command can then be executed by its name.',
-    argsFormat: '<short_alias> <command_name> "<description>" "<action_to_perform>"',
+    description: 'Adds a custom internal command, stored in the database so it is available after a reload and to other users. The command can then be executed by its name or its short alias.',
+    argsFormat: '<short_alias> <command_name> "<description>" "<action_to_perform>" [--private]',
     argsDetails: [
-      { name: 'short_alias', description: 'A short alias or code for the command (currently informational).' },
+      { name: 'short_alias', description: 'A short alias that also invokes the command. Use the command name again for no alias.' },
       { name: 'command_name', description: 'The name used to invoke the custom command.' },
       { name: 'description', description: 'A brief description of what the custom command does (must be in quotes).' },
-      { name: 'action_to_perform', description: 'The text that will be output when the command is run (must be in quotes).' },
+      { name: 'action_to_perform', description: 'The text that will be output when the command is run (must be in quotes), or a macro: commands separated by "&&", each optionally prefixed with a mode (e.g. "sql> SELECT ..."; default internal). Steps run in order and stop at the first error. Use $1, ${1}, $@, ${name} and ${name:-default} for the arguments given when running it (name=value for named ones), ${prev} for the previous step\'s output, {var} for a variable and $$ for a literal $.' },
+      { name: '--private', description: 'Optional. Only you can see and run the command. Commands are public by default.', optional: true },
+    ],
+    exampleUsage: 'add_int_cmd tc tablecount "Counts the rows of a table" "sql> SELECT count(*) AS n FROM ${1:-variables}"',
+  },
+  {
+    name: 'list_custom_cmds',
+    description: 'Lists the custom internal commands you can run (public ones and your own private ones), with their alias, owner and action. Also available as "list custom cmds".',
+  },
+  {
+    name: 'remove_int_cmd',
+    description: "Removes a custom internal command. You can remove your own commands; removing another user's command requires the 'manage_roles_permissions' permission.",
+    argsFormat: '<command_name>',
+    argsDetails: [
+      { name: 'command_name', description: 'The name or alias of the custom command to remove.' },
     ],
-    exampleUsage: 'add_int_cmd mycmd greet "Greets the user" "Hello from my custom command!"',
-    requiredPermission: 'manage_ai_tools', // Example permission
+    exampleUsage: 'remove_int_cmd greet',
   },
   {
     name: 'add_ai_tool',
@@ -75,7 +92,6 @@ export const internalCommandDefinitions: CommandDefinition[] = [
       { name: 'tool_description', description: 'A detailed description of what the tool does, enclosed in quotes.' },
     ],
     exampleUsage: 'add_ai_tool getWeather "<location:string>" "Fetches the current weather for a given location."',
-    requiredPermission: 'manage_ai_tools',
   },
   {
     name: 'add_role',
@@ -85,7 +101,86 @@ export const internalCommandDefinitions: CommandDefinition[] = [
       { name: 'role_name', description: 'The unique name for the new role (e.g., "editor", "viewer").' },
     ],
     exampleUsage: 'add role editor',
-    requiredPermission: 'manage_roles_permissions',
+  },
+  {
+    name: 'add_user',
+    description: "Adds a user, optionally with a role. New users have no password and cannot log in until one is set with 'passwd <user>'.",
+    argsFormat: '<username> [role]',
+    argsDetails: [
+      { name: 'username', description: 'The unique username (letters, digits, "_", "." or "-").' },
+      { name: 'role', description: 'Optional. A role to grant right away, e.g. "developer".', optional: true },
+    ],
+    exampleUsage: 'add_user alice developer',
+  },
+  {
+    name: 'remove_user',
+    description: 'Removes a user together with their role assignments and sessions. Custom commands they own are kept. You cannot remove yourself.',
+    argsFormat: '<username>',
+    argsDetails: [
+      { name: 'username', description: 'The user to remove.' },
+    ],
+    exampleUsage: 'remove_user alice',
+  },
+  {
+    name: 'list_users',
+    description: 'Lists all users with their roles and whether they have a password. Also available as "list users".',
+  },
+  {
+    name: 'grant_role',
+    description: "Grants a role to a user. The user's permissions change with their next command.",
+    argsFormat: '<user> <role>',
+    argsDetails: [
+      { name: 'user', description: 'The username.' },
+      { name: 'role', description: 'The role to grant, e.g. "developer".' },
+    ],
+    exampleUsage: 'grant_role alice developer',
+  },
+  {
+    name: 'revoke_role',
+    description: 'Revokes a role from a user.',
+    argsFormat: '<user> <role>',
+    argsDetails: [
+      { name: 'user', description: 'The username.' },
+      { name: 'role', description: 'The role to revoke.' },
+    ],
+    exampleUsage: 'revoke_role alice developer',
+  },
+  {
+    name: 'grant_perm',
+    description: "Grants a permission to a role, and so to every user with that role. The permission must exist in the 'permissions' table.",
+    argsFormat: '<role> <permission>',
+    argsDetails: [
+      { name: 'role', description: 'The role, e.g. "basic_user".' },
+      { name: 'permission', description: 'The permission, e.g. "execute_sql_select".' },
+    ],
+    exampleUsage: 'grant_perm basic_user execute_sql_select',
+  },
+  {
+    name: 'revoke_perm',
+    description: 'Revokes a permission from a role.',
+    argsFormat: '<role> <permission>',
+    argsDetails: [
+      { name: 'role', description: 'The role.' },
+      { name: 'permission', description: 'The permission to revoke.' },
+    ],
+    exampleUsage: 'revoke_perm basic_user execute_sql_select',
+  },
+  {
+    name: 'list_roles',
+    description: 'Lists all roles with their number of users and their permissions. Also available as "list roles".',
+  },
+  {
+    name: 'show_perms',
+    description: "Shows the effective permissions of a user (and the roles granting them) or of a role. Your own permissions can always be shown; other users require 'manage_users', roles 'manage_roles_permissions'. A name that is both a user and a role refers to the user.",
+    argsFormat: '<user|role>',
+    argsDetails: [
+      { name: 'user|role', description: 'A username or a role name.' },
+    ],
+    exampleUsage: 'show perms dev',
+  },
+  {
+    name: 'show_policy',
+    description: "Shows the permission policy: which permission each internal command and each mode (sql, python, unix, excel, ...) requires, in evaluation order, and whether you hold it.",
   },
   {
     name: 'set_ai_tool', // This is the base command name for setting AI tool properties
@@ -97,7 +192,6 @@ export const internalCommandDefinitions: CommandDefinition[] = [
       { name: '0|1', description: 'Set to 1 to activate the tool, 0 to deactivate it.' },
     ],
     exampleUsage: 'set_ai_tool getWeather active 1',
-    requiredPermission: 'manage_ai_tools',
   },
   {
     name: 'set_sim_mode',
@@ -107,7 +201,6 @@ export const internalCommandDefinitions: CommandDefinition[] = [
       { name: '0|1', description: 'Set to 1 to enable a specific simulation mode, 0 to disable it. The meaning of the mode is context-dependent.' },
     ],
     exampleUsage: 'set_sim_mode 1',
-    requiredPermission: 'manage_variables',
   },
   {
     name: 'export_log',
@@ -116,9 +209,19 @@ export const internalCommandDefinitions: CommandDefinition[] = [
   {
     name: 'export_db',
     description: 'Persists the current database to the default file "sim_shell_exp.db" in the server\'s data directory.',
-    requiredPermission: 'execute_sql_modify',
     exampleUsage: 'export db',
   },
+  {
+    name: 'export_query',
+    description: 'Runs a query and writes its rows to a file in "data/exports" for use in other tools. Direct SQL input also accepts a trailing "--format csv|json|md|tsv" to print results in that format instead of a text table.',
+    argsFormat: '"<sql>" to <file> [csv|tsv|json|md|xlsx]',
+    argsDetails: [
+      { name: 'sql', description: 'A statement that returns rows (e.g. SELECT), in double quotes.' },
+      { name: 'file', description: 'The file name to write in "data/exports", e.g. "users.csv".' },
+      { name: 'format', description: 'Optional. csv, tsv, json, md or xlsx. Defaults to the file extension.', optional: true },
+    ],
+    exampleUsage: 'export query "SELECT * FROM variables" to variables.xlsx',
+  },
   {
     name: 'pause',
     description: 'Client-side command. Signals the UI to attempt to stop any ongoing command execution. Server acknowledges the command.',
@@ -126,17 +229,143 @@ export const internalCommandDefinitions: CommandDefinition[] = [
   {
     name: 'init',
     description: 'Initializes the system. Creates the "variables" table in the database if it doesn\'t exist and sets some default Python variables (max_iterations, learning_rate, model_name, is_training_enabled). Also creates a placeholder for the "clipboard" variable.',
-    requiredPermission: 'manage_roles_permissions',
   },
   {
     name: 'init_db',
-    description: 'Initializes the database with essential tables (variables, ai_tools, users, roles, permissions, user_roles, role_permissions, command_metadata, command_input_arguments) and populates them with sample RBAC data. This is a critical setup command.',
-    requiredPermission: 'manage_roles_permissions',
+    description: 'Initializes the database by applying all pending schema migrations from the "migrations" directory (variables, ai_tools, users, roles, permissions, user_roles, role_permissions, command_metadata, command_input_arguments, command_history, vfs_nodes, vfs_state, sheets, sheet_cells, sheet_dependencies, ...) and then populating them with sample RBAC data. This is a critical setup command.',
+  },
+  {
+    name: 'migrate',
+    description: 'Manages schema migrations. Applied versions are tracked in the "schema_migrations" table; each file in "migrations" holds "-- migrate:up" and "-- migrate:down" SQL sections.',
+    argsFormat: 'status | up [n] | down [n] | create <name>',
+    argsDetails: [
+      { name: 'status', description: 'Lists all migrations with their state (applied, pending, or missing file).' },
+      { name: 'up [n]', description: 'Applies the next n pending migrations, or all of them if n is omitted.' },
+      { name: 'down [n]', description: 'Reverts the last n applied migrations (default 1).' },
+      { name: 'create <name>', description: 'Creates an empty, timestamped migration file in "migrations".' },
+    ],
+    exampleUsage: 'migrate up 1',
+  },
+  {
+    name: 'db',
+    description: 'Manages the databases in the "data" directory at runtime: lists the files, switches the active database, creates a new one, or attaches another file to query it alongside the active database.',
+    argsFormat: 'list | use <file.db> | new <file.db> | attach <file.db> as <alias> | detach <alias>',
+    argsDetails: [
+      { name: 'list', description: 'Lists the .db files in "data" and marks the active and attached ones.' },
+      { name: 'use <file.db>', description: 'Makes an existing file the active database for every user. Refused unless an administrator of that file has a password. Attached databases are detached.' },
+      { name: 'new <file.db>', description: 'Creates a new database file, makes it active, and initializes it like "init db".' },
+      { name: 'attach <file.db> as <alias>', description: 'Attaches a file to the active connection; its tables are queried as <alias>.<table>.' },
+      { name: 'detach <alias>', description: 'Detaches a previously attached database.' },
+    ],
+    exampleUsage: 'db attach simshell_export.db as export',
+  },
+  {
+    name: 'restore_db',
+    description: 'Restores the active database from a backup file in the "data" directory (e.g. one written by "export db"). The file must be a valid SQLite database containing the core RBAC tables. The current contents are first saved to "<name>_pre_restore_<timestamp>.db".',
+    argsFormat: 'from <file.db>',
+    argsDetails: [
+      { name: 'file.db', description: 'The backup file in the "data" directory, e.g. "sim_shell_exp.db", or a snapshot as "snapshots/<file.db>" (see "snapshot list").' },
+    ],
+    exampleUsage: 'restore db from sim_shell_exp.db',
+  },
+  {
+    name: 'snapshot',
+    description: 'Lists or takes database snapshots in "data/snapshots". A background scheduler takes a snapshot every "snapshot_interval_minutes" minutes (variable; unset or 0 = off) and keeps the newest "snapshot_keep" (variable; default 10) per database.',
+    argsFormat: 'list | now',
+    argsDetails: [
+      { name: 'list', description: 'Lists the snapshot files, newest first, and the current schedule.' },
+      { name: 'now', description: 'Takes a snapshot of the active database immediately and prunes old ones.' },
+    ],
+    exampleUsage: 'snapshot now',
+  },
+  {
+    name: 'import',
+    description: 'Imports rows from a CSV or JSON file in "data/imports" into a table, in a single transaction. Rows that do not fit the table are rejected and reported; the others are imported.',
+    argsFormat: 'csv <file> into <table> [--create] [--header] [--delimiter <char>] | json <file> into <table> [--create]',
+    argsDetails: [
+      { name: 'file', description: 'The file in "data/imports": .csv, .tsv or .txt for csv, .json (an array of objects) for json.' },
+      { name: 'table', description: 'The table to insert into. Without --header, CSV fields map to its columns in order; JSON keys map to columns by name.' },
+      { name: '--create', description: 'Optional. Creates the table, inferring INTEGER, REAL or TEXT for each column. Fails if the table exists.', optional: true },
+      { name: '--header', description: 'Optional (csv). The first line holds the column names.', optional: true },
+      { name: '--delimiter', description: "Optional (csv). The field separator, e.g. ';' or 'tab'. Defaults to ',' (tab for .tsv files).", optional: true },
+    ],
+    exampleUsage: 'import csv people.csv into people --create --header --delimiter ;',
+  },
+  {
+    name: 'run',
+    description: "Runs a SimShell script (.sim) from the src/sim-scripts directory, one command per line, as if each line were typed. Lines starting with '#' are comments; a mode prefix such as 'sql>' or 'py>' sets a line's mode, otherwise it is classified automatically. 'set -e' stops the script at the first failing command ('set +e' turns it off again). {var} in a line is replaced with the variable's value. Control flow: 'if <cond>' ... 'else' ... 'end', 'for x in (a, b, c)' ... 'end', 'while <cond>' ... 'end', 'assert <cond> \"message\"', and 'let n = sql SELECT ...' or 'let n = <value>' to set a variable. A condition is a value or a comparison such as '{n} >= 3' (==, !=, <, <=, >, >=). Loop and let variables are stored like 'x = 5' assignments. A summary of every command's status is shown at the end. Also available as '@sim:<file>.sim'. Each command needs its own permissions.",
+    argsFormat: '<file.sim> [--stop-on-error]',
+    argsDetails: [
+      { name: 'file.sim', description: 'The script file name in src/sim-scripts (e.g., "test.sim").' },
+      { name: '--stop-on-error', description: "Optional. Same as 'set -e' at the top of the script.", optional: true },
+    ],
+    exampleUsage: 'run example.sim (or) @sim:example.sim --stop-on-error',
+  },
+  {
+    name: 'login',
+    description: 'Logs in as a user. The shell prompts for the password; on success a session starts (stored in an HTTP-only cookie, valid for 8 hours) and all further commands run with that user\'s permissions. Without a session commands run as a guest without permissions.',
+    argsFormat: '<user>',
+    argsDetails: [
+      { name: 'user', description: 'The username, e.g. "admin".' },
+    ],
+    exampleUsage: 'login admin',
+  },
+  {
+    name: 'logout',
+    description: 'Ends the current session; further commands run as a guest.',
+    exampleUsage: 'logout',
+  },
+  {
+    name: 'whoami',
+    description: 'Shows the logged-in user, their roles and when the session expires.',
+    exampleUsage: 'whoami',
+  },
+  {
+    name: 'passwd',
+    description: "Changes a password. The shell prompts for the passwords (at least 8 characters). Without a user it changes your own password (the current one is required) and ends your other sessions; with a user it sets that user's password, which requires 'manage_users', and ends all of their sessions.",
+    argsFormat: '[user]',
+    argsDetails: [
+      { name: 'user', description: 'Optional. The user whose password to set; defaults to yourself.', optional: true },
+    ],
+    exampleUsage: 'passwd (or) passwd dev',
+  },
+  {
+    name: 'elevate',
+    description: "Elevates your session for a limited time: every permission check passes until the elevation expires or you run 'elevate end'. Requires the 'elevate' permission; the shell prompts for your password. Each elevation and each command that needed it is recorded in the elevations and elevation_uses tables. Without arguments it shows the running elevation.",
+    argsFormat: '<minutes> [reason] | end',
+    argsDetails: [
+      { name: 'minutes', description: 'How long the elevation lasts, 1 to 60 minutes.' },
+      { name: 'reason', description: 'Optional. Why you elevate; recorded with the elevation.', optional: true },
+      { name: 'end', description: 'Ends the running elevation early.', optional: true },
+    ],
+    exampleUsage: 'elevate 15 fix broken migration (or) elevate end',
+  },
+  {
+    name: 'audit',
+    description: 'Shows the security audit trail recorded in the append-only "audit_events" table: permission denials, elevations, logins and repeated login failures, password changes, user/role/permission changes, init db, database switches, restores and database exports. Shows the 50 most recent matching events unless --last is given.',
+    argsFormat: '[--actor <user>] [--action <action|prefix*>] [--outcome <outcome>] [--since <time>] [--until <time>] [--last <n>]',
+    argsDetails: [
+      { name: '--actor', description: "Optional. Only events by this username ('guest' for commands run without login).", optional: true },
+      { name: '--action', description: "Optional. Only this action (e.g. permission.denied), or actions starting with a prefix ending in '*' (e.g. rbac.*).", optional: true },
+      { name: '--outcome', description: 'Optional. Only events with this outcome: success, denied or failure.', optional: true },
+      { name: '--since', description: 'Optional. Only events at or after this time: a date/time (e.g. 2026-10-19T08:00) or a relative time (e.g. 30m, 24h, 7d).', optional: true },
+      { name: '--until', description: 'Optional. Only events at or before this time, in the same formats as --since.', optional: true },
+      { name: '--last', description: 'Optional. Number of most recent matching events to show. Defaults to 50.', optional: true },
+    ],
+    exampleUsage: 'audit --action rbac.* --since 7d',
+  },
+  {
+    name: 'show_sheet',
+    description: 'Displays the computed values of an excel mode spreadsheet as a grid, from A1 to the last used cell.',
+    argsFormat: '<sheet_name>',
+    argsDetails: [
+      { name: 'sheet_name', description: 'The name of the sheet to display (case-insensitive), e.g. "Sheet1".' },
+    ],
+    exampleUsage: 'show sheet Sheet1',
   },
   {
     name: 'list_py_vars',
     description: 'Lists all variables currently stored in the "variables" table of the internal database, along with their data types and values.',
-    requiredPermission: 'read_variables',
   },
   {
     name: 'show_requirements',
@@ -150,7 +379,6 @@ export const internalCommandDefinitions: CommandDefinition[] = [
         { name: 'filename.db', description: 'Optional. The name of the file (e.g., "my_backup.db") to save the database to. Must end with .db. Defaults to "sim_shell.db" if not provided.', optional: true },
     ],
     exampleUsage: 'persist memory db to backup.db',
-    requiredPermission: 'execute_sql_modify',
   },
   {
     name: 'ai',
@@ -160,6 +388,5 @@ export const internalCommandDefinitions: CommandDefinition[] = [
         { name: 'input_text...', description: 'The text prompt for the AI. Can include {variable_name} for substitution and @tool_name to suggest tool usage.' },
     ],
     exampleUsage: 'ai What is the capital of France? (then) ai Tell me more about {ai_answer}. (or) ai @getWeather for London',
-    requiredPermission: 'use_ai_tools',
   },
 ];
@@ -17,7 +17,6 @@ interface HandlerParams {
     command: string; // Original command string
     timestamp: string;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
 }
 
 /**
@@ -28,7 +27,7 @@ interface HandlerParams {
  * Requires 'manage_ai_tools' permission.
  */
 export const handleAddAiTool = async (params: HandlerParams): Promise<HandlerResult> => {
-    const { command, timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks } = params;
+    const { command, timestamp, currentLogEntries, userId, userPermissions } = params;
     let outputLines: OutputLine[] = [];
     let updatedLogEntries = [...currentLogEntries];
     let logText = '';
@@ -37,15 +36,6 @@ export const handleAddAiTool = async (params: HandlerParams): Promise<HandlerRes
     let outputText = '';
     let logFlag: 0 | 1 = 0; // Default flag is 0
 
-    // Permission Check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('manage_ai_tools')) {
-    //     const errorMsg = "Permission denied: Cannot manage AI tools.";
-    //     return {
-    //         outputLines: [{ id: `add-tool-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
 
     // Regex for: add ai_tool <toolname> "<args_description>" "<description>"
     const addToolRegex = /^add ai_tool\s+(\S+)\s+"([^"]+)"\s+"([^"]+)"$/i;
@@ -5,6 +5,8 @@ import type { OutputLine } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types';
 import type { CommandMode } from '@/types/command-types';
 import type { CustomCommandAction } from '@/hooks/use-custom-commands';
+import { internalCommandDefinitions } from '@/lib/internal-commands-definitions';
+import { saveCustomCommand } from '@/lib/custom-commands';
 import type { HandlerResult } from './index'; // Import HandlerResult from parent index
 
 interface HandlerParams {
@@ -19,11 +21,14 @@ interface HandlerParams {
     // addCustomCommand: (name: string, action: CustomCommandAction) => void;
     currentLogEntries: LogEntry[];
     initialSuggestions: Record<string, string[]>;
-    overridePermissionChecks?: boolean;
 }
 
+/**
+ * Handles the 'add_int_cmd <short_alias> <name> "<description>" <action> [--private]' command.
+ * Stores the command in the custom_commands table so it survives reloads; it can be run by its name or alias.
+ */
 export const handleAddCommand = async (params: HandlerParams): Promise<HandlerResult> => {
-    const { command, timestamp, currentLogEntries, initialSuggestions, userPermissions, userId, overridePermissionChecks } = params;
+    const { command, timestamp, currentLogEntries, initialSuggestions, userPermissions, userId } = params;
     let outputLines: OutputLine[] = [];
     let updatedLogEntries = [...currentLogEntries];
     let logType: 'I' | 'E' = 'I';
@@ -44,29 +49,52 @@ export const handleAddCommand = async (params: HandlerParams): Promise<HandlerRe
         const newCommandShort = match[1];
         const newCommandName = match[2];
         const newCommandDescription = match[3].trim();
-        const newCommandAction = match[4].trim();
+        // A trailing --private/--public sets the visibility; surrounding quotes are not part of the action
+        const visibilityMatch = match[4].trim().match(/^([\s\S]*?)\s+--(private|public)$/i);
+        const visibility = visibilityMatch ? visibilityMatch[2].toLowerCase() as 'private' | 'public' : 'public';
+        let newCommandAction = (visibilityMatch ? visibilityMatch[1] : match[4]).trim();
+        if (newCommandAction.length >= 2 && newCommandAction.startsWith('"') && newCommandAction.endsWith('"')) {
+            newCommandAction = newCommandAction.slice(1, -1);
+        }
+
+        const isBuiltIn = (word: string) =>
+            initialSuggestions.internal.includes(word.toLowerCase()) ||
+            internalCommandDefinitions.some(def => def.name === word.toLowerCase() || def.name.split('_')[0] === word.toLowerCase());
+        const reservedWord = [newCommandName, newCommandShort].find(isBuiltIn);
 
-        if (initialSuggestions.internal.includes(newCommandName.toLowerCase())) {
-            outputText = `Error: Cannot redefine built-in command "${newCommandName}".`;
+        if (reservedWord) {
+            outputText = `Error: Cannot redefine built-in command "${reservedWord}".`;
             outputType = 'error';
             logType = 'E';
             logFlag = 1; // Error flag
             logText = `${outputText} (User: ${userId})`;
             outputLines = [{ id: `out-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }];
         } else {
-            // Instead of calling client-side functions, prepare data for HandlerResult
-            newSuggestionsResult = [{ mode: 'internal', command: newCommandName }];
-            newCustomCommandsResult = [{ name: newCommandName, action: newCommandAction }];
-            
-            logText = `Added internal command: "${newCommandName}" (short: ${newCommandShort}). Desc: "${newCommandDescription}". Action: "${newCommandAction}". (User: ${userId})`;
-            outputText = `Added internal command: "${newCommandName}" (short: ${newCommandShort}). Description: "${newCommandDescription}". Action: "${newCommandAction}". Logged to session log.`;
-            outputType = 'info';
-            logType = 'I';
-            logFlag = 0;
+            const alias = newCommandShort.toLowerCase() === newCommandName.toLowerCase() ? null : newCommandShort;
+            try {
+                await saveCustomCommand({ name: newCommandName, alias, description: newCommandDescription, action: newCommandAction, owner: userId, visibility });
+
+                // Instead of calling client-side functions, prepare data for HandlerResult
+                newSuggestionsResult = [{ mode: 'internal', command: newCommandName }];
+                newCustomCommandsResult = [{ name: newCommandName, action: newCommandAction }, ...(alias ? [{ name: alias, action: newCommandAction }] : [])];
+
+                logText = `Added ${visibility} internal command: "${newCommandName}" (alias: ${alias ?? 'none'}). Desc: "${newCommandDescription}". Action: "${newCommandAction}". (User: ${userId})`;
+                outputText = `Added ${visibility} internal command: "${newCommandName}"${alias ? ` (alias: ${alias})` : ''}. Description: "${newCommandDescription}". Action: "${newCommandAction}". Saved to the database.`;
+                outputType = 'info';
+                logType = 'I';
+                logFlag = 0;
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+                outputText = `Error: Could not save custom command "${newCommandName}": ${errorMsg}${errorMsg.includes('no such table') ? " Run 'migrate up' (or 'init db')." : ''}`;
+                outputType = 'error';
+                logType = 'E';
+                logFlag = 1;
+                logText = `${outputText} (User: ${userId})`;
+            }
             outputLines.push({ id: `out-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag });
         }
     } else {
-        outputText = `Error: Invalid syntax. Use: add_int_cmd <short> <name> "<description>" <whatToDo>`;
+        outputText = `Error: Invalid syntax. Use: add_int_cmd <short> <name> "<description>" <whatToDo> [--private]`;
         outputType = 'error';
         logType = 'E';
         logFlag = 1; // Error flag
@@ -3,6 +3,7 @@
 import type { OutputLine } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types';
 import { runSql } from '@/lib/database';
+import { recordAuditEvent } from '@/lib/audit';
 import type { HandlerResult } from './index';
 
 interface HandlerParams {
@@ -11,7 +12,6 @@ interface HandlerParams {
     args: string[]; // Expected: ['<role_name>']
     timestamp: string;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
 }
 
 /**
@@ -20,7 +20,7 @@ interface HandlerParams {
  * Requires 'manage_roles_permissions' permission.
  */
 export const handleAddRole = async (params: HandlerParams): Promise<HandlerResult> => {
-    const { args, timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks } = params;
+    const { args, timestamp, currentLogEntries, userId, userPermissions } = params;
     let outputLines: OutputLine[] = [];
     let updatedLogEntries = [...currentLogEntries];
     let logText = '';
@@ -29,7 +29,7 @@ export const handleAddRole = async (params: HandlerParams): Promise<HandlerResul
     let outputText = '';
     let logFlag: 0 | 1 = 0;
 
-    // Permission check is handled in the main internal command dispatcher if required by command definition
+    // Permission check is handled by the policy (src/lib/policy.ts) before the dispatcher runs
 
     if (args.length !== 1 || !args[0]) {
         outputText = `Error: Invalid syntax. Use: add role <role_name>`;
@@ -71,6 +71,8 @@ export const handleAddRole = async (params: HandlerParams): Promise<HandlerResul
         }
     }
 
+    await recordAuditEvent({ actorId: userId, action: 'rbac.add_role', target: args[0] ?? null, outcome: logType === 'E' ? 'failure' : 'success', details: { result: outputText } });
+
     updatedLogEntries.push({ timestamp, type: logType, flag: logFlag, text: logText });
 
     return {
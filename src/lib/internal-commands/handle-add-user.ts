@@ -0,0 +1,55 @@
+// src/lib/internal-commands/handle-add-user.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { createUser } from '@/lib/rbac';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'add_user <username> [role]' command.
+ * Creates a user without a password (set one with 'passwd <user>'), optionally with a role.
+ * Requires 'manage_users' permission (checked by the policy).
+ */
+export const handleAddUser = async ({ args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    if (args.length < 1 || args.length > 2 || !args[0]) {
+        outputText = 'Error: Invalid syntax. Use: add_user <username> [role]';
+    } else {
+        const [username, roleName] = args;
+        try {
+            const newUserId = await createUser(username, roleName);
+            outputText = `User '${username}' added with ID ${newUserId}${roleName ? ` and role '${roleName}'` : ''}. Set a password with 'passwd ${username}'.`;
+        } catch (error) {
+            console.error(`Error adding user '${username}':`, error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'init db'." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({ actorId: userId, action: 'rbac.add_user', target: args.join(' ') || null, outcome: logType === 'E' ? 'failure' : 'success', details: { result: outputText } });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `add-user-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
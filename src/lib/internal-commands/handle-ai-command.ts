@@ -6,6 +6,8 @@ import type { LogEntry } from '@/types/log-types';
 import { generateSimpleText, type SimpleTextGenOutput } from '@/ai/flows/simple-text-gen-flow'; // Import the AI flow and its output type
 import { storeVariableInDb, getVariableFromDb } from '@/lib/variables'; // Import DB functions
 import { getActiveAiToolsMetadata } from '@/lib/ai-tools'; // Import tool metadata fetcher
+import { canAccess } from '@/lib/policy';
+import type { Elevation } from '@/lib/elevations';
 
 // Define the structure for the return value
 interface HandlerResult {
@@ -20,7 +22,7 @@ interface HandlerParams {
     args: string[]; // ['<inputtext', 'with', '{varname}>', ...]
     timestamp: string;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
 }
 
 /**
@@ -30,7 +32,7 @@ interface HandlerParams {
  * Stores the AI's final response in the 'ai_answer' variable.
  * Can trigger toast notifications based on AI's output.
  */
-export const handleAiCommand = async ({ userId, userPermissions, args, timestamp, currentLogEntries, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
+export const handleAiCommand = async ({ userId, userPermissions, args, timestamp, currentLogEntries, elevation }: HandlerParams): Promise<HandlerResult> => {
     let inputText = args.join(' ').trim(); // Combine all arguments into the input text
     let logText: string;
     let logType: 'I' | 'W' | 'E' = 'I';
@@ -40,6 +42,7 @@ export const handleAiCommand = async ({ userId, userPermissions, args, timestamp
     let newLogEntries: LogEntry[] = [...currentLogEntries];
     let logFlag: 0 | 1 = 0; // Default flag
     let toastInfo: HandlerResult['toastInfo'] = undefined;
+    const policyContext = { userPermissions, elevation };
 
 
     if (!inputText) {
@@ -64,7 +67,7 @@ export const handleAiCommand = async ({ userId, userPermissions, args, timestamp
         const variableName = match[1];
         try {
              // Check read permission before attempting to fetch
-             if (!overridePermissionChecks && !userPermissions.includes('read_variables')) {
+             if (!canAccess('variables:read', policyContext)) {
                  processedInputText = processedInputText.replace(match[0], `<variable '${variableName}' permission denied>`);
                  const permDeniedMsg = `Permission denied to read variable '${variableName}' for AI command.`;
                  if (!substitutionError) { // Log permission denial only once per command run if multiple vars lack perm
@@ -130,7 +133,7 @@ export const handleAiCommand = async ({ userId, userPermissions, args, timestamp
 
         // Store the AI answer in the database variable 'ai_answer'
         // Check permission before storing
-        if (overridePermissionChecks || userPermissions.includes('manage_variables')) {
+        if (canAccess('variables:write', policyContext)) {
             try {
                 // Attempt to store in the primary variables table
                 await storeVariableInDb('ai_answer', aiAnswer, 'string', 'variables'); // Explicitly 'variables'
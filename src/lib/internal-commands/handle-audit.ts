@@ -0,0 +1,119 @@
+// src/lib/internal-commands/handle-audit.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { queryAuditEvents, recordAuditEvent, type AuditEventFilters, type AuditOutcome } from '@/lib/audit';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import { parseOptions, parsePositiveIntOption, tokenizeArgs } from '@/lib/command-options';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    command: string;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+const USAGE = 'audit [--actor <user>] [--action <action|prefix*>] [--outcome success|denied|failure] [--since <time>] [--until <time>] [--last <n>]';
+const RELATIVE_TIME = /^(\d+)([mhd])$/; // e.g. 30m, 24h, 7d: that long before now
+const UNIT_MS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/** Parses a relative time ('24h') or a date/time ('2026-10-19', '2026-10-19T08:00') into ISO 8601. */
+function parseTime(value: string): string | null {
+    const relative = value.match(RELATIVE_TIME);
+    if (relative) {
+        return new Date(Date.now() - Number(relative[1]) * UNIT_MS[relative[2]]).toISOString();
+    }
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+/**
+ * Parses the audit options into filters.
+ * Returns an error message instead if an option is unknown or malformed.
+ */
+function parseAuditFilters(tokens: string[]): AuditEventFilters | string {
+    const options = parseOptions(tokens, ['--actor', '--action', '--outcome', '--since', '--until', '--last']);
+    if (typeof options === 'string') {
+        return options;
+    }
+    const filters: AuditEventFilters = {};
+    if (options['--actor'] !== undefined) filters.actor = options['--actor'];
+    if (options['--action'] !== undefined) filters.action = options['--action'].toLowerCase();
+    if (options['--outcome'] !== undefined) {
+        const outcome = options['--outcome'].toLowerCase();
+        if (!['success', 'denied', 'failure'].includes(outcome)) {
+            return `Invalid value for --outcome: '${options['--outcome']}'. Expected success, denied or failure.`;
+        }
+        filters.outcome = outcome as AuditOutcome;
+    }
+    for (const option of ['--since', '--until'] as const) {
+        if (options[option] === undefined) continue;
+        const time = parseTime(options[option]);
+        if (!time) {
+            return `Invalid value for ${option}: '${options[option]}'. Expected a date/time (e.g. 2026-10-19T08:00) or a relative time (e.g. 30m, 24h, 7d).`;
+        }
+        if (option === '--since') filters.since = time;
+        else filters.until = time;
+    }
+    if (options['--last'] !== undefined) {
+        const last = parsePositiveIntOption('--last', options['--last']);
+        if (typeof last === 'string') {
+            return last;
+        }
+        filters.last = last;
+    }
+    return filters;
+}
+
+/**
+ * Handles the 'audit [--actor <user>] [--action <action>] [--outcome <outcome>] [--since <time>] [--until <time>] [--last <n>]' command.
+ * Reads the security audit trail from the 'audit_events' table; reading it is audited as well.
+ * Requires 'view_audit' permission (checked by the policy).
+ */
+export const handleAudit = async ({ command, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputLine: OutputLine;
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const filters = parseAuditFilters(tokenizeArgs(command.trim().replace(/^audit\b/i, '')));
+
+    if (typeof filters === 'string') {
+        logText = `Error: ${filters} Use: ${USAGE}`;
+        outputLine = { id: `audit-${timestamp}`, text: logText, type: 'error', category: 'internal', timestamp, flag: 1 };
+        logType = 'E';
+        logFlag = 1;
+    } else {
+        try {
+            const rows = await queryAuditEvents(filters);
+            outputLine = rows.length > 0
+                ? {
+                    id: `audit-${timestamp}`,
+                    text: (await formatResultsAsTable(rows)) ?? '',
+                    table: (await formatResultsAsTableData(rows)) ?? undefined,
+                    type: 'output',
+                    category: 'internal',
+                    timestamp: undefined,
+                    flag: 0,
+                }
+                : { id: `audit-${timestamp}`, text: 'No matching audit events.', type: 'info', category: 'internal', timestamp, flag: 0 };
+            logText = `Displayed ${rows.length} audit event(s). Filters: ${JSON.stringify(filters)}`;
+            await recordAuditEvent({ actorId: userId, action: 'audit.query', outcome: 'success', details: { ...filters, rows: rows.length } });
+        } catch (error) {
+            console.error('Error retrieving audit events:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            logText = `Error retrieving audit events: ${errorMsg}${errorMsg.includes('no such table') ? ". Run 'migrate up' (or 'init db')." : ''}`;
+            outputLine = { id: `audit-${timestamp}`, text: logText, type: 'error', category: 'internal', timestamp, flag: 1 };
+            logType = 'E';
+            logFlag = 1;
+        }
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [outputLine],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
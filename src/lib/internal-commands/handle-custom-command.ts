@@ -2,40 +2,140 @@
 // src/lib/internal-commands/handle-custom-command.ts
 'use server';
 import type { OutputLine } from '@/components/output-display';
-import type { CustomCommandAction } from '@/hooks/use-custom-commands';
+import type { CustomCommandAction, CustomCommands } from '@/hooks/use-custom-commands';
 import type { LogEntry } from '@/types/log-types';
+import { executeCommand } from '@/lib/command-executor';
+import { substituteVariableReferences } from '@/lib/variables';
+import { parseMacroArguments, parseMacroBody, substituteMacroParameters, type MacroArguments } from '@/lib/command-macros';
+import { canAccess, formatPermissionDenied } from '@/lib/policy';
+import type { Elevation } from '@/lib/elevations';
 import type { HandlerResult } from './index'; // Import HandlerResult from parent index
 
 interface HandlerParams {
     userId: number;
     userPermissions: string[];
+    command: string;
     timestamp: string;
     commandName: string;
     currentLogEntries: LogEntry[];
+    initialSuggestions: Record<string, string[]>;
+    customCommands: CustomCommands;
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+    macroDepth?: number;
 }
 
+const MAX_MACRO_DEPTH = 5; // Custom commands may call other custom commands up to this depth
+const VARIABLE_REFERENCE = /(?<!\$)\{[a-zA-Z_]\w*\}/; // {varname}, but not a ${name} parameter
+
+/**
+ * Handles running a custom internal command.
+ * The text after the command name supplies positional and name=value arguments for $1, ${name}, ...
+ * A plain-text action is printed; a body of '&&'-separated steps (optionally prefixed with a mode,
+ * e.g. 'sql> SELECT ...') runs each step through executeCommand, stopping at the first error.
+ * ${prev} in a step is the text output of the previous step.
+ */
 export const handleCustomCommand = async (params: HandlerParams, action: CustomCommandAction): Promise<HandlerResult> => {
-    const { timestamp, commandName, currentLogEntries, userId, userPermissions } = params;
+    const { timestamp, commandName, command, currentLogEntries, userId, userPermissions, elevation, macroDepth = 0 } = params;
 
-    await new Promise(resolve => setTimeout(resolve, 500));
+    const args: MacroArguments = parseMacroArguments(command.trim().split(/\s+/).slice(1).join(' '));
+    const steps = parseMacroBody(action);
+    const canReadVariables = canAccess('variables:read', { userPermissions, elevation });
 
-    const outputText = action;
-    const outputLines: OutputLine[] = [{ id: `out-${timestamp}`, text: outputText, type: 'output', category: 'internal', timestamp, flag: 0 }]; // Added flag
+    const errorResult = (errorMsg: string): HandlerResult => ({
+        outputLines: [{ id: `custom-cmd-err-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }],
+        newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }],
+    });
 
-    const logEntry: LogEntry = {
-        timestamp,
-        type: 'I',
-        flag: 0,
-        text: `Executed custom command '${commandName}'. Output: ${outputText} (User: ${userId})`
-    };
-    const newLogEntries = [...currentLogEntries, logEntry];
+    // Check all parameters before running anything; ${prev} is filled in while the steps run
+    const missing = new Set<string>();
+    for (const text of steps ? steps.map(step => step.command) : [action]) {
+        substituteMacroParameters(text, { positional: args.positional, named: { prev: '', ...args.named } }).missing.forEach(ref => missing.add(ref));
+    }
+    if (missing.size > 0) {
+        return errorResult(`Error: Custom command '${commandName}' is missing argument(s): ${Array.from(missing).join(', ')}.`);
+    }
+    if (VARIABLE_REFERENCE.test(action) && !canReadVariables) {
+        return errorResult(formatPermissionDenied(`Custom command '${commandName}' reads variables, which`, 'variables:read'));
+    }
+
+    if (!steps) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+
+        const outputText = substituteMacroParameters((await substituteVariableReferences(action)).text, args).text;
+        const outputLines: OutputLine[] = [{ id: `out-${timestamp}`, text: outputText, type: 'output', category: 'internal', timestamp, flag: 0 }]; // Added flag
+
+        const logEntry: LogEntry = {
+            timestamp,
+            type: 'I',
+            flag: 0,
+            text: `Executed custom command '${commandName}'. Output: ${outputText} (User: ${userId})`
+        };
+        const newLogEntries = [...currentLogEntries, logEntry];
+
+        return {
+            outputLines: outputLines,
+            newLogEntries: newLogEntries,
+            newSuggestions: undefined,
+            newCustomCommands: undefined,
+            toastInfo: undefined
+        };
+    }
+
+    if (macroDepth >= MAX_MACRO_DEPTH) {
+        return errorResult(`Error: Custom command '${commandName}' not run: custom commands are nested more than ${MAX_MACRO_DEPTH} levels deep (is it calling itself?).`);
+    }
+
+    const outputLines: OutputLine[] = [];
+    const newSuggestions: NonNullable<HandlerResult['newSuggestions']> = [];
+    const newCustomCommands: NonNullable<HandlerResult['newCustomCommands']> = [];
+    const removedCustomCommands: string[] = [];
+    let toastInfo: HandlerResult['toastInfo'];
+    let logEntries: LogEntry[] = [...currentLogEntries, { timestamp, type: 'I', flag: 0, text: `Running custom command '${commandName}' (${steps.length} step(s)). (User: ${userId})` }];
+    let previousOutput = '';
+    let completedSteps = 0;
+    let failedStep: number | null = null;
+
+    for (const [index, step] of steps.entries()) {
+        const stepArgs = { positional: args.positional, named: { prev: previousOutput, ...args.named } };
+        // Variables are read when the step runs, so earlier steps can set them (e.g. 'ai' stores {ai_answer})
+        const stepCommand = substituteMacroParameters((await substituteVariableReferences(step.command)).text, stepArgs).text;
+
+        const stepResult = await executeCommand({
+            command: stepCommand,
+            mode: step.mode,
+            currentLogEntries: logEntries,
+            initialSuggestions: params.initialSuggestions,
+            customCommands: params.customCommands,
+            macroDepth: macroDepth + 1,
+        });
+
+        outputLines.push(...stepResult.outputLines.map((line, lineIndex) => ({ ...line, id: `${line.id}-step${index + 1}-${lineIndex}` })));
+        logEntries = stepResult.newLogEntries ?? logEntries;
+        newSuggestions.push(...(stepResult.newSuggestions ?? []));
+        newCustomCommands.push(...(stepResult.newCustomCommands ?? []));
+        removedCustomCommands.push(...(stepResult.removedCustomCommands ?? []));
+        toastInfo = stepResult.toastInfo ?? toastInfo;
+
+        if (stepResult.outputLines.some(line => line.type === 'error')) {
+            failedStep = index + 1;
+            break;
+        }
+        completedSteps++;
+        previousOutput = stepResult.outputLines.filter(line => line.type === 'output').map(line => line.text).join('\n');
+    }
+
+    const summary = failedStep === null
+        ? `Custom command '${commandName}' finished: ${completedSteps} step(s) ran.`
+        : `Custom command '${commandName}' stopped at step ${failedStep} of ${steps.length} after an error.`;
+    outputLines.push({ id: `custom-cmd-summary-${timestamp}`, text: summary, type: failedStep === null ? 'info' : 'error', category: 'internal', timestamp, flag: failedStep === null ? 0 : 1 });
 
     return {
-        outputLines: outputLines,
-        newLogEntries: newLogEntries,
-        newSuggestions: undefined,
-        newCustomCommands: undefined,
-        toastInfo: undefined
+        outputLines,
+        newLogEntries: [...logEntries, { timestamp, type: failedStep === null ? 'I' : 'E', flag: failedStep === null ? 0 : 1, text: `${summary} (User: ${userId})` }],
+        newSuggestions: newSuggestions.length > 0 ? newSuggestions : undefined,
+        newCustomCommands: newCustomCommands.length > 0 ? newCustomCommands : undefined,
+        removedCustomCommands: removedCustomCommands.length > 0 ? removedCustomCommands : undefined,
+        toastInfo,
     };
 };
 
@@ -0,0 +1,105 @@
+// src/lib/internal-commands/handle-db.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { listDbFiles, switchDatabase, attachDatabase, detachDatabase, getDbStatusAction } from '@/lib/database';
+import { formatResultsAsTable } from '@/lib/formatting';
+import { recordAuditEvent } from '@/lib/audit';
+import { handleInitDb } from './handle-init-db';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+const USAGE = 'Use: db list | db use <file.db> | db new <file.db> | db attach <file.db> as <alias> | db detach <alias>';
+
+/**
+ * Handles the 'db' command: lists the database files in data/, switches the active
+ * database, and attaches or detaches additional databases at runtime.
+ * Switching, attaching and detaching are recorded in the audit trail of the database
+ * that is active afterwards.
+ */
+export const handleDb = async ({ args, timestamp, currentLogEntries, userId, userPermissions }: HandlerParams): Promise<HandlerResult> => {
+    const outputLines: OutputLine[] = [];
+    let logText = '';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const addLine = (text: string, type: OutputLine['type']) => {
+        outputLines.push({
+            id: `db-${outputLines.length}-${timestamp}`,
+            text,
+            type,
+            category: 'internal',
+            timestamp: type === 'output' ? undefined : timestamp,
+            flag: type === 'error' || type === 'warning' ? 1 : 0,
+        });
+    };
+
+    const subcommand = (args[0] || '').toLowerCase();
+
+    try {
+        if (subcommand === 'list' && args.length === 1) {
+            const files = await listDbFiles();
+            if (files.length === 0) {
+                addLine('No database files found in data/.', 'info');
+            } else {
+                addLine((await formatResultsAsTable(files)) ?? '', 'output');
+            }
+            logText = `Listed ${files.length} database file(s).`;
+        } else if ((subcommand === 'use' || subcommand === 'new') && args.length === 2) {
+            // A new file gets the same seed data as 'init db' (including the admin password) before the switch completes
+            const initLines: OutputLine[] = [];
+            const initialize = subcommand === 'new' ? async () => {
+                const initResult = await handleInitDb({ userId, userPermissions, timestamp, currentLogEntries: [] });
+                initLines.push(...initResult.outputLines.map((line, index) => ({ ...line, id: `db-init-${index}-${timestamp}` })));
+            } : undefined;
+            let switched: Awaited<ReturnType<typeof switchDatabase>>;
+            try {
+                switched = await switchDatabase(args[1], subcommand === 'new', initialize);
+            } finally {
+                outputLines.push(...initLines);
+            }
+            const { dbPath, detachedAliases } = switched;
+            addLine(`${subcommand === 'new' ? 'Created and switched to' : 'Switched to'} database: ${dbPath}`, 'info');
+            if (detachedAliases.length > 0) {
+                addLine(`Detached: ${detachedAliases.join(', ')} (attachments belong to the previous connection).`, 'warning');
+            }
+            addLine(await getDbStatusAction(), 'info');
+            logText = `Active database switched to ${dbPath}${subcommand === 'new' ? ' (new file, initialized)' : ''}.`;
+        } else if (subcommand === 'attach' && args.length === 4 && args[2].toLowerCase() === 'as') {
+            const dbPath = await attachDatabase(args[1], args[3]);
+            addLine(`Attached ${dbPath} as '${args[3].toLowerCase()}'. Query its tables as ${args[3].toLowerCase()}.<table>.`, 'info');
+            logText = `Attached database ${dbPath} as '${args[3].toLowerCase()}'.`;
+        } else if (subcommand === 'detach' && args.length === 2) {
+            const dbPath = await detachDatabase(args[1]);
+            addLine(`Detached '${args[1].toLowerCase()}' (${dbPath}).`, 'info');
+            logText = `Detached database '${args[1].toLowerCase()}' (${dbPath}).`;
+        } else {
+            throw new Error(`Invalid db command. ${USAGE}`);
+        }
+    } catch (error) {
+        console.error('Error running db command:', error);
+        const errorMsg = `Error: ${error instanceof Error ? error.message : 'Unknown database error'}`;
+        addLine(errorMsg, 'error');
+        logText = errorMsg;
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    if (['use', 'new', 'attach', 'detach'].includes(subcommand)) {
+        await recordAuditEvent({ actorId: userId, action: `database.${subcommand}`, target: args[1] ?? null, outcome: logType === 'E' ? 'failure' : 'success', details: { command: ['db', ...args].join(' '), result: logText } });
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines,
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,103 @@
+// src/lib/internal-commands/handle-elevate.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { verifyPassword, type CommandCredentials } from '@/lib/passwords';
+import { GUEST_USER_ID } from '@/lib/sessions';
+import { MAX_ELEVATION_MINUTES, createElevation, endElevation, type Elevation } from '@/lib/elevations';
+import { canAccess, formatPermissionDenied } from '@/lib/policy';
+import { recordAuditEvent, type AuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+    sessionToken?: string;
+    credentials?: CommandCredentials;
+}
+
+/**
+ * Handles 'elevate <minutes> [reason]', 'elevate end' and 'elevate' (show the running elevation).
+ * Elevating requires the 'elevate' permission and the user's password (from the client's password
+ * prompt), and lets the current session pass every permission check for up to MAX_ELEVATION_MINUTES.
+ * A new elevation replaces the running one. Every elevation is recorded with its reason, and
+ * grants (including refused ones) and early ends go to the audit trail.
+ */
+export const handleElevate = async ({ args, timestamp, currentLogEntries, userId, userPermissions, elevation, sessionToken, credentials }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+    let auditEvent: Omit<AuditEvent, 'actorId'> | null = null;
+
+    const minutes = Number(args[0]);
+    const reason = args.slice(1).join(' ').trim() || null;
+
+    if (userId === GUEST_USER_ID || !sessionToken) {
+        outputText = "Error: Not logged in. Use 'login <user>' first.";
+    } else if (args.length === 0) {
+        outputText = elevation
+            ? `Elevated (elevation #${elevation.elevationId}) until ${elevation.expiresAt}${elevation.reason ? `. Reason: ${elevation.reason}` : ''}. Use 'elevate end' to end it now.`
+            : 'Not elevated.';
+    } else if (args.length === 1 && args[0].toLowerCase() === 'end') {
+        try {
+            if (await endElevation(sessionToken)) {
+                outputText = `Elevation #${elevation?.elevationId} ended. Permission checks apply again.`;
+                auditEvent = { action: 'elevation.end', outcome: 'success', details: { elevationId: elevation?.elevationId } };
+            } else {
+                outputText = 'Not elevated.';
+            }
+        } catch (error) {
+            console.error('Error ending elevation:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'migrate up' (or 'init db')." : ''}`;
+        }
+    } else if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ELEVATION_MINUTES) {
+        outputText = `Error: Invalid syntax. Use: elevate <minutes> [reason] (1-${MAX_ELEVATION_MINUTES} minutes), elevate end, or elevate`;
+    } else if (!canAccess('elevation', { userPermissions })) {
+        // Checked without the running elevation: an elevation must not extend itself
+        outputText = `Error: ${formatPermissionDenied("'elevate'", 'elevation')}`;
+        auditEvent = { action: 'elevation.grant', outcome: 'denied', details: { minutes, reason } };
+    } else if (!credentials?.password) {
+        outputText = `Error: No password given. Type '${['elevate', ...args].join(' ')}' in the shell to be prompted for your password.`;
+    } else {
+        try {
+            const { results } = await runSql('SELECT password_hash FROM users WHERE user_id = ?', [userId]);
+            if (!results?.[0] || !(await verifyPassword(credentials.password, results[0].password_hash))) {
+                outputText = 'Error: The password is incorrect.';
+                auditEvent = { action: 'elevation.grant', outcome: 'failure', details: { minutes, reason, error: 'incorrect password' } };
+            } else {
+                const created = await createElevation(userId, sessionToken, minutes, reason);
+                outputText = `Elevated for ${minutes} minute(s) (elevation #${created.elevationId}), until ${created.expiresAt}. This session now passes every permission check; each command that needs it is recorded. Use 'elevate end' to end it early.`;
+                auditEvent = { action: 'elevation.grant', outcome: 'success', details: { elevationId: created.elevationId, minutes, reason, expiresAt: created.expiresAt } };
+            }
+        } catch (error) {
+            console.error('Error during elevate:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'migrate up' (or 'init db')." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    if (auditEvent) {
+        await recordAuditEvent({ actorId: userId, ...auditEvent });
+    }
+
+    const logText = `elevate${args.length > 0 ? ` ${args[0]}` : ''}${reason ? ` (reason: ${reason})` : ''}: ${outputText}`;
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `elevate-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -4,6 +4,7 @@
 import type { OutputLine } from '@/components/output-display';
 import { persistDbToFile } from '@/lib/database'; // Import the persistence function
 import type { LogEntry } from '@/types/log-types'; // Import new LogEntry
+import { recordAuditEvent } from '@/lib/audit';
 
 // Define the structure for the return value, including potential log updates
 interface HandlerResult {
@@ -16,7 +17,6 @@ interface HandlerParams {
     userPermissions: string[]; // Added permissions
     timestamp: string;
     currentLogEntries: LogEntry[]; // Pass current logs
-    overridePermissionChecks?: boolean;
 }
 
 // Default filename for export db command
@@ -27,16 +27,7 @@ const DEFAULT_EXPORT_FILENAME = 'sim_shell_exp.db'; // Export to a different nam
  * Persists the current database state to 'sim_shell_exp.db' in the server's 'data' directory.
  * Requires 'execute_sql_modify' permission.
  */
-export const handleExportDb = async ({ timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
-    // Permission check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('execute_sql_modify')) {
-    //     const errorMsg = "Permission denied: Cannot export database.";
-    //     return {
-    //         outputLines: [{ id: `export-db-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
+export const handleExportDb = async ({ timestamp, currentLogEntries, userId, userPermissions }: HandlerParams): Promise<HandlerResult> => {
     let logText: string;
     let logType: 'I' | 'E' = 'I';
     let outputType: OutputLine['type'] = 'info';
@@ -70,6 +61,8 @@ export const handleExportDb = async ({ timestamp, currentLogEntries, userId, use
         logText = outputText + ` (User: ${userId})`;
     }
 
+    await recordAuditEvent({ actorId: userId, action: 'database.export', target: `data/${targetFilename}`, outcome: logType === 'E' ? 'failure' : 'success', details: { command: 'export db', result: outputText } });
+
     const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: logText };
     const newLogEntries = [...currentLogEntries, logEntry];
 
@@ -0,0 +1,97 @@
+// src/lib/internal-commands/handle-export-query.ts
+'use server';
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runReadOnlyQuery } from '@/lib/database';
+import { formatResultsAs } from '@/lib/formatting';
+import type { ResultTextFormat } from '@/lib/formatting';
+import { buildXlsxWorkbook } from '@/lib/xlsx-writer';
+import { recordAuditEvent } from '@/lib/audit';
+import { evaluatePolicy } from '@/lib/policy';
+import { recordElevationUse, type Elevation } from '@/lib/elevations';
+import { isReadOnlySql } from '@/lib/sql-splitter';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    command: string;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+}
+
+const EXPORTS_DIR = path.join(process.cwd(), 'data', 'exports');
+const EXPORT_FORMATS = ['csv', 'tsv', 'json', 'md', 'xlsx'];
+
+/**
+ * Handles the 'export query "<sql>" to <file> [format]' command.
+ * Runs a row-returning statement and writes the rows to data/exports/<file>.
+ * The format defaults to the file extension (csv, tsv, json, md or xlsx).
+ * The statement must only read, and the sql policy applies to it as in sql mode.
+ */
+export const handleExportQuery = async ({ command, timestamp, currentLogEntries, userId, userPermissions, elevation }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    // The SQL runs to the last '"' before ' to ', so it may itself contain double quotes
+    const match = command.trim().match(/^export\s+query\s+"([\s\S]+)"\s+to\s+(\S+)(?:\s+(\S+))?$/i);
+
+    try {
+        if (!match) {
+            throw new Error('Invalid syntax. Use: export query "<sql>" to <file> [csv|tsv|json|md|xlsx]');
+        }
+        const [, sql, filename, formatArg] = match;
+        if (!/^[a-zA-Z0-9_.-]+$/.test(filename) || filename.includes('..')) {
+            throw new Error(`Invalid export filename '${filename}'. Use only letters, digits, '_', '-' and '.'.`);
+        }
+        const format = (formatArg || path.extname(filename).slice(1)).toLowerCase();
+        if (!EXPORT_FORMATS.includes(format)) {
+            throw new Error(`Unknown export format '${formatArg || path.extname(filename) || '(none)'}'. Use one of: ${EXPORT_FORMATS.join(', ')} (or a file extension that names one).`);
+        }
+
+        if (!isReadOnlySql(sql)) {
+            throw new Error('export query only accepts statements that read rows (SELECT or WITH ... SELECT).');
+        }
+        // The policy allowed 'export query'; the tables the query reads may need more (e.g. audit_events needs view_audit)
+        const decision = evaluatePolicy('sql', sql, { userPermissions, elevation });
+        if (!decision.allowed) {
+            await recordAuditEvent({ actorId: userId, action: 'permission.denied', target: command.trim(), outcome: 'denied', details: { mode: 'sql', permission: decision.permission, resource: decision.rule.resource } });
+            throw new Error(decision.message!);
+        }
+        if (decision.elevated && decision.rule.additive && elevation) {
+            await recordElevationUse(elevation, userId, 'sql', sql, decision.permission!);
+            await recordAuditEvent({ actorId: userId, action: 'elevation.use', target: sql, outcome: 'success', details: { mode: 'sql', permission: decision.permission, elevationId: elevation.elevationId } });
+        }
+        const results = await runReadOnlyQuery(sql);
+
+        await fs.mkdir(EXPORTS_DIR, { recursive: true });
+        const filePath = path.join(EXPORTS_DIR, filename);
+        if (format === 'xlsx') {
+            await fs.writeFile(filePath, buildXlsxWorkbook(results, path.basename(filename, path.extname(filename))));
+        } else {
+            await fs.writeFile(filePath, `${await formatResultsAs(results, format as ResultTextFormat)}\n`, 'utf-8');
+        }
+        outputText = `Exported ${results.length} row(s) as ${format} to data/exports/${filename}`;
+    } catch (error) {
+        console.error('Error exporting query results:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        outputText = `Error exporting query: ${errorMsg}${errorMsg.includes('no such table') ? ". Consider running 'init db'." : ''}`;
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({ actorId: userId, action: 'database.export', target: match ? `data/exports/${match[2]}` : null, outcome: logType === 'E' ? 'failure' : 'success', details: { command: 'export query', sql: match?.[1], result: outputText } });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `export-query-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,62 @@
+// src/lib/internal-commands/handle-grant-perm.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { setRolePermission } from '@/lib/rbac';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    commandName: string; // 'grant_perm' or 'revoke_perm'
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles 'grant_perm <role> <permission>' and 'revoke_perm <role> <permission>'.
+ * Adds or removes a row in 'role_permissions'; the change applies to the next command of every user with the role.
+ * Only permissions listed in the 'permissions' table can be granted.
+ * Requires 'manage_roles_permissions' permission (checked by the policy).
+ */
+export const handleGrantPerm = async ({ commandName, args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    const granting = commandName === 'grant_perm';
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    if (args.length !== 2) {
+        outputText = `Error: Invalid syntax. Use: ${commandName} <role> <permission>`;
+    } else {
+        const [roleName, permissionName] = args;
+        try {
+            const changed = await setRolePermission(roleName, permissionName, granting);
+            if (granting) {
+                outputText = changed ? `Granted permission '${permissionName}' to role '${roleName}'.` : `Role '${roleName}' already has permission '${permissionName}'.`;
+            } else {
+                outputText = changed ? `Revoked permission '${permissionName}' from role '${roleName}'.` : `Role '${roleName}' does not have permission '${permissionName}'.`;
+            }
+        } catch (error) {
+            console.error(`Error in ${commandName}:`, error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'init db'." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({ actorId: userId, action: `rbac.${commandName}`, target: args.join(' ') || null, outcome: logType === 'E' ? 'failure' : 'success', details: { result: outputText } });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `${commandName.replace('_', '-')}-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,61 @@
+// src/lib/internal-commands/handle-grant-role.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { setUserRole } from '@/lib/rbac';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    commandName: string; // 'grant_role' or 'revoke_role'
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles 'grant_role <user> <role>' and 'revoke_role <user> <role>'.
+ * Adds or removes a row in 'user_roles'; the change applies to the user's next command.
+ * Requires 'manage_users' permission (checked by the policy).
+ */
+export const handleGrantRole = async ({ commandName, args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    const granting = commandName === 'grant_role';
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    if (args.length !== 2) {
+        outputText = `Error: Invalid syntax. Use: ${commandName} <user> <role>`;
+    } else {
+        const [username, roleName] = args;
+        try {
+            const changed = await setUserRole(username, roleName, granting);
+            if (granting) {
+                outputText = changed ? `Granted role '${roleName}' to '${username}'.` : `User '${username}' already has role '${roleName}'.`;
+            } else {
+                outputText = changed ? `Revoked role '${roleName}' from '${username}'.` : `User '${username}' does not have role '${roleName}'.`;
+            }
+        } catch (error) {
+            console.error(`Error in ${commandName}:`, error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'init db'." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({ actorId: userId, action: `rbac.${commandName}`, target: args.join(' ') || null, outcome: logType === 'E' ? 'failure' : 'success', details: { result: outputText } });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `${commandName.replace('_', '-')}-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
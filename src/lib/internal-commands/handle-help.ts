@@ -6,6 +6,9 @@ import { ALL_COMMAND_MODES, type CommandMode } from '@/types/command-types';
 import type { LogEntry } from '@/types/log-types';
 import { internalCommandDefinitions, type CommandDefinition } from '@/lib/internal-commands-definitions';
 import { isDatabaseInitialized } from '@/lib/database';
+import { listCustomCommands } from '@/lib/custom-commands';
+import { evaluatePolicy, getDefinitionPermission, hasPermission } from '@/lib/policy';
+import type { Elevation } from '@/lib/elevations';
 import type { HandlerResult } from './index';
 
 interface HandlerParams {
@@ -15,10 +18,10 @@ interface HandlerParams {
     timestamp: string;
     initialSuggestions: Record<string, string[]>;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
 }
 
-export const handleHelp = async ({ userId, args, timestamp, initialSuggestions, currentLogEntries, userPermissions, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
+export const handleHelp = async ({ userId, args, timestamp, initialSuggestions, currentLogEntries, userPermissions, elevation }: HandlerParams): Promise<HandlerResult> => {
     let helpText = '';
     let outputLines: OutputLine[] = [];
     let logTextEntry = '';
@@ -26,6 +29,7 @@ export const handleHelp = async ({ userId, args, timestamp, initialSuggestions,
     let logFlag: 0 | 1 = 0;
 
     const requestedCategory = args[0] as CommandMode | undefined;
+    const policyContext = { userPermissions, elevation };
 
     const dbInitialized = await isDatabaseInitialized();
 
@@ -41,14 +45,14 @@ export const handleHelp = async ({ userId, args, timestamp, initialSuggestions,
 
             if (requestedCategory === 'internal') {
                 let commandsToShow: CommandDefinition[] = internalCommandDefinitions;
-                if (!dbInitialized && !overridePermissionChecks) {
+                if (!dbInitialized && !elevation) {
                     commandsToShow = internalCommandDefinitions.filter(cmdDef => cmdDef.name === 'ai' || cmdDef.name === 'init_db' || cmdDef.name === 'help');
                     logTextEntry += '(Database not initialized - showing limited internal commands). ';
                     helpText += "\n\n**Note:** Database not fully initialized. Some internal commands may be unavailable. Run 'init_db'.";
                 }
 
                 commandsToShow.forEach(cmdDef => {
-                    if (overridePermissionChecks || !cmdDef.requiredPermission || userPermissions.includes(cmdDef.requiredPermission) || userPermissions.includes('override_all_permissions')) {
+                    if (hasPermission(getDefinitionPermission(cmdDef.name), policyContext)) {
                         helpText += `\n\n**${cmdDef.name}**`;
                         if (cmdDef.argsFormat) {
                             helpText += ` ${cmdDef.argsFormat}`;
@@ -65,21 +69,22 @@ export const handleHelp = async ({ userId, args, timestamp, initialSuggestions,
                         }
                     }
                 });
+
+                if (dbInitialized) {
+                    const customCommands = await listCustomCommands();
+                    if (customCommands.length > 0) {
+                        helpText += `\n\n--- Custom Commands ---`;
+                        customCommands.forEach(cmd => {
+                            helpText += `\n\n**${cmd.name}**${cmd.alias ? ` (alias: ${cmd.alias})` : ''}${cmd.visibility === 'private' ? ' [private]' : ''}`;
+                            helpText += `\n  *Description*: ${cmd.description || '(none)'}`;
+                        });
+                    }
+                }
             } else {
                 const suggestions = initialSuggestions[requestedCategory];
                 if (suggestions && suggestions.length > 0) {
                     suggestions.forEach(suggestion => {
-                        let showSuggestion = true;
-                        if (!overridePermissionChecks && !userPermissions.includes('override_all_permissions')) {
-                            if (requestedCategory === 'sql' && !(userPermissions.includes('execute_sql_select') || userPermissions.includes('execute_sql_modify'))) {
-                                showSuggestion = false;
-                            }
-                            if (requestedCategory === 'python' && !userPermissions.includes('execute_python_code')) {
-                                showSuggestion = false;
-                            }
-                            // Add checks for other categories if specific permissions are relevant
-                        }
-                        if (showSuggestion) {
+                        if (evaluatePolicy(requestedCategory, suggestion, policyContext).allowed) {
                             helpText += `\n- ${suggestion}`;
                         }
                     });
@@ -93,11 +98,11 @@ export const handleHelp = async ({ userId, args, timestamp, initialSuggestions,
         }
     } else {
         // General Help (current behavior)
-        helpText = `Command category is automatically detected.\n@bat:<filename><.bat/.sh/.sim>(experimental).\nAvailable categories: ${ALL_COMMAND_MODES.join(', ')}.\nType 'help <category_name>' for category-specific commands.\n\n--- Command Suggestions by Category ---`;
+        helpText = `Command category is automatically detected.\n@bat:<filename><.bat/.sh>(experimental).\n@sim:<filename>.sim or 'run <filename>.sim' runs a SimShell script from src/sim-scripts.\nAvailable categories: ${ALL_COMMAND_MODES.join(', ')}.\nType 'help <category_name>' for category-specific commands.\n\n--- Command Suggestions by Category ---`;
         logTextEntry = 'Displayed general help. ';
 
         let commandsToShow: CommandDefinition[] = internalCommandDefinitions;
-        if (!dbInitialized && !overridePermissionChecks) {
+        if (!dbInitialized && !elevation) {
             commandsToShow = internalCommandDefinitions.filter(cmdDef => cmdDef.name === 'ai' || cmdDef.name === 'init_db' || cmdDef.name === 'help');
             logTextEntry += '(Database not initialized - showing limited help)';
             helpText += "\n\n**Note:** Database not fully initialized. Some commands may be unavailable. Run 'init_db'.";
@@ -105,7 +110,7 @@ export const handleHelp = async ({ userId, args, timestamp, initialSuggestions,
 
         helpText += `\n\n**Internal**`;
         commandsToShow.forEach(cmdDef => {
-            if (overridePermissionChecks || !cmdDef.requiredPermission || userPermissions.includes(cmdDef.requiredPermission) || userPermissions.includes('override_all_permissions')) {
+            if (hasPermission(getDefinitionPermission(cmdDef.name), policyContext)) {
                 helpText += `\n- **${cmdDef.name}**`;
                 if (cmdDef.argsFormat) {
                     helpText += ` ${cmdDef.argsFormat}`;
@@ -131,18 +136,7 @@ export const handleHelp = async ({ userId, args, timestamp, initialSuggestions,
                 let categoryHasVisibleSuggestions = false;
                 let categoryHelpText = `\n\n**${category.charAt(0).toUpperCase() + category.slice(1)}**`;
                 suggestions.forEach(suggestion => {
-                    let showSuggestion = true;
-                     if (!overridePermissionChecks && !userPermissions.includes('override_all_permissions')) {
-                        // Example permission checks - adjust as needed for other categories
-                        if (category === 'sql' && !(userPermissions.includes('execute_sql_select') || userPermissions.includes('execute_sql_modify'))) {
-                            showSuggestion = false;
-                        }
-                        if (category === 'python' && !userPermissions.includes('execute_python_code')) {
-                            showSuggestion = false;
-                        }
-                        // Add other category permission checks here
-                    }
-                    if (showSuggestion) {
+                    if (evaluatePolicy(category, suggestion, policyContext).allowed) {
                         categoryHelpText += `\n- ${suggestion}`;
                         categoryHasVisibleSuggestions = true;
                     }
@@ -3,31 +3,85 @@
 'use server';
 import type { OutputLine } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types'; // Import new LogEntry
-
-// Define the structure for the return value, including potential log updates
-interface HandlerResult {
-    outputLines: OutputLine[];
-    newLogEntries?: LogEntry[]; // Uses new LogEntry type
-}
+import { queryCommandHistory, type CommandHistoryFilters } from '@/lib/command-history';
+import { formatResultsAsTable } from '@/lib/formatting';
+import { parseOptions, parsePositiveIntOption, tokenizeArgs } from '@/lib/command-options';
+import type { HandlerResult } from './index';
 
 interface HandlerParams {
     userId: number; // Added userId
     userPermissions: string[]; // Added permissions
+    command: string;
     timestamp: string;
     currentLogEntries: LogEntry[]; // Pass current logs
 }
 
-// Update function signature to return HandlerResult and make it async
-export const handleHistory = async ({ timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
-    // Permission check moved to central handler (if needed)
-    // TODO: Implement fetching history from SQLite database if needed
-    const outputText = 'History command placeholder (currently only shows command history in output).';
-    const outputLines = [{ id: `out-${timestamp}`, text: outputText, type: 'output', category: 'internal', timestamp, flag: 0 }];
+/**
+ * Parses `--mode <mode> --user <username> --last <n> --grep <text>` into filters.
+ * Returns an error message instead if an option is unknown or malformed.
+ */
+function parseHistoryFilters(tokens: string[]): CommandHistoryFilters | string {
+    const options = parseOptions(tokens, ['--mode', '--user', '--last', '--grep']);
+    if (typeof options === 'string') {
+        return options;
+    }
+    const filters: CommandHistoryFilters = {};
+    if (options['--mode'] !== undefined) filters.mode = options['--mode'];
+    if (options['--user'] !== undefined) filters.username = options['--user'];
+    if (options['--grep'] !== undefined) filters.grep = options['--grep'];
+    if (options['--last'] !== undefined) {
+        const last = parsePositiveIntOption('--last', options['--last']);
+        if (typeof last === 'string') {
+            return last;
+        }
+        filters.last = last;
+    }
+    return filters;
+}
+
+/**
+ * Handles the 'history [--mode <mode>] [--user <username>] [--last <n>] [--grep <text>]' command.
+ * Reads previously executed commands from the 'command_history' table.
+ * Requires 'view_history' permission (checked by the policy).
+ */
+export const handleHistory = async ({ command, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputLines: OutputLine[] = [];
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const argString = command.trim().replace(/^history\b/i, '');
+    const filters = parseHistoryFilters(tokenizeArgs(argString));
+
+    if (typeof filters === 'string') {
+        const outputText = `Error: ${filters} Use: history [--mode <mode>] [--user <username>] [--last <n>] [--grep <text>]`;
+        logType = 'E';
+        logFlag = 1;
+        logText = `${outputText} (User: ${userId})`;
+        outputLines.push({ id: `history-syntax-err-${timestamp}`, text: outputText, type: 'error', category: 'internal', timestamp, flag: 1 });
+    } else {
+        try {
+            const rows = await queryCommandHistory(filters);
+            if (rows.length > 0) {
+                const formattedTable = await formatResultsAsTable(rows);
+                outputLines.push({ id: `history-${timestamp}`, text: formattedTable || 'No matching commands in history.', type: 'output', category: 'internal', timestamp: undefined, flag: 0 });
+            } else {
+                outputLines.push({ id: `history-empty-${timestamp}`, text: 'No matching commands in history.', type: 'info', category: 'internal', timestamp, flag: 0 });
+            }
+            logText = `Displayed ${rows.length} command history entr${rows.length === 1 ? 'y' : 'ies'}. Filters: ${JSON.stringify(filters)} (User: ${userId})`;
+        } catch (error) {
+            console.error('Error retrieving command history:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            const outputText = `Error retrieving command history: ${errorMsg}${errorMsg.includes('no such table') ? ". Consider running 'init db'." : ''}`;
+            logType = 'E';
+            logFlag = 1;
+            logText = `${outputText} (User: ${userId})`;
+            outputLines.push({ id: `history-err-${timestamp}`, text: outputText, type: 'error', category: 'internal', timestamp, flag: 1 });
+        }
+    }
 
-    // Create log entry with flag=1 for warning
-    const logEntry: LogEntry = { timestamp, type: 'W', flag: 1, text: `History command not fully implemented. (User: ${userId})` };
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: logText };
     const newLogEntries = [...currentLogEntries, logEntry];
 
-    // Return the result object
-    return { outputLines: outputLines, newLogEntries };
+    return { outputLines, newLogEntries };
 };
@@ -0,0 +1,350 @@
+// src/lib/internal-commands/handle-import.ts
+'use server';
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { parseCsv } from '@/lib/csv-parser';
+import { evaluatePolicy } from '@/lib/policy';
+import { recordElevationUse, type Elevation } from '@/lib/elevations';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    command: string;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+}
+
+type ColumnAffinity = 'INTEGER' | 'REAL' | 'NUMERIC' | 'TEXT' | 'BLOB';
+
+interface TargetColumn {
+    name: string;
+    affinity: ColumnAffinity;
+}
+
+interface ImportRow {
+    line: number; // CSV line or 1-based JSON array index, for rejection messages
+    values: Record<string, unknown>; // Keyed by source column name
+}
+
+const IMPORTS_DIR = path.join(process.cwd(), 'data', 'imports');
+const MAX_REJECTION_DETAILS = 10;
+const IMPORT_SYNTAX = 'import csv <file> into <table> [--create] [--header] [--delimiter <char>] | import json <file> into <table> [--create]';
+
+/**
+ * Validates an import filename for the given format.
+ * Allows alphanumeric, underscores, hyphens, and periods. Prevents path traversal.
+ */
+function isValidImportFilename(filename: string, format: 'csv' | 'json'): boolean {
+    const extensionPattern = format === 'csv' ? /\.(csv|tsv|txt)$/i : /\.json$/i;
+    return /^[a-zA-Z0-9_.-]+$/.test(filename) && extensionPattern.test(filename) && !filename.includes('..');
+}
+
+function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Determines a column's type affinity from its declared type, using SQLite's rules.
+ */
+function getAffinity(declaredType: string): ColumnAffinity {
+    const type = declaredType.toUpperCase();
+    if (type.includes('INT')) return 'INTEGER';
+    if (type.includes('CHAR') || type.includes('CLOB') || type.includes('TEXT')) return 'TEXT';
+    if (type.includes('BLOB') || type === '') return 'BLOB';
+    if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) return 'REAL';
+    return 'NUMERIC';
+}
+
+/**
+ * Infers the narrowest column type (INTEGER, REAL or TEXT) that holds every non-null value.
+ * Strings count as numbers only when `parseStrings` is set (CSV fields are always strings).
+ */
+function inferColumnType(values: unknown[], parseStrings: boolean): 'INTEGER' | 'REAL' | 'TEXT' {
+    let type: 'INTEGER' | 'REAL' = 'INTEGER';
+    for (const value of values) {
+        if (value === null || value === undefined) continue;
+        if (typeof value === 'boolean' || typeof value === 'bigint') continue;
+        if (typeof value === 'number') {
+            if (!Number.isInteger(value)) type = 'REAL';
+        } else if (typeof value === 'string' && parseStrings && /^[-+]?\d+$/.test(value.trim())) {
+            continue;
+        } else if (typeof value === 'string' && parseStrings && value.trim() !== '' && Number.isFinite(Number(value))) {
+            type = 'REAL';
+        } else {
+            return 'TEXT';
+        }
+    }
+    return type;
+}
+
+/**
+ * Converts an imported value into the value to bind for a column.
+ * Numeric columns only accept numbers (or numeric strings); objects and arrays are stored as JSON text.
+ * @returns The bind value, or an error message when the value does not fit the column.
+ */
+function coerceValue(value: unknown, column: TargetColumn): { value: unknown } | { error: string } {
+    if (value === null || value === undefined) return { value: null };
+    if (typeof value === 'boolean') return { value: value ? 1 : 0 };
+    if (column.affinity === 'TEXT' || column.affinity === 'BLOB') {
+        return { value: typeof value === 'object' ? JSON.stringify(value) : column.affinity === 'TEXT' ? String(value) : value };
+    }
+    if (typeof value !== 'string') {
+        return typeof value === 'object' ? { error: `column '${column.name}' expects a number (${column.affinity}), got ${JSON.stringify(value)}` } : { value };
+    }
+
+    const text = value.trim();
+    if (/^[-+]?\d+$/.test(text)) {
+        const integer = BigInt(text);
+        return { value: integer >= BigInt(Number.MIN_SAFE_INTEGER) && integer <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(integer) : integer };
+    }
+    if (text !== '' && Number.isFinite(Number(text))) return { value: Number(text) };
+    return { error: `column '${column.name}' expects a number (${column.affinity}), got '${value}'` };
+}
+
+/**
+ * Reads the columns of an existing table.
+ * @returns The columns in table order, or null when the table does not exist.
+ */
+async function getTableColumns(table: string): Promise<TargetColumn[] | null> {
+    const { results } = await runSql(`PRAGMA table_info(${quoteIdentifier(table)})`);
+    if (!results || results.length === 0) return null;
+    return results.map((column: { name: string; type: string }) => ({ name: column.name, affinity: getAffinity(column.type || '') }));
+}
+
+/**
+ * Parses the text after 'import csv|json'.
+ * @throws Throws an error describing the expected syntax when the arguments are invalid.
+ */
+function parseImportArguments(command: string) {
+    const tokens = command.trim().split(/\s+/).slice(1);
+    const format = (tokens[0] || '').toLowerCase();
+    if ((format !== 'csv' && format !== 'json') || tokens.length < 4 || tokens[2].toLowerCase() !== 'into') {
+        throw new Error(`Invalid syntax. Use: ${IMPORT_SYNTAX}`);
+    }
+    const [, filename, , table] = tokens;
+    if (!isValidImportFilename(filename, format)) {
+        throw new Error(`Invalid import filename '${filename}'. Use only letters, digits, '_', '-' and '.', ending in ${format === 'csv' ? '.csv, .tsv or .txt' : '.json'}.`);
+    }
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(table)) {
+        throw new Error(`Invalid table name '${table}'. Use letters, digits and '_', starting with a letter or '_'.`);
+    }
+
+    const options = { format, filename, table, create: false, header: false, delimiter: /\.tsv$/i.test(filename) ? '\t' : ',' };
+    for (let i = 4; i < tokens.length; i++) {
+        const flag = tokens[i].toLowerCase();
+        if (flag === '--create') {
+            options.create = true;
+        } else if (flag === '--header' && format === 'csv') {
+            options.header = true;
+        } else if ((flag === '--delimiter' || flag.startsWith('--delimiter=')) && format === 'csv') {
+            let delimiter = flag === '--delimiter' ? tokens[++i] : tokens[i].slice('--delimiter='.length);
+            if (delimiter && /^(['"]).+\1$/.test(delimiter)) delimiter = delimiter.slice(1, -1);
+            if (delimiter && ['tab', '\\t'].includes(delimiter.toLowerCase())) delimiter = '\t';
+            if (!delimiter || delimiter.length !== 1 || delimiter === '"') {
+                throw new Error(`Invalid delimiter '${delimiter ?? ''}'. Use a single character other than '"' (or 'tab').`);
+            }
+            options.delimiter = delimiter;
+        } else {
+            throw new Error(`Unknown option '${tokens[i]}' for import ${format}. Use: ${IMPORT_SYNTAX}`);
+        }
+    }
+    return options;
+}
+
+/**
+ * Handles the 'import csv <file> into <table>' and 'import json <file> into <table>' commands.
+ * Reads the file from data/imports/, optionally creates the table with inferred column types,
+ * and inserts all rows in a single transaction. Rows that do not fit the table are rejected and reported.
+ */
+export const handleImport = async ({ command, timestamp, currentLogEntries, userId, userPermissions, elevation }: HandlerParams): Promise<HandlerResult> => {
+    const outputLines: OutputLine[] = [];
+    let logText = '';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const addLine = (text: string, type: OutputLine['type']) => {
+        outputLines.push({
+            id: `import-${outputLines.length}-${timestamp}`,
+            text,
+            type,
+            category: 'internal',
+            timestamp: type === 'output' ? undefined : timestamp,
+            flag: type === 'error' || type === 'warning' ? 1 : 0,
+        });
+    };
+
+    let transactionOpen = false;
+    try {
+        const { format, filename, table, create, header, delimiter } = parseImportArguments(command);
+
+        // The policy allowed 'import'; the target table may need more (e.g. users needs manage_roles_permissions)
+        const decision = evaluatePolicy('sql', `INSERT INTO ${quoteIdentifier(table)} DEFAULT VALUES`, { userPermissions, elevation });
+        if (!decision.allowed) {
+            await recordAuditEvent({ actorId: userId, action: 'permission.denied', target: command.trim(), outcome: 'denied', details: { mode: 'internal', permission: decision.permission, resource: decision.rule.resource, table } });
+            throw new Error(decision.message!);
+        }
+        if (decision.elevated && decision.rule.additive && elevation) {
+            await recordElevationUse(elevation, userId, 'internal', command.trim(), decision.permission!);
+            await recordAuditEvent({ actorId: userId, action: 'elevation.use', target: command.trim(), outcome: 'success', details: { mode: 'internal', permission: decision.permission, elevationId: elevation.elevationId, table } });
+        }
+
+        await fs.mkdir(IMPORTS_DIR, { recursive: true });
+        const filePath = path.join(IMPORTS_DIR, filename);
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf-8');
+        } catch {
+            throw new Error(`File not found: data/imports/${filename}. Place the file to import in the "data/imports" directory.`);
+        }
+
+        // Read the file into rows keyed by source column name
+        const rejections: { line: number; reason: string }[] = [];
+        let sourceColumns: string[] = [];
+        const rows: ImportRow[] = [];
+        const existingColumns = await getTableColumns(table);
+
+        if (format === 'csv') {
+            const records = parseCsv(content, delimiter);
+            if (header) {
+                const headerRecord = records.shift();
+                if (!headerRecord) throw new Error(`data/imports/${filename} is empty.`);
+                sourceColumns = headerRecord.fields.map(name => name.trim());
+                if (sourceColumns.some(name => name === '')) throw new Error('The header row has an empty column name.');
+                const duplicate = sourceColumns.find((name, index) => sourceColumns.findIndex(other => other.toLowerCase() === name.toLowerCase()) !== index);
+                if (duplicate) throw new Error(`The header row names column '${duplicate}' more than once.`);
+            } else if (existingColumns && !create) {
+                sourceColumns = existingColumns.map(column => column.name);
+            } else if (records.length > 0) {
+                sourceColumns = records[0].fields.map((_, index) => `column${index + 1}`);
+            } else {
+                throw new Error(`data/imports/${filename} is empty.`);
+            }
+            for (const record of records) {
+                if (record.fields.length !== sourceColumns.length) {
+                    rejections.push({ line: record.line, reason: `expected ${sourceColumns.length} field(s), found ${record.fields.length}` });
+                    continue;
+                }
+                const values: Record<string, unknown> = {};
+                sourceColumns.forEach((name, index) => { values[name] = record.fields[index] === '' ? null : record.fields[index]; });
+                rows.push({ line: record.line, values });
+            }
+        } else {
+            let data: unknown;
+            try {
+                data = JSON.parse(content);
+            } catch (error) {
+                throw new Error(`data/imports/${filename} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            if (!Array.isArray(data)) throw new Error('The JSON file must contain an array of objects.');
+            data.forEach((item, index) => {
+                if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+                    rejections.push({ line: index + 1, reason: 'not an object' });
+                    return;
+                }
+                for (const key of Object.keys(item)) {
+                    if (!sourceColumns.some(name => name.toLowerCase() === key.toLowerCase())) sourceColumns.push(key);
+                }
+                rows.push({ line: index + 1, values: item as Record<string, unknown> });
+            });
+        }
+
+        // Resolve the target columns, creating the table if requested
+        let targetColumns: TargetColumn[];
+        let createSql: string | null = null;
+        if (create) {
+            if (existingColumns) throw new Error(`Table '${table}' already exists. Leave out --create to append to it.`);
+            if (sourceColumns.length === 0) throw new Error('No columns found to create the table from.');
+            targetColumns = sourceColumns.map(name => ({
+                name,
+                affinity: inferColumnType(rows.map(row => row.values[name]), format === 'csv'),
+            }));
+            createSql = `CREATE TABLE ${quoteIdentifier(table)} (${targetColumns.map(column => `${quoteIdentifier(column.name)} ${column.affinity}`).join(', ')})`;
+        } else {
+            if (!existingColumns) throw new Error(`Table '${table}' does not exist. Add --create to create it from the file.`);
+            targetColumns = existingColumns;
+            if (format === 'csv') {
+                const unknownColumn = sourceColumns.find(name => !existingColumns.some(column => column.name.toLowerCase() === name.toLowerCase()));
+                if (unknownColumn) throw new Error(`Column '${unknownColumn}' does not exist in table '${table}'.`);
+            }
+        }
+
+        // Insert every row in one transaction; a rejected row does not undo the others
+        await runSql('BEGIN');
+        transactionOpen = true;
+        if (createSql) await runSql(createSql);
+        let imported = 0;
+        for (const row of rows) {
+            const columns: TargetColumn[] = [];
+            const values: unknown[] = [];
+            let rejection: string | null = null;
+            for (const [key, value] of Object.entries(row.values)) {
+                const column = targetColumns.find(target => target.name.toLowerCase() === key.toLowerCase());
+                if (!column) {
+                    rejection = `unknown column '${key}'`;
+                    break;
+                }
+                const coerced = coerceValue(value, column);
+                if ('error' in coerced) {
+                    rejection = coerced.error;
+                    break;
+                }
+                columns.push(column);
+                values.push(coerced.value);
+            }
+            if (!rejection) {
+                try {
+                    await runSql(columns.length > 0
+                        ? `INSERT INTO ${quoteIdentifier(table)} (${columns.map(column => quoteIdentifier(column.name)).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+                        : `INSERT INTO ${quoteIdentifier(table)} DEFAULT VALUES`, values);
+                    imported++;
+                } catch (error) {
+                    rejection = error instanceof Error ? error.message : 'Unknown error';
+                }
+            }
+            if (rejection) rejections.push({ line: row.line, reason: rejection });
+        }
+        await runSql('COMMIT');
+        transactionOpen = false;
+
+        if (createSql) {
+            addLine(`Created table ${table} (${targetColumns.map(column => `${column.name} ${column.affinity}`).join(', ')}).`, 'info');
+        }
+        addLine(`Imported ${imported} row(s) into ${table} from data/imports/${filename}; ${rejections.length} rejected.`, 'info');
+        if (rejections.length > 0) {
+            const details = rejections
+                .sort((a, b) => a.line - b.line)
+                .slice(0, MAX_REJECTION_DETAILS)
+                .map(({ line, reason }) => `${format === 'csv' ? 'Line' : 'Item'} ${line}: ${reason}`);
+            if (rejections.length > MAX_REJECTION_DETAILS) details.push(`... and ${rejections.length - MAX_REJECTION_DETAILS} more`);
+            addLine(`Rejected rows:\n${details.join('\n')}`, 'warning');
+        }
+        logText = `Imported ${imported} row(s) into ${table} from data/imports/${filename}${createSql ? ' (table created)' : ''}; ${rejections.length} rejected.`;
+    } catch (error) {
+        if (transactionOpen) {
+            try {
+                await runSql('ROLLBACK');
+            } catch (rollbackError) {
+                console.error('Error rolling back import:', rollbackError);
+            }
+        }
+        console.error('Error importing file:', error);
+        const errorMsg = `Error: ${error instanceof Error ? error.message : 'Unknown import error'}`;
+        addLine(errorMsg, 'error');
+        logText = errorMsg;
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines,
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
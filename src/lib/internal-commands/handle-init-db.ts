@@ -3,8 +3,10 @@
 'use server';
 import type { OutputLine } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types'; // Import new LogEntry
-import { runSql } from '@/lib/database';
+import { runSql, migrateDatabase } from '@/lib/database';
 import { internalCommandDefinitions } from '@/lib/internal-commands-definitions'; // Import command definitions
+import { generatePassword, hashPassword } from '@/lib/passwords';
+import { recordAuditEvent } from '@/lib/audit';
 
 // Define the structure for the return value, including potential log updates
 interface HandlerResult {
@@ -17,100 +19,17 @@ interface HandlerParams {
     userPermissions: string[]; // Added permissions
     timestamp: string;
     currentLogEntries: LogEntry[]; // Pass current logs
-    overridePermissionChecks?: boolean;
 }
 
 /**
  * Handles the 'init db' command.
- * Creates essential tables including new command definition tables, and adds sample RBAC data.
+ * Applies all pending schema migrations, then adds sample RBAC data.
  * Populates command_metadata and command_input_arguments from internalCommandDefinitions.
  * Requires admin-level permission (e.g., 'manage_roles_permissions').
  */
-export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
-    // Permission check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('manage_roles_permissions')) {
-    //     const errorMsg = "Permission denied: Cannot initialize database (admin operation).";
-    //     return {
-    //         outputLines: [{ id: `init-db-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
-    const createStatements = [
-        // Table Creation (Ensure order respects foreign keys if PRAGMA foreign_keys=ON is used)
-        `CREATE TABLE IF NOT EXISTS variables (
-            name VARCHAR(255) NOT NULL PRIMARY KEY,
-            datatype VARCHAR(50) NOT NULL,
-            value TEXT,
-            max REAL,
-            min REAL,
-            default_value TEXT
-        );`,
-        `CREATE TABLE IF NOT EXISTS ai_tools (
-            name VARCHAR(255) NOT NULL PRIMARY KEY,
-            description TEXT NOT NULL,
-            args_description TEXT NOT NULL,
-            isactive BOOLEAN NOT NULL DEFAULT 1
-        );`,
-        `CREATE TABLE IF NOT EXISTS users (
-            user_id INTEGER PRIMARY KEY AUTOINCREMENT,
-            username VARCHAR(100) NOT NULL UNIQUE,
-            password_hash TEXT, -- Placeholder for secure password storage
-            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );`,
-        `CREATE TABLE IF NOT EXISTS roles (
-            role_id INTEGER PRIMARY KEY AUTOINCREMENT,
-            role_name VARCHAR(50) NOT NULL UNIQUE
-        );`,
-        // Renamed table from 'permission' to 'permissions'
-        `CREATE TABLE IF NOT EXISTS permissions (
-            permission_id INTEGER PRIMARY KEY AUTOINCREMENT,
-            permission_name VARCHAR(100) NOT NULL UNIQUE -- e.g., 'execute_sql', 'manage_variables'
-        );`,
-        `CREATE TABLE IF NOT EXISTS user_roles (
-            user_id INTEGER NOT NULL,
-            role_id INTEGER NOT NULL,
-            PRIMARY KEY (user_id, role_id),
-            FOREIGN KEY (user_id) REFERENCES users (user_id) ON DELETE CASCADE,
-            FOREIGN KEY (role_id) REFERENCES roles (role_id) ON DELETE CASCADE
-        );`,
-        `CREATE TABLE IF NOT EXISTS role_permissions (
-            role_id INTEGER NOT NULL,
-            permission_id INTEGER NOT NULL,
-            PRIMARY KEY (role_id, permission_id),
-            FOREIGN KEY (role_id) REFERENCES roles (role_id) ON DELETE CASCADE,
-            FOREIGN KEY (permission_id) REFERENCES permissions (permission_id) ON DELETE CASCADE
-        );`,
-        // New command definition structure
-        `DROP TABLE IF EXISTS commands;`, // Drop old commands table if it exists
-        `CREATE TABLE IF NOT EXISTS command_metadata (
-            command_name TEXT NOT NULL PRIMARY KEY,
-            command_description TEXT,
-            result_description TEXT,
-            result_type TEXT,
-            result_min REAL,
-            result_max REAL,
-            result_length INTEGER
-        );`,
-        `CREATE TABLE IF NOT EXISTS command_input_arguments (
-            argument_id INTEGER PRIMARY KEY AUTOINCREMENT,
-            command_name TEXT NOT NULL,
-            argument_name TEXT NOT NULL,
-            argument_type TEXT NOT NULL,
-            argument_purpose TEXT,
-            argument_default_value TEXT,
-            argument_min REAL,
-            argument_max REAL,
-            argument_length INTEGER,
-            is_required BOOLEAN DEFAULT 1,
-            position INTEGER,
-            FOREIGN KEY (command_name) REFERENCES command_metadata (command_name) ON DELETE CASCADE,
-            UNIQUE (command_name, argument_name),
-            UNIQUE (command_name, position)
-        );`,
-        // Optionally enable foreign key support if needed (can impact performance slightly)
-        // `PRAGMA foreign_keys = ON;`
-
+export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userPermissions }: HandlerParams): Promise<HandlerResult> => {
+    // Tables are defined by the migrations in /migrations; only seed data lives here
+    const seedStatements = [
         // -- Sample Data Insertion (Ignoring potential conflicts for simplicity) --
         // Permissions
         `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('read_variables');`,
@@ -122,7 +41,12 @@ export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userP
         `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('manage_users');`,
         `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('manage_roles_permissions');`,
         `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('view_history');`, // For 'history' command
-        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('execute_python_code');`, // For Python execution
+        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('execute_python_code');`, // For Python execution; not sandboxed, so this amounts to full server access
+        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('execute_typescript_code');`, // For the TypeScript REPL
+        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('use_virtual_shell');`, // unix and windows modes
+        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('use_spreadsheets');`, // excel mode and 'show sheet'
+        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('elevate');`, // 'elevate <minutes> [reason]' (administrators and developers)
+        `INSERT OR IGNORE INTO permissions (permission_name) VALUES ('view_audit');`, // For the 'audit' command
 
         // Roles
         `INSERT OR IGNORE INTO roles (role_name) VALUES ('administrator');`,
@@ -132,16 +56,18 @@ export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userP
         // Role-Permission Assignments
         // Admin gets all
         `INSERT OR IGNORE INTO role_permissions (role_id, permission_id) SELECT r.role_id, p.permission_id FROM roles r, permissions p WHERE r.role_name = 'administrator';`,
-        // Developer gets variable management, SQL execution, AI tool usage/management, AND manage_roles_permissions
-        `INSERT OR IGNORE INTO role_permissions (role_id, permission_id) SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name IN ('manage_variables', 'execute_sql_select', 'execute_sql_modify', 'use_ai_tools', 'manage_ai_tools', 'manage_roles_permissions', 'view_history', 'execute_python_code') WHERE r.role_name = 'developer';`,
-        // Basic user gets read variables, use AI tools, AND manage_roles_permissions
-        `INSERT OR IGNORE INTO role_permissions (role_id, permission_id) SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name IN ('read_variables', 'use_ai_tools', 'manage_roles_permissions', 'view_history') WHERE r.role_name = 'basic_user';`,
+        // Developer gets variable management, SQL execution, AI tool usage/management, code execution and elevation.
+        // 'manage_roles_permissions' stays with administrators: it lets its holder grant themselves any permission.
+        // 'elevate' covers the rest for a limited time, with a reason and an audit trail
+        `INSERT OR IGNORE INTO role_permissions (role_id, permission_id) SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name IN ('manage_variables', 'execute_sql_select', 'execute_sql_modify', 'use_ai_tools', 'manage_ai_tools', 'view_history', 'execute_python_code', 'execute_typescript_code', 'use_virtual_shell', 'use_spreadsheets', 'elevate') WHERE r.role_name = 'developer';`,
+        // Basic user gets read variables and use AI tools
+        `INSERT OR IGNORE INTO role_permissions (role_id, permission_id) SELECT r.role_id, p.permission_id FROM roles r JOIN permissions p ON p.permission_name IN ('read_variables', 'use_ai_tools', 'view_history', 'use_virtual_shell', 'use_spreadsheets') WHERE r.role_name = 'basic_user';`,
 
-        // Users
-        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('admin', 'dummy_hash');`, // Replace with real hashing
-        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('dev', 'dummy_hash');`,
-        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('user', 'dummy_hash');`,
-        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('peter', 'dummy_hash');`,
+        // Users (no password, so they cannot log in until one is set with 'passwd <user>'; admin gets one below)
+        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('admin', NULL);`,
+        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('dev', NULL);`,
+        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('user', NULL);`,
+        `INSERT OR IGNORE INTO users (username, password_hash) VALUES ('peter', NULL);`,
 
 
         // User-Role Assignments
@@ -157,7 +83,7 @@ export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userP
     JOIN roles r ON r.role_name = 'administrator'
     WHERE u.username = 'peter'
     `;
-    createStatements.push(createPeterAdminStatement);
+    seedStatements.push(createPeterAdminStatement);
 
     let logText: string = 'Initializing database tables and sample data... ';
     let logType: 'I' | 'E' = 'I';
@@ -168,32 +94,61 @@ export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userP
     let logFlag: 0 | 1 = 0; // Default flag
 
     try {
-        // runSql already ensures the DB is initialized via getDb()
-        for (const sql of createStatements) {
-            let statementType = 'Unknown DDL/DML';
-            if (sql.toUpperCase().startsWith('CREATE TABLE')) statementType = 'Table Creation';
-            else if (sql.toUpperCase().startsWith('DROP TABLE')) statementType = 'Table Drop';
-            else if (sql.toUpperCase().startsWith('INSERT')) statementType = 'Sample Data Insertion';
-            else if (sql.toUpperCase().startsWith('PRAGMA')) statementType = 'Pragma Setting';
+        // --- Apply all pending schema migrations ---
+        const { migrated, error: migrationError } = await migrateDatabase('up');
+        const migrationSummaryText = migrationError
+            ? `Schema Migrations: ${migrated.length} applied before failure. ${migrationError}`
+            : `Schema Migrations: ${migrated.length > 0 ? `${migrated.length} applied (${migrated.join(', ')})` : 'schema already up to date'}.`;
+        logText += migrationSummaryText;
+        outputLines.push({ id: `init-migrations-${timestamp}`, text: migrationSummaryText, type: migrationError ? 'error' : 'info', category: 'internal', timestamp, flag: migrationError ? 1 : 0 });
+        if (migrationError) {
+            const logEntry: LogEntry = { timestamp, type: 'E', flag: 1, text: `${logText} Seeding skipped. (User: ${userId})` };
+            return { outputLines, newLogEntries: [...currentLogEntries, logEntry] };
+        }
 
+        // runSql already ensures the DB is initialized via getDb()
+        for (const sql of seedStatements) {
             try {
                 await runSql(sql);
                 successfulStatements++;
             } catch (error) {
-                const errorMsg = `Error during DB init (${statementType}): ${error instanceof Error ? error.message : 'Unknown error'} (SQL: ${sql.substring(0, 60)}...)`;
+                const errorMsg = `Error during DB init (Sample Data Insertion): ${error instanceof Error ? error.message : 'Unknown error'} (SQL: ${sql.substring(0, 60)}...)`;
                 console.error(errorMsg);
                 errors.push(errorMsg);
                 logType = 'E';
                 outputType = 'error';
                 logFlag = 1; // Error flag
-                outputLines.push({ id: `init-err-${statementType}-${errors.length}-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }); // Error flag
+                outputLines.push({ id: `init-err-seed-${errors.length}-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }); // Error flag
             }
         }
 
-        const initialSummaryText = `DB Initialization (Tables & RBAC): ${successfulStatements} statements executed successfully. ${errors.length} errors encountered.`;
-        logText += initialSummaryText;
+        const initialSummaryText = `DB Initialization (RBAC Seed Data): ${successfulStatements} statements executed successfully. ${errors.length} errors encountered.`;
+        logText += ` | ${initialSummaryText}`;
         outputLines.push({ id: `init-summary-rbac-${timestamp}`, text: initialSummaryText, type: errors.length > 0 ? 'error' : 'info', category: 'internal', timestamp, flag: errors.length > 0 ? 1 : 0 }); // Error flag if errors
 
+        // --- Give the admin account a password if it has none, so someone can log in ---
+        try {
+            const { results: adminRows } = await runSql(`SELECT user_id FROM users WHERE username = 'admin' AND password_hash IS NULL;`);
+            if (adminRows && adminRows.length > 0) {
+                const configuredPassword = process.env.SIMSHELL_ADMIN_PASSWORD;
+                const adminPassword = configuredPassword || generatePassword();
+                await runSql('UPDATE users SET password_hash = ? WHERE user_id = ?;', [await hashPassword(adminPassword), adminRows[0].user_id]);
+                // The generated password is shown once and deliberately kept out of the log
+                const adminText = configuredPassword
+                    ? "Admin password set from SIMSHELL_ADMIN_PASSWORD. Log in with 'login admin'."
+                    : `Admin password generated: ${adminPassword} — log in with 'login admin' and change it with 'passwd'. It is shown only once.`;
+                logText += ' | Admin password set.';
+                outputLines.push({ id: `init-admin-password-${timestamp}`, text: adminText, type: 'warning', category: 'internal', timestamp, flag: 1 });
+            }
+        } catch (error) {
+            const errorMsg = `Error setting the admin password: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            errors.push(errorMsg);
+            logType = 'E';
+            logFlag = 1;
+            outputLines.push({ id: `init-admin-password-err-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 });
+        }
+
         // --- Populate command_metadata and command_input_arguments ---
         outputLines.push({ id: `init-cmd-meta-start-${timestamp}`, text: "Populating command metadata...", type: 'info', category: 'internal', timestamp, flag: 0 });
         let cmdMetaSuccessCount = 0;
@@ -262,6 +217,9 @@ export const handleInitDb = async ({ timestamp, currentLogEntries, userId, userP
         outputLines = [{ id: `init-db-crit-error-${timestamp}`, text: logText, type: outputType, category: 'internal', timestamp, flag: 1 }]; // Error flag
     }
 
+    // Recorded last, so a fresh database gets the audit_events table from the migrations first
+    await recordAuditEvent({ actorId: userId, action: 'database.init', outcome: logType === 'E' ? 'failure' : 'success', details: { result: logText } });
+
     const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: logText + ` (User: ${userId})` };
     const newLogEntries = [...currentLogEntries, logEntry];
 
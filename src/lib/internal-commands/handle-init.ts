@@ -18,7 +18,6 @@ interface HandlerParams {
     userPermissions: string[]; // Added permissions
     timestamp: string;
     currentLogEntries: LogEntry[]; // Pass current logs
-    overridePermissionChecks?: boolean;
 }
 
 /**
@@ -27,16 +26,7 @@ interface HandlerParams {
  * DOES NOT handle clipboard, as that requires client-side API access.
  * Requires admin-level permission (e.g., 'manage_roles_permissions').
  */
-export const handleInit = async ({ timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
-    // Permission check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('manage_roles_permissions')) {
-    //     const errorMsg = "Permission denied: Cannot initialize system (admin operation).";
-    //     return {
-    //         outputLines: [{ id: `init-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
+export const handleInit = async ({ timestamp, currentLogEntries, userId, userPermissions }: HandlerParams): Promise<HandlerResult> => {
     const createTableSql = `
         CREATE TABLE IF NOT EXISTS variables (
             name VARCHAR(255) NOT NULL PRIMARY KEY,
@@ -0,0 +1,58 @@
+// src/lib/internal-commands/handle-list-custom-commands.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { listCustomCommands } from '@/lib/custom-commands';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'list custom cmds' command.
+ * Lists the custom internal commands visible to the user: all public ones and the user's own private ones.
+ */
+export const handleListCustomCommands = async ({ timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputLine: OutputLine;
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    try {
+        const commands = await listCustomCommands();
+        if (commands.length === 0) {
+            outputLine = { id: `list-custom-cmds-${timestamp}`, text: "No custom commands defined. Add one with 'add_int_cmd'.", type: 'info', category: 'internal', timestamp, flag: 0 };
+        } else {
+            const rows = commands.map(({ name, alias, description, action, owner, visibility, created_at }) => ({ name, alias, description, action, owner, visibility, created_at }));
+            outputLine = {
+                id: `list-custom-cmds-${timestamp}`,
+                text: (await formatResultsAsTable(rows)) ?? '',
+                table: (await formatResultsAsTableData(rows)) ?? undefined,
+                type: 'output',
+                category: 'internal',
+                timestamp: undefined,
+                flag: 0,
+            };
+        }
+        logText = `Listed ${commands.length} custom command(s).`;
+    } catch (error) {
+        console.error('Error listing custom commands:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        logText = `Error listing custom commands: ${errorMsg}${errorMsg.includes('no such table') ? ". Consider running 'init db'." : ''}`;
+        outputLine = { id: `list-custom-cmds-${timestamp}`, text: logText, type: 'error', category: 'internal', timestamp, flag: 1 };
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [outputLine],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
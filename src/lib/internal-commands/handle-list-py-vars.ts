@@ -2,10 +2,10 @@
 // src/lib/internal-commands/handle-list-py-vars.ts
 'use server';
 
-import type { OutputLine } from '@/components/output-display';
+import type { OutputLine, OutputTableData } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types';
 import { runSql } from '@/lib/database';
-import { formatResultsAsTable } from '@/lib/formatting'; // Reuse formatting
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting'; // Reuse formatting
 
 // Define the structure for the return value
 interface HandlerResult {
@@ -18,7 +18,6 @@ interface HandlerParams {
     userPermissions: string[]; // Added permissions
     timestamp: string;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
 }
 
 /**
@@ -26,21 +25,13 @@ interface HandlerParams {
  * Retrieves and displays all variables stored in the database.
  * Requires 'read_variables' permission.
  */
-export const handleListPyVars = async ({ timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
-    // Permission check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('read_variables')) {
-    //     const errorMsg = "Permission denied: Cannot read variables.";
-    //     return {
-    //         outputLines: [{ id: `list-vars-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
+export const handleListPyVars = async ({ timestamp, currentLogEntries, userId, userPermissions }: HandlerParams): Promise<HandlerResult> => {
     const sql = 'SELECT name, datatype, value FROM variables ORDER BY name';
     let logText: string;
     let logType: 'I' | 'E' = 'I';
     let outputType: OutputLine['type'] = 'output';
     let outputText: string;
+    let tableData: OutputTableData | null = null; // Structured rows for the result grid
     let logFlag: 0 | 1 = 0; // Default flag
 
     try {
@@ -51,6 +42,7 @@ export const handleListPyVars = async ({ timestamp, currentLogEntries, userId, u
              // formatResultsAsTable is now async
              const formattedTable = await formatResultsAsTable(results);
              outputText = formattedTable || "No variables found."; // formatResultsAsTable returns null on empty input, but we check length > 0
+             tableData = await formatResultsAsTableData(results);
              logText = `Listed ${results.length} variable(s) from database. (User: ${userId})`;
              logFlag = 0;
         } else {
@@ -76,6 +68,7 @@ export const handleListPyVars = async ({ timestamp, currentLogEntries, userId, u
         outputLines: [{
             id: `list-vars-${timestamp}`,
             text: outputText,
+            table: tableData ?? undefined,
             type: outputType,
             category: 'internal',
             // Add timestamp only for errors or info messages that should look like logs
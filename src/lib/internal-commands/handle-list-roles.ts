@@ -0,0 +1,53 @@
+// src/lib/internal-commands/handle-list-roles.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { listRoles } from '@/lib/rbac';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'list roles' command.
+ * Lists all roles with their number of users and their permissions.
+ * Requires 'manage_roles_permissions' permission.
+ */
+export const handleListRoles = async ({ timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputLine: OutputLine;
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    try {
+        const roles = await listRoles();
+        outputLine = {
+            id: `list-roles-${timestamp}`,
+            text: (await formatResultsAsTable(roles)) ?? '',
+            table: (await formatResultsAsTableData(roles)) ?? undefined,
+            type: 'output',
+            category: 'internal',
+            timestamp: undefined,
+            flag: 0,
+        };
+        logText = `Listed ${roles.length} role(s).`;
+    } catch (error) {
+        console.error('Error listing roles:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        logText = `Error listing roles: ${errorMsg}${errorMsg.includes('no such table') ? ". Consider running 'init db'." : ''}`;
+        outputLine = { id: `list-roles-${timestamp}`, text: logText, type: 'error', category: 'internal', timestamp, flag: 1 };
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [outputLine],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,53 @@
+// src/lib/internal-commands/handle-list-users.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { listUsers } from '@/lib/rbac';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'list users' command.
+ * Lists all users with their roles and whether they have a password (and can log in).
+ * Requires 'manage_users' permission.
+ */
+export const handleListUsers = async ({ timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputLine: OutputLine;
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    try {
+        const users = await listUsers();
+        outputLine = {
+            id: `list-users-${timestamp}`,
+            text: (await formatResultsAsTable(users)) ?? '',
+            table: (await formatResultsAsTableData(users)) ?? undefined,
+            type: 'output',
+            category: 'internal',
+            timestamp: undefined,
+            flag: 0,
+        };
+        logText = `Listed ${users.length} user(s).`;
+    } catch (error) {
+        console.error('Error listing users:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        logText = `Error listing users: ${errorMsg}${errorMsg.includes('no such table') ? ". Consider running 'init db'." : ''}`;
+        outputLine = { id: `list-users-${timestamp}`, text: logText, type: 'error', category: 'internal', timestamp, flag: 1 };
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [outputLine],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
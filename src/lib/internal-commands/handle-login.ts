@@ -0,0 +1,92 @@
+// src/lib/internal-commands/handle-login.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { verifyPassword, type CommandCredentials } from '@/lib/passwords';
+import { createSession, deleteSession, readClientAddress } from '@/lib/sessions';
+import { recordAuditEvent } from '@/lib/audit';
+import { LOGIN_FAILURES_BEFORE_DELAY, clearLoginFailures, getLoginDelay, getLoginThrottleKeys, recordLoginFailure } from '@/lib/login-throttle';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    sessionToken?: string;
+    credentials?: CommandCredentials;
+}
+
+/**
+ * Handles the 'login <user>' command.
+ * Checks the password collected by the client's password prompt and starts a new session,
+ * replacing the caller's current one. The password never appears in output or logs.
+ * Repeated failures for a username or client address delay further attempts (see login-throttle.ts).
+ */
+export const handleLogin = async ({ args, timestamp, currentLogEntries, userId, sessionToken, credentials }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+    let logUserId = userId;
+    let session: HandlerResult['session'];
+
+    if (args.length !== 1 || !args[0]) {
+        outputText = 'Error: Invalid syntax. Use: login <user>';
+    } else if (!credentials?.password) {
+        outputText = `Error: No password given. Type 'login ${args[0]}' in the shell to be prompted for the password.`;
+    } else {
+        const clientAddress = await readClientAddress();
+        const throttleKeys = getLoginThrottleKeys(args[0], clientAddress);
+        const delayMs = getLoginDelay(throttleKeys);
+        try {
+            if (delayMs > 0) {
+                throw new Error(`Too many failed logins. Try again in ${Math.ceil(delayMs / 1000)} second(s).`);
+            }
+            const { results } = await runSql('SELECT user_id, username, password_hash FROM users WHERE username = ?', [args[0]]);
+            const user = results?.[0];
+            // Unknown users are checked against no hash (which costs the same scrypt work) and get the same
+            // message as wrong passwords, so neither the reply nor its timing reveals which usernames exist
+            const passwordMatches = await verifyPassword(credentials.password, user?.password_hash ?? null);
+            if (!user || !passwordMatches) {
+                const failureCount = recordLoginFailure(throttleKeys);
+                // Each failure that starts or extends a delay is recorded on its own, so guessing stands out in 'audit'
+                if (failureCount >= LOGIN_FAILURES_BEFORE_DELAY) {
+                    await recordAuditEvent({ actorId: userId, action: 'auth.repeated_failures', target: args[0], outcome: 'denied', details: { failures: failureCount, clientAddress } });
+                }
+                outputText = 'Error: Invalid username or password.';
+            } else {
+                clearLoginFailures(throttleKeys[0]);
+                if (sessionToken) {
+                    await deleteSession(sessionToken);
+                }
+                session = await createSession(user.user_id);
+                logUserId = user.user_id;
+                outputText = `Logged in as '${user.username}'. The session expires at ${session.expiresAt}.`;
+            }
+        } catch (error) {
+            console.error('Error during login:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'migrate up' (or 'init db')." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    // A failed login is attributed to whoever tried it; a successful one to the user now logged in
+    await recordAuditEvent({ actorId: logUserId, action: 'auth.login', target: args[0] ?? null, outcome: logType === 'E' ? 'failure' : 'success', details: logType === 'E' ? { error: outputText } : undefined });
+
+    const logText = logType === 'E' && args[0] ? `Login as '${args[0]}' failed: ${outputText}` : outputText;
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${logUserId})` };
+    return {
+        outputLines: [{ id: `login-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+        session,
+    };
+};
@@ -0,0 +1,49 @@
+// src/lib/internal-commands/handle-logout.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { deleteSession, getSession } from '@/lib/sessions';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    sessionToken?: string;
+}
+
+/**
+ * Handles the 'logout' command.
+ * Ends the caller's session and clears the session cookie; later commands run as the guest.
+ */
+export const handleLogout = async ({ timestamp, currentLogEntries, userId, sessionToken }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    try {
+        const session = sessionToken ? await getSession(sessionToken) : null;
+        if (sessionToken) {
+            await deleteSession(sessionToken);
+        }
+        outputText = session ? `Logged out '${session.username}'.` : 'Not logged in.';
+    } catch (error) {
+        console.error('Error during logout:', error);
+        outputText = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({ actorId: userId, action: 'auth.logout', outcome: logType === 'E' ? 'failure' : 'success', details: { result: outputText } });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `logout-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+        session: null, // Clear the cookie even if the session was already gone
+    };
+};
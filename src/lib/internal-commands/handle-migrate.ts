@@ -0,0 +1,99 @@
+// src/lib/internal-commands/handle-migrate.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { getMigrationStatus, migrateDatabase } from '@/lib/database';
+import { createMigrationFile } from '@/lib/migrations';
+import { formatResultsAsTable } from '@/lib/formatting';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+const USAGE = 'Use: migrate status | migrate up [n] | migrate down [n] | migrate create <name>';
+
+/**
+ * Handles the 'migrate' command: lists, applies, reverts and creates schema migrations.
+ * Requires 'manage_roles_permissions' (checked by the policy).
+ */
+export const handleMigrate = async ({ args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    const outputLines: OutputLine[] = [];
+    let logText = '';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const addLine = (text: string, type: OutputLine['type']) => {
+        outputLines.push({
+            id: `migrate-${outputLines.length}-${timestamp}`,
+            text,
+            type,
+            category: 'internal',
+            timestamp: type === 'output' ? undefined : timestamp,
+            flag: type === 'error' ? 1 : 0,
+        });
+    };
+    const fail = (message: string) => {
+        addLine(message, 'error');
+        logText = message;
+        logType = 'E';
+        logFlag = 1;
+    };
+
+    const subcommand = (args[0] || '').toLowerCase();
+
+    try {
+        if (subcommand === 'status' && args.length === 1) {
+            const entries = await getMigrationStatus();
+            if (entries.length === 0) {
+                addLine('No migrations found.', 'info');
+            } else {
+                addLine((await formatResultsAsTable(entries)) ?? '', 'output');
+                const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+                const missingCount = entries.filter(entry => entry.status === 'missing').length;
+                addLine(`${entries.length - pendingCount - missingCount} applied, ${pendingCount} pending${missingCount > 0 ? `, ${missingCount} applied but missing their file` : ''}.`, missingCount > 0 ? 'warning' : 'info');
+            }
+            logText = `Displayed migration status (${entries.length} migration(s)).`;
+        } else if ((subcommand === 'up' || subcommand === 'down') && args.length <= 2) {
+            let count: number | undefined;
+            if (args[1] !== undefined) {
+                count = /^\d+$/.test(args[1]) ? parseInt(args[1], 10) : 0;
+                if (count < 1) {
+                    throw new Error(`Invalid count '${args[1]}'. Expected a positive whole number.`);
+                }
+            }
+            const { migrated, error } = await migrateDatabase(subcommand, count);
+            const verb = subcommand === 'up' ? 'Applied' : 'Reverted';
+            if (migrated.length > 0) {
+                addLine(`${verb} ${migrated.length} migration(s):\n${migrated.join('\n')}`, 'info');
+            } else if (!error) {
+                addLine(subcommand === 'up' ? 'No pending migrations.' : 'No applied migrations to revert.', 'info');
+            }
+            logText = `migrate ${subcommand}: ${verb.toLowerCase()} ${migrated.length} migration(s)${migrated.length > 0 ? ` (${migrated.join(', ')})` : ''}.`;
+            if (error) {
+                fail(`Error: ${error}`);
+                logText = `migrate ${subcommand}: ${verb.toLowerCase()} ${migrated.length} migration(s) before failure. Error: ${error}`;
+            }
+        } else if (subcommand === 'create' && args.length >= 2) {
+            const filename = createMigrationFile(args.slice(1).join('_'));
+            addLine(`Created migration 'migrations/${filename}'. Add its SQL below the '-- migrate:up' and '-- migrate:down' markers.`, 'info');
+            logText = `Created migration file '${filename}'.`;
+        } else {
+            fail(`Error: Invalid migrate command. ${USAGE}`);
+        }
+    } catch (error) {
+        console.error('Error running migrate command:', error);
+        fail(`Error: ${error instanceof Error ? error.message : 'Unknown migration error'}`);
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines,
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
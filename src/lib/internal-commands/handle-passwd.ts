@@ -0,0 +1,91 @@
+// src/lib/internal-commands/handle-passwd.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { hashPassword, verifyPassword, type CommandCredentials } from '@/lib/passwords';
+import { GUEST_USER_ID, deleteUserSessions } from '@/lib/sessions';
+import { canAccess, formatPermissionDenied } from '@/lib/policy';
+import type { Elevation } from '@/lib/elevations';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+    sessionToken?: string;
+    credentials?: CommandCredentials;
+}
+
+/**
+ * Handles 'passwd' (change your own password) and 'passwd <user>' (set another user's password).
+ * Changing your own password requires the current one and ends your other sessions; setting
+ * another user's password requires 'manage_users' and ends all of that user's sessions.
+ * The passwords come from the client's password prompt, never from the command text.
+ */
+export const handlePasswd = async (params: HandlerParams): Promise<HandlerResult> => {
+    const { args, timestamp, currentLogEntries, userId, userPermissions, elevation, sessionToken, credentials } = params;
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    if (args.length > 1) {
+        outputText = 'Error: Invalid syntax. Use: passwd [user]';
+    } else if (userId === GUEST_USER_ID) {
+        outputText = "Error: Not logged in. Use 'login <user>' first.";
+    } else {
+        try {
+            const { results } = args.length === 1
+                ? await runSql('SELECT user_id, username, password_hash FROM users WHERE username = ?', [args[0]])
+                : await runSql('SELECT user_id, username, password_hash FROM users WHERE user_id = ?', [userId]);
+            const target = results?.[0];
+            const isSelf = target?.user_id === userId;
+            const canManageUsers = canAccess('rbac:users', { userPermissions, elevation });
+
+            if (!target) {
+                outputText = `Error: User '${args[0]}' not found.`;
+            } else if (!isSelf && !canManageUsers) {
+                outputText = `Error: ${formatPermissionDenied("Changing another user's password", 'rbac:users')}`;
+            } else if (!credentials?.newPassword || (isSelf && !credentials.password)) {
+                outputText = `Error: No password given. Type '${['passwd', ...args].join(' ')}' in the shell to be prompted for the password.`;
+            } else if (isSelf && !(await verifyPassword(credentials.password!, target.password_hash))) {
+                outputText = 'Error: The current password is incorrect.';
+            } else {
+                const passwordHash = await hashPassword(credentials.newPassword);
+                await runSql('UPDATE users SET password_hash = ? WHERE user_id = ?', [passwordHash, target.user_id]);
+                const endedSessions = await deleteUserSessions(target.user_id, isSelf ? sessionToken : undefined);
+                outputText = `Password changed for '${target.username}'. ${endedSessions} ${isSelf ? 'other ' : ''}session(s) ended.`;
+            }
+        } catch (error) {
+            console.error('Error changing password:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'migrate up' (or 'init db')." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({
+        actorId: userId,
+        action: 'auth.passwd',
+        target: args[0] ?? null,
+        outcome: outputText.startsWith('Error: Permission denied') ? 'denied' : logType === 'E' ? 'failure' : 'success',
+        details: { result: outputText },
+    });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `passwd-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -4,6 +4,7 @@
 import type { OutputLine } from '@/components/output-display';
 import { persistDbToFile } from '@/lib/database'; // Import the persistence function
 import type { LogEntry } from '@/types/log-types'; // Import new LogEntry
+import { recordAuditEvent } from '@/lib/audit';
 
 // Define the structure for the return value, including potential log updates
 interface HandlerResult {
@@ -17,21 +18,11 @@ interface HandlerParams {
     args: string[]; // Includes 'memory', 'db', 'to', and optionally '<filename.db>'
     timestamp: string;
     currentLogEntries: LogEntry[]; // Pass current logs
-    overridePermissionChecks?: boolean;
 }
 
 const DEFAULT_PERSIST_FILENAME = 'sim_shell.db';
 
-export const handlePersistDb = async ({ args, timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks }: HandlerParams): Promise<HandlerResult> => {
-    // Permission check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('execute_sql_modify')) {
-    //     const errorMsg = "Permission denied: Cannot persist database.";
-    //     return {
-    //         outputLines: [{ id: `persist-db-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
+export const handlePersistDb = async ({ args, timestamp, currentLogEntries, userId, userPermissions }: HandlerParams): Promise<HandlerResult> => {
     let logText: string;
     let logType: 'I' | 'E' = 'I';
     let outputType: OutputLine['type'] = 'info';
@@ -83,6 +74,7 @@ export const handlePersistDb = async ({ args, timestamp, currentLogEntries, user
         logText = outputText + ` (User: ${userId})`;
     }
 
+    await recordAuditEvent({ actorId: userId, action: 'database.export', target: `data/${targetFilename}`, outcome: logType === 'E' ? 'failure' : 'success', details: { command: 'persist memory db to', result: outputText } });
 
     const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: logText };
     const newLogEntries = [...currentLogEntries, logEntry];
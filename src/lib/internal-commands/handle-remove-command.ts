@@ -0,0 +1,59 @@
+// src/lib/internal-commands/handle-remove-command.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { removeCustomCommand } from '@/lib/custom-commands';
+import { canAccess } from '@/lib/policy';
+import type { Elevation } from '@/lib/elevations';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+}
+
+/**
+ * Handles the 'remove_int_cmd <name>' command.
+ * Deletes a custom internal command (by name or alias). Users can remove their own commands;
+ * removing another user's command requires 'manage_roles_permissions'.
+ */
+export const handleRemoveCommand = async ({ args, timestamp, currentLogEntries, userId, userPermissions, elevation }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+    let removedCustomCommands: string[] | undefined;
+
+    if (args.length !== 1 || !args[0]) {
+        outputText = 'Error: Invalid syntax. Use: remove_int_cmd <name>';
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    } else {
+        const canRemoveAny = canAccess('rbac:roles', { userPermissions, elevation });
+        try {
+            const removed = await removeCustomCommand(args[0], userId, canRemoveAny);
+            removedCustomCommands = [removed.name, ...(removed.alias ? [removed.alias] : [])];
+            outputText = `Removed custom command "${removed.name}"${removed.alias ? ` (alias: ${removed.alias})` : ''}.`;
+        } catch (error) {
+            console.error('Error removing custom command:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'migrate up' (or 'init db')." : ''}`;
+            outputType = 'error';
+            logType = 'E';
+            logFlag = 1;
+        }
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `remove-int-cmd-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+        removedCustomCommands,
+    };
+};
@@ -0,0 +1,61 @@
+// src/lib/internal-commands/handle-remove-user.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { deleteUser } from '@/lib/rbac';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'remove_user <username>' command.
+ * Deletes the user, their role assignments and their sessions. You cannot remove yourself.
+ * Requires 'manage_users' permission (checked by the policy).
+ */
+export const handleRemoveUser = async ({ args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    if (args.length !== 1 || !args[0]) {
+        outputText = 'Error: Invalid syntax. Use: remove_user <username>';
+    } else {
+        const username = args[0];
+        try {
+            const { results } = await runSql('SELECT user_id FROM users WHERE username = ?', [username]);
+            if (results?.[0]?.user_id === userId) {
+                outputText = "Error: You cannot remove yourself. Log in as another user with 'manage_users' first.";
+            } else {
+                const removedUserId = await deleteUser(username);
+                outputText = `User '${username}' (ID ${removedUserId}) removed with their role assignments and sessions.`;
+            }
+        } catch (error) {
+            console.error(`Error removing user '${username}':`, error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'init db'." : ''}`;
+        }
+    }
+
+    if (outputText.startsWith('Error:')) {
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    await recordAuditEvent({ actorId: userId, action: 'rbac.remove_user', target: args[0] ?? null, outcome: logType === 'E' ? 'failure' : 'success', details: { result: outputText } });
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `remove-user-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
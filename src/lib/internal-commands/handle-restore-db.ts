@@ -0,0 +1,58 @@
+// src/lib/internal-commands/handle-restore-db.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { restoreDatabaseFromFile } from '@/lib/database';
+import { recordAuditEvent } from '@/lib/audit';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[]; // ['db', 'from', '<file.db>']
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'restore db from <file.db>' command.
+ * Validates the backup, saves a safety backup of the current database, then restores the backup into the active database file.
+ * Requires 'manage_roles_permissions' (checked by the policy).
+ */
+export const handleRestoreDb = async ({ args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    if (args.length !== 3 || args[0].toLowerCase() !== 'db' || args[1].toLowerCase() !== 'from') {
+        outputText = 'Error: Invalid syntax. Use: restore db from <file.db>';
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+        logText = outputText;
+    } else {
+        try {
+            const { activePath, sourcePath, safetyBackupPath } = await restoreDatabaseFromFile(args[2]);
+            outputText = `Database restored from ${sourcePath} into ${activePath}.\nThe previous contents were saved to ${safetyBackupPath}.`;
+            logText = `Database restored. Before: ${activePath} (saved to ${safetyBackupPath}). After: ${activePath} restored from ${sourcePath}.`;
+        } catch (error) {
+            console.error('Error restoring database:', error);
+            outputText = `Error restoring database from data/${args[2]}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            outputType = 'error';
+            logType = 'E';
+            logFlag = 1;
+            logText = outputText;
+        }
+        // Recorded after the swap, so the event lands in the restored database's audit trail
+        await recordAuditEvent({ actorId: userId, action: 'database.restore', target: `data/${args[2]}`, outcome: logType === 'E' ? 'failure' : 'success', details: { result: logText } });
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `restore-db-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,54 @@
+// src/lib/internal-commands/handle-run-sim-script.ts
+'use server';
+
+import type { CustomCommands } from '@/hooks/use-custom-commands';
+import type { LogEntry } from '@/types/log-types';
+import { executeSimScript } from '@/lib/sim-script-runner';
+import type { Elevation } from '@/lib/elevations';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    command: string;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    initialSuggestions: Record<string, string[]>;
+    customCommands: CustomCommands;
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+    macroDepth?: number;
+}
+
+/**
+ * Handles 'run <file.sim> [--stop-on-error]' and its shorthand '@sim:<file>.sim [--stop-on-error]'.
+ * Runs the SimShell script from src/sim-scripts; each command is checked against the
+ * user's permissions as it runs.
+ */
+export const handleRunSimScript = async (params: HandlerParams): Promise<HandlerResult> => {
+    const { command, timestamp, currentLogEntries, userId } = params;
+
+    const match = command.trim().match(/^(?:run\s+|@sim:)(\S+)(?:\s+([\s\S]*))?$/i);
+    if (!match) {
+        const errorMsg = 'Error: Invalid syntax. Use: run <file.sim> [--stop-on-error] or @sim:<file>.sim';
+        return {
+            outputLines: [{ id: `run-sim-err-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }],
+            newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }],
+        };
+    }
+
+    const { error, ...result } = await executeSimScript({
+        filename: match[1],
+        argumentText: match[2] ?? '',
+        userId,
+        userPermissions: params.userPermissions,
+        currentLogEntries,
+        initialSuggestions: params.initialSuggestions,
+        customCommands: params.customCommands,
+        elevation: params.elevation,
+        macroDepth: params.macroDepth,
+    });
+    return {
+        ...result,
+        toastInfo: error ? { message: error, variant: 'destructive' } : result.toastInfo,
+    };
+};
@@ -17,7 +17,6 @@ interface HandlerParams {
     args: string[]; // Expected: ['<name>', 'active', <0|1>] - index.ts passes args starting *after* 'set ai_tool'
     timestamp: string;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
 }
 
 /**
@@ -26,7 +25,7 @@ interface HandlerParams {
  * Requires 'manage_ai_tools' permission.
  */
 export const handleSetAiToolActive = async (params: HandlerParams): Promise<HandlerResult> => {
-    const { args, timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks } = params;
+    const { args, timestamp, currentLogEntries, userId, userPermissions } = params;
     let outputLines: OutputLine[] = [];
     let updatedLogEntries = [...currentLogEntries];
     let logText = '';
@@ -35,15 +34,6 @@ export const handleSetAiToolActive = async (params: HandlerParams): Promise<Hand
     let outputText = '';
     let logFlag: 0 | 1 = 0; // Default flag
 
-    // Permission check bypassed if overridePermissionChecks is true
-    // if (!overridePermissionChecks && !userPermissions.includes('manage_ai_tools')) {
-    //     const errorMsg = "Permission denied: Cannot manage AI tools.";
-    //     return {
-    //         outputLines: [{ id: `set-tool-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }], // Error flag
-    //         newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }] // Error flag
-    //     };
-    // }
-
 
     // Validate arguments: <name> active <0|1> (args array starts after 'set ai_tool')
     if (args.length !== 3 || args[1] !== 'active' || (args[2] !== '0' && args[2] !== '1')) {
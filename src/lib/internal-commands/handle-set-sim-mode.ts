@@ -17,16 +17,15 @@ interface HandlerParams {
     args: string[]; // Expected: ['<0|1>']
     timestamp: string;
     currentLogEntries: LogEntry[];
-    overridePermissionChecks?: boolean;
 }
 
 /**
  * Handles the 'set sim_mode <0|1>' internal command.
  * Sets the 'sim_mode' internal variable to 0 or 1.
- * Requires 'manage_variables' permission (or override).
+ * Requires 'manage_variables' permission (checked by the policy).
  */
 export const handleSetSimMode = async (params: HandlerParams): Promise<HandlerResult> => {
-    const { args, timestamp, currentLogEntries, userId, userPermissions, overridePermissionChecks } = params;
+    const { args, timestamp, currentLogEntries, userId, userPermissions } = params;
     let outputLines: OutputLine[] = [];
     let updatedLogEntries = [...currentLogEntries];
     let logText = '';
@@ -35,7 +34,7 @@ export const handleSetSimMode = async (params: HandlerParams): Promise<HandlerRe
     let outputText = '';
     let logFlag: 0 | 1 = 0;
 
-    // Permission check moved to src/lib/internal-commands/index.ts
+    // Permission check is handled by the policy (src/lib/policy.ts) before the dispatcher runs
 
     if (args.length !== 1 || (args[0] !== '0' && args[0] !== '1')) {
         outputText = `Error: Invalid syntax. Use: set sim_mode <0|1>`;
@@ -0,0 +1,79 @@
+// src/lib/internal-commands/handle-show-perms.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { getEffectivePermissions } from '@/lib/rbac';
+import { RESOURCE_PERMISSIONS, canAccess, formatPermissionDenied } from '@/lib/policy';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import type { Elevation } from '@/lib/elevations';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    command: string;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+}
+
+/**
+ * Handles the 'show perms <user|role>' command.
+ * Lists the effective permissions of a user (with the roles granting them) or of a role.
+ * Everyone may look up their own permissions; other users require 'manage_users', roles 'manage_roles_permissions'.
+ */
+export const handleShowPerms = async ({ command, timestamp, currentLogEntries, userId, userPermissions, elevation }: HandlerParams): Promise<HandlerResult> => {
+    let outputLine: OutputLine;
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const match = command.trim().match(/^show\s+perms\s+(\S+)$/i);
+
+    try {
+        if (!match) {
+            throw new Error('Invalid syntax. Use: show perms <user|role>');
+        }
+        const { results: self } = await runSql('SELECT username FROM users WHERE user_id = ?', [userId]);
+        const isSelf = self?.[0]?.username === match[1];
+        // Checked before the lookup, so its errors cannot reveal which users and roles exist
+        if (!isSelf && !canAccess('rbac:users', { userPermissions, elevation }) && !canAccess('rbac:roles', { userPermissions, elevation })) {
+            throw new Error(`Permission denied: Showing the permissions of another user requires the '${RESOURCE_PERMISSIONS['rbac:users']}' permission, of a role the '${RESOURCE_PERMISSIONS['rbac:roles']}' permission.`);
+        }
+        const result = await getEffectivePermissions(match[1]);
+        const resource = result.kind === 'user' ? 'rbac:users' : 'rbac:roles';
+        if (!isSelf && !canAccess(resource, { userPermissions, elevation })) {
+            throw new Error(formatPermissionDenied(`Showing the permissions of ${result.kind === 'user' ? 'another user' : 'a role'}`, resource));
+        }
+
+        if (result.permissions.length === 0) {
+            outputLine = { id: `show-perms-${timestamp}`, text: `${result.kind === 'user' ? 'User' : 'Role'} '${result.name}' has no permissions.`, type: 'info', category: 'internal', timestamp, flag: 0 };
+        } else {
+            outputLine = {
+                id: `show-perms-${timestamp}`,
+                text: (await formatResultsAsTable(result.permissions)) ?? '',
+                table: (await formatResultsAsTableData(result.permissions)) ?? undefined,
+                type: 'output',
+                category: 'internal',
+                timestamp: undefined,
+                flag: 0,
+            };
+        }
+        logText = `Showed ${result.permissions.length} permission(s) of ${result.kind} '${result.name}'.`;
+    } catch (error) {
+        console.error('Error showing permissions:', error);
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        logText = `Error: ${errorMsg}${errorMsg.includes('no such table') ? " Run 'init db'." : ''}`;
+        outputLine = { id: `show-perms-${timestamp}`, text: logText, type: 'error', category: 'internal', timestamp, flag: 1 };
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines: [outputLine],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,49 @@
+// src/lib/internal-commands/handle-show-policy.ts
+'use server';
+
+import type { LogEntry } from '@/types/log-types';
+import { POLICY_RULES, RESOURCE_PERMISSIONS, hasPermission } from '@/lib/policy';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import type { Elevation } from '@/lib/elevations';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+}
+
+/**
+ * Handles the 'show policy' command.
+ * Lists the permission policy rules in evaluation order: the commands each rule covers, the resource
+ * and the permission it requires, and whether the current user holds that permission.
+ */
+export const handleShowPolicy = async ({ timestamp, currentLogEntries, userId, userPermissions, elevation }: HandlerParams): Promise<HandlerResult> => {
+    const rows = POLICY_RULES.map((rule, index) => {
+        const permission = RESOURCE_PERMISSIONS[rule.resource];
+        return {
+            '#': index + 1,
+            mode: rule.mode,
+            command: rule.additive ? `${rule.command} (also needs the matching rule below)` : rule.command,
+            resource: rule.resource,
+            permission: rule.forbidden ? '(forbidden)' : permission ?? '(none)',
+            allowed: !rule.forbidden && hasPermission(permission, { userPermissions, elevation }) ? 'yes' : 'no',
+        };
+    });
+
+    const logEntry: LogEntry = { timestamp, type: 'I', flag: 0, text: `Showed ${rows.length} permission policy rule(s). (User: ${userId})` };
+    return {
+        outputLines: [{
+            id: `show-policy-${timestamp}`,
+            text: (await formatResultsAsTable(rows)) ?? '',
+            table: (await formatResultsAsTableData(rows)) ?? undefined,
+            type: 'output',
+            category: 'internal',
+            timestamp: undefined,
+            flag: 0,
+        }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,82 @@
+// src/lib/internal-commands/handle-show-sheet.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { getSheetGrid } from '@/lib/spreadsheet';
+import { indexToColumn } from '@/lib/spreadsheet-formula';
+import { formatResultsAsTable } from '@/lib/formatting';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    command: string;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'show sheet <name>' command.
+ * Renders the computed values of an excel mode sheet as a table, from A1 to the last used cell.
+ */
+export const handleShowSheet = async ({ command, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'output';
+    let logText: string;
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const sheetName = command.trim().replace(/^show\s+sheet\b/i, '').trim().replace(/^'(.*)'$/, '$1');
+
+    if (!sheetName) {
+        outputText = 'Error: Missing sheet name. Use: show sheet <sheet_name>';
+        outputType = 'error';
+        logText = `${outputText} (User: ${userId})`;
+        logType = 'E';
+        logFlag = 1;
+    } else {
+        try {
+            const grid = await getSheetGrid(sheetName);
+            if (!grid) {
+                outputText = `Error: Sheet '${sheetName}' does not exist.`;
+                outputType = 'error';
+                logType = 'E';
+                logFlag = 1;
+                logText = `${outputText} (User: ${userId})`;
+            } else if (grid.rows.length === 0) {
+                outputText = `Sheet '${grid.sheet}' is empty.`;
+                outputType = 'info';
+                logText = `Displayed empty sheet '${grid.sheet}'. (User: ${userId})`;
+            } else {
+                const shownCols = Object.keys(grid.rows[0]).length - 1; // Without '#'
+                const cutOff = grid.usedRows > grid.rows.length || grid.usedCols > shownCols
+                    ? `\nShowing the first ${grid.rows.length} row(s) and columns A-${indexToColumn(shownCols)} of A1:${indexToColumn(grid.usedCols)}${grid.usedRows}. Evaluate formulas to read cells outside this area.`
+                    : '';
+                outputText = `${grid.sheet}\n${await formatResultsAsTable(grid.rows)}${cutOff}`;
+                logText = `Displayed sheet '${grid.sheet}' (${grid.rows.length} row(s)). (User: ${userId})`;
+            }
+        } catch (error) {
+            console.error('Error retrieving sheet:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            outputText = `Error retrieving sheet: ${errorMsg}${errorMsg.includes('no such table') ? ". Consider running 'init db'." : ''}`;
+            outputType = 'error';
+            logType = 'E';
+            logFlag = 1;
+            logText = `${outputText} (User: ${userId})`;
+        }
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: logText };
+    return {
+        outputLines: [{
+            id: `show-sheet-${timestamp}`,
+            text: outputText,
+            type: outputType,
+            category: 'internal',
+            timestamp: outputType === 'output' ? undefined : timestamp,
+            flag: logFlag,
+        }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
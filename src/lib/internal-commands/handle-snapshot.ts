@@ -0,0 +1,81 @@
+// src/lib/internal-commands/handle-snapshot.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { takeSnapshot, listSnapshots, getSnapshotSettings } from '@/lib/snapshots';
+import { formatResultsAsTable } from '@/lib/formatting';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    userPermissions: string[];
+    args: string[];
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+}
+
+/**
+ * Handles the 'snapshot list' and 'snapshot now' commands.
+ * Snapshots are written to data/snapshots/; the schedule and retention come from the
+ * 'snapshot_interval_minutes' and 'snapshot_keep' variables.
+ */
+export const handleSnapshot = async ({ args, timestamp, currentLogEntries, userId }: HandlerParams): Promise<HandlerResult> => {
+    const outputLines: OutputLine[] = [];
+    let logText = '';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    const addLine = (text: string, type: OutputLine['type']) => {
+        outputLines.push({
+            id: `snapshot-${outputLines.length}-${timestamp}`,
+            text,
+            type,
+            category: 'internal',
+            timestamp: type === 'output' ? undefined : timestamp,
+            flag: type === 'error' || type === 'warning' ? 1 : 0,
+        });
+    };
+
+    const subcommand = (args[0] || '').toLowerCase();
+
+    try {
+        if (subcommand === 'now' && args.length === 1) {
+            const { file, sourcePath, pruned, warnings } = await takeSnapshot();
+            addLine(`Snapshot of ${sourcePath} written to data/snapshots/${file}`, 'info');
+            if (pruned.length > 0) {
+                addLine(`Pruned ${pruned.length} old snapshot(s): ${pruned.join(', ')}`, 'info');
+            }
+            warnings.forEach(warning => addLine(`Warning: ${warning}`, 'warning'));
+            logText = `Snapshot of ${sourcePath} written to data/snapshots/${file}${pruned.length > 0 ? `; pruned ${pruned.join(', ')}` : ''}.`;
+        } else if (subcommand === 'list' && args.length === 1) {
+            const snapshots = await listSnapshots();
+            if (snapshots.length === 0) {
+                addLine('No snapshots found in data/snapshots/.', 'info');
+            } else {
+                addLine((await formatResultsAsTable(snapshots)) ?? '', 'output');
+            }
+            const { intervalMinutes, keep, warnings } = await getSnapshotSettings();
+            addLine(intervalMinutes > 0
+                ? `Scheduled snapshots: every ${intervalMinutes} minute(s), keeping the newest ${keep} per database. Restore one with 'restore db from snapshots/<file.db>'.`
+                : `Scheduled snapshots are off (set snapshot_interval_minutes to enable). Keeping the newest ${keep} per database.`, 'info');
+            warnings.forEach(warning => addLine(`Warning: ${warning}`, 'warning'));
+            logText = `Listed ${snapshots.length} snapshot(s).`;
+        } else {
+            throw new Error('Invalid snapshot command. Use: snapshot list | snapshot now');
+        }
+    } catch (error) {
+        console.error('Error running snapshot command:', error);
+        const errorMsg = `Error: ${error instanceof Error ? error.message : 'Unknown snapshot error'}`;
+        addLine(errorMsg, 'error');
+        logText = errorMsg;
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `${logText} (User: ${userId})` };
+    return {
+        outputLines,
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
@@ -0,0 +1,55 @@
+// src/lib/internal-commands/handle-whoami.ts
+'use server';
+
+import type { OutputLine } from '@/components/output-display';
+import type { LogEntry } from '@/types/log-types';
+import { runSql } from '@/lib/database';
+import { getSession } from '@/lib/sessions';
+import type { Elevation } from '@/lib/elevations';
+import type { HandlerResult } from './index';
+
+interface HandlerParams {
+    userId: number;
+    timestamp: string;
+    currentLogEntries: LogEntry[];
+    sessionToken?: string;
+    elevation?: Elevation | null;
+}
+
+/**
+ * Handles the 'whoami' command.
+ * Shows the logged-in user, their roles, when the session expires and any running elevation.
+ */
+export const handleWhoami = async ({ timestamp, currentLogEntries, userId, sessionToken, elevation }: HandlerParams): Promise<HandlerResult> => {
+    let outputText: string;
+    let outputType: OutputLine['type'] = 'info';
+    let logType: 'I' | 'E' = 'I';
+    let logFlag: 0 | 1 = 0;
+
+    try {
+        const session = sessionToken ? await getSession(sessionToken) : null;
+        if (!session) {
+            outputText = "Not logged in (guest). Use 'login <user>' to log in.";
+        } else {
+            const { results } = await runSql(
+                `SELECT r.role_name FROM user_roles ur JOIN roles r ON r.role_id = ur.role_id
+                 WHERE ur.user_id = ? ORDER BY r.role_name`,
+                [session.userId]
+            );
+            const roles = (results ?? []).map(row => row.role_name).join(', ') || 'none';
+            outputText = `${session.username} (user ID ${session.userId}). Roles: ${roles}. Session expires at ${session.expiresAt}.${elevation ? ` Elevated until ${elevation.expiresAt} (elevation #${elevation.elevationId}).` : ''}`;
+        }
+    } catch (error) {
+        console.error('Error during whoami:', error);
+        outputText = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        outputType = 'error';
+        logType = 'E';
+        logFlag = 1;
+    }
+
+    const logEntry: LogEntry = { timestamp, type: logType, flag: logFlag, text: `whoami: ${outputText} (User: ${userId})` };
+    return {
+        outputLines: [{ id: `whoami-${timestamp}`, text: outputText, type: outputType, category: 'internal', timestamp, flag: logFlag }],
+        newLogEntries: [...currentLogEntries, logEntry],
+    };
+};
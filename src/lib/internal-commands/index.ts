@@ -6,7 +6,9 @@ import type { CustomCommandAction, CustomCommands } from '@/hooks/use-custom-com
 import type { OutputLine } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types';
 import type { CommandMode } from '@/types/command-types';
-import { internalCommandDefinitions } from '@/lib/internal-commands-definitions';
+import { findCustomCommand } from '@/lib/custom-commands';
+import type { CommandCredentials } from '@/lib/passwords';
+import type { Elevation } from '@/lib/elevations';
 
 // Import individual command handlers
 import { handleHelp } from './handle-help';
@@ -18,6 +20,7 @@ import { handleAddCommand } from './handle-add-command';
 import { handleAddAiTool } from './handle-add-ai-tool';
 import { handleExportLog } from './handle-export-log';
 import { handleExportDb } from './handle-export-db';
+import { handleExportQuery } from './handle-export-query';
 import { handlePause } from './handle-pause';
 // import { handleCreateSqlite } from './handle-create-sqlite'; // Removed
 import { handleShowRequirements } from './handle-show-requirements';
@@ -29,6 +32,29 @@ import { handleAiCommand } from './handle-ai-command';
 import { handleSetAiToolActive } from './handle-set-ai-tool-active';
 import { handleSetSimMode } from './handle-set-sim-mode';
 import { handleAddRole } from './handle-add-role'; // Import new handler
+import { handleShowSheet } from './handle-show-sheet';
+import { handleMigrate } from './handle-migrate';
+import { handleDb } from './handle-db';
+import { handleRestoreDb } from './handle-restore-db';
+import { handleSnapshot } from './handle-snapshot';
+import { handleImport } from './handle-import';
+import { handleListCustomCommands } from './handle-list-custom-commands';
+import { handleRemoveCommand } from './handle-remove-command';
+import { handleRunSimScript } from './handle-run-sim-script';
+import { handleLogin } from './handle-login';
+import { handleLogout } from './handle-logout';
+import { handleWhoami } from './handle-whoami';
+import { handlePasswd } from './handle-passwd';
+import { handleElevate } from './handle-elevate';
+import { handleAudit } from './handle-audit';
+import { handleAddUser } from './handle-add-user';
+import { handleRemoveUser } from './handle-remove-user';
+import { handleListUsers } from './handle-list-users';
+import { handleGrantRole } from './handle-grant-role';
+import { handleGrantPerm } from './handle-grant-perm';
+import { handleListRoles } from './handle-list-roles';
+import { handleShowPerms } from './handle-show-perms';
+import { handleShowPolicy } from './handle-show-policy';
 import { handleCustomCommand } from './handle-custom-command';
 import { handleNotFound } from './handle-not-found';
 
@@ -43,7 +69,10 @@ interface InternalCommandHandlerParams {
     customCommands: CustomCommands;
     currentLogEntries: LogEntry[];
     initialSuggestions: Record<string, string[]>;
-    overridePermissionChecks?: boolean;
+    elevation?: Elevation | null; // The session's running elevation, for permission checks
+    macroDepth?: number; // Nesting level when run as a step of a custom command or .sim script
+    sessionToken?: string; // Token of the caller's session cookie, if any
+    credentials?: CommandCredentials;
 }
 
 export interface HandlerResult {
@@ -51,34 +80,14 @@ export interface HandlerResult {
     newLogEntries?: LogEntry[];
     newSuggestions?: { mode: CommandMode; command: string }[];
     newCustomCommands?: { name: string; action: CustomCommandAction }[];
+    removedCustomCommands?: string[]; // Names and aliases of deleted custom commands
     toastInfo?: { message: string; variant?: 'default' | 'destructive' };
+    session?: { token: string; expiresAt: string } | null; // Set by login (new session) and logout (null); undefined leaves the cookie alone
 }
 
 
 export const handleInternalCommand = async (params: InternalCommandHandlerParams): Promise<HandlerResult> => {
-    const { commandName, commandLower, args, customCommands, userPermissions, timestamp, userId, overridePermissionChecks } = params;
-
-    const commandDef = internalCommandDefinitions.find(def => def.name === commandName);
-
-    const permissionDenied = (requiredPermission: string): HandlerResult => {
-        const errorMsg = `Permission denied: Requires '${requiredPermission}' permission.`;
-        return {
-            outputLines: [{ id: `perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }],
-            newLogEntries: [...params.currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }],
-            newSuggestions: undefined,
-            newCustomCommands: undefined,
-            toastInfo: undefined
-        };
-    };
-
-    // Centralized permission check for defined internal commands
-    if (commandDef && commandDef.requiredPermission && !overridePermissionChecks && !userPermissions.includes(commandDef.requiredPermission) && !userPermissions.includes('override_all_permissions')) {
-        // Allow 'help' to bypass this specific check if its definition doesn't require a perm or if it's a special case
-        if (commandName !== 'help') {
-             return permissionDenied(commandDef.requiredPermission);
-        }
-    }
-
+    const { commandName, commandLower, args, customCommands, timestamp, userId } = params;
 
     if (commandName.startsWith('@bat:')) {
         console.warn("Experimental @bat command received, but execution is not yet implemented.");
@@ -91,6 +100,10 @@ export const handleInternalCommand = async (params: InternalCommandHandlerParams
         };
     }
 
+    if (commandName.startsWith('@sim:')) {
+        return handleRunSimScript(params);
+    }
+
     switch (commandName) {
         case 'help':
             return handleHelp(params);
@@ -119,18 +132,20 @@ export const handleInternalCommand = async (params: InternalCommandHandlerParams
                  return handleAddRole(params);
              }
              break;
+        case 'add_user':
+            return handleAddUser(params);
+        case 'remove_user':
+            return handleRemoveUser(params);
+        case 'grant_role':
+        case 'revoke_role':
+            return handleGrantRole(params);
+        case 'grant_perm':
+        case 'revoke_perm':
+            return handleGrantPerm(params);
         case 'set':
              if (commandLower.startsWith('set ai_tool ')) {
-                 const setAiToolDef = internalCommandDefinitions.find(d => d.name === 'set_ai_tool');
-                 if (setAiToolDef?.requiredPermission && !overridePermissionChecks && !userPermissions.includes(setAiToolDef.requiredPermission) && !userPermissions.includes('override_all_permissions')) {
-                     return permissionDenied(setAiToolDef.requiredPermission);
-                 }
                  return handleSetAiToolActive({ ...params, args: args.slice(2) });
              } else if (commandLower.startsWith('set sim_mode ')) {
-                 const setSimModeDef = internalCommandDefinitions.find(d => d.name === 'set_sim_mode');
-                 if (setSimModeDef?.requiredPermission && !overridePermissionChecks && !userPermissions.includes(setSimModeDef.requiredPermission) && !userPermissions.includes('override_all_permissions')) {
-                    return permissionDenied(setSimModeDef.requiredPermission);
-                 }
                  return handleSetSimMode({ ...params, args: args.slice(2) });
              }
              break;
@@ -138,11 +153,9 @@ export const handleInternalCommand = async (params: InternalCommandHandlerParams
              if (commandLower === 'export log') {
                 return handleExportLog(params);
              } else if (commandLower === 'export db') {
-                 const exportDbDef = internalCommandDefinitions.find(d => d.name === 'export_db');
-                 if (exportDbDef?.requiredPermission && !overridePermissionChecks && !userPermissions.includes(exportDbDef.requiredPermission) && !userPermissions.includes('override_all_permissions')) {
-                    return permissionDenied(exportDbDef.requiredPermission);
-                 }
                 return handleExportDb(params);
+             } else if (commandLower.startsWith('export query ')) {
+                return handleExportQuery(params);
              }
              break;
         case 'pause':
@@ -155,25 +168,74 @@ export const handleInternalCommand = async (params: InternalCommandHandlerParams
             return handlePersistDb(params);
         case 'init':
             if (commandLower === 'init db') {
-                 const initDbDef = internalCommandDefinitions.find(d => d.name === 'init_db');
-                 if (initDbDef?.requiredPermission && !overridePermissionChecks && !userPermissions.includes(initDbDef.requiredPermission) && !userPermissions.includes('override_all_permissions')) {
-                    return permissionDenied(initDbDef.requiredPermission);
-                 }
                  return handleInitDb(params);
             } else if (commandLower === 'init' && args.length === 0) {
-                 const initDef = internalCommandDefinitions.find(d => d.name === 'init');
-                 if (initDef?.requiredPermission && !overridePermissionChecks && !userPermissions.includes(initDef.requiredPermission) && !userPermissions.includes('override_all_permissions')) {
-                    return permissionDenied(initDef.requiredPermission);
-                 }
                  return handleInit(params);
             }
             break;
+        case 'restore':
+            if (commandLower.startsWith('restore db')) {
+                 return handleRestoreDb(params);
+            }
+            break;
+        case 'show':
+            if (commandLower === 'show sheet' || commandLower.startsWith('show sheet ')) {
+                return handleShowSheet(params);
+            } else if (commandLower === 'show perms' || commandLower.startsWith('show perms ')) {
+                return handleShowPerms(params);
+            } else if (commandLower === 'show policy') {
+                return handleShowPolicy(params);
+            }
+            break;
+        case 'migrate':
+            return handleMigrate(params);
+        case 'db':
+            return handleDb(params);
+        case 'snapshot':
+            return handleSnapshot(params);
+        case 'import':
+            return handleImport(params);
         case 'list_py_vars':
             return handleListPyVars(params);
+        case 'list':
+            if (commandLower === 'list custom cmds') {
+                return handleListCustomCommands(params);
+            } else if (commandLower === 'list users' || commandLower === 'list roles') {
+                 return commandLower === 'list users' ? handleListUsers(params) : handleListRoles(params);
+            }
+            break;
+        case 'list_custom_cmds':
+            return handleListCustomCommands(params);
+        case 'list_users':
+            return handleListUsers(params);
+        case 'list_roles':
+            return handleListRoles(params);
+        case 'remove_int_cmd':
+            return handleRemoveCommand(params);
+        case 'run':
+            return handleRunSimScript(params);
+        case 'login':
+            return handleLogin(params);
+        case 'logout':
+            return handleLogout(params);
+        case 'whoami':
+            return handleWhoami(params);
+        case 'passwd':
+            return handlePasswd(params);
+        case 'elevate':
+            return handleElevate(params);
+        case 'audit':
+            return handleAudit(params);
         case 'ai':
             return handleAiCommand(params);
     }
 
+    // Stored custom commands (by name or alias) take precedence over ones known only to this session
+    const storedCommand = await findCustomCommand(params.commandName, userId);
+    if (storedCommand) {
+        return handleCustomCommand(params, storedCommand.action);
+    }
+
     const customAction = customCommands[params.commandName.toLowerCase()];
     if (customAction !== undefined) {
         return handleCustomCommand(params, customAction);
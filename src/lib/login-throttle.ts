@@ -0,0 +1,74 @@
+// src/lib/login-throttle.ts
+/**
+ * @fileOverview Slows down password guessing. Failed logins are counted per username and per
+ * client address; after LOGIN_FAILURES_BEFORE_DELAY failures, further attempts on that key are refused for a
+ * delay that doubles with every failure, up to MAX_DELAY_MS. Counts live in memory (per server
+ * process) and are forgotten an hour after the last failure; a successful login clears its username.
+ * Not a 'use server' module: the helpers are synchronous.
+ */
+
+export const LOGIN_FAILURES_BEFORE_DELAY = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+const FORGET_AFTER_MS = 60 * 60 * 1000;
+const MAX_TRACKED_KEYS = 10_000; // Beyond this, stale entries are pruned on the next failure
+
+interface FailureRecord {
+    count: number;
+    lastFailureAt: number; // ms since the epoch
+}
+
+const failures = new Map<string, FailureRecord>(); // 'user:<name>' or 'address:<ip>' -> failures
+
+/** The keys a login attempt is counted under: the username (case-insensitive) and the client address, if known. */
+export function getLoginThrottleKeys(username: string, clientAddress?: string): string[] {
+    return [`user:${username.toLowerCase()}`, ...(clientAddress ? [`address:${clientAddress}`] : [])];
+}
+
+function getRecord(key: string, now: number): FailureRecord | null {
+    const record = failures.get(key);
+    if (record && now - record.lastFailureAt > FORGET_AFTER_MS) {
+        failures.delete(key);
+        return null;
+    }
+    return record ?? null;
+}
+
+/**
+ * How long the caller must wait before the next attempt on any of the keys.
+ * @returns The remaining delay in ms; 0 if an attempt is allowed now.
+ */
+export function getLoginDelay(keys: string[], now = Date.now()): number {
+    let delay = 0;
+    for (const key of keys) {
+        const record = getRecord(key, now);
+        if (!record || record.count < LOGIN_FAILURES_BEFORE_DELAY) continue;
+        const lockout = Math.min(BASE_DELAY_MS * 2 ** (record.count - LOGIN_FAILURES_BEFORE_DELAY), MAX_DELAY_MS);
+        delay = Math.max(delay, record.lastFailureAt + lockout - now);
+    }
+    return delay;
+}
+
+/**
+ * Counts a failed login under each key.
+ * @returns The highest failure count among the keys after this failure.
+ */
+export function recordLoginFailure(keys: string[], now = Date.now()): number {
+    if (failures.size > MAX_TRACKED_KEYS) {
+        failures.forEach((record, key) => { if (now - record.lastFailureAt > FORGET_AFTER_MS) failures.delete(key); });
+    }
+    let highest = 0;
+    for (const key of keys) {
+        const record = getRecord(key, now) ?? { count: 0, lastFailureAt: now };
+        record.count++;
+        record.lastFailureAt = now;
+        failures.set(key, record);
+        highest = Math.max(highest, record.count);
+    }
+    return highest;
+}
+
+/** Forgets the failures counted under a key, e.g. a username after its successful login. */
+export function clearLoginFailures(key: string): void {
+    failures.delete(key);
+}
@@ -0,0 +1,136 @@
+// src/lib/migrations.ts
+/**
+ * @fileOverview Schema migrations: the single source of table definitions.
+ * Each file in `migrations/` is named `<YYYYMMDDHHMMSS>_<name>.sql` and holds a
+ * `-- migrate:up` section and a `-- migrate:down` section. Applied versions are
+ * recorded in the `schema_migrations` table.
+ * These helpers are synchronous and take the connection as a parameter so they can
+ * run while the database singleton is being opened.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Database as DB } from 'better-sqlite3';
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+const MIGRATION_FILENAME_REGEX = /^(\d{14})_([a-z0-9_]+)\.sql$/;
+const UP_MARKER_REGEX = /^--\s*migrate:up\s*$/im;
+const DOWN_MARKER_REGEX = /^--\s*migrate:down\s*$/im;
+
+export interface Migration {
+    version: string; // 14-digit timestamp prefix, e.g. '20250513172339'
+    name: string;
+    filename: string;
+    up: string;
+    down: string;
+}
+
+export interface AppliedMigration {
+    version: string;
+    name: string;
+    applied_at: string;
+}
+
+/**
+ * Splits a migration file into its up and down sections.
+ * @throws Throws an error if the `-- migrate:up` marker is missing or follows `-- migrate:down`.
+ */
+function parseMigrationSource(filename: string, source: string): { up: string; down: string } {
+    const upMatch = UP_MARKER_REGEX.exec(source);
+    if (!upMatch) {
+        throw new Error(`Migration '${filename}' has no '-- migrate:up' section.`);
+    }
+    const downMatch = DOWN_MARKER_REGEX.exec(source);
+    if (downMatch && downMatch.index < upMatch.index) {
+        throw new Error(`Migration '${filename}' must list '-- migrate:up' before '-- migrate:down'.`);
+    }
+    const upStart = upMatch.index + upMatch[0].length;
+    return {
+        up: source.slice(upStart, downMatch ? downMatch.index : source.length).trim(),
+        down: downMatch ? source.slice(downMatch.index + downMatch[0].length).trim() : '',
+    };
+}
+
+/**
+ * Reads all migration files, ordered by version.
+ * Files that do not follow the naming scheme are ignored.
+ */
+export function loadMigrations(): Migration[] {
+    if (!fs.existsSync(MIGRATIONS_DIR)) return [];
+    return fs.readdirSync(MIGRATIONS_DIR)
+        .map(filename => ({ filename, match: MIGRATION_FILENAME_REGEX.exec(filename) }))
+        .filter((entry): entry is { filename: string; match: RegExpExecArray } => entry.match !== null)
+        .sort((a, b) => a.match[1].localeCompare(b.match[1]))
+        .map(({ filename, match }) => ({
+            version: match[1],
+            name: match[2],
+            filename,
+            ...parseMigrationSource(filename, fs.readFileSync(path.join(MIGRATIONS_DIR, filename), 'utf-8')),
+        }));
+}
+
+/**
+ * Creates the `schema_migrations` bookkeeping table if it does not exist.
+ */
+export function ensureMigrationsTable(db: DB): void {
+    db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(14) NOT NULL PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );`);
+}
+
+/**
+ * Lists the applied migrations, oldest first.
+ */
+export function getAppliedMigrations(db: DB): AppliedMigration[] {
+    ensureMigrationsTable(db);
+    return db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as AppliedMigration[];
+}
+
+/**
+ * Runs one migration in the given direction inside a transaction, together with
+ * its `schema_migrations` bookkeeping, so a failing migration leaves no trace.
+ * @throws Throws an error naming the migration if any of its statements fail.
+ */
+export function applyMigration(db: DB, migration: Migration, direction: 'up' | 'down'): void {
+    const sql = direction === 'up' ? migration.up : migration.down;
+    if (direction === 'down' && !sql) {
+        throw new Error(`Migration '${migration.filename}' has no '-- migrate:down' section and cannot be reverted.`);
+    }
+    try {
+        db.transaction(() => {
+            if (sql) db.exec(sql);
+            if (direction === 'up') {
+                db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+            } else {
+                db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+            }
+        })();
+    } catch (error) {
+        throw new Error(`Migration '${migration.filename}' (${direction}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Writes an empty migration file named after the current UTC time.
+ * @param name - Descriptive name; lower-cased, with other characters than letters, digits and '_' replaced.
+ * @returns The new file's name.
+ * @throws Throws an error if the name is empty after normalisation.
+ */
+export function createMigrationFile(name: string): string {
+    const normalizedName = name.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!normalizedName) {
+        throw new Error('Migration name must contain letters or digits.');
+    }
+    const version = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    const filename = `${version}_${normalizedName}.sql`;
+    fs.mkdirSync(MIGRATIONS_DIR, { recursive: true });
+    fs.writeFileSync(
+        path.join(MIGRATIONS_DIR, filename),
+        `-- ${normalizedName}\n-- migrate:up\n\n\n-- migrate:down\n\n`,
+        { flag: 'wx' } // Never overwrite an existing migration
+    );
+    return filename;
+}
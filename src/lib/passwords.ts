@@ -0,0 +1,64 @@
+// src/lib/passwords.ts
+/**
+ * @fileOverview Password hashing with Node's scrypt.
+ * Hashes are stored as 'scrypt$<N>$<r>$<p>$<salt>$<hash>' (salt and hash base64), so the
+ * cost parameters can be raised later without invalidating existing passwords.
+ * Not a 'use server' module: these helpers must not be callable from the client.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Passwords collected by the client's password prompt; never part of the command text. */
+export interface CommandCredentials {
+    password?: string; // login: the password; passwd: the current password
+    newPassword?: string; // passwd: the new password
+}
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const DUMMY_SALT = randomBytes(16); // For checks against accounts without a password hash
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+}
+
+/**
+ * Hashes a password with a random salt.
+ * @throws Throws an error if the password is shorter than MIN_PASSWORD_LENGTH.
+ */
+export async function hashPassword(password: string): Promise<string> {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new Error(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+    }
+    const salt = randomBytes(16);
+    const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+    const { N, r, p } = SCRYPT_PARAMS;
+    return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ * Without a (valid) hash, e.g. for an unknown user, the same scrypt work is done before returning
+ * false, so the response time does not reveal which accounts exist or have a password.
+ * @returns False for a wrong password and for accounts without a (valid) password hash.
+ */
+export async function verifyPassword(password: string, storedHash: string | null): Promise<boolean> {
+    const parts = storedHash?.split('$') ?? [];
+    if (parts.length !== 6 || parts[0] !== 'scrypt') {
+        await deriveKey(password, DUMMY_SALT, SCRYPT_PARAMS);
+        return false;
+    }
+    const [, N, r, p, salt, hash] = parts;
+    const expected = Buffer.from(hash, 'base64');
+    const key = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+    return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+/** Generates a random password, e.g. for the initial admin account. */
+export function generatePassword(): string {
+    return randomBytes(12).toString('base64url');
+}
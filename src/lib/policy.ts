@@ -0,0 +1,263 @@
+// src/lib/policy.ts
+/**
+ * @fileOverview The permission policy: which permission gates which command.
+ * Every command is mapped by (mode, command) to a resource, and every resource to the one
+ * permission that grants access to it. executeCommand evaluates the policy once per command;
+ * handlers that touch further resources (e.g. 'ai' reading variables) ask `canAccess`.
+ * An elevated session ('elevate <minutes>', see elevations.ts) passes every check.
+ * 'show policy' prints these tables, so this file is the place to audit what gates what.
+ * Not a 'use server' module: the helpers are synchronous.
+ */
+
+import type { CommandMode } from '@/types/command-types';
+import type { Elevation } from './elevations';
+import { isReadOnlySql, readSqlWords } from './sql-splitter';
+
+/** Everything a permission can protect. */
+export type PolicyResource =
+    | 'public'
+    | 'variables:read'
+    | 'variables:write'
+    | 'sql:select'
+    | 'sql:modify'
+    | 'database:files'
+    | 'database:admin'
+    | 'code:python'
+    | 'code:typescript'
+    | 'shell:vfs'
+    | 'spreadsheets'
+    | 'history'
+    | 'ai:use'
+    | 'ai:manage'
+    | 'custom_commands'
+    | 'rbac:users'
+    | 'rbac:roles'
+    | 'elevation'
+    | 'audit';
+
+/** The permission required for each resource; null means everyone, including guests. */
+export const RESOURCE_PERMISSIONS: Record<PolicyResource, string | null> = {
+    'public': null,
+    'variables:read': 'read_variables',
+    'variables:write': 'manage_variables',
+    'sql:select': 'execute_sql_select',
+    'sql:modify': 'execute_sql_modify',
+    'database:files': 'execute_sql_modify', // Database files, snapshots and exports
+    'database:admin': 'manage_roles_permissions', // Schema setup, migrations and restores
+    'code:python': 'execute_python_code',
+    'code:typescript': 'execute_typescript_code',
+    'shell:vfs': 'use_virtual_shell',
+    'spreadsheets': 'use_spreadsheets',
+    'history': 'view_history',
+    'ai:use': 'use_ai_tools',
+    'ai:manage': 'manage_ai_tools',
+    'custom_commands': 'manage_ai_tools',
+    'rbac:users': 'manage_users',
+    'rbac:roles': 'manage_roles_permissions',
+    'elevation': 'elevate',
+    'audit': 'view_audit',
+};
+
+export interface PolicyRule {
+    mode: CommandMode;
+    command: string; // The command word(s), or a description of the commands a catch-all rule covers
+    match?: RegExp | ((command: string) => boolean); // Tested against the trimmed command; absent: every command of the mode
+    resource: PolicyResource;
+    definition?: string; // The internalCommandDefinitions entry the rule applies to, for 'help'
+    bootstrap?: boolean; // Also open to guests while no user can log in (see isLoginBootstrapNeeded)
+    forbidden?: boolean; // Denied to everyone, elevation included
+    additive?: boolean; // Applies together with the next matching rule instead of deciding alone
+}
+
+export interface PolicyContext {
+    userPermissions: string[];
+    elevation?: Elevation | null; // The session's running elevation
+    bootstrapping?: boolean; // No user can log in yet
+}
+
+export interface PolicyDecision {
+    allowed: boolean;
+    rule: PolicyRule;
+    permission: string | null;
+    elevated: boolean; // Allowed only because of the elevation; such uses are recorded
+    message: string | null; // The denial message; null when allowed
+}
+
+/** Matches a command word (or words, like 'set ai_tool') followed by arguments or the end of the command. */
+const commandPattern = (command: string) => new RegExp(`^${command.split(' ').join('\\s+')}(?:\\s|$)`, 'i');
+
+const internalRule = (command: string, resource: PolicyResource, definition = command.replace(/ /g, '_')): PolicyRule =>
+    ({ mode: 'internal', command, match: commandPattern(command), resource, definition });
+
+/**
+ * A sql rule for statements that name some tables. It is additive: the statement also needs what the
+ * SELECT or catch-all rule requires, so naming a protected table never opens the rest of the database.
+ * It matches on the statement's words, read without comments, literals and identifier quoting.
+ */
+const tableRule = (command: string, resource: PolicyResource, tables: string[], changesOnly = false): PolicyRule => ({
+    mode: 'sql',
+    command,
+    match: sql => {
+        const words = readSqlWords(sql);
+        // Anywhere in the statement: FROM, joins, subqueries, view and trigger bodies
+        return tables.some(table => words.names.has(table)) && !(changesOnly && isReadOnlySql(words));
+    },
+    resource,
+    additive: true,
+});
+
+/** Login sessions, elevations and the migration log: only the commands that own them write these. */
+const SESSION_TABLES = ['sessions', 'elevations', 'elevation_uses', 'schema_migrations'];
+const USER_TABLES = ['users', 'user_roles']; // users holds the password hashes
+const ROLE_TABLES = ['roles', 'permissions', 'role_permissions'];
+
+/**
+ * Whether a statement changes the audit trail: writes audit_events or changes its schema, indexes
+ * (idx_audit_events_actor) or triggers (audit_events_no_update). Only recordAuditEvent adds events.
+ */
+const changesAuditTrail = (sql: string): boolean => {
+    const words = readSqlWords(sql);
+    return !isReadOnlySql(words) && [...words.names].some(name => name.includes('audit_events'));
+};
+
+/** PRAGMA writable_schema lets sqlite_master be edited directly, which no rule could follow. */
+const setsWritableSchema = (sql: string): boolean => {
+    const words = readSqlWords(sql);
+    return words.keywords.includes('pragma') && words.names.has('writable_schema');
+};
+
+/**
+ * The rules, in evaluation order; the first rule matching a command's mode and text applies,
+ * together with any additive rules that matched before it. A command must satisfy all of them.
+ * Each mode ends with a catch-all rule, so every command is covered.
+ */
+export const POLICY_RULES: PolicyRule[] = [
+    { mode: 'internal', command: 'Variable assignments (<name> = <value>)', match: /^\s*[a-zA-Z_]\w*\s*=\s*\S/, resource: 'variables:write' },
+    internalRule('history', 'history'),
+    internalRule('define', 'ai:use'),
+    internalRule('refine', 'ai:use'),
+    internalRule('ai', 'ai:use'),
+    internalRule('add_ai_tool', 'ai:manage'),
+    internalRule('set ai_tool', 'ai:manage'),
+    internalRule('add_int_cmd', 'custom_commands'),
+    internalRule('remove_int_cmd', 'custom_commands'),
+    internalRule('set sim_mode', 'variables:write'),
+    internalRule('list_py_vars', 'variables:read'),
+    internalRule('add_role', 'rbac:roles'),
+    internalRule('add_user', 'rbac:users'),
+    internalRule('remove_user', 'rbac:users'),
+    internalRule('list users', 'rbac:users'),
+    internalRule('list_users', 'rbac:users'),
+    internalRule('grant_role', 'rbac:users'),
+    internalRule('revoke_role', 'rbac:users'),
+    internalRule('grant_perm', 'rbac:roles'),
+    internalRule('revoke_perm', 'rbac:roles'),
+    internalRule('list roles', 'rbac:roles'),
+    internalRule('list_roles', 'rbac:roles'),
+    { ...internalRule('init db', 'database:admin'), bootstrap: true },
+    internalRule('init', 'database:admin'),
+    internalRule('migrate', 'database:admin'),
+    internalRule('restore db', 'database:admin'),
+    internalRule('db list', 'database:files', 'db'),
+    internalRule('db', 'database:admin'), // use, new, attach, detach: switching affects every user of the process
+    internalRule('snapshot', 'database:files'),
+    internalRule('export db', 'database:files'),
+    internalRule('persist_memory_db_to', 'database:files'),
+    internalRule('export query', 'sql:select'),
+    internalRule('import', 'sql:modify'),
+    internalRule('show sheet', 'spreadsheets'),
+    internalRule('elevate', 'elevation'),
+    internalRule('audit', 'audit'),
+    // help, clear, login, whoami, run, show perms, show policy, custom commands (each step is checked on its own), ...
+    { mode: 'internal', command: 'Other internal commands', resource: 'public' },
+    { mode: 'sql', command: 'Changes to the audit trail', match: changesAuditTrail, resource: 'sql:modify', forbidden: true, additive: true },
+    { mode: 'sql', command: 'PRAGMA writable_schema statements', match: setsWritableSchema, resource: 'sql:modify', forbidden: true, additive: true },
+    tableRule('Statements on sessions, elevations and migrations', 'database:admin', SESSION_TABLES),
+    tableRule('Statements on users and their roles', 'rbac:users', USER_TABLES),
+    tableRule('Changes to users and their roles', 'rbac:roles', USER_TABLES, true),
+    tableRule('Statements on roles and permissions', 'rbac:roles', ROLE_TABLES),
+    tableRule('Statements on the audit trail', 'audit', ['audit_events']),
+    tableRule('Changes to the command history', 'database:admin', ['command_history'], true),
+    tableRule('Statements on the command history', 'history', ['command_history']),
+    { mode: 'sql', command: 'SELECT queries', match: isReadOnlySql, resource: 'sql:select' },
+    { mode: 'sql', command: 'SQL statements other than SELECT', resource: 'sql:modify' },
+    { mode: 'python', command: 'Python code', resource: 'code:python' },
+    { mode: 'typescript', command: 'TypeScript code', resource: 'code:typescript' },
+    { mode: 'unix', command: 'Unix shell commands', resource: 'shell:vfs' },
+    { mode: 'windows', command: 'Windows shell commands', resource: 'shell:vfs' },
+    { mode: 'excel', command: 'Spreadsheet commands', resource: 'spreadsheets' },
+];
+
+/** Whether the context holds a permission (or is elevated); a null permission is always held. */
+export function hasPermission(permission: string | null, { userPermissions, elevation }: PolicyContext): boolean {
+    return permission === null || userPermissions.includes(permission) || !!elevation;
+}
+
+/** Whether the context may access a resource. */
+export function canAccess(resource: PolicyResource, context: PolicyContext): boolean {
+    return hasPermission(RESOURCE_PERMISSIONS[resource], context);
+}
+
+/**
+ * Builds the denial message used for every permission failure.
+ * @param what - What was attempted, e.g. "'grant_role'" or 'SELECT queries'.
+ */
+export function formatPermissionDenied(what: string, resource: PolicyResource): string {
+    return `Permission denied: ${what} requires the '${RESOURCE_PERMISSIONS[resource]}' permission (resource: ${resource}).`;
+}
+
+/**
+ * Finds the rules that apply to a command: the additive rules it matches, then the first other rule.
+ * @throws Throws an error if no rule covers the mode, so an unlisted mode is denied rather than allowed.
+ */
+export function findPolicyRules(mode: CommandMode, command: string): PolicyRule[] {
+    const trimmed = command.trim();
+    const rules: PolicyRule[] = [];
+    for (const candidate of POLICY_RULES) {
+        if (candidate.mode !== mode) continue;
+        if (candidate.match && !(typeof candidate.match === 'function' ? candidate.match(trimmed) : candidate.match.test(trimmed))) continue;
+        rules.push(candidate);
+        if (!candidate.additive) return rules;
+    }
+    throw new Error(`No permission policy covers ${mode} commands.`);
+}
+
+/** Decides a single rule. */
+function evaluateRule(rule: PolicyRule, context: PolicyContext): PolicyDecision {
+    const permission = RESOURCE_PERMISSIONS[rule.resource];
+    if (rule.forbidden) {
+        return { allowed: false, rule, permission, elevated: false, message: `Forbidden: ${rule.command} are not allowed, not even while elevated.` };
+    }
+    const allowedWithoutElevation = hasPermission(permission, { userPermissions: context.userPermissions })
+        || (!!rule.bootstrap && !!context.bootstrapping);
+    const allowed = allowedWithoutElevation || !!context.elevation;
+    const what = rule.definition ? `'${rule.command}'` : rule.command;
+    return { allowed, rule, permission, elevated: allowed && !allowedWithoutElevation, message: allowed ? null : formatPermissionDenied(what, rule.resource) };
+}
+
+/**
+ * Decides whether a command may run.
+ * @returns The decision of the rule that decided: a forbidding or denying rule first, then one that
+ *   needed the elevation, else the last rule; `message` explains a denial.
+ */
+export function evaluatePolicy(mode: CommandMode, command: string, context: PolicyContext): PolicyDecision {
+    const decisions = findPolicyRules(mode, command).map(rule => evaluateRule(rule, context));
+    return decisions.find(decision => decision.rule.forbidden)
+        ?? decisions.find(decision => !decision.allowed)
+        ?? decisions.find(decision => decision.elevated)
+        ?? decisions[decisions.length - 1];
+}
+
+/**
+ * The permission needed for an internal command definition, for filtering 'help'.
+ * @returns The permission, or null if the command is open to everyone.
+ */
+export function getDefinitionPermission(definitionName: string): string | null {
+    const rule = POLICY_RULES.find(candidate => candidate.definition === definitionName);
+    return rule ? RESOURCE_PERMISSIONS[rule.resource] : null;
+}
+
+/** Whether any command of a mode is allowed, e.g. SELECT-only users can still use sql mode. */
+export function canUseMode(mode: CommandMode, context: PolicyContext): boolean {
+    return POLICY_RULES.some(rule => rule.mode === mode && !rule.forbidden && !rule.additive && canAccess(rule.resource, context));
+}
@@ -0,0 +1,318 @@
+// src/lib/python-runner.ts
+'use server';
+
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runSql } from './database';
+
+export interface PythonVariable {
+    name: string;
+    datatype: string; // 'integer' | 'real' | 'boolean' | 'string' | 'none'
+    value: string;
+}
+
+export interface PythonRunResult {
+    stdout: string;
+    stderr: string;
+    error: string | null; // Formatted traceback, or null on success
+    changedVariables: PythonVariable[]; // Simple-typed globals created or modified by this run
+    timedOut: boolean;
+}
+
+export interface PythonRunOptions {
+    seedFromVariables?: boolean; // Load the 'variables' table into a newly started session
+}
+
+const PYTHON_BIN = process.env.SIMSHELL_PYTHON_BIN || 'python3';
+const PYTHON_TIMEOUT_MS = parseInt(process.env.SIMSHELL_PYTHON_TIMEOUT_MS || '', 10) || 10_000;
+const PYTHON_MEMORY_LIMIT_BYTES = parseInt(process.env.SIMSHELL_PYTHON_MEMORY_LIMIT_MB || '', 10) * 1024 * 1024 || 256 * 1024 * 1024;
+
+/**
+ * Driver executed by the interpreter. Requests arrive as JSON lines on stdin,
+ * responses are written as JSON lines to fd 3 so user code printing to the real
+ * stdout cannot corrupt the protocol. Globals persist between requests.
+ */
+const DRIVER_SOURCE = String.raw`
+import ast, builtins, io, json, os, sys, traceback
+
+try:
+    import resource
+    _limit = int(os.environ.get('SIMSHELL_PY_MEMORY_LIMIT', '0'))
+    if _limit > 0:
+        resource.setrlimit(resource.RLIMIT_AS, (_limit, _limit))
+except Exception:
+    pass
+
+_proto_in = os.fdopen(os.dup(0), 'r')
+_proto_out = os.fdopen(3, 'w')
+_devnull = os.open(os.devnull, os.O_RDONLY)
+os.dup2(_devnull, 0)
+
+def _no_input(*args, **kwargs):
+    raise RuntimeError('input() is not available in SimShell')
+
+builtins.input = _no_input
+_namespace = {'__name__': '__main__', '__builtins__': builtins}
+
+def _snapshot():
+    result = {}
+    for name, value in list(_namespace.items()):
+        if name.startswith('_'):
+            continue
+        if isinstance(value, bool):
+            result[name] = ['boolean', 'True' if value else 'False']
+        elif isinstance(value, int):
+            result[name] = ['integer', str(value)]
+        elif isinstance(value, float):
+            result[name] = ['real', repr(value)]
+        elif isinstance(value, str):
+            result[name] = ['string', value]
+        elif value is None:
+            result[name] = ['none', 'None']
+    return result
+
+def _seed(variables):
+    for name, (datatype, value) in variables.items():
+        if not name.isidentifier():
+            continue
+        try:
+            if datatype == 'integer':
+                _namespace[name] = int(value)
+            elif datatype == 'real':
+                _namespace[name] = float(value)
+            elif datatype == 'boolean':
+                _namespace[name] = value in ('True', 'true', '1')
+            elif datatype == 'none':
+                _namespace[name] = None
+            else:
+                _namespace[name] = value
+        except (TypeError, ValueError):
+            _namespace[name] = value
+
+def _run(code):
+    stdout, stderr = io.StringIO(), io.StringIO()
+    error = None
+    before = _snapshot()
+    sys.stdout, sys.stderr = stdout, stderr
+    try:
+        tree = ast.parse(code, '<simshell>', 'exec')
+        last = None
+        if tree.body and isinstance(tree.body[-1], ast.Expr):
+            last = ast.Expression(tree.body.pop().value)
+        exec(compile(tree, '<simshell>', 'exec'), _namespace)
+        if last is not None:
+            value = eval(compile(last, '<simshell>', 'eval'), _namespace)
+            if value is not None:
+                print(repr(value))
+    except SystemExit:
+        error = 'SystemExit: exit() is not allowed in SimShell'
+    except SyntaxError:
+        error = ''.join(traceback.format_exception_only(*sys.exc_info()[:2]))
+    except BaseException:
+        etype, evalue, tb = sys.exc_info()
+        error = ''.join(traceback.format_exception(etype, evalue, tb.tb_next))
+    finally:
+        sys.stdout, sys.stderr = sys.__stdout__, sys.__stderr__
+    after = _snapshot()
+    changed = {name: entry for name, entry in after.items() if before.get(name) != entry}
+    return {'stdout': stdout.getvalue(), 'stderr': stderr.getvalue(), 'error': error, 'vars': changed}
+
+for _line in _proto_in:
+    _request = json.loads(_line)
+    if 'seed' in _request:
+        _seed(_request['seed'])
+        _response = {'stdout': '', 'stderr': '', 'error': None, 'vars': {}}
+    else:
+        _response = _run(_request['code'])
+    _response['id'] = _request['id']
+    _proto_out.write(json.dumps(_response) + '\n')
+    _proto_out.flush()
+`;
+
+interface PendingRequest {
+    id: number;
+    resolve: (result: PythonRunResult) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    extraStdout: string;
+    extraStderr: string;
+}
+
+interface PythonSession {
+    process: ChildProcess;
+    pending: PendingRequest | null;
+    queue: Promise<unknown>; // Serializes requests per session
+    nextRequestId: number;
+    protocolBuffer: string;
+}
+
+const sessions = new Map<number, PythonSession>();
+
+/**
+ * Creates (if needed) the directory a user's interpreter starts in. It is only the starting
+ * directory: user code can read and write anywhere the server process can.
+ */
+function getWorkingDirectory(userId: number): string {
+    const workingDir = path.join(os.tmpdir(), 'simshell-python', `user-${userId}`);
+    fs.mkdirSync(workingDir, { recursive: true });
+    return workingDir;
+}
+
+function terminateSession(userId: number, session: PythonSession): void {
+    if (sessions.get(userId) === session) {
+        sessions.delete(userId);
+    }
+    if (session.process.exitCode === null && !session.process.killed) {
+        session.process.kill('SIGKILL');
+    }
+}
+
+function startSession(userId: number): PythonSession {
+    const child: ChildProcess = spawn(PYTHON_BIN, ['-I', '-u', '-c', DRIVER_SOURCE], {
+        cwd: getWorkingDirectory(userId),
+        // Server secrets (API keys etc.) are deliberately not inherited
+        env: {
+            NODE_ENV: process.env.NODE_ENV,
+            PATH: process.env.PATH || '',
+            SIMSHELL_PY_MEMORY_LIMIT: String(PYTHON_MEMORY_LIMIT_BYTES),
+        },
+        stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+    });
+
+    const session: PythonSession = {
+        process: child,
+        pending: null,
+        queue: Promise.resolve(),
+        nextRequestId: 1,
+        protocolBuffer: '',
+    };
+
+    const failPending = (message: string) => {
+        terminateSession(userId, session);
+        if (session.pending) {
+            clearTimeout(session.pending.timer);
+            session.pending.reject(new Error(message));
+            session.pending = null;
+        }
+    };
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+        failPending(error.code === 'ENOENT'
+            ? `Python interpreter '${PYTHON_BIN}' not found. Install Python 3 or set SIMSHELL_PYTHON_BIN.`
+            : `Python process error: ${error.message}`);
+    });
+    child.on('exit', (code, signal) => {
+        failPending(`Python process exited unexpectedly (${signal ? `signal ${signal}` : `code ${code}`}). Session state was reset.`);
+    });
+
+    // Write errors (e.g. EPIPE after the process died) are reported through the 'exit'/'error' handlers above.
+    child.stdin?.on('error', (error) => console.warn('Python stdin error:', error.message));
+
+    // Output written directly to the process streams (e.g. by subprocesses) is attached to the running request.
+    child.stdout?.on('data', (chunk: Buffer) => {
+        if (session.pending) session.pending.extraStdout += chunk.toString();
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+        if (session.pending) session.pending.extraStderr += chunk.toString();
+    });
+
+    const protocolStream = child.stdio[3] as NodeJS.ReadableStream;
+    protocolStream.on('data', (chunk: Buffer) => {
+        session.protocolBuffer += chunk.toString();
+        let newlineIndex;
+        while ((newlineIndex = session.protocolBuffer.indexOf('\n')) >= 0) {
+            const line = session.protocolBuffer.slice(0, newlineIndex);
+            session.protocolBuffer = session.protocolBuffer.slice(newlineIndex + 1);
+            const pending = session.pending;
+            if (!pending) continue;
+            try {
+                const response = JSON.parse(line);
+                if (response.id !== pending.id) continue;
+                clearTimeout(pending.timer);
+                session.pending = null;
+                const changedVariables: PythonVariable[] = Object.entries(response.vars || {}).map(([name, entry]) => {
+                    const [datatype, value] = entry as [string, string];
+                    return { name, datatype, value };
+                });
+                pending.resolve({
+                    stdout: pending.extraStdout + (response.stdout || ''),
+                    stderr: pending.extraStderr + (response.stderr || ''),
+                    error: response.error || null,
+                    changedVariables,
+                    timedOut: false,
+                });
+            } catch (error) {
+                console.error('Invalid response from Python driver:', line, error);
+            }
+        }
+    });
+
+    sessions.set(userId, session);
+    return session;
+}
+
+function sendRequest(userId: number, session: PythonSession, payload: Record<string, unknown>): Promise<PythonRunResult> {
+    const run = () => new Promise<PythonRunResult>((resolve, reject) => {
+        if (sessions.get(userId) !== session) {
+            reject(new Error('Python session was reset before the request could run.'));
+            return;
+        }
+        const id = session.nextRequestId++;
+        const timer = setTimeout(() => {
+            session.pending = null;
+            terminateSession(userId, session);
+            resolve({ stdout: '', stderr: '', error: null, changedVariables: [], timedOut: true });
+        }, PYTHON_TIMEOUT_MS);
+        session.pending = { id, resolve, reject, timer, extraStdout: '', extraStderr: '' };
+        session.process.stdin?.write(JSON.stringify({ ...payload, id }) + '\n');
+    });
+    const result = session.queue.then(run, run);
+    session.queue = result.catch(() => undefined);
+    return result;
+}
+
+/**
+ * Loads simple variables from the 'variables' table for seeding a new session.
+ * Returns an empty set if the table does not exist yet.
+ */
+async function loadSeedVariables(): Promise<Record<string, [string, string]>> {
+    try {
+        const { results } = await runSql('SELECT name, datatype, value FROM variables');
+        const seed: Record<string, [string, string]> = {};
+        (results || []).forEach((row: any) => {
+            seed[row.name] = [row.datatype, row.value ?? ''];
+        });
+        return seed;
+    } catch (error) {
+        console.warn('Could not load variables for Python session seed:', error);
+        return {};
+    }
+}
+
+/**
+ * Executes Python code in the user's persistent interpreter session.
+ * The session is started on first use (optionally seeded from the 'variables' table),
+ * starts in a per-user temp directory with a memory limit, and is killed and reset if a
+ * request exceeds the timeout.
+ * The interpreter is not sandboxed: it runs as the server's OS user with the server's filesystem
+ * and network access, so user code can open data/*.db directly and bypass every permission check.
+ * Only the environment (no server secrets), memory and per-request wall time are limited, so
+ * granting 'execute_python_code' grants full access to the server.
+ * @param userId - The ID of the user owning the session.
+ * @param code - The Python source to execute. A trailing expression is echoed like the REPL.
+ * @param options - Optional session settings.
+ * @returns A promise that resolves with captured output, error and changed variables.
+ * @throws Throws an error if the interpreter cannot be started or dies during execution.
+ */
+export async function runPythonCode(userId: number, code: string, options: PythonRunOptions = {}): Promise<PythonRunResult> {
+    let session = sessions.get(userId);
+    if (!session) {
+        session = startSession(userId);
+        if (options.seedFromVariables) {
+            await sendRequest(userId, session, { seed: await loadSeedVariables() });
+        }
+    }
+    return sendRequest(userId, session, { code });
+}
@@ -0,0 +1,173 @@
+// src/lib/rbac.ts
+/**
+ * @fileOverview Reads and changes users, roles and their permissions (the RBAC tables).
+ * Not a 'use server' module: these mutations must only be reachable through the
+ * permission-checked internal commands, never called directly from the client.
+ * Functions throw errors with user-facing messages for unknown names.
+ */
+
+import { runSql } from './database';
+
+export interface UserSummary {
+    user_id: number;
+    username: string;
+    roles: string | null; // Comma-separated role names
+    has_password: 'yes' | 'no';
+    created_at: string;
+}
+
+export interface RoleSummary {
+    role_id: number;
+    role_name: string;
+    users: number;
+    permissions: string | null; // Comma-separated permission names
+}
+
+export interface EffectivePermissions {
+    kind: 'user' | 'role';
+    name: string;
+    permissions: { permission_name: string; granted_by: string }[]; // granted_by: the role that grants it
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{1,100}$/;
+
+async function findId(sql: string, name: string, label: string): Promise<number> {
+    const { results } = await runSql(sql, [name]);
+    if (!results || results.length === 0) {
+        throw new Error(`${label} '${name}' not found.`);
+    }
+    return results[0].id;
+}
+
+const findUserId = (username: string) => findId('SELECT user_id AS id FROM users WHERE username = ?', username, 'User');
+const findRoleId = (roleName: string) => findId('SELECT role_id AS id FROM roles WHERE role_name = ?', roleName, 'Role');
+
+async function findPermissionId(permissionName: string): Promise<number> {
+    const { results } = await runSql('SELECT permission_id AS id FROM permissions WHERE permission_name = ?', [permissionName]);
+    if (!results || results.length === 0) {
+        const { results: known } = await runSql('SELECT permission_name FROM permissions ORDER BY permission_name');
+        throw new Error(`Permission '${permissionName}' not found. Known permissions: ${(known ?? []).map(row => row.permission_name).join(', ')}.`);
+    }
+    return results[0].id;
+}
+
+/**
+ * Creates a user without a password; one is set with 'passwd <user>'.
+ * @param roleName - Optional. A role to grant right away.
+ * @returns The new user's ID.
+ * @throws Throws an error for an invalid or taken username or an unknown role.
+ */
+export async function createUser(username: string, roleName?: string): Promise<number> {
+    if (!USERNAME_PATTERN.test(username)) {
+        throw new Error(`Invalid username '${username}'. Use up to 100 letters, digits, '_', '.' or '-'.`);
+    }
+    const roleId = roleName ? await findRoleId(roleName) : null;
+    const { changes, lastInsertRowid } = await runSql('INSERT OR IGNORE INTO users (username, password_hash) VALUES (?, NULL)', [username]);
+    if (!changes || !lastInsertRowid) {
+        throw new Error(`User '${username}' already exists.`);
+    }
+    if (roleId !== null) {
+        await runSql('INSERT OR IGNORE INTO user_roles (user_id, role_id) VALUES (?, ?)', [lastInsertRowid, roleId]);
+    }
+    return Number(lastInsertRowid);
+}
+
+/**
+ * Deletes a user with their role assignments and sessions. Custom commands they own are kept.
+ * @returns The deleted user's ID.
+ */
+export async function deleteUser(username: string): Promise<number> {
+    const userId = await findUserId(username);
+    // Foreign keys are not enforced, so dependent rows are removed explicitly
+    await runSql('DELETE FROM user_roles WHERE user_id = ?', [userId]);
+    await runSql('DELETE FROM sessions WHERE user_id = ?', [userId]);
+    await runSql('DELETE FROM users WHERE user_id = ?', [userId]);
+    return userId;
+}
+
+/** Lists all users with their roles. */
+export async function listUsers(): Promise<UserSummary[]> {
+    const { results } = await runSql(`
+        SELECT u.user_id, u.username, GROUP_CONCAT(r.role_name, ', ') AS roles,
+               CASE WHEN u.password_hash IS NULL THEN 'no' ELSE 'yes' END AS has_password, u.created_at
+        FROM users u
+        LEFT JOIN user_roles ur ON ur.user_id = u.user_id
+        LEFT JOIN roles r ON r.role_id = ur.role_id
+        GROUP BY u.user_id
+        ORDER BY u.username`);
+    return (results ?? []) as UserSummary[];
+}
+
+/** Lists all roles with their number of users and their permissions. */
+export async function listRoles(): Promise<RoleSummary[]> {
+    const { results } = await runSql(`
+        SELECT r.role_id, r.role_name,
+               (SELECT COUNT(*) FROM user_roles ur WHERE ur.role_id = r.role_id) AS users,
+               (SELECT GROUP_CONCAT(permission_name, ', ') FROM (
+                    SELECT p.permission_name FROM role_permissions rp
+                    JOIN permissions p ON p.permission_id = rp.permission_id
+                    WHERE rp.role_id = r.role_id ORDER BY p.permission_name)) AS permissions
+        FROM roles r
+        ORDER BY r.role_name`);
+    return (results ?? []) as RoleSummary[];
+}
+
+/**
+ * Grants or revokes a role for a user.
+ * @returns Whether anything changed (false if the user already had / did not have the role).
+ */
+export async function setUserRole(username: string, roleName: string, granted: boolean): Promise<boolean> {
+    const userId = await findUserId(username);
+    const roleId = await findRoleId(roleName);
+    const { changes } = granted
+        ? await runSql('INSERT OR IGNORE INTO user_roles (user_id, role_id) VALUES (?, ?)', [userId, roleId])
+        : await runSql('DELETE FROM user_roles WHERE user_id = ? AND role_id = ?', [userId, roleId]);
+    return !!changes;
+}
+
+/**
+ * Grants or revokes a permission for a role.
+ * @returns Whether anything changed (false if the role already had / did not have the permission).
+ */
+export async function setRolePermission(roleName: string, permissionName: string, granted: boolean): Promise<boolean> {
+    const roleId = await findRoleId(roleName);
+    const permissionId = await findPermissionId(permissionName);
+    const { changes } = granted
+        ? await runSql('INSERT OR IGNORE INTO role_permissions (role_id, permission_id) VALUES (?, ?)', [roleId, permissionId])
+        : await runSql('DELETE FROM role_permissions WHERE role_id = ? AND permission_id = ?', [roleId, permissionId]);
+    return !!changes;
+}
+
+/**
+ * Resolves the permissions of a user (through all their roles) or of a role.
+ * A name that is both a username and a role name is treated as the user.
+ * @throws Throws an error if the name is neither a user nor a role.
+ */
+export async function getEffectivePermissions(userOrRole: string): Promise<EffectivePermissions> {
+    const { results: users } = await runSql('SELECT user_id FROM users WHERE username = ?', [userOrRole]);
+    if (users && users.length > 0) {
+        const { results } = await runSql(`
+            SELECT p.permission_name, GROUP_CONCAT(r.role_name, ', ') AS granted_by
+            FROM user_roles ur
+            JOIN roles r ON r.role_id = ur.role_id
+            JOIN role_permissions rp ON rp.role_id = ur.role_id
+            JOIN permissions p ON p.permission_id = rp.permission_id
+            WHERE ur.user_id = ?
+            GROUP BY p.permission_name
+            ORDER BY p.permission_name`, [users[0].user_id]);
+        return { kind: 'user', name: userOrRole, permissions: results ?? [] };
+    }
+
+    const { results: roles } = await runSql('SELECT role_id FROM roles WHERE role_name = ?', [userOrRole]);
+    if (roles && roles.length > 0) {
+        const { results } = await runSql(`
+            SELECT p.permission_name, ? AS granted_by
+            FROM role_permissions rp
+            JOIN permissions p ON p.permission_id = rp.permission_id
+            WHERE rp.role_id = ?
+            ORDER BY p.permission_name`, [userOrRole, roles[0].role_id]);
+        return { kind: 'role', name: userOrRole, permissions: results ?? [] };
+    }
+
+    throw new Error(`'${userOrRole}' is neither a user nor a role.`);
+}
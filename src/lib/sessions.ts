@@ -0,0 +1,137 @@
+// src/lib/sessions.ts
+/**
+ * @fileOverview Server-side login sessions.
+ * A session token is a random value sent to the browser in an HTTP-only cookie; the sessions
+ * table only stores its SHA-256 hash, so a leaked database does not leak usable tokens.
+ * Not a 'use server' module: creating sessions or reading the cookie must not be callable from the client.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { cookies, headers } from 'next/headers';
+import { runSql } from './database';
+
+export const SESSION_COOKIE_NAME = 'simshell_session';
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // Sessions expire 8 hours after login
+export const GUEST_USER_ID = 0; // Commands run without a session run as this (permission-less) user
+
+export interface SessionInfo {
+    userId: number;
+    username: string;
+    expiresAt: string;
+}
+
+/** The SHA-256 hash under which a session token is stored (also used to tie elevations to a session). */
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Creates a session for a user and removes the user's expired sessions.
+ * @returns The token for the session cookie and the session's expiry time (ISO 8601).
+ */
+export async function createSession(userId: number): Promise<{ token: string; expiresAt: string }> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+    await runSql('DELETE FROM sessions WHERE user_id = ? AND expires_at <= ?', [userId, new Date().toISOString()]);
+    await runSql('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)', [hashToken(token), userId, expiresAt]);
+    return { token, expiresAt };
+}
+
+/**
+ * Looks up the user of an unexpired session.
+ * @returns The session, or null if the token is unknown or expired, or the sessions table does not exist yet.
+ */
+export async function getSession(token: string): Promise<SessionInfo | null> {
+    try {
+        const { results } = await runSql(
+            `SELECT s.user_id, u.username, s.expires_at
+             FROM sessions s JOIN users u ON u.user_id = s.user_id
+             WHERE s.token_hash = ? AND s.expires_at > ?`,
+            [hashToken(token), new Date().toISOString()]
+        );
+        if (!results || results.length === 0) return null;
+        return { userId: results[0].user_id, username: results[0].username, expiresAt: results[0].expires_at };
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('no such table')) {
+            return null; // Not initialized or not migrated yet; everyone is a guest
+        }
+        throw error;
+    }
+}
+
+/** Ends the session with the given token. */
+export async function deleteSession(token: string): Promise<void> {
+    await runSql('DELETE FROM sessions WHERE token_hash = ?', [hashToken(token)]);
+}
+
+/**
+ * Ends all sessions of a user, e.g. after a password change.
+ * @param exceptToken - Optional. A session to keep (the one that changed the password).
+ * @returns The number of sessions ended.
+ */
+export async function deleteUserSessions(userId: number, exceptToken?: string): Promise<number> {
+    const { changes } = await runSql(
+        'DELETE FROM sessions WHERE user_id = ? AND token_hash != ?',
+        [userId, exceptToken ? hashToken(exceptToken) : '']
+    );
+    return changes ?? 0;
+}
+
+/**
+ * Whether no user can log in yet: the database is not initialized, or no user has a password.
+ * While this holds, 'init db' is open to guests so the first administrator can be set up.
+ */
+export async function isLoginBootstrapNeeded(): Promise<boolean> {
+    try {
+        const { results } = await runSql('SELECT 1 FROM users WHERE password_hash IS NOT NULL LIMIT 1');
+        return !results || results.length === 0;
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('no such table')) {
+            return true;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Reads the session token from the request's cookie.
+ * @returns The token, or undefined without a cookie or outside a request (e.g. in scripts and tests).
+ */
+export async function readSessionCookie(): Promise<string | undefined> {
+    try {
+        return (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+    } catch {
+        return undefined; // cookies() is only available while handling a request
+    }
+}
+
+/**
+ * Reads the client's address from the request's forwarding headers (the first X-Forwarded-For
+ * entry, else X-Real-IP). Only as trustworthy as the proxy in front of the server.
+ * @returns The address, or undefined without those headers or outside a request.
+ */
+export async function readClientAddress(): Promise<string | undefined> {
+    try {
+        const requestHeaders = await headers();
+        return requestHeaders.get('x-forwarded-for')?.split(',')[0].trim() || requestHeaders.get('x-real-ip')?.trim() || undefined;
+    } catch {
+        return undefined; // headers() is only available while handling a request
+    }
+}
+
+/**
+ * Sets or clears the session cookie on the response of the current server action.
+ * @param session - The new session, or null to clear the cookie.
+ */
+export async function writeSessionCookie(session: { token: string; expiresAt: string } | null): Promise<void> {
+    const cookieStore = await cookies();
+    if (!session) {
+        cookieStore.delete(SESSION_COOKIE_NAME);
+        return;
+    }
+    cookieStore.set(SESSION_COOKIE_NAME, session.token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: new Date(session.expiresAt),
+    });
+}
@@ -0,0 +1,247 @@
+// src/lib/sim-script-parser.ts
+/**
+ * @fileOverview Parses SimShell script files (.sim).
+ * Each non-blank line is one command. Lines starting with '#' are comments, a leading mode
+ * prefix such as 'sql>' or 'py>' picks the mode explicitly (otherwise the command is classified
+ * like typed input), and 'set -e' / 'set +e' turn abort-on-error on and off.
+ * Control flow: 'if <cond>' ... ['else' ...] 'end', 'for x in (a, b, c)' ... 'end',
+ * 'while <cond>' ... 'end', 'assert <cond> ["message"]' and 'let name = sql <query>' / 'let name = <value>'.
+ * A condition is a single value (true unless empty, 0, false, no or null) or a comparison
+ * '<value> <op> <value>' with ==, !=, <, <=, > or >=. Values may be quoted and may contain {var} references.
+ * Keyword lines with a mode prefix (e.g. 'py> for i in range(3): print(i)') are ordinary commands.
+ */
+
+import type { CommandMode } from '@/types/command-types';
+import { parseModePrefix } from '@/lib/command-macros';
+
+/** One operand of a condition; {var} references in `text` are resolved when the condition is evaluated. */
+export interface SimOperand {
+    text: string;
+    quoted: boolean;
+}
+
+export type SimComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface SimCondition {
+    source: string; // The condition as written, for messages
+    left: SimOperand;
+    operator?: SimComparisonOperator; // Absent: the left operand's truthiness
+    right?: SimOperand;
+}
+
+export type SimStatement =
+    | { kind: 'command'; line: number; mode: CommandMode | null; command: string } // mode null: classify the command
+    | { kind: 'set'; line: number; stopOnError: boolean }
+    | { kind: 'if'; line: number; condition: SimCondition; body: SimStatement[]; elseBody: SimStatement[] }
+    | { kind: 'for'; line: number; variable: string; items: SimOperand[]; body: SimStatement[] }
+    | { kind: 'while'; line: number; condition: SimCondition; body: SimStatement[] }
+    | { kind: 'assert'; line: number; condition: SimCondition; message: string | null }
+    | { kind: 'let'; line: number; variable: string; sql: string | null; value: SimOperand | null }; // sql: capture the first column of the first row
+
+type Token = SimOperand | { operator: SimComparisonOperator };
+
+const COMPARISON_OPERATORS: SimComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+/**
+ * Splits an expression into quoted strings, comparison operators and bare words.
+ * @throws Throws an error for an unterminated quote or a stray '!' or '='.
+ */
+function tokenizeExpression(text: string): Token[] {
+    const tokens: Token[] = [];
+    const tokenRegex = /\s*(?:"([^"]*)"|'([^']*)'|(==|!=|<=|>=|<|>)|([^\s"'<>=!]+))/y;
+    let position = 0;
+    while (position < text.length) {
+        if (!text.slice(position).trim()) break;
+        tokenRegex.lastIndex = position;
+        const match = tokenRegex.exec(text);
+        if (!match) {
+            throw new Error(`Unexpected '${text.slice(position).trim()[0]}' in '${text.trim()}'. Quote values that contain quotes, '=', '<', '>' or '!'.`);
+        }
+        if (match[3]) tokens.push({ operator: match[3] as SimComparisonOperator });
+        else if (match[4] !== undefined) tokens.push({ text: match[4], quoted: false });
+        else tokens.push({ text: match[1] ?? match[2], quoted: true });
+        position = tokenRegex.lastIndex;
+    }
+    return tokens;
+}
+
+function toCondition(tokens: Token[], source: string): SimCondition {
+    const [left, operator, right] = tokens;
+    if (tokens.length === 1 && !('operator' in left)) {
+        return { source, left };
+    }
+    if (tokens.length === 3 && !('operator' in left) && 'operator' in operator && !('operator' in right)) {
+        return { source, left, operator: operator.operator, right };
+    }
+    throw new Error(`Invalid condition '${source}'. Use a value or '<value> <op> <value>' with ${COMPARISON_OPERATORS.join(', ')}.`);
+}
+
+/**
+ * Parses a condition such as '{count} >= 3' or '{ready}'.
+ * @throws Throws an error describing the malformed condition.
+ */
+export function parseSimCondition(text: string): SimCondition {
+    return toCondition(tokenizeExpression(text), text.trim());
+}
+
+/**
+ * Parses the text after 'assert': a condition optionally followed by a quoted message.
+ * A trailing quoted string is the message only if what precedes it is a complete condition.
+ */
+function parseAssertion(text: string): { condition: SimCondition; message: string | null } {
+    const tokens = tokenizeExpression(text);
+    const last = tokens[tokens.length - 1];
+    if ((tokens.length === 2 || tokens.length === 4) && last && !('operator' in last) && last.quoted) {
+        const conditionText = text.replace(/\s*(?:"[^"]*"|'[^']*')\s*$/, '');
+        return { condition: toCondition(tokens.slice(0, -1), conditionText.trim()), message: last.text };
+    }
+    return { condition: toCondition(tokens, text.trim()), message: null };
+}
+
+/**
+ * Splits a 'for' item list at commas outside quotes; items may be quoted to include commas or spaces.
+ */
+function parseForItems(text: string): SimOperand[] {
+    const items: SimOperand[] = [];
+    const itemRegex = /\s*(?:"([^"]*)"|'([^']*)'|([^,]*?))\s*(?:,|$)/y;
+    let position = 0;
+    while (position < text.length) {
+        itemRegex.lastIndex = position;
+        const match = itemRegex.exec(text);
+        if (!match || itemRegex.lastIndex === position) {
+            throw new Error(`Invalid item list '(${text})'. Separate items with commas and quote items that contain quotes.`);
+        }
+        if (match[3] !== undefined) {
+            if (match[3]) items.push({ text: match[3], quoted: false });
+        } else {
+            items.push({ text: match[1] ?? match[2], quoted: true });
+        }
+        position = itemRegex.lastIndex;
+    }
+    return items;
+}
+
+/**
+ * Parses `source` into statements, skipping blank lines and comments.
+ * @param source - The script text.
+ * @returns The top-level statements in source order; blocks hold their bodies.
+ * @throws Throws an error naming the line of the first malformed directive or unbalanced block.
+ */
+export function parseSimScript(source: string): SimStatement[] {
+    const text = source.charCodeAt(0) === 0xfeff ? source.slice(1) : source; // Strip a UTF-8 BOM
+    const lines = text.split(/\r?\n/);
+    const topLevel: SimStatement[] = [];
+    // Open blocks, innermost last; 'target' is the body new statements go into
+    const blocks: { statement: Extract<SimStatement, { kind: 'if' | 'for' | 'while' }>; target: SimStatement[] }[] = [];
+    const current = () => (blocks.length > 0 ? blocks[blocks.length - 1].target : topLevel);
+
+    lines.forEach((rawLine, index) => {
+        const line = index + 1;
+        const trimmed = rawLine.trim();
+        if (!trimmed || trimmed.startsWith('#')) return;
+
+        const fail = (message: string): never => {
+            throw new Error(`Line ${line}: ${message}`);
+        };
+        const parse = <T>(parser: () => T): T => {
+            try {
+                return parser();
+            } catch (error) {
+                return fail(error instanceof Error ? error.message : String(error));
+            }
+        };
+
+        const setMatch = trimmed.match(/^set\s+([-+])(\S*)$/);
+        if (setMatch) {
+            if (setMatch[2] !== 'e') {
+                fail(`Unknown option '${setMatch[1]}${setMatch[2]}'. Supported: set -e, set +e.`);
+            }
+            current().push({ kind: 'set', line, stopOnError: setMatch[1] === '-' });
+            return;
+        }
+
+        const keyword = trimmed.split(/\s+/)[0].toLowerCase();
+        const rest = trimmed.slice(keyword.length).trim();
+        const forMatch = trimmed.match(/^for\s+([a-zA-Z_]\w*)\s+in\s+\(([\s\S]*)\)$/i);
+
+        if (keyword === 'end' && !rest) {
+            if (blocks.length === 0) fail("'end' without an open 'if', 'for' or 'while'.");
+            blocks.pop();
+        } else if (keyword === 'else' && !rest) {
+            const block = blocks[blocks.length - 1];
+            if (!block || block.statement.kind !== 'if' || block.target === block.statement.elseBody) {
+                fail("'else' without an open 'if'.");
+            }
+            block.target = (block.statement as Extract<SimStatement, { kind: 'if' }>).elseBody;
+        } else if (keyword === 'if' || keyword === 'while') {
+            if (!rest) fail(`'${keyword}' needs a condition.`);
+            const condition = parse(() => parseSimCondition(rest));
+            const statement: Extract<SimStatement, { kind: 'if' | 'while' }> = keyword === 'if'
+                ? { kind: 'if', line, condition, body: [], elseBody: [] }
+                : { kind: 'while', line, condition, body: [] };
+            current().push(statement);
+            blocks.push({ statement, target: statement.body });
+        } else if (forMatch) {
+            const statement: SimStatement = { kind: 'for', line, variable: forMatch[1], items: parse(() => parseForItems(forMatch[2])), body: [] };
+            current().push(statement);
+            blocks.push({ statement, target: statement.body });
+        } else if (keyword === 'assert') {
+            if (!rest) fail("'assert' needs a condition.");
+            current().push({ kind: 'assert', line, ...parse(() => parseAssertion(rest)) });
+        } else if (keyword === 'let') {
+            const letMatch = rest.match(/^([a-zA-Z_]\w*)\s*=\s*([\s\S]*)$/);
+            if (!letMatch) fail("Invalid 'let'. Use: let <name> = sql <query> or let <name> = <value>.");
+            const [, variable, expression] = letMatch!;
+            const sqlMatch = expression.match(/^sql\s+([\s\S]+)$/i);
+            if (sqlMatch) {
+                current().push({ kind: 'let', line, variable, sql: sqlMatch[1].trim(), value: null });
+            } else {
+                const quoted = expression.match(/^"([^"]*)"$|^'([^']*)'$/);
+                current().push({ kind: 'let', line, variable, sql: null, value: quoted ? { text: quoted[1] ?? quoted[2], quoted: true } : { text: expression, quoted: false } });
+            }
+        } else {
+            const { mode, command } = parseModePrefix(trimmed);
+            if (!command) fail(`Mode prefix '${trimmed}' is not followed by a command.`);
+            current().push({ kind: 'command', line, mode, command });
+        }
+    });
+
+    if (blocks.length > 0) {
+        const open = blocks[blocks.length - 1].statement;
+        throw new Error(`Line ${open.line}: '${open.kind}' is missing its 'end'.`);
+    }
+    return topLevel;
+}
+
+/** Whether a resolved value counts as true in a condition. */
+export function isSimValueTruthy(value: string): boolean {
+    return !['', '0', 'false', 'no', 'null'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Compares two resolved values: numerically when both are numbers, otherwise as text.
+ */
+export function compareSimValues(left: string, operator: SimComparisonOperator, right: string): boolean {
+    const numeric = /^-?\d+(\.\d+)?$/;
+    const order = numeric.test(left.trim()) && numeric.test(right.trim())
+        ? Math.sign(Number(left) - Number(right))
+        : (left === right ? 0 : left < right ? -1 : 1);
+    switch (operator) {
+        case '==': return order === 0;
+        case '!=': return order !== 0;
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+    }
+}
+
+/**
+ * Infers the datatype recorded in the variables table for a value, like a 'name = value' assignment.
+ */
+export function inferSimValueType(value: string): string {
+    if (/^-?\d+$/.test(value)) return 'integer';
+    if (/^-?\d+\.\d+$/.test(value)) return 'real';
+    if (value === 'True' || value === 'False') return 'boolean';
+    return 'string';
+}
@@ -0,0 +1,337 @@
+// src/lib/sim-script-runner.ts
+'use server';
+
+import * as fs from 'fs/promises';
+import * as _path from 'path';
+import type { OutputLine } from '@/components/output-display';
+import type { CustomCommands } from '@/hooks/use-custom-commands';
+import type { LogEntry } from '@/types/log-types';
+import { ALL_COMMAND_MODES, type CommandMode } from '@/types/command-types';
+import { classifyCommand } from '@/ai/flows/classify-command-flow';
+import { executeCommand, type ExecuteCommandResult } from '@/lib/command-executor';
+import { formatResultsAsTable } from '@/lib/formatting';
+import { runSql } from '@/lib/database';
+import { storeVariableInDb, substituteVariableReferences } from '@/lib/variables';
+import { canAccess, evaluatePolicy, formatPermissionDenied } from '@/lib/policy';
+import { compareSimValues, inferSimValueType, isSimValueTruthy, parseSimScript, type SimCondition, type SimStatement } from '@/lib/sim-script-parser';
+import { recordElevationUse, type Elevation } from '@/lib/elevations';
+import { recordAuditEvent } from '@/lib/audit';
+
+interface ExecuteSimScriptParams {
+  filename: string;
+  argumentText?: string; // Options following the filename (e.g. '--stop-on-error')
+  userId: number;
+  userPermissions: string[];
+  currentLogEntries: LogEntry[];
+  initialSuggestions: Record<string, string[]>;
+  customCommands: CustomCommands;
+  elevation?: Elevation | null; // The session's running elevation, for permission checks
+  macroDepth?: number; // Nesting level; scripts may run other scripts and custom commands
+}
+
+export interface ExecuteSimScriptResult extends ExecuteCommandResult {
+  error?: string;
+}
+
+const SIM_SCRIPTS_DIR = _path.join(process.cwd(), 'src', 'sim-scripts');
+const SIM_SCRIPT_OPTIONS = ['--stop-on-error'];
+const MAX_SCRIPT_DEPTH = 5; // Scripts may run other scripts up to this depth
+const MAX_LOOP_ITERATIONS = 1000; // A 'while' loop is stopped (as an error) after this many iterations
+const MAX_SUMMARY_ROWS = 100; // Longer runs list only the failed statements in the summary
+
+/**
+ * Reads a SimShell script (.sim) from src/sim-scripts and runs its commands one by one through
+ * executeCommand, as if they were typed. Commands without a mode prefix are classified against
+ * all modes; 'sql>', 'py>', ... pick the mode explicitly. {var} references in commands are replaced
+ * with variable values. if/else, for and while blocks, assert and let are handled here; loop and
+ * let variables are stored in the variables table. By default every statement runs even if
+ * an earlier one failed; 'set -e' in the script (or the '--stop-on-error' option) skips the rest
+ * after the first failure (a failed assert included). A summary of each statement's status is printed at the end.
+ * @returns A promise that resolves with the output lines of all commands and the updated log.
+ */
+export async function executeSimScript({
+  filename,
+  argumentText = '',
+  userId,
+  userPermissions,
+  currentLogEntries,
+  initialSuggestions,
+  customCommands,
+  elevation,
+  macroDepth = 0,
+}: ExecuteSimScriptParams): Promise<ExecuteSimScriptResult> {
+  const timestamp = new Date().toISOString();
+
+  const errorResult = (errorMsg: string): ExecuteSimScriptResult => ({
+    outputLines: [{ id: `sim-script-err-${timestamp}`, text: errorMsg, type: 'error', category: 'internal', timestamp, flag: 1 }],
+    newLogEntries: [...currentLogEntries, { timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` }],
+    error: errorMsg,
+  });
+
+  // --- Security Check: Validate filename and construct path ---
+  if (!filename.match(/^[a-zA-Z0-9_.-]+\.sim$/) || filename.includes('..') || filename.includes('/')) {
+    return errorResult(`Error: Invalid SimShell script filename '${filename}'. Scripts are '.sim' files in src/sim-scripts.`);
+  }
+  const filePath = _path.join(SIM_SCRIPTS_DIR, filename);
+  if (!_path.resolve(filePath).startsWith(_path.resolve(SIM_SCRIPTS_DIR))) {
+    return errorResult(`Error: Access denied for SimShell script path '${filename}'.`);
+  }
+  // --- End Security Check ---
+
+  let stopOnError = false;
+  for (const option of argumentText.split(/\s+/).filter(Boolean)) {
+    if (option.toLowerCase() !== '--stop-on-error') {
+      return errorResult(`Error: Unknown option '${option}'. Supported options: ${SIM_SCRIPT_OPTIONS.join(', ')}.`);
+    }
+    stopOnError = true;
+  }
+  if (macroDepth >= MAX_SCRIPT_DEPTH) {
+    return errorResult(`Error: SimShell script '${filename}' not run: scripts and custom commands are nested more than ${MAX_SCRIPT_DEPTH} levels deep (is it running itself?).`);
+  }
+
+  let statements: SimStatement[];
+  try {
+    statements = parseSimScript(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'File not found.' : (error instanceof Error ? error.message : 'Unknown error');
+    return errorResult(`Error processing SimShell script '${filename}': ${reason}`);
+  }
+
+  const policyContext = { userPermissions, elevation };
+
+  const outputLines: OutputLine[] = [{ id: `sim-script-start-${timestamp}`, text: `Running SimShell script: ${filename}`, type: 'info', category: 'internal', timestamp, flag: 0 }];
+  let logEntries: LogEntry[] = [...currentLogEntries, { timestamp, type: 'I', flag: 0, text: `Started running SimShell script: ${filename} (User: ${userId})` }];
+  const newSuggestions: NonNullable<ExecuteCommandResult['newSuggestions']> = [];
+  const newCustomCommands: NonNullable<ExecuteCommandResult['newCustomCommands']> = [];
+  const removedCustomCommands: string[] = [];
+  let toastInfo: ExecuteCommandResult['toastInfo'];
+  const summaryRows: Record<string, unknown>[] = []; // One row per command, assert and let that ran
+  let failedCount = 0;
+  let stoppedAtLine: number | null = null; // Set when 'set -e' ends the script
+  let lineCounter = 0; // Keeps output line ids unique when loops run a line repeatedly
+
+  const recordStatus = (line: number, mode: string, description: string, failed: boolean) => {
+    summaryRows.push({ '#': summaryRows.length + 1, line, mode, status: failed ? 'error' : 'ok', command: description.substring(0, 50) });
+    if (failed) {
+      failedCount++;
+      if (stopOnError) stoppedAtLine = line;
+    }
+  };
+
+  // Reports a failed script statement (condition, assert, let, ...) that did not run through executeCommand
+  const reportFailure = (line: number, description: string, message: string) => {
+    const failureTimestamp = new Date().toISOString();
+    const text = `Line ${line}: ${message}`;
+    outputLines.push({ id: `sim-script-fail-${lineCounter++}-${failureTimestamp}`, text, type: 'error', category: 'internal', timestamp: failureTimestamp, flag: 1 });
+    logEntries = [...logEntries, { timestamp: failureTimestamp, type: 'E', flag: 1, text: `SimShell script '${filename}': ${text} (User: ${userId})` }];
+    recordStatus(line, '', description, true);
+  };
+
+  // Replaces {var} references; strict mode (conditions, loop items, let values) fails on unknown variables
+  const resolveVariables = async (text: string, strict: boolean): Promise<string> => {
+    if (!/\{[a-zA-Z_]\w*\}/.test(text)) return text;
+    if (!canAccess('variables:read', policyContext)) {
+      throw new Error(formatPermissionDenied('Reading variables', 'variables:read'));
+    }
+    const { text: resolved, missing } = await substituteVariableReferences(text);
+    if (strict && missing.length > 0) {
+      throw new Error(`Variable(s) not found: ${missing.map(name => `{${name}}`).join(', ')}.`);
+    }
+    return resolved;
+  };
+
+  const evaluateCondition = async (condition: SimCondition): Promise<boolean> => {
+    const left = await resolveVariables(condition.left.text, true);
+    if (!condition.operator || !condition.right) return isSimValueTruthy(left);
+    return compareSimValues(left, condition.operator, await resolveVariables(condition.right.text, true));
+  };
+
+  const storeVariable = async (name: string, value: string, datatype: string) => {
+    if (!canAccess('variables:write', policyContext)) {
+      throw new Error(formatPermissionDenied('Setting variables', 'variables:write'));
+    }
+    await storeVariableInDb(name, value, datatype);
+    logEntries = [...logEntries, { timestamp: new Date().toISOString(), type: 'I', flag: 0, text: `SimShell script '${filename}' set variable '${name}' type '${datatype}' value: ${value} (User: ${userId})` }];
+  };
+
+  const runCommand = async (statement: Extract<SimStatement, { kind: 'command' }>) => {
+    const lineTimestamp = new Date().toISOString();
+    const lineId = `sim-script-${lineCounter++}-${lineTimestamp}`;
+    let command: string;
+    try {
+      command = await resolveVariables(statement.command, false);
+    } catch (error) {
+      reportFailure(statement.line, statement.command, error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+
+    let mode: CommandMode | null = statement.mode;
+    let classifiedCategory: string | undefined;
+    if (!mode) {
+      // Same classification as typed input; a mode prefix in the script avoids ambiguity
+      try {
+        const classification = await classifyCommand({ command, activeCategories: ALL_COMMAND_MODES });
+        if (classification.category === 'ambiguous' || classification.category === 'unknown') {
+          const reason = classification.reasoning ? ` ${classification.reasoning}` : '';
+          reportFailure(statement.line, command, `Command is ${classification.category}.${reason} Add a mode prefix such as 'sql>' or 'py>'.`);
+          return;
+        }
+        mode = classification.category;
+        classifiedCategory = classification.category;
+      } catch (error) {
+        reportFailure(statement.line, command, `Could not classify command: ${error instanceof Error ? error.message : 'Unknown error'}. Add a mode prefix such as 'sql>' or 'py>'.`);
+        return;
+      }
+    }
+
+    const result = await executeCommand({
+      command,
+      mode,
+      currentLogEntries: logEntries,
+      initialSuggestions,
+      customCommands,
+      classifiedCategory,
+      macroDepth: macroDepth + 1,
+    });
+    outputLines.push(...result.outputLines.map((line, lineIndex) => ({ ...line, id: `${lineId}-${lineIndex}-${line.id}` })));
+    logEntries = result.newLogEntries ?? logEntries;
+    newSuggestions.push(...(result.newSuggestions ?? []));
+    newCustomCommands.push(...(result.newCustomCommands ?? []));
+    removedCustomCommands.push(...(result.removedCustomCommands ?? []));
+    toastInfo = result.toastInfo ?? toastInfo;
+    recordStatus(statement.line, mode, command, result.outputLines.some(line => line.type === 'error'));
+  };
+
+  const runLet = async (statement: Extract<SimStatement, { kind: 'let' }>) => {
+    const description = `let ${statement.variable} = ${statement.sql !== null ? `sql ${statement.sql}` : statement.value!.text}`;
+    try {
+      let value: string;
+      let datatype: string;
+      if (statement.sql !== null) {
+        const sql = await resolveVariables(statement.sql, true);
+        const decision = evaluatePolicy('sql', sql, policyContext);
+        if (!decision.allowed) {
+          await recordAuditEvent({ actorId: userId, action: 'permission.denied', target: sql, outcome: 'denied', details: { mode: 'sql', permission: decision.permission, resource: decision.rule.resource, script: filename } });
+          throw new Error(decision.message!);
+        }
+        if (decision.elevated && elevation) {
+          await recordElevationUse(elevation, userId, 'sql', sql, decision.permission!);
+          await recordAuditEvent({ actorId: userId, action: 'elevation.use', target: sql, outcome: 'success', details: { mode: 'sql', permission: decision.permission, elevationId: elevation.elevationId, script: filename } });
+        }
+        const { results, changes } = await runSql(sql);
+        // Row-returning statements give the first column of the first row; others the number of rows affected
+        const captured = results ? (results.length > 0 ? Object.values(results[0])[0] : null) : changes;
+        value = captured === null || captured === undefined ? '' : String(captured);
+        datatype = captured === null || captured === undefined ? 'null' : typeof captured === 'number' ? (Number.isInteger(captured) ? 'integer' : 'real') : 'string';
+      } else {
+        value = await resolveVariables(statement.value!.text, true);
+        datatype = statement.value!.quoted ? 'string' : inferSimValueType(value);
+      }
+      await storeVariable(statement.variable, value, datatype);
+      outputLines.push({ id: `sim-script-let-${lineCounter++}-${timestamp}`, text: `${statement.variable} = ${value === '' ? "'' (no value)" : value}`, type: 'info', category: 'internal', timestamp: new Date().toISOString(), flag: 0 });
+      recordStatus(statement.line, statement.sql !== null ? 'sql' : '', description, false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      reportFailure(statement.line, description, message.includes('no such table') ? `${message}. Consider running 'init db'.` : message);
+    }
+  };
+
+  const runBlock = async (block: SimStatement[]): Promise<void> => {
+    for (const statement of block) {
+      if (stoppedAtLine !== null) return;
+      switch (statement.kind) {
+        case 'set':
+          stopOnError = statement.stopOnError;
+          break;
+        case 'command':
+          await runCommand(statement);
+          break;
+        case 'let':
+          await runLet(statement);
+          break;
+        case 'assert': {
+          const description = `assert ${statement.condition.source}`;
+          try {
+            if (await evaluateCondition(statement.condition)) {
+              recordStatus(statement.line, '', description, false);
+            } else {
+              reportFailure(statement.line, description, `Assertion failed: ${statement.message !== null ? await resolveVariables(statement.message, false) : statement.condition.source}`);
+            }
+          } catch (error) {
+            reportFailure(statement.line, description, error instanceof Error ? error.message : 'Unknown error');
+          }
+          break;
+        }
+        case 'if': {
+          let holds: boolean;
+          try {
+            holds = await evaluateCondition(statement.condition);
+          } catch (error) {
+            reportFailure(statement.line, `if ${statement.condition.source}`, error instanceof Error ? error.message : 'Unknown error');
+            break;
+          }
+          await runBlock(holds ? statement.body : statement.elseBody);
+          break;
+        }
+        case 'for':
+          for (const item of statement.items) {
+            try {
+              const value = await resolveVariables(item.text, true);
+              await storeVariable(statement.variable, value, item.quoted ? 'string' : inferSimValueType(value));
+            } catch (error) {
+              reportFailure(statement.line, `for ${statement.variable} in (...)`, error instanceof Error ? error.message : 'Unknown error');
+              break;
+            }
+            await runBlock(statement.body);
+            if (stoppedAtLine !== null) return;
+          }
+          break;
+        case 'while':
+          for (let iteration = 0; ; iteration++) {
+            if (iteration >= MAX_LOOP_ITERATIONS) {
+              reportFailure(statement.line, `while ${statement.condition.source}`, `Loop stopped after ${MAX_LOOP_ITERATIONS} iterations; its condition never became false.`);
+              break;
+            }
+            let holds: boolean;
+            try {
+              holds = await evaluateCondition(statement.condition);
+            } catch (error) {
+              reportFailure(statement.line, `while ${statement.condition.source}`, error instanceof Error ? error.message : 'Unknown error');
+              break;
+            }
+            if (!holds) break;
+            await runBlock(statement.body);
+            if (stoppedAtLine !== null) return;
+          }
+          break;
+      }
+    }
+  };
+
+  await runBlock(statements);
+
+  // --- Summary: per-statement status ---
+  let summaryText = `Summary for '${filename}': ${summaryRows.length - failedCount} succeeded, ${failedCount} failed.`;
+  if (stoppedAtLine !== null) summaryText += ` Stopped at line ${stoppedAtLine} after an error (set -e); the rest of the script was skipped.`;
+  const summaryTimestamp = new Date().toISOString();
+  // Loops can run many statements; then only the failed ones are listed
+  const tableRows = summaryRows.length > MAX_SUMMARY_ROWS ? summaryRows.filter(row => row.status === 'error') : summaryRows;
+  if (summaryRows.length > MAX_SUMMARY_ROWS) {
+    summaryText += ` (${summaryRows.length} statements ran; only failures are listed.)`;
+  }
+  if (tableRows.length > 0) {
+    outputLines.push({ id: `sim-script-summary-table-${summaryTimestamp}`, text: (await formatResultsAsTable(tableRows)) ?? '', type: 'output', category: 'internal', timestamp: undefined });
+  }
+  outputLines.push({ id: `sim-script-summary-${summaryTimestamp}`, text: summaryText, type: failedCount > 0 ? 'warning' : 'info', category: 'internal', timestamp: summaryTimestamp, flag: failedCount > 0 ? 1 : 0 });
+  logEntries.push({ timestamp: summaryTimestamp, type: failedCount > 0 ? 'W' : 'I', flag: failedCount > 0 ? 1 : 0, text: `Finished running SimShell script: ${filename}. ${summaryText} (User: ${userId})` });
+
+  return {
+    outputLines,
+    newLogEntries: logEntries,
+    newSuggestions: newSuggestions.length > 0 ? newSuggestions : undefined,
+    newCustomCommands: newCustomCommands.length > 0 ? newCustomCommands : undefined,
+    removedCustomCommands: removedCustomCommands.length > 0 ? removedCustomCommands : undefined,
+    toastInfo,
+    error: stoppedAtLine !== null ? summaryText : undefined,
+  };
+}
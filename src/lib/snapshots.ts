@@ -0,0 +1,128 @@
+// src/lib/snapshots.ts
+'use server';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createDbSnapshot } from '@/lib/database';
+import { getVariableFromDb } from '@/lib/variables';
+
+const SNAPSHOTS_DIR = path.join(process.cwd(), 'data', 'snapshots');
+const SCHEDULER_CHECK_INTERVAL_MS = 60 * 1000; // Settings are re-read on every check
+const DEFAULT_SNAPSHOT_KEEP = 10;
+
+export interface SnapshotSettings {
+    intervalMinutes: number; // 0 = scheduled snapshots are off
+    keep: number; // Snapshots retained per database
+    warnings: string[]; // Invalid variable values that were ignored
+}
+
+export interface SnapshotInfo {
+    file: string;
+    size_kb: number;
+    created: string;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let lastScheduledSnapshotAt = 0;
+
+/**
+ * Reads the snapshot settings from the `snapshot_interval_minutes` and `snapshot_keep` variables.
+ * Missing variables mean "off" and 10 respectively; invalid values are reported and ignored.
+ */
+export async function getSnapshotSettings(): Promise<SnapshotSettings> {
+    const settings: SnapshotSettings = { intervalMinutes: 0, keep: DEFAULT_SNAPSHOT_KEEP, warnings: [] };
+
+    const interval = await getVariableFromDb('snapshot_interval_minutes');
+    if (interval) {
+        const value = Number(interval.value);
+        if (Number.isInteger(value) && value >= 0) settings.intervalMinutes = value;
+        else settings.warnings.push(`snapshot_interval_minutes must be a whole number >= 0 (got '${interval.value}'); scheduled snapshots are off.`);
+    }
+
+    const keep = await getVariableFromDb('snapshot_keep');
+    if (keep) {
+        const value = Number(keep.value);
+        if (Number.isInteger(value) && value >= 1) settings.keep = value;
+        else settings.warnings.push(`snapshot_keep must be a whole number >= 1 (got '${keep.value}'); keeping ${DEFAULT_SNAPSHOT_KEEP}.`);
+    }
+    return settings;
+}
+
+/**
+ * Lists the snapshot files, newest first.
+ */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+    if (!fs.existsSync(SNAPSHOTS_DIR)) return [];
+    return fs.readdirSync(SNAPSHOTS_DIR)
+        .filter(file => file.endsWith('.db'))
+        .map(file => ({ file, stats: fs.statSync(path.join(SNAPSHOTS_DIR, file)) }))
+        .sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs || b.file.localeCompare(a.file))
+        .map(({ file, stats }) => ({
+            file,
+            size_kb: Math.round(stats.size / 102.4) / 10,
+            created: stats.mtime.toISOString().replace('T', ' ').substring(0, 19),
+        }));
+}
+
+/**
+ * Deletes the oldest snapshots of one database so that at most `keep` remain.
+ * Snapshots are grouped by the database name that prefixes their timestamp.
+ * @returns The deleted filenames.
+ */
+async function pruneSnapshots(baseName: string, keep: number): Promise<string[]> {
+    const escapedBaseName = baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const snapshotPattern = new RegExp(`^${escapedBaseName}_\\d{14}(_\\d+)?\\.db$`);
+    const snapshots = (await listSnapshots()).filter(snapshot => snapshotPattern.test(snapshot.file));
+    const pruned: string[] = [];
+    for (const snapshot of snapshots.slice(keep)) {
+        try {
+            fs.unlinkSync(path.join(SNAPSHOTS_DIR, snapshot.file));
+            pruned.push(snapshot.file);
+        } catch (error) {
+            console.error(`Error pruning snapshot '${snapshot.file}':`, error);
+        }
+    }
+    return pruned;
+}
+
+/**
+ * Writes a snapshot of the active database into data/snapshots/ and prunes old ones
+ * according to `snapshot_keep`.
+ * @returns A promise that resolves with the new snapshot, the database it was taken from and the pruned files.
+ */
+export async function takeSnapshot(): Promise<{ file: string; sourcePath: string; pruned: string[]; warnings: string[] }> {
+    const { file, sourcePath } = await createDbSnapshot();
+    let settings: SnapshotSettings;
+    try {
+        settings = await getSnapshotSettings();
+    } catch (error) {
+        // The variables table may be missing (e.g. right after 'migrate down'); fall back to the default retention
+        settings = { intervalMinutes: 0, keep: DEFAULT_SNAPSHOT_KEEP, warnings: [`Could not read snapshot settings: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+    const baseName = file.replace(/_\d{14}(_\d+)?\.db$/, '');
+    const pruned = await pruneSnapshots(baseName, settings.keep);
+    return { file, sourcePath, pruned, warnings: settings.warnings };
+}
+
+/**
+ * Starts the background snapshot scheduler once per server process.
+ * Every minute it re-reads `snapshot_interval_minutes` and takes a snapshot when that many
+ * minutes have passed since the last scheduled one, so changing the variable takes effect
+ * without a restart.
+ */
+export async function ensureSnapshotScheduler(): Promise<void> {
+    if (schedulerTimer) return;
+    lastScheduledSnapshotAt = Date.now();
+    schedulerTimer = setInterval(async () => {
+        try {
+            const { intervalMinutes } = await getSnapshotSettings();
+            if (intervalMinutes <= 0 || Date.now() - lastScheduledSnapshotAt < intervalMinutes * 60 * 1000) return;
+            lastScheduledSnapshotAt = Date.now();
+            const { file, pruned } = await takeSnapshot();
+            console.log(`Scheduled snapshot written to data/snapshots/${file}${pruned.length > 0 ? ` (pruned ${pruned.length})` : ''}`);
+        } catch (error) {
+            console.error('Scheduled snapshot failed:', error);
+        }
+    }, SCHEDULER_CHECK_INTERVAL_MS);
+    schedulerTimer.unref(); // Never keep the process alive just for snapshots
+}
@@ -0,0 +1,686 @@
+// src/lib/spreadsheet-formula.ts
+/**
+ * @fileOverview Formula parser and evaluator for the excel mode spreadsheet engine.
+ * Pure and synchronous: cell values are supplied through a FormulaContext, so the same
+ * code is used for evaluation, dependency extraction and recalculation.
+ */
+
+export type FormulaErrorCode = '#REF!' | '#DIV/0!' | '#VALUE!' | '#NAME?' | '#N/A' | '#NUM!';
+
+/** An Excel error value. Errors propagate through operators and most functions. */
+export class FormulaError {
+    constructor(public readonly code: FormulaErrorCode) {}
+    toString(): string {
+        return this.code;
+    }
+}
+
+export type CellValue = number | string | boolean | null; // null = empty cell
+export type ScalarResult = CellValue | FormulaError;
+/**
+ * A range: its size and the cells in it that hold values (keyed by rowOffset * cols + colOffset);
+ * every other cell is empty. Sparse, so A1:XFD1048576 costs only its stored cells.
+ */
+class RangeValue {
+    constructor(readonly rows: number, readonly cols: number, readonly cells: Map<number, ScalarResult>) {}
+
+    /** The value at 0-based offsets from the range's top-left cell. */
+    get(rowOffset: number, colOffset: number): ScalarResult {
+        return this.cells.get(rowOffset * this.cols + colOffset) ?? null;
+    }
+
+    /** The stored cells in row-major order, with their offsets. */
+    stored(): { rowOffset: number; colOffset: number; value: ScalarResult }[] {
+        return Array.from(this.cells.keys())
+            .sort((a, b) => a - b)
+            .map(key => ({ rowOffset: Math.floor(key / this.cols), colOffset: key % this.cols, value: this.cells.get(key)! }));
+    }
+}
+type EvalResult = ScalarResult | RangeValue;
+
+export type FormulaNode =
+    | { type: 'number'; value: number }
+    | { type: 'string'; value: string }
+    | { type: 'boolean'; value: boolean }
+    | { type: 'error'; code: FormulaErrorCode }
+    | { type: 'cell'; sheet?: string; col: number; row: number }
+    | { type: 'range'; sheet?: string; startCol: number; startRow: number; endCol: number; endRow: number }
+    | { type: 'name'; name: string }
+    | { type: 'unary'; operator: '-' | '+'; operand: FormulaNode }
+    | { type: 'percent'; operand: FormulaNode }
+    | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+    | { type: 'call'; name: string; args: (FormulaNode | null)[] };
+
+export interface FormulaReference {
+    sheet: string;
+    minCol: number;
+    minRow: number;
+    maxCol: number;
+    maxRow: number;
+}
+
+export interface FormulaContext {
+    sheet: string; // Sheet that unqualified references point to
+    sheetExists(sheet: string): boolean;
+    getCell(sheet: string, col: number, row: number): ScalarResult;
+    /** The cells in the rectangle that hold a value (or formula); reading a range never visits empty cells. */
+    getStoredCells(sheet: string, minCol: number, minRow: number, maxCol: number, maxRow: number): { col: number; row: number; value: ScalarResult }[];
+}
+
+export const MAX_COLUMNS = 16384; // XFD
+export const MAX_ROWS = 1048576;
+
+export function columnToIndex(letters: string): number {
+    let index = 0;
+    for (const letter of letters.toUpperCase()) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index;
+}
+
+export function indexToColumn(index: number): string {
+    let letters = '';
+    while (index > 0) {
+        const remainder = (index - 1) % 26;
+        letters = String.fromCharCode(65 + remainder) + letters;
+        index = Math.floor((index - 1) / 26);
+    }
+    return letters;
+}
+
+/**
+ * Parses an A1-style address (optionally with '$' markers).
+ * @returns The 1-based column and row, or null if the text is not a valid address.
+ */
+export function parseCellAddress(text: string): { col: number; row: number } | null {
+    const match = text.match(/^\$?([A-Za-z]{1,3})\$?(\d+)$/);
+    if (!match) return null;
+    const col = columnToIndex(match[1]);
+    const row = parseInt(match[2], 10);
+    if (col < 1 || col > MAX_COLUMNS || row < 1 || row > MAX_ROWS) return null;
+    return { col, row };
+}
+
+export function formatCellAddress(col: number, row: number): string {
+    return `${indexToColumn(col)}${row}`;
+}
+
+/** Sheet names containing anything but word characters are quoted, as in Excel. */
+export function formatSheetPrefix(sheet: string): string {
+    return /^[A-Za-z_]\w*$/.test(sheet) ? `${sheet}!` : `'${sheet.replace(/'/g, "''")}'!`;
+}
+
+// --- Tokenizer ---
+
+type Token =
+    | { kind: 'number'; value: number }
+    | { kind: 'string'; value: string }
+    | { kind: 'error'; value: FormulaErrorCode }
+    | { kind: 'ref'; sheet?: string; text: string } // Cell address or identifier, optionally sheet-qualified
+    | { kind: 'op'; value: string }
+    | { kind: 'paren'; value: '(' | ')' }
+    | { kind: 'comma' }
+    | { kind: 'colon' };
+
+const ERROR_LITERALS: FormulaErrorCode[] = ['#REF!', '#DIV/0!', '#VALUE!', '#NAME?', '#N/A', '#NUM!'];
+
+function tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < formula.length) {
+        const char = formula[i];
+        if (/\s/.test(char)) { i++; continue; }
+
+        const numberMatch = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        if (numberMatch) {
+            tokens.push({ kind: 'number', value: parseFloat(numberMatch[0]) });
+            i += numberMatch[0].length;
+            continue;
+        }
+        if (char === '"') {
+            let value = '';
+            i++;
+            while (true) {
+                if (i >= formula.length) throw new Error('Unterminated string literal.');
+                if (formula[i] === '"') {
+                    if (formula[i + 1] === '"') { value += '"'; i += 2; continue; }
+                    i++;
+                    break;
+                }
+                value += formula[i++];
+            }
+            tokens.push({ kind: 'string', value });
+            continue;
+        }
+        if (char === '#') {
+            const literal = ERROR_LITERALS.find(code => formula.slice(i, i + code.length).toUpperCase() === code);
+            if (!literal) throw new Error(`Unexpected '#' at position ${i + 1}.`);
+            tokens.push({ kind: 'error', value: literal });
+            i += literal.length;
+            continue;
+        }
+        if (char === "'") {
+            // Quoted sheet name: 'My Sheet'!A1
+            let sheet = '';
+            i++;
+            while (true) {
+                if (i >= formula.length) throw new Error('Unterminated sheet name.');
+                if (formula[i] === "'") {
+                    if (formula[i + 1] === "'") { sheet += "'"; i += 2; continue; }
+                    i++;
+                    break;
+                }
+                sheet += formula[i++];
+            }
+            const refMatch = formula.slice(i).match(/^!(\$?[A-Za-z]+\$?\d+)/);
+            if (!refMatch) throw new Error(`Expected a cell reference after '${sheet}'!.`);
+            tokens.push({ kind: 'ref', sheet, text: refMatch[1] });
+            i += refMatch[0].length;
+            continue;
+        }
+        const identifierMatch = formula.slice(i).match(/^[A-Za-z_$][\w.$]*/);
+        if (identifierMatch) {
+            i += identifierMatch[0].length;
+            const qualifiedMatch = formula.slice(i).match(/^!(\$?[A-Za-z]+\$?\d+)/);
+            if (qualifiedMatch) {
+                tokens.push({ kind: 'ref', sheet: identifierMatch[0], text: qualifiedMatch[1] });
+                i += qualifiedMatch[0].length;
+            } else {
+                tokens.push({ kind: 'ref', text: identifierMatch[0] });
+            }
+            continue;
+        }
+        const twoChar = formula.slice(i, i + 2);
+        if (twoChar === '<=' || twoChar === '>=' || twoChar === '<>') {
+            tokens.push({ kind: 'op', value: twoChar });
+            i += 2;
+            continue;
+        }
+        if ('+-*/^&=<>%'.includes(char)) { tokens.push({ kind: 'op', value: char }); i++; continue; }
+        if (char === '(' || char === ')') { tokens.push({ kind: 'paren', value: char }); i++; continue; }
+        if (char === ',' || char === ';') { tokens.push({ kind: 'comma' }); i++; continue; }
+        if (char === ':') { tokens.push({ kind: 'colon' }); i++; continue; }
+        throw new Error(`Unexpected character '${char}' at position ${i + 1}.`);
+    }
+    return tokens;
+}
+
+// --- Parser (precedence: comparison < & < +- < */ < ^ < unary < %) ---
+
+class Parser {
+    private position = 0;
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): FormulaNode {
+        if (this.tokens.length === 0) throw new Error('Empty formula.');
+        const node = this.parseComparison();
+        if (this.position < this.tokens.length) throw new Error('Unexpected input after end of formula.');
+        return node;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private isOperator(...operators: string[]): boolean {
+        const token = this.peek();
+        return token?.kind === 'op' && operators.includes(token.value);
+    }
+
+    private parseBinaryLevel(operators: string[], next: () => FormulaNode): FormulaNode {
+        let left = next();
+        while (this.isOperator(...operators)) {
+            const operator = (this.tokens[this.position++] as { value: string }).value;
+            left = { type: 'binary', operator, left, right: next() };
+        }
+        return left;
+    }
+
+    private parseComparison(): FormulaNode {
+        return this.parseBinaryLevel(['=', '<>', '<', '>', '<=', '>='], () => this.parseConcat());
+    }
+
+    private parseConcat(): FormulaNode {
+        return this.parseBinaryLevel(['&'], () => this.parseAdditive());
+    }
+
+    private parseAdditive(): FormulaNode {
+        return this.parseBinaryLevel(['+', '-'], () => this.parseMultiplicative());
+    }
+
+    private parseMultiplicative(): FormulaNode {
+        return this.parseBinaryLevel(['*', '/'], () => this.parsePower());
+    }
+
+    private parsePower(): FormulaNode {
+        return this.parseBinaryLevel(['^'], () => this.parseUnary());
+    }
+
+    private parseUnary(): FormulaNode {
+        if (this.isOperator('-', '+')) {
+            const operator = (this.tokens[this.position++] as { value: string }).value as '-' | '+';
+            return { type: 'unary', operator, operand: this.parseUnary() };
+        }
+        let node = this.parsePrimary();
+        while (this.isOperator('%')) {
+            this.position++;
+            node = { type: 'percent', operand: node };
+        }
+        return node;
+    }
+
+    private parsePrimary(): FormulaNode {
+        const token = this.tokens[this.position++];
+        if (!token) throw new Error('Unexpected end of formula.');
+        switch (token.kind) {
+            case 'number': return { type: 'number', value: token.value };
+            case 'string': return { type: 'string', value: token.value };
+            case 'error': return { type: 'error', code: token.value };
+            case 'paren': {
+                if (token.value !== '(') throw new Error("Unexpected ')'.");
+                const inner = this.parseComparison();
+                this.expectCloseParen();
+                return inner;
+            }
+            case 'ref': return this.parseReference(token);
+            default: throw new Error('Unexpected token in formula.');
+        }
+    }
+
+    private expectCloseParen(): void {
+        const token = this.tokens[this.position++];
+        if (!token || token.kind !== 'paren' || token.value !== ')') throw new Error("Missing ')'.");
+    }
+
+    private parseReference(token: Extract<Token, { kind: 'ref' }>): FormulaNode {
+        const next = this.peek();
+        if (!token.sheet && next?.kind === 'paren' && next.value === '(') {
+            this.position++;
+            return { type: 'call', name: token.text.toUpperCase(), args: this.parseArguments() };
+        }
+
+        const address = parseCellAddress(token.text);
+        if (!address) {
+            if (token.sheet || /^\$?[A-Za-z]{1,3}\$?\d+$/.test(token.text)) return { type: 'error', code: '#REF!' }; // Out of grid
+            const upper = token.text.toUpperCase();
+            if (upper === 'TRUE' || upper === 'FALSE') return { type: 'boolean', value: upper === 'TRUE' };
+            return { type: 'name', name: token.text };
+        }
+
+        if (this.peek()?.kind === 'colon') {
+            this.position++;
+            const endToken = this.tokens[this.position++];
+            if (!endToken || endToken.kind !== 'ref') throw new Error('Expected a cell reference after \':\'.');
+            const endAddress = parseCellAddress(endToken.text);
+            if (!endAddress || (endToken.sheet && endToken.sheet !== token.sheet)) return { type: 'error', code: '#REF!' };
+            return {
+                type: 'range',
+                sheet: token.sheet,
+                startCol: Math.min(address.col, endAddress.col),
+                startRow: Math.min(address.row, endAddress.row),
+                endCol: Math.max(address.col, endAddress.col),
+                endRow: Math.max(address.row, endAddress.row),
+            };
+        }
+        return { type: 'cell', sheet: token.sheet, col: address.col, row: address.row };
+    }
+
+    private parseArguments(): (FormulaNode | null)[] {
+        const args: (FormulaNode | null)[] = [];
+        if (this.peek()?.kind === 'paren' && (this.peek() as { value: string }).value === ')') {
+            this.position++;
+            return args;
+        }
+        while (true) {
+            const next = this.peek();
+            // Omitted argument, e.g. VLOOKUP(x, A1:B5, 2, )
+            args.push(next?.kind === 'comma' || (next?.kind === 'paren' && next.value === ')') ? null : this.parseComparison());
+            const separator = this.tokens[this.position++];
+            if (separator?.kind === 'comma') continue;
+            if (separator?.kind === 'paren' && separator.value === ')') return args;
+            throw new Error("Expected ',' or ')' in function arguments.");
+        }
+    }
+}
+
+/**
+ * Parses a formula (without the leading '=').
+ * @throws Throws an error describing the syntax problem.
+ */
+export function parseFormula(formula: string): FormulaNode {
+    return new Parser(tokenize(formula)).parse();
+}
+
+/**
+ * Lists every cell and range a formula reads, resolved against `defaultSheet`.
+ */
+export function collectFormulaReferences(node: FormulaNode, defaultSheet: string): FormulaReference[] {
+    switch (node.type) {
+        case 'cell':
+            return [{ sheet: node.sheet ?? defaultSheet, minCol: node.col, minRow: node.row, maxCol: node.col, maxRow: node.row }];
+        case 'range':
+            return [{ sheet: node.sheet ?? defaultSheet, minCol: node.startCol, minRow: node.startRow, maxCol: node.endCol, maxRow: node.endRow }];
+        case 'unary':
+        case 'percent':
+            return collectFormulaReferences(node.operand, defaultSheet);
+        case 'binary':
+            return [...collectFormulaReferences(node.left, defaultSheet), ...collectFormulaReferences(node.right, defaultSheet)];
+        case 'call':
+            return node.args.flatMap(arg => (arg ? collectFormulaReferences(arg, defaultSheet) : []));
+        default:
+            return [];
+    }
+}
+
+// --- Evaluation ---
+
+const isRange = (value: EvalResult): value is RangeValue => value instanceof RangeValue;
+
+function toNumber(value: ScalarResult): number | FormulaError {
+    if (value instanceof FormulaError) return value;
+    if (value === null) return 0;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number') return value;
+    const trimmed = value.trim();
+    if (trimmed === '') return 0;
+    const numeric = Number(trimmed);
+    return isNaN(numeric) ? new FormulaError('#VALUE!') : numeric;
+}
+
+function toText(value: ScalarResult): string | FormulaError {
+    if (value instanceof FormulaError) return value;
+    if (value === null) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (typeof value === 'number') return formatNumber(value);
+    return value;
+}
+
+function toBoolean(value: ScalarResult): boolean | FormulaError {
+    if (value instanceof FormulaError) return value;
+    if (value === null) return false;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    const upper = value.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+    return new FormulaError('#VALUE!');
+}
+
+function finite(value: number): number | FormulaError {
+    return Number.isFinite(value) ? value : new FormulaError('#NUM!');
+}
+
+/**
+ * Orders values like Excel: numbers < text < booleans; text compares case-insensitively.
+ * Empty cells compare as 0 against numbers and as "" against text.
+ */
+function compareValues(left: CellValue, right: CellValue): number {
+    const rank = (value: CellValue) => (typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : typeof value === 'boolean' ? 2 : -1);
+    let a = left;
+    let b = right;
+    if (a === null) a = typeof b === 'string' ? '' : typeof b === 'boolean' ? false : 0;
+    if (b === null) b = typeof a === 'string' ? '' : typeof a === 'boolean' ? false : 0;
+    if (rank(a) !== rank(b)) return rank(a) - rank(b);
+    if (typeof a === 'string') return a.toLowerCase().localeCompare((b as string).toLowerCase());
+    return Number(a) - Number(b);
+}
+
+function scalarOf(value: EvalResult): ScalarResult {
+    if (!isRange(value)) return value;
+    // A single-cell range is usable as a scalar; larger ranges would need spilling, which is unsupported
+    return value.rows === 1 && value.cols === 1 ? value.get(0, 0) : new FormulaError('#VALUE!');
+}
+
+function evaluateNode(node: FormulaNode, ctx: FormulaContext): EvalResult {
+    switch (node.type) {
+        case 'number': return node.value;
+        case 'string': return node.value;
+        case 'boolean': return node.value;
+        case 'error': return new FormulaError(node.code);
+        case 'name': return new FormulaError('#NAME?');
+        case 'cell': {
+            const sheet = node.sheet ?? ctx.sheet;
+            if (!ctx.sheetExists(sheet)) return new FormulaError('#REF!');
+            return ctx.getCell(sheet, node.col, node.row);
+        }
+        case 'range': {
+            const sheet = node.sheet ?? ctx.sheet;
+            if (!ctx.sheetExists(sheet)) return new FormulaError('#REF!');
+            const cols = node.endCol - node.startCol + 1;
+            const cells = new Map<number, ScalarResult>();
+            for (const cell of ctx.getStoredCells(sheet, node.startCol, node.startRow, node.endCol, node.endRow)) {
+                cells.set((cell.row - node.startRow) * cols + (cell.col - node.startCol), cell.value);
+            }
+            return new RangeValue(node.endRow - node.startRow + 1, cols, cells);
+        }
+        case 'unary': {
+            const operand = toNumber(scalarOf(evaluateNode(node.operand, ctx)));
+            if (operand instanceof FormulaError) return operand;
+            return node.operator === '-' ? -operand : operand;
+        }
+        case 'percent': {
+            const operand = toNumber(scalarOf(evaluateNode(node.operand, ctx)));
+            return operand instanceof FormulaError ? operand : operand / 100;
+        }
+        case 'binary': return evaluateBinary(node.operator, scalarOf(evaluateNode(node.left, ctx)), scalarOf(evaluateNode(node.right, ctx)));
+        case 'call': return evaluateCall(node.name, node.args, ctx);
+    }
+}
+
+function evaluateBinary(operator: string, left: ScalarResult, right: ScalarResult): ScalarResult {
+    if (left instanceof FormulaError) return left;
+    if (right instanceof FormulaError) return right;
+    if (operator === '&') return `${toText(left)}${toText(right)}`;
+    if (['=', '<>', '<', '>', '<=', '>='].includes(operator)) {
+        const comparison = compareValues(left, right);
+        switch (operator) {
+            case '=': return comparison === 0;
+            case '<>': return comparison !== 0;
+            case '<': return comparison < 0;
+            case '>': return comparison > 0;
+            case '<=': return comparison <= 0;
+            default: return comparison >= 0;
+        }
+    }
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (a instanceof FormulaError) return a;
+    if (b instanceof FormulaError) return b;
+    switch (operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? new FormulaError('#DIV/0!') : a / b;
+        case '^': return finite(Math.pow(a, b));
+        default: return new FormulaError('#VALUE!');
+    }
+}
+
+/**
+ * Collects numbers for aggregate functions. Inside ranges only numeric cells count
+ * (text, booleans and blanks are skipped); direct arguments are coerced. Errors propagate.
+ */
+function collectNumbers(args: (FormulaNode | null)[], ctx: FormulaContext): number[] | FormulaError {
+    const numbers: number[] = [];
+    for (const arg of args) {
+        if (!arg) continue;
+        const value = evaluateNode(arg, ctx);
+        if (isRange(value)) {
+            for (const { value: cell } of value.stored()) {
+                if (cell instanceof FormulaError) return cell;
+                if (typeof cell === 'number') numbers.push(cell);
+            }
+        } else {
+            const numeric = toNumber(value);
+            if (numeric instanceof FormulaError) return numeric;
+            numbers.push(numeric);
+        }
+    }
+    return numbers;
+}
+
+function argCount(args: (FormulaNode | null)[], min: number, max: number): FormulaError | null {
+    return args.length < min || args.length > max ? new FormulaError('#VALUE!') : null;
+}
+
+function evaluateScalarArg(arg: FormulaNode | null, ctx: FormulaContext, fallback: ScalarResult): ScalarResult {
+    return arg ? scalarOf(evaluateNode(arg, ctx)) : fallback;
+}
+
+function evaluateRangeArg(arg: FormulaNode | null, ctx: FormulaContext): RangeValue | FormulaError {
+    if (!arg) return new FormulaError('#VALUE!');
+    const value = evaluateNode(arg, ctx);
+    if (isRange(value)) return value;
+    return value instanceof FormulaError ? value : new RangeValue(1, 1, new Map([[0, value]]));
+}
+
+/**
+ * Finds a value in a 1-D list for MATCH/VLOOKUP/HLOOKUP, given as the list's stored cells
+ * (0-based index and value, in order); empty cells never match. Returns a 0-based index or -1.
+ */
+function lookupIndex(entries: { index: number; value: ScalarResult }[], target: CellValue, matchType: number): number {
+    if (matchType === 0) {
+        return entries.find(({ value }) => !(value instanceof FormulaError) && value !== null && compareValues(value, target) === 0)?.index ?? -1;
+    }
+    // Approximate match assumes sorted data (ascending for 1, descending for -1), like Excel
+    let found = -1;
+    for (const { index, value } of entries) {
+        if (value instanceof FormulaError || value === null) continue;
+        const comparison = compareValues(value, target);
+        if (matchType > 0 ? comparison <= 0 : comparison >= 0) found = index;
+        else break;
+    }
+    return found;
+}
+
+function evaluateLookup(args: (FormulaNode | null)[], ctx: FormulaContext, vertical: boolean): ScalarResult {
+    const countError = argCount(args, 3, 4);
+    if (countError) return countError;
+    const target = evaluateScalarArg(args[0], ctx, null);
+    if (target instanceof FormulaError) return target;
+    const table = evaluateRangeArg(args[1], ctx);
+    if (table instanceof FormulaError) return table;
+    const index = toNumber(evaluateScalarArg(args[2], ctx, null));
+    if (index instanceof FormulaError) return index;
+    const approximate = toBoolean(evaluateScalarArg(args[3] ?? null, ctx, true));
+    if (approximate instanceof FormulaError) return approximate;
+
+    const position = Math.trunc(index);
+    const lineCount = vertical ? table.cols : table.rows;
+    if (position < 1) return new FormulaError('#VALUE!');
+    if (position > lineCount) return new FormulaError('#REF!');
+
+    // The keys are the first column (VLOOKUP) or the first row (HLOOKUP)
+    const keys = table.stored()
+        .filter(cell => (vertical ? cell.colOffset : cell.rowOffset) === 0)
+        .map(cell => ({ index: vertical ? cell.rowOffset : cell.colOffset, value: cell.value }));
+    const found = lookupIndex(keys, target, approximate ? 1 : 0);
+    if (found < 0) return new FormulaError('#N/A');
+    return vertical ? table.get(found, position - 1) : table.get(position - 1, found);
+}
+
+function evaluateCall(name: string, args: (FormulaNode | null)[], ctx: FormulaContext): EvalResult {
+    switch (name) {
+        case 'SUM': {
+            const numbers = collectNumbers(args, ctx);
+            return numbers instanceof FormulaError ? numbers : numbers.reduce((sum, value) => sum + value, 0);
+        }
+        case 'AVERAGE': {
+            const numbers = collectNumbers(args, ctx);
+            if (numbers instanceof FormulaError) return numbers;
+            return numbers.length === 0 ? new FormulaError('#DIV/0!') : numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+        }
+        case 'COUNT': {
+            let count = 0;
+            for (const arg of args) {
+                if (!arg) continue;
+                const value = evaluateNode(arg, ctx);
+                if (isRange(value)) count += value.stored().filter(cell => typeof cell.value === 'number').length;
+                else if (value !== null && !(toNumber(value) instanceof FormulaError)) count++;
+            }
+            return count;
+        }
+        case 'MAX':
+        case 'MIN': {
+            const numbers = collectNumbers(args, ctx);
+            if (numbers instanceof FormulaError) return numbers;
+            if (numbers.length === 0) return 0;
+            return name === 'MAX' ? Math.max(...numbers) : Math.min(...numbers);
+        }
+        case 'IF': {
+            const countError = argCount(args, 2, 3);
+            if (countError) return countError;
+            const condition = toBoolean(evaluateScalarArg(args[0], ctx, false));
+            if (condition instanceof FormulaError) return condition;
+            const branch = condition ? args[1] : args[2];
+            if (!branch) return condition ? 0 : false;
+            return evaluateNode(branch, ctx);
+        }
+        case 'VLOOKUP': return evaluateLookup(args, ctx, true);
+        case 'HLOOKUP': return evaluateLookup(args, ctx, false);
+        case 'INDEX': {
+            const countError = argCount(args, 2, 3);
+            if (countError) return countError;
+            const array = evaluateRangeArg(args[0], ctx);
+            if (array instanceof FormulaError) return array;
+            const rowNumber = toNumber(evaluateScalarArg(args[1], ctx, 0));
+            if (rowNumber instanceof FormulaError) return rowNumber;
+            const colNumber = toNumber(evaluateScalarArg(args[2] ?? null, ctx, 0));
+            if (colNumber instanceof FormulaError) return colNumber;
+            let row = Math.trunc(rowNumber);
+            let col = Math.trunc(colNumber);
+            // With a single index, a one-row array is indexed by column
+            if (args.length === 2 && array.rows === 1) { col = row; row = 1; }
+            if (row < 0 || col < 0) return new FormulaError('#VALUE!');
+            if (row === 0 && array.rows === 1) row = 1;
+            if (col === 0 && array.cols === 1) col = 1;
+            if (row === 0 || col === 0) return new FormulaError('#VALUE!'); // Whole row/column results are not supported
+            if (row > array.rows || col > array.cols) return new FormulaError('#REF!');
+            return array.get(row - 1, col - 1);
+        }
+        case 'MATCH': {
+            const countError = argCount(args, 2, 3);
+            if (countError) return countError;
+            const target = evaluateScalarArg(args[0], ctx, null);
+            if (target instanceof FormulaError) return target;
+            const array = evaluateRangeArg(args[1], ctx);
+            if (array instanceof FormulaError) return array;
+            if (array.rows > 1 && array.cols > 1) return new FormulaError('#N/A');
+            const matchType = toNumber(evaluateScalarArg(args[2] ?? null, ctx, 1));
+            if (matchType instanceof FormulaError) return matchType;
+            // A 1-D range: the offset along its one long side is the position
+            const entries = array.stored().map(cell => ({ index: cell.rowOffset + cell.colOffset, value: cell.value }));
+            const found = lookupIndex(entries, target, Math.sign(Math.trunc(matchType)));
+            return found < 0 ? new FormulaError('#N/A') : found + 1;
+        }
+        default:
+            return new FormulaError('#NAME?');
+    }
+}
+
+/**
+ * Evaluates a parsed formula to a single value. A reference to an empty cell yields 0.
+ */
+export function evaluateFormula(node: FormulaNode, ctx: FormulaContext): ScalarResult {
+    const result = scalarOf(evaluateNode(node, ctx));
+    if (typeof result === 'number') return finite(result);
+    return result === null ? 0 : result;
+}
+
+/**
+ * Formats a number like Excel's General format (up to 15 significant digits).
+ */
+export function formatNumber(value: number): string {
+    if (Number.isInteger(value)) return String(value);
+    return String(parseFloat(value.toPrecision(15)));
+}
+
+/**
+ * Formats a cell value for display; errors show their code and blanks an empty string.
+ */
+export function formatCellValue(value: ScalarResult): string {
+    if (value instanceof FormulaError) return value.code;
+    if (value === null) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (typeof value === 'number') return formatNumber(value);
+    return value;
+}
@@ -0,0 +1,392 @@
+// src/lib/spreadsheet.ts
+'use server';
+
+import { runSql } from './database';
+import {
+    FormulaError, collectFormulaReferences, evaluateFormula, formatCellAddress, formatCellValue,
+    formatSheetPrefix, indexToColumn, parseCellAddress, parseFormula,
+    type CellValue, type FormulaNode, type FormulaReference, type ScalarResult,
+} from './spreadsheet-formula';
+
+export interface SpreadsheetOutput {
+    text: string;
+    type: 'output' | 'info' | 'error';
+}
+
+export interface SpreadsheetCommandResult {
+    outputs: SpreadsheetOutput[];
+    isError: boolean;
+    logText: string;
+}
+
+export interface SheetGrid {
+    sheet: string; // Stored name of the sheet
+    rows: Record<string, string>[]; // One object per row: '#' (row number) followed by column letters
+    usedRows: number; // Last used row; more than rows.length if the grid was cut off
+    usedCols: number; // Last used column index; more than the grid's columns if it was cut off
+}
+
+const MAX_GRID_ROWS = 200;
+const MAX_GRID_COLS = 26; // A-Z
+
+interface WorkbookCell {
+    sheet: string;
+    col: number;
+    row: number;
+    formula: FormulaNode | null;
+    value: ScalarResult;
+}
+
+interface Workbook {
+    sheets: Map<string, string>; // lower-case name -> stored name
+    cells: Map<string, WorkbookCell>;
+}
+
+type CellInput =
+    | { kind: 'empty' }
+    | { kind: 'literal'; value: CellValue; input: string }
+    | { kind: 'formula'; formula: FormulaNode; input: string };
+
+const DEFAULT_SHEET = 'Sheet1';
+const activeSheets = new Map<number, string>(); // userId -> active sheet name
+
+const cellKey = (sheet: string, col: number, row: number) => `${sheet.toLowerCase()}!${col}:${row}`;
+const cellLabel = (sheet: string, col: number, row: number) => `${formatSheetPrefix(sheet)}${formatCellAddress(col, row)}`;
+
+function encodeValue(value: ScalarResult): { value: string | null; valueType: string } {
+    if (value instanceof FormulaError) return { value: value.code, valueType: 'error' };
+    if (value === null) return { value: null, valueType: 'empty' };
+    if (typeof value === 'boolean') return { value: value ? 'TRUE' : 'FALSE', valueType: 'boolean' };
+    if (typeof value === 'number') return { value: String(value), valueType: 'number' };
+    return { value, valueType: 'string' };
+}
+
+function decodeValue(value: string | null, valueType: string): ScalarResult {
+    switch (valueType) {
+        case 'error': return new FormulaError(value as FormulaError['code']);
+        case 'number': return Number(value);
+        case 'boolean': return value === 'TRUE';
+        case 'string': return value ?? '';
+        default: return null;
+    }
+}
+
+/**
+ * Classifies the right-hand side of `A1 = ...`: '=' starts a formula; numbers, TRUE/FALSE and
+ * quoted text are literals; anything else is a formula if it parses as one, otherwise text.
+ */
+function parseCellInput(rawInput: string): CellInput {
+    const input = rawInput.trim();
+    if (input === '') return { kind: 'empty' };
+    if (input.startsWith('=')) {
+        return { kind: 'formula', formula: parseFormula(input.slice(1)), input };
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(input)) return { kind: 'literal', value: Number(input), input };
+    if (/^(TRUE|FALSE)$/i.test(input)) return { kind: 'literal', value: input.toUpperCase() === 'TRUE', input: input.toUpperCase() };
+    if (/^"[\s\S]*"$/.test(input)) return { kind: 'literal', value: input.slice(1, -1).replace(/""/g, '"'), input };
+    try {
+        const formula = parseFormula(input);
+        if (formula.type !== 'name') return { kind: 'formula', formula, input: `=${input}` };
+    } catch {
+        // Not a formula: store as text
+    }
+    return { kind: 'literal', value: input, input };
+}
+
+async function loadWorkbook(): Promise<Workbook> {
+    const sheets = new Map<string, string>();
+    const cells = new Map<string, WorkbookCell>();
+    const { results: sheetRows } = await runSql('SELECT name FROM sheets');
+    (sheetRows || []).forEach((row: any) => sheets.set(String(row.name).toLowerCase(), row.name));
+
+    const { results: cellRows } = await runSql('SELECT sheet_name, col_index, row_index, input, value, value_type FROM sheet_cells');
+    for (const row of cellRows || []) {
+        let formula: FormulaNode | null = null;
+        if (typeof row.input === 'string' && row.input.startsWith('=')) {
+            try {
+                formula = parseFormula(row.input.slice(1));
+            } catch {
+                formula = { type: 'error', code: '#NAME?' };
+            }
+        }
+        cells.set(cellKey(row.sheet_name, row.col_index, row.row_index), {
+            sheet: row.sheet_name,
+            col: row.col_index,
+            row: row.row_index,
+            formula,
+            value: decodeValue(row.value, row.value_type),
+        });
+    }
+    return { sheets, cells };
+}
+
+/**
+ * The loaded cells of a sheet inside a rectangle. Scans the stored cells, never the rectangle,
+ * so a range like A1:XFD1048576 costs no more than the sheet's contents.
+ */
+function cellsInRange(workbook: Workbook, sheet: string, minCol: number, minRow: number, maxCol: number, maxRow: number): WorkbookCell[] {
+    const sheetKey = sheet.toLowerCase();
+    return Array.from(workbook.cells.values()).filter(cell =>
+        cell.sheet.toLowerCase() === sheetKey && cell.col >= minCol && cell.col <= maxCol && cell.row >= minRow && cell.row <= maxRow);
+}
+
+/**
+ * Recomputes the formulas of the `dirty` cells in dependency order. A dirty cell read by
+ * another dirty cell is computed first (memoized), so every cell is evaluated once.
+ */
+function recalculate(workbook: Workbook, dirty: Set<string>): void {
+    const computed = new Set<string>();
+    const inProgress = new Set<string>();
+
+    const compute = (key: string): ScalarResult => {
+        const cell = workbook.cells.get(key);
+        if (!cell) return null;
+        if (!dirty.has(key) || computed.has(key) || !cell.formula) return cell.value;
+        if (inProgress.has(key)) return new FormulaError('#REF!'); // Cycle; prevented on assignment
+        inProgress.add(key);
+        cell.value = evaluateFormula(cell.formula, makeContext(cell.sheet));
+        inProgress.delete(key);
+        computed.add(key);
+        return cell.value;
+    };
+
+    const makeContext = (sheet: string) => ({
+        sheet,
+        sheetExists: (name: string) => workbook.sheets.has(name.toLowerCase()),
+        getCell: (name: string, col: number, row: number) => compute(cellKey(name, col, row)),
+        getStoredCells: (name: string, minCol: number, minRow: number, maxCol: number, maxRow: number) =>
+            cellsInRange(workbook, name, minCol, minRow, maxCol, maxRow).map(cell => ({ col: cell.col, row: cell.row, value: compute(cellKey(cell.sheet, cell.col, cell.row)) })),
+    });
+
+    dirty.forEach(key => compute(key));
+}
+
+/**
+ * Finds every cell that (transitively) depends on the given cell via 'sheet_dependencies'.
+ */
+async function findDependents(sheet: string, col: number, row: number): Promise<{ sheet: string; col: number; row: number }[]> {
+    const found = new Map<string, { sheet: string; col: number; row: number }>();
+    const queue = [{ sheet, col, row }];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        const { results } = await runSql(
+            'SELECT sheet_name, cell_ref FROM sheet_dependencies WHERE ref_sheet = ? AND ? BETWEEN min_col AND max_col AND ? BETWEEN min_row AND max_row',
+            [current.sheet.toLowerCase(), current.col, current.row]
+        );
+        for (const dependency of results || []) {
+            const address = parseCellAddress(dependency.cell_ref);
+            if (!address) continue;
+            const key = cellKey(dependency.sheet_name, address.col, address.row);
+            if (found.has(key)) continue;
+            const dependent = { sheet: dependency.sheet_name, col: address.col, row: address.row };
+            found.set(key, dependent);
+            queue.push(dependent);
+        }
+    }
+    return [...found.values()];
+}
+
+const referenceContains = (reference: FormulaReference, sheet: string, col: number, row: number) =>
+    reference.sheet.toLowerCase() === sheet.toLowerCase() &&
+    col >= reference.minCol && col <= reference.maxCol && row >= reference.minRow && row <= reference.maxRow;
+
+/**
+ * Returns the stored name of a sheet (matched case-insensitively), creating the sheet if requested.
+ */
+async function resolveSheetName(name: string, create: boolean): Promise<string | null> {
+    const { results } = await runSql('SELECT name FROM sheets WHERE lower(name) = lower(?)', [name]);
+    if (results && results.length > 0) return results[0].name;
+    if (!create) return null;
+    await runSql('INSERT INTO sheets (name) VALUES (?)', [name]);
+    return name;
+}
+
+async function persistCell(cell: WorkbookCell, input: string, references: FormulaReference[]): Promise<void> {
+    const ref = formatCellAddress(cell.col, cell.row);
+    const { value, valueType } = encodeValue(cell.value);
+    await runSql(
+        `INSERT INTO sheet_cells (sheet_name, cell_ref, col_index, row_index, input, value, value_type, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(sheet_name, cell_ref) DO UPDATE SET
+            input = excluded.input, value = excluded.value, value_type = excluded.value_type, updated_at = CURRENT_TIMESTAMP`,
+        [cell.sheet, ref, cell.col, cell.row, input, value, valueType]
+    );
+    await runSql('DELETE FROM sheet_dependencies WHERE sheet_name = ? AND cell_ref = ?', [cell.sheet, ref]);
+    for (const reference of references) {
+        await runSql(
+            'INSERT INTO sheet_dependencies (sheet_name, cell_ref, ref_sheet, min_col, min_row, max_col, max_row) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            [cell.sheet, ref, reference.sheet.toLowerCase(), reference.minCol, reference.minRow, reference.maxCol, reference.maxRow]
+        );
+    }
+}
+
+/**
+ * Assigns a literal or formula to a cell (an empty input clears it) and recalculates dependents.
+ * @throws Throws an error for invalid formulas and circular references; nothing is stored then.
+ */
+async function setCell(sheetName: string, col: number, row: number, rawInput: string): Promise<SpreadsheetCommandResult> {
+    const sheet = (await resolveSheetName(sheetName, true)) as string;
+    const label = cellLabel(sheet, col, row);
+    let cellInput: CellInput;
+    try {
+        cellInput = parseCellInput(rawInput);
+    } catch (error) {
+        throw new Error(`Invalid formula for ${label}: ${error instanceof Error ? error.message : 'syntax error'}`);
+    }
+
+    const references = cellInput.kind === 'formula' ? collectFormulaReferences(cellInput.formula, sheet) : [];
+    const dependents = await findDependents(sheet, col, row);
+    const cycleCell = [{ sheet, col, row }, ...dependents].find(candidate =>
+        references.some(reference => referenceContains(reference, candidate.sheet, candidate.col, candidate.row)));
+    if (cycleCell) {
+        throw new Error(`Circular reference: ${label} would depend on ${cellLabel(cycleCell.sheet, cycleCell.col, cycleCell.row)}, which depends on ${label}.`);
+    }
+
+    const workbook = await loadWorkbook();
+    const key = cellKey(sheet, col, row);
+    const dirty = new Set(dependents.map(dependent => cellKey(dependent.sheet, dependent.col, dependent.row)));
+    if (cellInput.kind === 'empty') {
+        workbook.cells.delete(key);
+    } else {
+        workbook.cells.set(key, {
+            sheet, col, row,
+            formula: cellInput.kind === 'formula' ? cellInput.formula : null,
+            value: cellInput.kind === 'literal' ? cellInput.value : null,
+        });
+        if (cellInput.kind === 'formula') dirty.add(key);
+    }
+    recalculate(workbook, dirty);
+
+    const ref = formatCellAddress(col, row);
+    if (cellInput.kind === 'empty') {
+        await runSql('DELETE FROM sheet_cells WHERE sheet_name = ? AND cell_ref = ?', [sheet, ref]);
+        await runSql('DELETE FROM sheet_dependencies WHERE sheet_name = ? AND cell_ref = ?', [sheet, ref]);
+    } else {
+        await persistCell(workbook.cells.get(key) as WorkbookCell, cellInput.input, references);
+    }
+
+    const recalculated: string[] = [];
+    for (const dependent of dependents) {
+        const cell = workbook.cells.get(cellKey(dependent.sheet, dependent.col, dependent.row));
+        if (!cell) continue;
+        const { value, valueType } = encodeValue(cell.value);
+        await runSql(
+            'UPDATE sheet_cells SET value = ?, value_type = ?, updated_at = CURRENT_TIMESTAMP WHERE sheet_name = ? AND cell_ref = ?',
+            [value, valueType, cell.sheet, formatCellAddress(cell.col, cell.row)]
+        );
+        recalculated.push(`${cellLabel(cell.sheet, cell.col, cell.row)} = ${formatCellValue(cell.value)}`);
+    }
+
+    const outputs: SpreadsheetOutput[] = [];
+    const newValue = cellInput.kind === 'empty' ? null : (workbook.cells.get(key) as WorkbookCell).value;
+    outputs.push({ text: cellInput.kind === 'empty' ? `${label} cleared.` : `${label} = ${formatCellValue(newValue)}`, type: 'output' });
+    if (recalculated.length > 0) {
+        outputs.push({ text: `Recalculated ${recalculated.length} dependent cell(s): ${recalculated.join(', ')}`, type: 'info' });
+    }
+    return {
+        outputs,
+        isError: false,
+        logText: `Spreadsheet: ${label} ${cellInput.kind === 'empty' ? 'cleared' : `set to '${cellInput.input}'`}, ${recalculated.length} dependent cell(s) recalculated.`,
+    };
+}
+
+async function evaluateExpression(sheetName: string, expression: string): Promise<SpreadsheetCommandResult> {
+    let formula: FormulaNode;
+    try {
+        formula = parseFormula(expression.replace(/^\s*=/, ''));
+    } catch (error) {
+        const message = `Invalid formula: ${error instanceof Error ? error.message : 'syntax error'}`;
+        return { outputs: [{ text: message, type: 'error' }], isError: true, logText: `Spreadsheet: ${message}` };
+    }
+    const workbook = await loadWorkbook();
+    const sheet = workbook.sheets.get(sheetName.toLowerCase()) ?? sheetName;
+    const value = evaluateFormula(formula, {
+        sheet,
+        sheetExists: (name: string) => workbook.sheets.has(name.toLowerCase()),
+        getCell: (name: string, col: number, row: number) => workbook.cells.get(cellKey(name, col, row))?.value ?? null,
+        getStoredCells: (name: string, minCol: number, minRow: number, maxCol: number, maxRow: number) =>
+            cellsInRange(workbook, name, minCol, minRow, maxCol, maxRow).map(cell => ({ col: cell.col, row: cell.row, value: cell.value })),
+    });
+    const text = formatCellValue(value);
+    const isError = value instanceof FormulaError;
+    return { outputs: [{ text, type: isError ? 'error' : 'output' }], isError, logText: `Spreadsheet: evaluated '${expression}' on ${sheet} = ${text}` };
+}
+
+/**
+ * Executes an excel mode command for a user:
+ * - `A1 = 10`, `B2 = =SUM(A1:A5)`, `Sheet2!C3 = "text"` assign (an empty right-hand side clears the cell),
+ * - `sheet <name>` switches (and creates) the active sheet, `sheet` shows it,
+ * - anything else is evaluated as a formula against the active sheet without being stored.
+ * @param userId - The ID of the user, used to track the active sheet.
+ * @param command - The command as entered.
+ * @returns A promise that resolves with output lines and a log summary.
+ * @throws Throws an error if the spreadsheet tables are missing.
+ */
+export async function runSpreadsheetCommand(userId: number, command: string): Promise<SpreadsheetCommandResult> {
+    const activeSheet = activeSheets.get(userId) ?? DEFAULT_SHEET;
+
+    const sheetMatch = command.match(/^\s*sheet(?:\s+(.+?))?\s*$/i);
+    if (sheetMatch) {
+        if (!sheetMatch[1]) {
+            return { outputs: [{ text: `Active sheet: ${activeSheet}`, type: 'info' }], isError: false, logText: `Spreadsheet: active sheet is ${activeSheet}.` };
+        }
+        const requested = sheetMatch[1].replace(/^'(.*)'$/, '$1');
+        if (requested.length > 100 || /[\\/?*[\]:!]/.test(requested)) {
+            const message = `Invalid sheet name '${requested}'.`;
+            return { outputs: [{ text: message, type: 'error' }], isError: true, logText: `Spreadsheet: ${message}` };
+        }
+        const sheet = (await resolveSheetName(requested, true)) as string;
+        activeSheets.set(userId, sheet);
+        return { outputs: [{ text: `Active sheet: ${sheet}`, type: 'info' }], isError: false, logText: `Spreadsheet: switched to sheet ${sheet}.` };
+    }
+
+    const assignmentMatch = command.match(/^\s*(?:(?:'((?:[^']|'')+)'|([A-Za-z_][\w.]*))!)?(\$?[A-Za-z]{1,3}\$?\d+)\s*=([\s\S]*)$/);
+    if (assignmentMatch) {
+        const address = parseCellAddress(assignmentMatch[3]);
+        if (!address) {
+            return { outputs: [{ text: '#REF!', type: 'error' }], isError: true, logText: `Spreadsheet: invalid cell reference '${assignmentMatch[3]}'.` };
+        }
+        const sheetName = assignmentMatch[1]?.replace(/''/g, "'") ?? assignmentMatch[2] ?? activeSheet;
+        try {
+            return await setCell(sheetName, address.col, address.row, assignmentMatch[4]);
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('no such table')) throw error;
+            const message = error instanceof Error ? error.message : 'Unknown spreadsheet error';
+            return { outputs: [{ text: message, type: 'error' }], isError: true, logText: `Spreadsheet: ${message}` };
+        }
+    }
+
+    return evaluateExpression(activeSheet, command);
+}
+
+/**
+ * Builds the value grid of a sheet from A1 to its last used cell, cut off after
+ * MAX_GRID_ROWS rows and MAX_GRID_COLS columns (one cell in XFD1048576 would otherwise fill memory).
+ * @param sheetName - The sheet name (case-insensitive).
+ * @returns The grid, or null if the sheet does not exist.
+ */
+export async function getSheetGrid(sheetName: string): Promise<SheetGrid | null> {
+    const sheet = await resolveSheetName(sheetName, false);
+    if (!sheet) return null;
+    const { results: extent } = await runSql('SELECT MAX(col_index) AS used_cols, MAX(row_index) AS used_rows FROM sheet_cells WHERE sheet_name = ?', [sheet]);
+    const usedCols: number = extent?.[0]?.used_cols ?? 0;
+    const usedRows: number = extent?.[0]?.used_rows ?? 0;
+    const maxCol = Math.min(usedCols, MAX_GRID_COLS);
+    const maxRow = Math.min(usedRows, MAX_GRID_ROWS);
+    const { results } = await runSql(
+        'SELECT col_index, row_index, value, value_type FROM sheet_cells WHERE sheet_name = ? AND col_index <= ? AND row_index <= ?',
+        [sheet, maxCol, maxRow]
+    );
+    const cells = results || [];
+
+    const rows: Record<string, string>[] = [];
+    for (let row = 1; row <= maxRow; row++) {
+        const gridRow: Record<string, string> = { '#': String(row) };
+        for (let col = 1; col <= maxCol; col++) gridRow[indexToColumn(col)] = '';
+        rows.push(gridRow);
+    }
+    cells.forEach((cell: any) => {
+        rows[cell.row_index - 1][indexToColumn(cell.col_index)] = formatCellValue(decodeValue(cell.value, cell.value_type));
+    });
+    return { sheet, rows, usedRows, usedCols };
+}
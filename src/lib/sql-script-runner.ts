@@ -6,8 +6,16 @@ import * as fs from 'fs/promises';
 import * as _path from 'path'; // Use _path to avoid conflict with any path variable
 import type { OutputLine } from '@/components/output-display';
 import type { LogEntry } from '@/types/log-types';
-import { runSql } from '@/lib/database';
-import { formatResultsAsTable } from '@/lib/formatting';
+import { runSqlBatch } from '@/lib/database';
+import type { SqlBatchStatement } from '@/lib/database';
+import { getVariableFromDb } from '@/lib/variables';
+import { formatResultsAsTable, formatResultsAsTableData } from '@/lib/formatting';
+import { splitSqlStatements, findSqlParameters } from '@/lib/sql-splitter';
+import { getUserPermissions } from '@/lib/permissions';
+import { GUEST_USER_ID, getSession, readSessionCookie } from '@/lib/sessions';
+import { getActiveElevation, recordElevationUse } from '@/lib/elevations';
+import { canAccess, evaluatePolicy, formatPermissionDenied, type PolicyContext, type PolicyDecision } from '@/lib/policy';
+import { recordAuditEvent } from '@/lib/audit';
 
 interface ExecuteSqlScriptResult {
   outputLines: OutputLine[];
@@ -15,14 +23,70 @@ interface ExecuteSqlScriptResult {
   error?: string;
 }
 
+interface SqlScriptOptions {
+  atomic: boolean; // Single transaction, rolled back on any error
+  stopOnError: boolean; // Skip the remaining statements after the first error
+  dryRun: boolean; // Single transaction, always rolled back
+}
+
 const SQL_SCRIPTS_DIR = _path.join(process.cwd(), 'src', 'sql-scripts');
+const SQL_SCRIPT_OPTIONS = ['--atomic', '--stop-on-error', '--dry-run'];
+
+interface SqlScriptArguments {
+  options: SqlScriptOptions;
+  params: Record<string, string | number>; // Named parameter values keyed without the ':'/'@' prefix
+}
+
+/**
+ * Parses the option flags and `name=value` parameters following the script name.
+ * Values may be quoted (since="2025-01-01 10:00"); numeric values are bound as numbers.
+ * @throws Throws an error naming the first unknown option or malformed argument.
+ */
+function parseSqlScriptArguments(argumentText: string): SqlScriptArguments {
+  const options: SqlScriptOptions = { atomic: false, stopOnError: false, dryRun: false };
+  const params: Record<string, string | number> = {};
+  const tokens = argumentText.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [];
+  for (const token of tokens) {
+    if (token.startsWith('--')) {
+      switch (token.toLowerCase()) {
+        case '--atomic': options.atomic = true; break;
+        case '--stop-on-error': options.stopOnError = true; break;
+        case '--dry-run': options.dryRun = true; break;
+        default: throw new Error(`Unknown option '${token}'. Supported options: ${SQL_SCRIPT_OPTIONS.join(', ')}.`);
+      }
+      continue;
+    }
+    const paramMatch = token.match(/^[:@$]?([a-zA-Z_]\w*)=([\s\S]*)$/);
+    if (!paramMatch) {
+      throw new Error(`Invalid argument '${token}'. Use name=value for parameters or one of: ${SQL_SCRIPT_OPTIONS.join(', ')}.`);
+    }
+    const rawValue = paramMatch[2];
+    const quoted = rawValue.match(/^"([\s\S]*)"$|^'([\s\S]*)'$/);
+    if (quoted) {
+      params[paramMatch[1]] = quoted[1] ?? quoted[2];
+    } else {
+      params[paramMatch[1]] = /^-?\d+(\.\d+)?$/.test(rawValue) ? Number(rawValue) : rawValue;
+    }
+  }
+  return { options, params };
+}
 
 /**
  * Reads an SQL script file, parses its commands, and executes them sequentially.
+ * By default every statement runs even if an earlier one failed. `--stop-on-error` skips the
+ * statements after the first failure, `--atomic` runs the script in one transaction that is
+ * rolled back on any failure, and `--dry-run` runs it in a transaction that is always rolled back.
+ * `name=value` arguments bind the named parameters `:name`, `@name` and `$name`, and `{varname}`
+ * references are replaced with values from the variables table. If anything is left unbound,
+ * no statement runs.
+ * The SQL panel calls this directly rather than through executeCommand, so it reads the user from the
+ * session cookie itself and checks every statement, with its {varname} values substituted, against the
+ * permission policy before any of them runs; denials, elevated statements and the run itself go to the audit trail.
  * @param filename - The name of the SQL script file (e.g., 'list_all_tables.sql').
+ * @param argumentText - Options and parameters following the filename (e.g., '--atomic user_id=3').
  * @returns A promise that resolves to an object containing output lines and log entries.
  */
-export async function executeSqlScript(filename: string): Promise<ExecuteSqlScriptResult> {
+export async function executeSqlScript(filename: string, argumentText: string = ''): Promise<ExecuteSqlScriptResult> {
   const timestamp = new Date().toISOString();
   let outputLines: OutputLine[] = [];
   let logEntries: LogEntry[] = [];
@@ -52,14 +116,25 @@ export async function executeSqlScript(filename: string): Promise<ExecuteSqlScri
   }
   // --- End Security Check ---
 
+  let options: SqlScriptOptions;
+  let params: Record<string, string | number>;
+  try {
+    ({ options, params } = parseSqlScriptArguments(argumentText));
+  } catch (error) {
+    const errorMsg = `Error: ${error instanceof Error ? error.message : 'Invalid arguments.'}`;
+    logEntries.push({ timestamp, type: 'E', flag: 1, text: errorMsg });
+    return {
+      outputLines: [{ id: `sql-script-invalid-option-${timestamp}`, text: errorMsg, type: 'error', category: 'sql', timestamp, flag: 1 }],
+      newLogEntries: logEntries,
+      error: errorMsg,
+    };
+  }
+  const modeLabel = options.dryRun ? 'dry run' : options.atomic ? 'atomic' : options.stopOnError ? 'stop on error' : 'continue on error';
+
   try {
     const fileContent = await fs.readFile(filePath, 'utf-8');
-    // Basic SQL command splitting (assumes commands are separated by ';')
-    // This may need to be more robust for complex SQL with semicolons in strings/comments.
-    const commands = fileContent
-      .split(';')
-      .map(cmd => cmd.trim())
-      .filter(cmd => cmd.length > 0);
+    // Quote-, comment- and trigger-aware splitting; each statement keeps its starting line number
+    const commands = splitSqlStatements(fileContent);
 
     if (commands.length === 0) {
       const infoMsg = `SQL script '${filename}' is empty or contains no valid commands.`;
@@ -67,58 +142,188 @@ export async function executeSqlScript(filename: string): Promise<ExecuteSqlScri
       logEntries.push({ timestamp, type: 'I', flag: 0, text: infoMsg });
       return { outputLines, newLogEntries: logEntries };
     }
+
+    const sessionToken = await readSessionCookie();
+    const session = sessionToken ? await getSession(sessionToken) : null;
+    const userId = session?.userId ?? GUEST_USER_ID;
+    const permResult = userId !== GUEST_USER_ID ? await getUserPermissions(userId) : [];
+    const policyContext: PolicyContext = {
+      userPermissions: Array.isArray(permResult) ? permResult : [],
+      elevation: session ? await getActiveElevation(sessionToken!) : null,
+    };
+    const denyScript = async (reason: string, details: Record<string, unknown>): Promise<ExecuteSqlScriptResult> => {
+      const errorMsg = `Error: SQL script '${filename}' was not run. ${reason}`;
+      await recordAuditEvent({ actorId: userId, action: 'permission.denied', target: `@sql:${filename}`, outcome: 'denied', details });
+      outputLines.push({ id: `sql-script-perm-denied-${timestamp}`, text: errorMsg, type: 'error', category: 'sql', timestamp, flag: 1 });
+      logEntries.push({ timestamp, type: 'E', flag: 1, text: `${errorMsg} (User: ${userId})` });
+      return { outputLines, newLogEntries: logEntries, error: errorMsg };
+    };
+
+    // --- {varname} references need read_variables, checked before any variable is looked up ---
+    if (commands.some(command => /\{[a-zA-Z_]\w*\}/.test(command.text)) && !canAccess('variables:read', policyContext)) {
+      return denyScript(formatPermissionDenied('Reading variables', 'variables:read'), { mode: 'sql', permission: 'read_variables', resource: 'variables:read' });
+    }
     
-    outputLines.push({ id: `sql-script-start-${timestamp}`, text: `Executing SQL script: ${filename}`, type: 'info', category: 'sql', timestamp, flag: 0 });
-    logEntries.push({ timestamp, type: 'I', flag: 0, text: `Started executing SQL script: ${filename}` });
+    // --- Bind {varname} references and named parameters before anything runs ---
+    const variableValues = new Map<string, string | null>();
+    for (const command of commands) {
+      for (const match of Array.from(command.text.matchAll(/\{([a-zA-Z_]\w*)\}/g))) {
+        if (!variableValues.has(match[1])) {
+          const variable = await getVariableFromDb(match[1]);
+          variableValues.set(match[1], variable ? variable.value : null);
+        }
+      }
+    }
+    const unbound: string[] = [];
+    const usedParams = new Set<string>();
+    const statements: SqlBatchStatement[] = commands.map(command => {
+      const text = command.text.replace(/\{([a-zA-Z_]\w*)\}/g, (placeholder, name: string) => {
+        const value = variableValues.get(name);
+        if (value === null || value === undefined) {
+          unbound.push(`${placeholder} (line ${command.line}, variable not found)`);
+          return placeholder;
+        }
+        return value;
+      });
+      const bindings: Record<string, string | number> = {};
+      for (const parameter of findSqlParameters(text)) {
+        const name = parameter.slice(1);
+        if (Object.prototype.hasOwnProperty.call(params, name)) {
+          bindings[name] = params[name];
+          usedParams.add(name);
+        } else {
+          unbound.push(`${parameter} (line ${command.line})`);
+        }
+      }
+      return { sql: text, params: Object.keys(bindings).length > 0 ? [bindings] : [] };
+    });
 
+    // --- Permission checks for every statement, on the text that runs ({varname} values substituted) ---
+    const decisions: PolicyDecision[] = statements.map(statement => evaluatePolicy('sql', statement.sql, policyContext));
+    const deniedIndex = decisions.findIndex(decision => !decision.allowed);
+    if (deniedIndex >= 0) {
+      const denied = decisions[deniedIndex];
+      return denyScript(`${denied.message} (line ${commands[deniedIndex].line})`, { mode: 'sql', permission: denied.permission, resource: denied.rule.resource, line: commands[deniedIndex].line });
+    }
+
+    if (unbound.length > 0) {
+      const errorMsg = `Error: SQL script '${filename}' has unbound parameters; no statements were executed. Missing: ${unbound.join(', ')}`;
+      outputLines.push({ id: `sql-script-unbound-${timestamp}`, text: errorMsg, type: 'error', category: 'sql', timestamp, flag: 1 });
+      logEntries.push({ timestamp, type: 'E', flag: 1, text: errorMsg });
+      return { outputLines, newLogEntries: logEntries, error: errorMsg };
+    }
+
+    const { elevation } = policyContext;
+    const elevatedIndexes = decisions.flatMap((decision, i) => decision.elevated ? [i] : []);
+    if (elevation && elevatedIndexes.length > 0) {
+      for (const i of elevatedIndexes) {
+        await recordElevationUse(elevation, userId, 'sql', statements[i].sql, decisions[i].permission!);
+        await recordAuditEvent({ actorId: userId, action: 'elevation.use', target: statements[i].sql, outcome: 'success', details: { mode: 'sql', permission: decisions[i].permission, elevationId: elevation.elevationId, script: filename } });
+      }
+      const warningMsg = `Elevated: ${elevatedIndexes.length} statement(s) of '${filename}' run with permissions granted by elevation #${elevation.elevationId} (expires ${elevation.expiresAt}). Each use is recorded.`;
+      outputLines.push({ id: `elevation-used-${timestamp}`, text: warningMsg, type: 'warning', category: 'sql', timestamp, flag: 1 });
+      logEntries.push({ timestamp, type: 'W', flag: 1, text: `${warningMsg} (User: ${userId})` });
+    }
+
+    outputLines.push({ id: `sql-script-start-${timestamp}`, text: `Executing SQL script: ${filename} (${modeLabel})`, type: 'info', category: 'sql', timestamp, flag: 0 });
+    logEntries.push({ timestamp, type: 'I', flag: 0, text: `Started executing SQL script: ${filename} (${modeLabel})${Object.keys(params).length > 0 ? ` with parameters: ${JSON.stringify(params)}` : ''}` });
+    const unusedParams = Object.keys(params).filter(name => !usedParams.has(name));
+    if (unusedParams.length > 0) {
+      const warningMsg = `Warning: Parameter(s) not used by the script: ${unusedParams.join(', ')}`;
+      outputLines.push({ id: `sql-script-unused-params-${timestamp}`, text: warningMsg, type: 'warning', category: 'sql', timestamp, flag: 1 });
+      logEntries.push({ timestamp, type: 'W', flag: 1, text: warningMsg });
+    }
+
+    // All statements run in one synchronous batch so a transaction cannot interleave with other requests
+    const batch = await runSqlBatch(statements, {
+      transaction: options.atomic,
+      rollback: options.dryRun,
+      stopOnError: options.stopOnError,
+    });
+    const cmdTimestamp = new Date().toISOString();
+    const summaryRows: Record<string, unknown>[] = [];
+    let totalRowsAffected = 0;
+    let failedCount = 0;
 
     for (let i = 0; i < commands.length; i++) {
-      const commandText = commands[i];
-      const cmdTimestamp = new Date().toISOString();
+      const { line } = commands[i];
+      const commandText = statements[i].sql;
+      const { status, results, changes, lastInsertRowid, error } = batch.statementResults[i];
       
+      summaryRows.push({
+        '#': i + 1,
+        line,
+        status,
+        rows_affected: changes,
+        statement: commandText.replace(/\s+/g, ' ').substring(0, 50),
+      });
+      if (status === 'skipped') continue;
+
       // Add the command itself to outputLines, as type 'output' to avoid '$' prefix
       outputLines.push({
         id: `sql-script-cmd-${i}-${cmdTimestamp}`,
-        text: commandText,
+        text: `-- line ${line}\n${commandText}`,
         type: 'output', // Changed from 'command'
         category: 'sql',
         timestamp: cmdTimestamp, // Keep timestamp for context if needed
       });
 
-      try {
-        const { results, changes, lastInsertRowid } = await runSql(commandText);
-        let commandLogText = `SQL script '${filename}', command ${i + 1}/${commands.length}: ${commandText}`;
-
-        if (results) {
-          const formattedTable = await formatResultsAsTable(results);
-          const resultOutput = formattedTable || '(0 rows)';
-          outputLines.push({ id: `sql-script-res-${i}-${cmdTimestamp}`, text: resultOutput, type: 'output', category: 'sql', timestamp: undefined });
-          commandLogText += ` | Result: ${results.length} row(s).`;
-        } else if (changes !== null) {
-          let infoText = `Query executed successfully. ${changes} row${changes === 1 ? '' : 's'} affected.`;
-          if (lastInsertRowid !== null && lastInsertRowid > 0) {
-            infoText += ` Last inserted row ID: ${lastInsertRowid}`;
-          }
-          outputLines.push({ id: `sql-script-info-${i}-${cmdTimestamp}`, text: infoText, type: 'info', category: 'sql', timestamp: cmdTimestamp, flag: 0 });
-           commandLogText += ` | Info: ${infoText}`;
-        } else {
-          const successMsg = "Query executed successfully.";
-          outputLines.push({ id: `sql-script-ok-${i}-${cmdTimestamp}`, text: successMsg, type: 'info', category: 'sql', timestamp: cmdTimestamp, flag: 0 });
-           commandLogText += ` | Info: ${successMsg}`;
-        }
-        logEntries.push({ timestamp: cmdTimestamp, type: 'I', flag: 0, text: commandLogText });
-
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown SQL execution error';
-        const detailedError = `Error in SQL script '${filename}', command ${i + 1} ('${commandText.substring(0,50)}...'): ${errorMsg}`;
+      if (status === 'error') {
+        failedCount++;
+        const detailedError = `Error in SQL script '${filename}' at line ${line}, command ${i + 1} ('${commandText.substring(0,50)}...'): ${error}`;
         outputLines.push({ id: `sql-script-err-${i}-${cmdTimestamp}`, text: detailedError, type: 'error', category: 'sql', timestamp: cmdTimestamp, flag: 1 }); // Error flag
         logEntries.push({ timestamp: cmdTimestamp, type: 'E', flag: 1, text: detailedError }); // Error flag
-        // Optionally, decide if script execution should stop on error
-        // For now, it continues to the next command.
+        continue;
       }
+
+      let commandLogText = `SQL script '${filename}', command ${i + 1}/${commands.length} (line ${line}): ${commandText}`;
+      if (results) {
+        const formattedTable = await formatResultsAsTable(results);
+        const resultOutput = formattedTable || '(0 rows)';
+        const tableData = await formatResultsAsTableData(results);
+        outputLines.push({ id: `sql-script-res-${i}-${cmdTimestamp}`, text: resultOutput, table: tableData ?? undefined, type: 'output', category: 'sql', timestamp: undefined });
+        commandLogText += ` | Result: ${results.length} row(s).`;
+      } else if (changes !== null) {
+        totalRowsAffected += changes;
+        let infoText = `Query executed successfully. ${changes} row${changes === 1 ? '' : 's'} affected.`;
+        if (lastInsertRowid !== null && lastInsertRowid > 0) {
+          infoText += ` Last inserted row ID: ${lastInsertRowid}`;
+        }
+        outputLines.push({ id: `sql-script-info-${i}-${cmdTimestamp}`, text: infoText, type: 'info', category: 'sql', timestamp: cmdTimestamp, flag: 0 });
+         commandLogText += ` | Info: ${infoText}`;
+      } else {
+        const successMsg = "Query executed successfully.";
+        outputLines.push({ id: `sql-script-ok-${i}-${cmdTimestamp}`, text: successMsg, type: 'info', category: 'sql', timestamp: cmdTimestamp, flag: 0 });
+         commandLogText += ` | Info: ${successMsg}`;
+      }
+      logEntries.push({ timestamp: cmdTimestamp, type: 'I', flag: 0, text: commandLogText });
     }
-    logEntries.push({ timestamp: new Date().toISOString(), type: 'I', flag: 0, text: `Finished executing SQL script: ${filename}` });
 
+    // --- Summary: per-statement status and total rows affected ---
+    const skippedCount = batch.statementResults.filter(result => result.status === 'skipped').length;
+    let summaryText = `Summary for '${filename}': ${commands.length - failedCount - skippedCount} succeeded, ${failedCount} failed, ${skippedCount} skipped. `;
+    if (options.dryRun) {
+      summaryText += `Dry run: ${totalRowsAffected} row(s) would be affected; all changes were rolled back.`;
+    } else if (batch.transaction === 'rolled_back') {
+      summaryText += `Transaction rolled back; no changes were applied (${totalRowsAffected} row(s) affected before the error).`;
+    } else {
+      summaryText += `Total rows affected: ${totalRowsAffected}.`;
+    }
+    const summaryIsError = failedCount > 0;
+    outputLines.push({ id: `sql-script-summary-table-${cmdTimestamp}`, text: (await formatResultsAsTable(summaryRows)) ?? '', type: 'output', category: 'sql', timestamp: undefined });
+    outputLines.push({ id: `sql-script-summary-${cmdTimestamp}`, text: summaryText, type: summaryIsError ? 'warning' : 'info', category: 'sql', timestamp: cmdTimestamp, flag: summaryIsError ? 1 : 0 });
+    logEntries.push({ timestamp: new Date().toISOString(), type: summaryIsError ? 'W' : 'I', flag: summaryIsError ? 1 : 0, text: `Finished executing SQL script: ${filename}. ${summaryText}` });
+    await recordAuditEvent({
+      actorId: userId,
+      action: 'sql.script',
+      target: `@sql:${filename}`,
+      outcome: failedCount > 0 ? 'failure' : 'success',
+      details: { mode: modeLabel, params, succeeded: commands.length - failedCount - skippedCount, failed: failedCount, skipped: skippedCount, rowsAffected: totalRowsAffected },
+    });
+
+    if (failedCount > 0 && (options.atomic || options.dryRun || options.stopOnError)) {
+      return { outputLines, newLogEntries: logEntries, error: summaryText };
+    }
   } catch (error) {
     const errorMsg = `Error processing SQL script '${filename}': ${error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'File not found.' : (error instanceof Error ? error.message : 'Unknown error')}`;
     outputLines.push({ id: `sql-script-proc-err-${timestamp}`, text: errorMsg, type: 'error', category: 'sql', timestamp, flag: 1 }); // Error flag
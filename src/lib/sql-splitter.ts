@@ -0,0 +1,223 @@
+// src/lib/sql-splitter.ts
+/**
+ * @fileOverview Splits SQL script text into individual statements.
+ * Semicolons inside string literals, quoted identifiers, comments and
+ * CREATE TRIGGER ... BEGIN ... END bodies do not end a statement.
+ * Also finds the named parameters (:name, @name, $name) a statement uses, and the keywords and
+ * names it contains, which the permission policy (policy.ts) matches against.
+ */
+
+export interface SqlStatement {
+    text: string; // Statement text without the terminating ';'
+    line: number; // 1-based source line where the statement starts
+}
+
+/**
+ * Splits `source` into statements, skipping whitespace- and comment-only fragments.
+ * Unterminated quotes or comments extend to the end of the input, so the database
+ * reports the syntax error for that statement.
+ * @param source - The SQL script text.
+ * @returns The statements in source order with their starting line numbers.
+ */
+export function splitSqlStatements(source: string): SqlStatement[] {
+    const statements: SqlStatement[] = [];
+    let line = 1;
+    let statementStart = -1; // Index of the first significant character of the current statement
+    let statementLine = 1;
+    let words: string[] = []; // Leading keywords of the current statement, used to detect triggers
+    let isTrigger = false;
+    let blockDepth = 0; // BEGIN/CASE ... END nesting inside a trigger body
+
+    const markSignificant = (index: number) => {
+        if (statementStart < 0) {
+            statementStart = index;
+            statementLine = line;
+        }
+    };
+    const finishStatement = (endIndex: number) => {
+        if (statementStart >= 0) {
+            const text = source.slice(statementStart, endIndex).trim();
+            if (text) statements.push({ text, line: statementLine });
+        }
+        statementStart = -1;
+        words = [];
+        isTrigger = false;
+        blockDepth = 0;
+    };
+    // Skips to just past `terminator`, counting newlines; returns the new index (or end of input)
+    const skipPast = (from: number, terminator: string): number => {
+        const end = source.indexOf(terminator, from);
+        const stop = end < 0 ? source.length : end + terminator.length;
+        for (let j = from; j < stop; j++) if (source[j] === '\n') line++;
+        return stop;
+    };
+
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        const next = source[i + 1];
+
+        if (char === '\n') { line++; i++; continue; }
+        if (/\s/.test(char)) { i++; continue; }
+
+        if (char === '-' && next === '-') {
+            const end = source.indexOf('\n', i);
+            i = end < 0 ? source.length : end; // Newline is counted by the main loop
+            continue;
+        }
+        if (char === '/' && next === '*') {
+            i = skipPast(i + 2, '*/');
+            continue;
+        }
+
+        markSignificant(i);
+
+        if (char === "'" || char === '"' || char === '`') {
+            // Doubled quotes ('It''s') are two adjacent literals as far as splitting is concerned
+            i = skipPast(i + 1, char);
+            continue;
+        }
+        if (char === '[') {
+            i = skipPast(i + 1, ']');
+            continue;
+        }
+        if (char === ';') {
+            if (isTrigger && blockDepth > 0) { i++; continue; }
+            finishStatement(i);
+            i++;
+            continue;
+        }
+
+        const wordMatch = /^[A-Za-z_][\w$]*/.exec(source.slice(i, i + 64));
+        if (wordMatch) {
+            const word = wordMatch[0].toUpperCase();
+            if (words.length < 6) {
+                words.push(word);
+                // CREATE [TEMP|TEMPORARY] TRIGGER ...
+                if (words[0] === 'CREATE' && (words[1] === 'TRIGGER' || ((words[1] === 'TEMP' || words[1] === 'TEMPORARY') && words[2] === 'TRIGGER'))) {
+                    isTrigger = true;
+                }
+            }
+            if (isTrigger) {
+                if (word === 'BEGIN' || word === 'CASE') blockDepth++;
+                else if (word === 'END' && blockDepth > 0) blockDepth--;
+            }
+            i += wordMatch[0].length;
+            continue;
+        }
+        i++;
+    }
+    finishStatement(source.length);
+    return statements;
+}
+
+/**
+ * Lists the named parameters referenced by a single statement, ignoring string literals,
+ * quoted identifiers and comments.
+ * @param statement - The statement text.
+ * @returns Unique parameter references in order of first use, with their prefix (e.g. ':user_id').
+ */
+export function findSqlParameters(statement: string): string[] {
+    const parameters: string[] = [];
+    let i = 0;
+    while (i < statement.length) {
+        const char = statement[i];
+        const next = statement[i + 1];
+
+        if (char === '-' && next === '-') {
+            const end = statement.indexOf('\n', i);
+            i = end < 0 ? statement.length : end + 1;
+            continue;
+        }
+        if (char === '/' && next === '*') {
+            const end = statement.indexOf('*/', i + 2);
+            i = end < 0 ? statement.length : end + 2;
+            continue;
+        }
+        if (char === "'" || char === '"' || char === '`' || char === '[') {
+            const end = statement.indexOf(char === '[' ? ']' : char, i + 1);
+            i = end < 0 ? statement.length : end + 1;
+            continue;
+        }
+        if (char === ':' || char === '@' || char === '$') {
+            const nameMatch = /^[A-Za-z_]\w*/.exec(statement.slice(i + 1, i + 65));
+            if (nameMatch) {
+                const parameter = char + nameMatch[0];
+                if (!parameters.includes(parameter)) parameters.push(parameter);
+                i += 1 + nameMatch[0].length;
+                continue;
+            }
+        }
+        i++;
+    }
+    return parameters;
+}
+
+export interface SqlStatementWords {
+    keywords: string[]; // Unquoted words in order, lower-case; words used as function names (replace(...)) are left out
+    names: Set<string>; // Every unquoted word and quoted identifier, lower-case; 'main.users' gives 'main' and 'users'
+}
+
+/** Keywords of statements that change the database, its schema or the connection. */
+const WRITE_KEYWORDS = new Set([
+    'insert', 'update', 'delete', 'replace', 'upsert', 'create', 'drop', 'alter', 'attach', 'detach',
+    'pragma', 'vacuum', 'reindex', 'analyze', 'begin', 'commit', 'rollback', 'savepoint', 'release',
+]);
+
+/**
+ * Reads the words of SQL text with comments and string literals removed and identifier quoting
+ * ("x", `x`, [x]) undone: DROP, a comment, TABLE and "Audit_Events" read as drop, table, audit_events.
+ * @param statement - One statement, or several; the words of all of them are returned.
+ */
+export function readSqlWords(statement: string): SqlStatementWords {
+    const keywords: string[] = [];
+    const names = new Set<string>();
+    let i = 0;
+    while (i < statement.length) {
+        const char = statement[i];
+        const next = statement[i + 1];
+
+        if (char === '-' && next === '-') {
+            const end = statement.indexOf('\n', i);
+            i = end < 0 ? statement.length : end + 1;
+            continue;
+        }
+        if (char === '/' && next === '*') {
+            const end = statement.indexOf('*/', i + 2);
+            i = end < 0 ? statement.length : end + 2;
+            continue;
+        }
+        if (char === "'") {
+            // Doubled quotes ('It''s') read as two adjacent literals, which is fine here
+            const end = statement.indexOf("'", i + 1);
+            i = end < 0 ? statement.length : end + 1;
+            continue;
+        }
+        if (char === '"' || char === '`' || char === '[') {
+            const end = statement.indexOf(char === '[' ? ']' : char, i + 1);
+            const identifier = statement.slice(i + 1, end < 0 ? statement.length : end);
+            names.add(identifier.trim().toLowerCase());
+            i = end < 0 ? statement.length : end + 1;
+            continue;
+        }
+        const wordMatch = /^[A-Za-z_][\w$]*/.exec(statement.slice(i, i + 128));
+        if (wordMatch && !/[\w$]/.test(statement[i - 1] ?? '')) {
+            const word = wordMatch[0].toLowerCase();
+            names.add(word);
+            i += wordMatch[0].length;
+            if (!/^\s*\(/.test(statement.slice(i, i + 64))) keywords.push(word);
+            continue;
+        }
+        i++;
+    }
+    return { keywords, names };
+}
+
+/**
+ * Whether SQL text only reads: it starts with SELECT or WITH and has no keyword of a statement
+ * that writes (so `WITH x AS (...) DELETE ...` does not count).
+ */
+export function isReadOnlySql(statement: string | SqlStatementWords): boolean {
+    const { keywords } = typeof statement === 'string' ? readSqlWords(statement) : statement;
+    return (keywords[0] === 'select' || keywords[0] === 'with') && !keywords.some(word => WRITE_KEYWORDS.has(word));
+}
@@ -0,0 +1,313 @@
+// src/lib/typescript-runner.ts
+'use server';
+
+import ts from 'typescript';
+import * as path from 'path';
+import * as util from 'util';
+import * as vm from 'vm';
+import { runSql } from './database';
+
+export interface TypeScriptConsoleEntry {
+    level: 'log' | 'info' | 'debug' | 'warn' | 'error';
+    text: string;
+}
+
+export interface TypeScriptVariable {
+    name: string;
+    datatype: string; // 'integer' | 'real' | 'boolean' | 'string' | 'none'
+    value: string;
+}
+
+export interface TypeScriptRunResult {
+    consoleEntries: TypeScriptConsoleEntry[];
+    resultText: string | null; // Inspected completion value of the snippet, if any
+    typeErrors: string[]; // Compiler diagnostics; the snippet is not executed when present
+    runtimeError: string | null;
+    changedVariables: TypeScriptVariable[]; // Entries of `vars` created or modified by this run
+}
+
+export interface TypeScriptRunOptions {
+    readVariables?: boolean; // Expose the 'variables' table to the snippet as `vars`
+}
+
+const TS_TIMEOUT_MS = parseInt(process.env.SIMSHELL_TS_TIMEOUT_MS || '', 10) || 5_000;
+const SNIPPET_FILE = 'simshell-snippet.ts';
+const DECLARATIONS_FILE = 'simshell-session.d.ts';
+const GLOBALS_FILE = 'simshell-globals.d.ts';
+
+/**
+ * Ambient declarations for what the REPL context provides. Node and DOM globals are
+ * intentionally absent: snippets run in a separate `vm` context (see createSession).
+ */
+const GLOBALS_SOURCE = `
+interface SimShellConsole {
+    log(...data: any[]): void;
+    info(...data: any[]): void;
+    debug(...data: any[]): void;
+    warn(...data: any[]): void;
+    error(...data: any[]): void;
+}
+declare const console: SimShellConsole;
+/** Values from the SimShell 'variables' table. Assigned entries are stored back after the command. */
+declare const vars: Record<string, any>;
+`;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    lib: ['lib.es2020.d.ts'],
+    strict: true,
+    declaration: true,
+    emitDeclarationOnly: true, // Only used to carry accepted snippets' declarations forward (see acceptSnippet)
+    types: [],
+};
+
+/** Functions created inside a session's context; the host only ever calls them with primitives. */
+interface ContextBridge {
+    takeConsoleEntries(): { level: TypeScriptConsoleEntry['level']; data: unknown[] }[];
+    resetVars(): void;
+    setVar(name: string, value: unknown): void;
+    settle(value: unknown, onSettled: (fulfilled: boolean, value: unknown) => void): void;
+}
+
+/**
+ * Runs once in every new context, before any snippet. Everything a snippet can reach (console,
+ * vars, promise handling) is created here, in the context's own realm: a host-realm function
+ * would hand out the server's `Function` (e.g. `console.log.constructor('return process')()`).
+ */
+const BRIDGE_SOURCE = `'use strict';
+(() => {
+    const apply = Reflect.apply;
+    const NativePromise = Promise;
+    const promiseThen = Promise.prototype.then;
+    let entries = [];
+    const capture = (level) => (...data) => { entries[entries.length] = { level, data }; };
+    globalThis.console = { log: capture('log'), info: capture('info'), debug: capture('debug'), warn: capture('warn'), error: capture('error') };
+    globalThis.vars = {};
+    return {
+        takeConsoleEntries: () => { const taken = entries; entries = []; return taken; },
+        resetVars: () => { globalThis.vars = {}; },
+        setVar: (name, value) => { globalThis.vars[name] = value; },
+        // onSettled is a host function: it stays in these closures and only ever receives context values
+        settle: (value, onSettled) => {
+            apply(promiseThen, new NativePromise((resolve) => resolve(value)), [
+                (result) => { onSettled(true, result); },
+                (error) => { onSettled(false, error); },
+            ]);
+        },
+    };
+})()`;
+
+// Snippet values are inspected without running their custom inspect hooks, which would receive host objects
+const INSPECT_OPTIONS: util.InspectOptions = { customInspect: false };
+
+interface TypeScriptSession {
+    context: vm.Context;
+    bridge: ContextBridge;
+    declarations: string; // Declaration output of the snippets that passed type checking, in order
+    declarationsFile?: ts.SourceFile; // `declarations` parsed, until the next snippet is accepted
+    program?: ts.Program;
+}
+
+const sessions = new Map<number, TypeScriptSession>();
+const libSourceFiles = new Map<string, ts.SourceFile>(); // Parsed once per server process
+
+/**
+ * Creates a REPL context. The sandbox object has no prototype, so the context's global object
+ * does not lead back to the host's `Object` (and from there to its `Function`), and code
+ * generation from strings is disabled inside it.
+ * This narrows what a snippet can reach, but `vm` is not a security boundary: the
+ * 'execute_typescript_code' permission should only be granted to users trusted to run code on the server.
+ */
+function createSession(): TypeScriptSession {
+    const context = vm.createContext(Object.create(null), { name: 'SimShell TypeScript REPL', codeGeneration: { strings: false, wasm: false } });
+    const bridge = vm.runInContext(BRIDGE_SOURCE, context) as ContextBridge;
+    return { context, bridge, declarations: '' };
+}
+
+/**
+ * Formats and removes the console output captured in the session's context.
+ */
+function takeConsoleEntries(session: TypeScriptSession): TypeScriptConsoleEntry[] {
+    const taken = session.bridge.takeConsoleEntries();
+    const consoleEntries: TypeScriptConsoleEntry[] = [];
+    for (let i = 0; i < taken.length; i++) {
+        consoleEntries.push({ level: taken[i].level, text: util.formatWithOptions(INSPECT_OPTIONS, ...taken[i].data) });
+    }
+    return consoleEntries;
+}
+
+/**
+ * Type-checks `snippet` against the declarations of the session's accepted snippets, so only
+ * the new snippet is checked and earlier statements are not re-run through the compiler.
+ * Returns formatted diagnostics that fall inside the new snippet.
+ */
+function typeCheckSnippet(session: TypeScriptSession, snippet: string): string[] {
+    const host = ts.createCompilerHost(COMPILER_OPTIONS);
+    const defaultGetSourceFile = host.getSourceFile.bind(host);
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+        const baseName = path.basename(fileName);
+        if (baseName === SNIPPET_FILE) return ts.createSourceFile(fileName, snippet + '\n', languageVersion, true);
+        if (baseName === DECLARATIONS_FILE) {
+            session.declarationsFile ??= ts.createSourceFile(fileName, session.declarations, languageVersion, true);
+            return session.declarationsFile;
+        }
+        if (baseName === GLOBALS_FILE) return ts.createSourceFile(fileName, GLOBALS_SOURCE, languageVersion, true);
+        const cached = libSourceFiles.get(fileName);
+        if (cached) return cached;
+        const sourceFile = defaultGetSourceFile(fileName, languageVersion, onError, shouldCreate);
+        if (sourceFile) libSourceFiles.set(fileName, sourceFile);
+        return sourceFile;
+    };
+    const defaultFileExists = host.fileExists.bind(host);
+    host.fileExists = (fileName) => [SNIPPET_FILE, DECLARATIONS_FILE, GLOBALS_FILE].includes(path.basename(fileName)) || defaultFileExists(fileName);
+    host.writeFile = () => undefined;
+
+    const program = ts.createProgram([GLOBALS_FILE, DECLARATIONS_FILE, SNIPPET_FILE], COMPILER_OPTIONS, host, session.program);
+    session.program = program;
+    const snippetFile = program.getSourceFile(SNIPPET_FILE);
+    if (!snippetFile) return ['Internal error: REPL source file could not be created.'];
+
+    if (ts.isExternalModule(snippetFile)) {
+        return ['import/export statements are not supported in the SimShell REPL.'];
+    }
+
+    const diagnostics = [...program.getSyntacticDiagnostics(snippetFile), ...program.getSemanticDiagnostics(snippetFile)];
+    return diagnostics.map(diagnostic => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        if (diagnostic.start === undefined) return `TS${diagnostic.code}: ${message}`;
+        const { line, character } = snippetFile.getLineAndCharacterOfPosition(diagnostic.start);
+        return `TS${diagnostic.code} (${line + 1},${character + 1}): ${message}`;
+    });
+}
+
+/**
+ * Adds the declarations of the snippet that typeCheckSnippet just accepted (e.g. `declare let x: number;`)
+ * to the session, so later snippets see its top-level names without its statements.
+ */
+function acceptSnippet(session: TypeScriptSession): void {
+    const program = session.program;
+    const snippetFile = program?.getSourceFile(SNIPPET_FILE);
+    if (!program || !snippetFile) return;
+    let emitted = '';
+    program.emit(snippetFile, (_fileName, text) => { emitted += text; }, undefined, true);
+    if (!emitted.trim()) return;
+    session.declarations += emitted.endsWith('\n') ? emitted : `${emitted}\n`;
+    session.declarationsFile = undefined;
+}
+
+/**
+ * Converts a value from the 'variables' table into a JS value for `vars`.
+ */
+function fromStoredVariable(datatype: string, value: string | null): unknown {
+    if (value === null) return null;
+    switch (datatype) {
+        case 'integer':
+        case 'real': {
+            const numeric = Number(value);
+            return isNaN(numeric) ? value : numeric;
+        }
+        case 'boolean': return value === 'True' || value === 'true' || value === '1';
+        case 'none': return null;
+        default: return value;
+    }
+}
+
+/**
+ * Converts a JS value assigned to `vars` into a ('variables' table) datatype and text value.
+ */
+function toStoredVariable(value: unknown): { datatype: string; value: string } {
+    if (value === null || value === undefined) return { datatype: 'none', value: 'None' };
+    if (typeof value === 'boolean') return { datatype: 'boolean', value: value ? 'True' : 'False' };
+    if (typeof value === 'number') return { datatype: Number.isInteger(value) ? 'integer' : 'real', value: String(value) };
+    if (typeof value === 'string') return { datatype: 'string', value };
+    try {
+        return { datatype: 'string', value: JSON.stringify(value) };
+    } catch {
+        return { datatype: 'string', value: String(value) };
+    }
+}
+
+async function loadVariables(): Promise<Record<string, unknown>> {
+    try {
+        const { results } = await runSql('SELECT name, datatype, value FROM variables');
+        const variables: Record<string, unknown> = {};
+        (results || []).forEach((row: any) => {
+            variables[row.name] = fromStoredVariable(row.datatype, row.value);
+        });
+        return variables;
+    } catch (error) {
+        console.warn('Could not load variables for TypeScript REPL:', error);
+        return {};
+    }
+}
+
+function formatRuntimeError(error: unknown): string {
+    if (error && typeof error === 'object' && 'message' in error) {
+        const name = 'name' in error ? String((error as { name: unknown }).name) : 'Error';
+        return `${name}: ${String((error as { message: unknown }).message)}`;
+    }
+    return `Uncaught ${util.inspect(error, INSPECT_OPTIONS)}`;
+}
+
+/**
+ * Type-checks, transpiles and evaluates a TypeScript/JavaScript snippet in the user's
+ * persistent REPL context. Top-level declarations survive across calls; snippets with
+ * type errors are rejected without running.
+ * @param userId - The ID of the user owning the session.
+ * @param code - The TypeScript source to evaluate.
+ * @param options - Optional settings, e.g. whether `vars` is populated from the database.
+ * @returns A promise that resolves with console output, the completion value and any errors.
+ */
+export async function runTypeScriptCode(userId: number, code: string, options: TypeScriptRunOptions = {}): Promise<TypeScriptRunResult> {
+    let session = sessions.get(userId);
+    if (!session) {
+        session = createSession();
+        sessions.set(userId, session);
+    }
+    const result: TypeScriptRunResult = { consoleEntries: [], resultText: null, typeErrors: [], runtimeError: null, changedVariables: [] };
+
+    result.typeErrors = typeCheckSnippet(session, code);
+    if (result.typeErrors.length > 0) {
+        return result;
+    }
+    acceptSnippet(session);
+
+    const javascript = ts.transpileModule(code, { compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.None } }).outputText;
+    const variablesBefore = options.readVariables ? await loadVariables() : {};
+    session.bridge.resetVars();
+    for (const [name, value] of Object.entries(variablesBefore)) {
+        session.bridge.setVar(name, value);
+    }
+    takeConsoleEntries(session); // Drop output logged by earlier snippets' callbacks since they finished
+
+    try {
+        let completion = new vm.Script(javascript, { filename: 'simshell.ts' }).runInContext(session.context, { timeout: TS_TIMEOUT_MS });
+        if (completion && typeof completion.then === 'function') {
+            // Settled inside the context: awaiting it here would pass host resolve functions to its `then`
+            const { bridge } = session;
+            const settled = await new Promise<{ fulfilled: boolean; value: unknown }>(resolve => {
+                const timer = setTimeout(() => resolve({ fulfilled: false, value: new Error(`Promise did not settle within ${TS_TIMEOUT_MS} ms.`) }), TS_TIMEOUT_MS);
+                bridge.settle(completion, (fulfilled, value) => {
+                    clearTimeout(timer);
+                    resolve({ fulfilled, value });
+                });
+            });
+            if (!settled.fulfilled) throw settled.value;
+            completion = settled.value;
+        }
+        if (completion !== undefined) {
+            result.resultText = util.inspect(completion, { ...INSPECT_OPTIONS, depth: 4, breakLength: 120 });
+        }
+    } catch (error) {
+        result.runtimeError = formatRuntimeError(error);
+    }
+    result.consoleEntries = takeConsoleEntries(session);
+
+    const variablesAfter = session.context.vars && typeof session.context.vars === 'object' ? session.context.vars as Record<string, unknown> : {};
+    for (const [name, value] of Object.entries(variablesAfter)) {
+        if (!/^[a-zA-Z_]\w*$/.test(name) || (name in variablesBefore && variablesBefore[name] === value)) continue;
+        result.changedVariables.push({ name, ...toStoredVariable(value) });
+    }
+    return result;
+}
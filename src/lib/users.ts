@@ -3,6 +3,7 @@
 'use server';
 
 import { runSql } from './database';
+import { getSession, readSessionCookie } from './sessions';
 
 interface UserDetails {
   username: string;
@@ -53,3 +54,17 @@ export async function getUserDetailsById(userId: number): Promise<UserDetails |
     return null;
   }
 }
+
+/**
+ * Fetches the user of the current request's session.
+ * @returns A promise that resolves to the user ID, username and role, or null without a valid session.
+ */
+export async function getCurrentUser(): Promise<(UserDetails & { userId: number }) | null> {
+  const sessionToken = await readSessionCookie();
+  const session = sessionToken ? await getSession(sessionToken) : null;
+  if (!session) {
+    return null;
+  }
+  const userDetails = await getUserDetailsById(session.userId);
+  return userDetails ? { userId: session.userId, ...userDetails } : null;
+}
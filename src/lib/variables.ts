@@ -91,3 +91,24 @@ export async function getVariableFromDb(name: string): Promise<{
         throw error; // Re-throw
     }
 }
+
+/**
+ * Replaces {varname} references in text with values from the variables table.
+ * Custom command parameters such as ${name} are not variable references and are left alone.
+ * @param text - The text containing {varname} references.
+ * @returns The text with known variables replaced, and the names of variables that were not found (left in place).
+ */
+export async function substituteVariableReferences(text: string): Promise<{ text: string; missing: string[] }> {
+    const referenceRegex = /(?<!\$)\{([a-zA-Z_]\w*)\}/g;
+    const values = new Map<string, string | null>();
+    for (const match of Array.from(text.matchAll(referenceRegex))) {
+        if (!values.has(match[1])) {
+            const variable = await getVariableFromDb(match[1]);
+            values.set(match[1], variable ? variable.value : null);
+        }
+    }
+    return {
+        text: text.replace(referenceRegex, (reference, name: string) => values.get(name) ?? reference),
+        missing: Array.from(values.keys()).filter(name => values.get(name) === null),
+    };
+}
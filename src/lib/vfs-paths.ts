@@ -0,0 +1,78 @@
+// src/lib/vfs-paths.ts
+/**
+ * @fileOverview Path helpers for the virtual filesystem shared by the unix and windows modes.
+ * Paths are stored canonically in unix style ("/home/dev/notes.txt"); the windows mode
+ * displays and accepts the same tree as drive C: ("C:\home\dev\notes.txt").
+ */
+
+export type VfsPathStyle = 'unix' | 'windows';
+
+export const VFS_DRIVE = 'C:';
+
+/**
+ * Collapses '.', '..' and duplicate separators of an absolute unix-style path.
+ * '..' at the root stays at the root, like a real shell.
+ */
+export function normalizeVfsPath(absolutePath: string): string {
+    const segments: string[] = [];
+    for (const segment of absolutePath.split('/')) {
+        if (!segment || segment === '.') continue;
+        if (segment === '..') segments.pop();
+        else segments.push(segment);
+    }
+    return '/' + segments.join('/');
+}
+
+/**
+ * Resolves a user-supplied path against the current directory.
+ * Windows paths may use either separator and an optional "C:" drive prefix; '~' expands to `home` in unix style.
+ * @throws Throws an error for drives other than C:.
+ */
+export function resolveVfsPath(cwd: string, input: string, style: VfsPathStyle, home: string = '/'): string {
+    let pathText = input;
+    if (style === 'windows') {
+        pathText = pathText.replace(/\\/g, '/');
+        const driveMatch = pathText.match(/^([a-zA-Z]):(.*)$/);
+        if (driveMatch) {
+            if (`${driveMatch[1].toUpperCase()}:` !== VFS_DRIVE) {
+                throw new Error(`The system cannot find the drive specified: ${driveMatch[1].toUpperCase()}:`);
+            }
+            pathText = driveMatch[2] || '/';
+        }
+    } else if (pathText === '~' || pathText.startsWith('~/')) {
+        pathText = home + pathText.slice(1);
+    }
+    return normalizeVfsPath(pathText.startsWith('/') ? pathText : `${cwd}/${pathText}`);
+}
+
+/**
+ * Formats a canonical path for display in the given style.
+ */
+export function formatVfsPath(canonicalPath: string, style: VfsPathStyle): string {
+    if (style === 'unix') return canonicalPath;
+    return VFS_DRIVE + canonicalPath.replace(/\//g, '\\');
+}
+
+export function vfsDirname(canonicalPath: string): string {
+    const index = canonicalPath.lastIndexOf('/');
+    return index <= 0 ? '/' : canonicalPath.slice(0, index);
+}
+
+export function vfsBasename(canonicalPath: string): string {
+    return canonicalPath.slice(canonicalPath.lastIndexOf('/') + 1);
+}
+
+/**
+ * Returns true if `candidate` equals `ancestor` or lies beneath it.
+ */
+export function isVfsPathWithin(candidate: string, ancestor: string): boolean {
+    return candidate === ancestor || ancestor === '/' || candidate.startsWith(ancestor + '/');
+}
+
+/**
+ * Converts a shell wildcard pattern ('*', '?') into an anchored regular expression.
+ */
+export function wildcardToRegExp(pattern: string, caseInsensitive: boolean = false): RegExp {
+    const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '');
+}
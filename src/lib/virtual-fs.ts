@@ -0,0 +1,173 @@
+// src/lib/virtual-fs.ts
+'use server';
+
+import { runSql } from './database';
+import { isVfsPathWithin, vfsDirname } from './vfs-paths';
+
+export interface VfsNode {
+    path: string; // Canonical unix-style absolute path
+    type: 'file' | 'dir';
+    content: string | null; // File content, null for directories
+    size: number; // Bytes (UTF-8) for files, 0 for directories
+    createdAt: string;
+    modifiedAt: string;
+}
+
+export interface VfsSession {
+    cwd: string;
+    home: string;
+}
+
+const ROOT_NODE: VfsNode = { path: '/', type: 'dir', content: null, size: 0, createdAt: '', modifiedAt: '' };
+
+function toVfsNode(row: any): VfsNode {
+    return {
+        path: row.path,
+        type: row.node_type === 'dir' ? 'dir' : 'file',
+        content: row.content ?? null,
+        size: row.size ?? 0,
+        createdAt: row.created_at,
+        modifiedAt: row.modified_at,
+    };
+}
+
+async function getHomeDirectory(userId: number): Promise<string> {
+    try {
+        const { results } = await runSql('SELECT username FROM users WHERE user_id = ?', [userId]);
+        const username = results?.[0]?.username;
+        if (username && /^[a-zA-Z0-9_.-]+$/.test(username)) return `/home/${username}`;
+    } catch (error) {
+        console.warn('Could not look up username for virtual home directory:', error);
+    }
+    return `/home/user${userId}`;
+}
+
+async function insertDirectory(userId: number, dirPath: string): Promise<void> {
+    await runSql(
+        `INSERT OR IGNORE INTO vfs_nodes (user_id, path, parent_path, node_type, content, size) VALUES (?, ?, ?, 'dir', NULL, 0)`,
+        [userId, dirPath, vfsDirname(dirPath)]
+    );
+}
+
+/**
+ * Returns the user's current directory and home directory.
+ * On first use the home directory (/home/<username>) and /tmp are created and become the user's tree.
+ * @param userId - The ID of the user owning the virtual filesystem.
+ * @throws Throws an error if the vfs tables are missing.
+ */
+export async function getVfsSession(userId: number): Promise<VfsSession> {
+    const home = await getHomeDirectory(userId);
+    const { results } = await runSql('SELECT cwd FROM vfs_state WHERE user_id = ?', [userId]);
+    if (results && results.length > 0) {
+        return { cwd: results[0].cwd, home };
+    }
+
+    for (const dirPath of ['/home', home, '/tmp']) {
+        await insertDirectory(userId, dirPath);
+    }
+    await runSql('INSERT OR REPLACE INTO vfs_state (user_id, cwd) VALUES (?, ?)', [userId, home]);
+    return { cwd: home, home };
+}
+
+export async function setVfsCwd(userId: number, dirPath: string): Promise<void> {
+    await runSql('INSERT OR REPLACE INTO vfs_state (user_id, cwd) VALUES (?, ?)', [userId, dirPath]);
+}
+
+/**
+ * Looks up a single node. The root directory always exists.
+ * @returns The node, or null if nothing exists at that path.
+ */
+export async function getVfsNode(userId: number, nodePath: string): Promise<VfsNode | null> {
+    if (nodePath === '/') return ROOT_NODE;
+    const { results } = await runSql('SELECT * FROM vfs_nodes WHERE user_id = ? AND path = ?', [userId, nodePath]);
+    return results && results.length > 0 ? toVfsNode(results[0]) : null;
+}
+
+/**
+ * Lists the direct children of a directory, sorted by name.
+ */
+export async function listVfsChildren(userId: number, dirPath: string): Promise<VfsNode[]> {
+    const { results } = await runSql('SELECT * FROM vfs_nodes WHERE user_id = ? AND parent_path = ? ORDER BY path', [userId, dirPath]);
+    return (results || []).map(toVfsNode);
+}
+
+/**
+ * Creates a directory. The caller is responsible for checking that the parent exists.
+ */
+export async function makeVfsDirectory(userId: number, dirPath: string): Promise<void> {
+    await insertDirectory(userId, dirPath);
+}
+
+/**
+ * Creates or overwrites a file, or appends to it when `append` is set.
+ * The caller is responsible for checking that the parent directory exists.
+ */
+export async function writeVfsFile(userId: number, filePath: string, content: string, append: boolean = false): Promise<void> {
+    const existing = await getVfsNode(userId, filePath);
+    const newContent = append && existing?.content ? existing.content + content : content;
+    if (existing) {
+        await runSql(
+            'UPDATE vfs_nodes SET content = ?, size = ?, modified_at = CURRENT_TIMESTAMP WHERE user_id = ? AND path = ?',
+            [newContent, Buffer.byteLength(newContent, 'utf8'), userId, filePath]
+        );
+    } else {
+        await runSql(
+            `INSERT INTO vfs_nodes (user_id, path, parent_path, node_type, content, size) VALUES (?, ?, ?, 'file', ?, ?)`,
+            [userId, filePath, vfsDirname(filePath), newContent, Buffer.byteLength(newContent, 'utf8')]
+        );
+    }
+}
+
+/**
+ * Removes a node and everything beneath it. If the current directory was removed,
+ * the user is moved to the nearest remaining parent.
+ */
+export async function removeVfsNode(userId: number, nodePath: string): Promise<void> {
+    await runSql(
+        'DELETE FROM vfs_nodes WHERE user_id = ? AND (path = ? OR substr(path, 1, length(?) + 1) = ? || \'/\')',
+        [userId, nodePath, nodePath, nodePath]
+    );
+    const { cwd } = await getVfsSession(userId);
+    if (isVfsPathWithin(cwd, nodePath)) {
+        await setVfsCwd(userId, vfsDirname(nodePath));
+    }
+}
+
+/**
+ * Copies a node (recursively for directories) to `targetPath`, replacing existing files.
+ */
+export async function copyVfsNode(userId: number, sourcePath: string, targetPath: string): Promise<number> {
+    const { results } = await runSql(
+        'SELECT * FROM vfs_nodes WHERE user_id = ? AND (path = ? OR substr(path, 1, length(?) + 1) = ? || \'/\') ORDER BY path',
+        [userId, sourcePath, sourcePath, sourcePath]
+    );
+    const nodes = (results || []).map(toVfsNode);
+    for (const node of nodes) {
+        const newPath = targetPath + node.path.slice(sourcePath.length);
+        if (node.type === 'dir') {
+            await insertDirectory(userId, newPath);
+        } else {
+            await writeVfsFile(userId, newPath, node.content ?? '');
+        }
+    }
+    return nodes.length;
+}
+
+/**
+ * Renames a node (and everything beneath it) to `targetPath`. The target must not exist.
+ * The current directory follows the move if it was inside the moved tree.
+ */
+export async function moveVfsNode(userId: number, sourcePath: string, targetPath: string): Promise<void> {
+    await runSql(
+        `UPDATE vfs_nodes
+         SET path = ? || substr(path, length(?) + 1),
+             parent_path = CASE WHEN path = ? THEN ? ELSE ? || substr(parent_path, length(?) + 1) END,
+             modified_at = CASE WHEN path = ? THEN CURRENT_TIMESTAMP ELSE modified_at END
+         WHERE user_id = ? AND (path = ? OR substr(path, 1, length(?) + 1) = ? || '/')`,
+        [targetPath, sourcePath, sourcePath, vfsDirname(targetPath), targetPath, sourcePath, sourcePath, userId, sourcePath, sourcePath, sourcePath]
+    );
+    const { cwd } = await getVfsSession(userId);
+    if (isVfsPathWithin(cwd, sourcePath)) {
+        await setVfsCwd(userId, targetPath + cwd.slice(sourcePath.length));
+    }
+}
@@ -0,0 +1,721 @@
+// src/lib/virtual-shell.ts
+'use server';
+
+import {
+    copyVfsNode, getVfsNode, getVfsSession, listVfsChildren, makeVfsDirectory,
+    moveVfsNode, removeVfsNode, setVfsCwd, writeVfsFile, type VfsNode,
+} from './virtual-fs';
+import {
+    formatVfsPath, isVfsPathWithin, resolveVfsPath, vfsBasename, vfsDirname,
+    wildcardToRegExp, type VfsPathStyle,
+} from './vfs-paths';
+
+export interface VirtualShellResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number; // Exit code of the last pipeline stage
+    cwd: string; // Current directory after the command, formatted for the mode
+}
+
+interface ShellWord { kind: 'word'; value: string; glob: boolean }
+interface ShellOperator { kind: 'op'; value: '|' | '>' | '>>' }
+type ShellToken = ShellWord | ShellOperator;
+
+interface PipelineStage {
+    words: ShellWord[];
+    redirect?: { target: string; append: boolean };
+}
+
+interface ShellContext {
+    userId: number;
+    style: VfsPathStyle;
+    cwd: string;
+    home: string;
+}
+
+interface CommandOutput {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+}
+
+type ShellCommand = (ctx: ShellContext, args: string[], stdin: string) => Promise<CommandOutput>;
+
+const ok = (stdout: string = ''): CommandOutput => ({ stdout, stderr: '', exitCode: 0 });
+const fail = (stderr: string, stdout: string = ''): CommandOutput => ({ stdout, stderr, exitCode: 1 });
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Splits a command line into words and the operators '|', '>' and '>>'.
+ * Unix: single quotes are literal, backslash escapes. Windows: only double quotes group,
+ * backslashes are path separators.
+ */
+function tokenize(line: string, style: VfsPathStyle): ShellToken[] {
+    const tokens: ShellToken[] = [];
+    let current = '';
+    let inWord = false;
+    let glob = false;
+    const endWord = () => {
+        if (inWord) tokens.push({ kind: 'word', value: current, glob });
+        current = '';
+        inWord = false;
+        glob = false;
+    };
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (/\s/.test(char)) {
+            endWord();
+        } else if (char === '|') {
+            endWord();
+            tokens.push({ kind: 'op', value: '|' });
+        } else if (char === '>') {
+            endWord();
+            if (line[i + 1] === '>') {
+                tokens.push({ kind: 'op', value: '>>' });
+                i++;
+            } else {
+                tokens.push({ kind: 'op', value: '>' });
+            }
+        } else if (char === '"' || (char === "'" && style === 'unix')) {
+            const closing = line.indexOf(char, i + 1);
+            if (closing < 0) throw new Error(`syntax error: unterminated ${char === '"' ? 'double' : 'single'} quote`);
+            let quoted = line.slice(i + 1, closing);
+            if (char === '"' && style === 'unix') quoted = quoted.replace(/\\(["\\$`])/g, '$1');
+            current += quoted;
+            inWord = true;
+            i = closing;
+        } else if (char === '\\' && style === 'unix' && i + 1 < line.length) {
+            current += line[++i];
+            inWord = true;
+        } else {
+            if (char === '*' || char === '?') glob = true;
+            current += char;
+            inWord = true;
+        }
+    }
+    endWord();
+    return tokens;
+}
+
+function parsePipeline(tokens: ShellToken[]): PipelineStage[] {
+    const stages: PipelineStage[] = [{ words: [] }];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const stage = stages[stages.length - 1];
+        if (token.kind === 'word') {
+            stage.words.push(token);
+        } else if (token.value === '|') {
+            if (stage.words.length === 0) throw new Error("syntax error near unexpected token '|'");
+            stages.push({ words: [] });
+        } else {
+            const target = tokens[i + 1];
+            if (!target || target.kind !== 'word') throw new Error(`syntax error near unexpected token '${target ? target.value : 'newline'}'`);
+            stage.redirect = { target: target.value, append: token.value === '>>' };
+            i++;
+        }
+    }
+    if (stages[stages.length - 1].words.length === 0 && (stages.length > 1 || stages[0].redirect)) {
+        throw new Error("syntax error near unexpected token 'newline'");
+    }
+    return stages;
+}
+
+/**
+ * Expands a word containing '*' or '?' in its last path segment against the virtual tree.
+ * Unmatched patterns are passed through literally, like bash without nullglob.
+ */
+async function expandWord(ctx: ShellContext, word: ShellWord): Promise<string[]> {
+    if (!word.glob) return [word.value];
+    const separatorIndex = Math.max(word.value.lastIndexOf('/'), ctx.style === 'windows' ? word.value.lastIndexOf('\\') : -1);
+    const prefix = word.value.slice(0, separatorIndex + 1);
+    const pattern = word.value.slice(separatorIndex + 1);
+    if (/[*?]/.test(prefix)) return [word.value];
+
+    const dirPath = resolveVfsPath(ctx.cwd, prefix || '.', ctx.style, ctx.home);
+    const matcher = wildcardToRegExp(pattern, ctx.style === 'windows');
+    const matches = (await listVfsChildren(ctx.userId, dirPath))
+        .map(node => vfsBasename(node.path))
+        .filter(name => matcher.test(name) && (!name.startsWith('.') || pattern.startsWith('.')));
+    return matches.length > 0 ? matches.map(name => prefix + name) : [word.value];
+}
+
+/**
+ * Separates leading option arguments ('-la', '/S') from operands.
+ */
+function splitOptions(args: string[], style: VfsPathStyle): { flags: Set<string>; operands: string[]; values: Map<string, string> } {
+    const flags = new Set<string>();
+    const values = new Map<string, string>();
+    const operands: string[] = [];
+    let optionsEnded = false;
+    for (const arg of args) {
+        if (!optionsEnded && style === 'unix' && arg === '--') {
+            optionsEnded = true;
+        } else if (!optionsEnded && style === 'unix' && /^-[a-zA-Z]+$/.test(arg)) {
+            arg.slice(1).split('').forEach(flag => flags.add(flag));
+        } else if (style === 'windows' && /^\/[a-zA-Z](:.*)?$/.test(arg)) {
+            const flag = arg[1].toUpperCase();
+            flags.add(flag);
+            if (arg.length > 2) values.set(flag, arg.slice(3));
+        } else {
+            operands.push(arg);
+        }
+    }
+    return { flags, operands, values };
+}
+
+async function lookup(ctx: ShellContext, arg: string): Promise<{ path: string; node: VfsNode | null }> {
+    const nodePath = resolveVfsPath(ctx.cwd, arg, ctx.style, ctx.home);
+    return { path: nodePath, node: await getVfsNode(ctx.userId, nodePath) };
+}
+
+function parseTimestamp(value: string): Date {
+    const date = new Date(value ? value.replace(' ', 'T') + (value.endsWith('Z') ? '' : 'Z') : Date.now());
+    return isNaN(date.getTime()) ? new Date() : date;
+}
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+function formatUnixDate(value: string): string {
+    const date = parseTimestamp(value);
+    return `${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2)} ${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}`;
+}
+
+function formatWindowsDate(value: string): string {
+    const date = parseTimestamp(value);
+    const hours = date.getUTCHours();
+    return `${pad2(date.getUTCMonth() + 1)}/${pad2(date.getUTCDate())}/${date.getUTCFullYear()}  ${pad2(hours % 12 || 12)}:${pad2(date.getUTCMinutes())} ${hours < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Adds a trailing newline to non-empty output that lacks one, so piped stages see whole lines.
+ */
+const asLines = (text: string) => (text && !text.endsWith('\n') ? text + '\n' : text);
+
+/**
+ * Runs `matcher` over the content of each operand (or stdin), prefixing file names when several are searched.
+ */
+async function searchContent(
+    ctx: ShellContext, commandName: string, operands: string[], stdin: string,
+    matches: (line: string) => boolean, options: { lineNumbers: boolean; countOnly?: boolean },
+): Promise<CommandOutput> {
+    const sources: { label: string; content: string }[] = [];
+    const errors: string[] = [];
+    if (operands.length === 0) {
+        sources.push({ label: '', content: stdin });
+    }
+    for (const operand of operands) {
+        const { node } = await lookup(ctx, operand);
+        if (!node) errors.push(ctx.style === 'unix' ? `${commandName}: ${operand}: No such file or directory` : `FINDSTR: Cannot open ${operand}`);
+        else if (node.type === 'dir') errors.push(ctx.style === 'unix' ? `${commandName}: ${operand}: Is a directory` : `FINDSTR: Cannot open ${operand}`);
+        else sources.push({ label: operand, content: node.content ?? '' });
+    }
+
+    const outputLines: string[] = [];
+    let matchCount = 0;
+    for (const source of sources) {
+        const prefix = operands.length > 1 ? `${source.label}:` : '';
+        const lines = source.content.split('\n');
+        if (lines[lines.length - 1] === '') lines.pop();
+        let sourceCount = 0;
+        lines.forEach((line, index) => {
+            if (!matches(line)) return;
+            sourceCount++;
+            if (!options.countOnly) outputLines.push(`${prefix}${options.lineNumbers ? `${index + 1}:` : ''}${line}`);
+        });
+        if (options.countOnly) outputLines.push(`${prefix}${sourceCount}`);
+        matchCount += sourceCount;
+    }
+    const stdout = outputLines.length > 0 ? outputLines.join('\n') + '\n' : '';
+    if (errors.length > 0) return { stdout, stderr: errors.join('\n'), exitCode: 2 };
+    return { stdout, stderr: '', exitCode: matchCount > 0 ? 0 : 1 };
+}
+
+// --- Unix commands ---
+
+const unixCommands: Record<string, ShellCommand> = {
+    async pwd(ctx) {
+        return ok(ctx.cwd + '\n');
+    },
+
+    async cd(ctx, args) {
+        const target = args[0] ?? '~';
+        const { path: targetPath, node } = await lookup(ctx, target);
+        if (!node) return fail(`cd: ${target}: No such file or directory`);
+        if (node.type !== 'dir') return fail(`cd: ${target}: Not a directory`);
+        ctx.cwd = targetPath;
+        await setVfsCwd(ctx.userId, targetPath);
+        return ok();
+    },
+
+    async ls(ctx, args) {
+        const { flags, operands } = splitOptions(args, 'unix');
+        const showAll = flags.has('a');
+        const longFormat = flags.has('l');
+        const owner = vfsBasename(ctx.home) || 'user';
+        const formatEntry = (node: VfsNode, name: string) => {
+            if (!longFormat) return name;
+            const permissions = node.type === 'dir' ? 'drwxr-xr-x' : '-rw-r--r--';
+            const size = node.type === 'dir' ? 4096 : node.size;
+            return `${permissions} 1 ${owner} ${owner} ${String(size).padStart(6)} ${formatUnixDate(node.modifiedAt)} ${name}`;
+        };
+        const joinEntries = (entries: string[]) => (longFormat ? entries.join('\n') : entries.join('  '));
+
+        const targets = operands.length > 0 ? operands : ['.'];
+        const errors: string[] = [];
+        const fileEntries: string[] = [];
+        const directorySections: string[] = [];
+        for (const target of targets) {
+            const { path: targetPath, node } = await lookup(ctx, target);
+            if (!node) {
+                errors.push(`ls: cannot access '${target}': No such file or directory`);
+            } else if (node.type === 'file') {
+                fileEntries.push(formatEntry(node, target));
+            } else {
+                let children = await listVfsChildren(ctx.userId, targetPath);
+                if (!showAll) children = children.filter(child => !vfsBasename(child.path).startsWith('.'));
+                const entries = children.map(child => formatEntry(child, vfsBasename(child.path)));
+                if (showAll) {
+                    const parent = (await getVfsNode(ctx.userId, vfsDirname(targetPath))) ?? node;
+                    entries.unshift(formatEntry(node, '.'), formatEntry(parent, '..'));
+                }
+                const totalLine = longFormat ? `total ${children.length}\n` : '';
+                const header = targets.length > 1 ? `${target}:\n` : '';
+                directorySections.push(header + totalLine + joinEntries(entries));
+            }
+        }
+        const sections = [...(fileEntries.length > 0 ? [joinEntries(fileEntries)] : []), ...directorySections].filter(Boolean);
+        const stdout = asLines(sections.join('\n\n'));
+        return errors.length > 0 ? { stdout, stderr: errors.join('\n'), exitCode: 2 } : ok(stdout);
+    },
+
+    async mkdir(ctx, args) {
+        const { flags, operands } = splitOptions(args, 'unix');
+        if (operands.length === 0) return fail('mkdir: missing operand');
+        const errors: string[] = [];
+        for (const operand of operands) {
+            const { path: dirPath, node } = await lookup(ctx, operand);
+            if (node) {
+                if (!(flags.has('p') && node.type === 'dir')) errors.push(`mkdir: cannot create directory '${operand}': File exists`);
+                continue;
+            }
+            if (flags.has('p')) {
+                const segments = dirPath.split('/').filter(Boolean);
+                let partial = '';
+                let blocked = false;
+                for (const segment of segments) {
+                    partial += '/' + segment;
+                    const existing = await getVfsNode(ctx.userId, partial);
+                    if (existing?.type === 'file') {
+                        errors.push(`mkdir: cannot create directory '${operand}': Not a directory`);
+                        blocked = true;
+                        break;
+                    }
+                    if (!existing) await makeVfsDirectory(ctx.userId, partial);
+                }
+                if (blocked) continue;
+            } else {
+                const parent = await getVfsNode(ctx.userId, vfsDirname(dirPath));
+                if (!parent) errors.push(`mkdir: cannot create directory '${operand}': No such file or directory`);
+                else if (parent.type !== 'dir') errors.push(`mkdir: cannot create directory '${operand}': Not a directory`);
+                else await makeVfsDirectory(ctx.userId, dirPath);
+            }
+        }
+        return errors.length > 0 ? fail(errors.join('\n')) : ok();
+    },
+
+    async rm(ctx, args) {
+        const { flags, operands } = splitOptions(args, 'unix');
+        const recursive = flags.has('r') || flags.has('R');
+        const force = flags.has('f');
+        if (operands.length === 0) return force ? ok() : fail('rm: missing operand');
+        const errors: string[] = [];
+        for (const operand of operands) {
+            const { path: nodePath, node } = await lookup(ctx, operand);
+            if (nodePath === '/') errors.push(`rm: it is dangerous to operate recursively on '/'`);
+            else if (!node) { if (!force) errors.push(`rm: cannot remove '${operand}': No such file or directory`); }
+            else if (node.type === 'dir' && !recursive) errors.push(`rm: cannot remove '${operand}': Is a directory`);
+            else await removeVfsNode(ctx.userId, nodePath);
+        }
+        ctx.cwd = (await getVfsSession(ctx.userId)).cwd;
+        return errors.length > 0 ? fail(errors.join('\n')) : ok();
+    },
+
+    async cp(ctx, args) {
+        const { flags, operands } = splitOptions(args, 'unix');
+        if (operands.length < 2) return fail(operands.length === 0 ? 'cp: missing file operand' : `cp: missing destination file operand after '${operands[0]}'`);
+        const recursive = flags.has('r') || flags.has('R');
+        const destination = operands[operands.length - 1];
+        const { path: destPath, node: destNode } = await lookup(ctx, destination);
+        const sources = operands.slice(0, -1);
+        if (sources.length > 1 && destNode?.type !== 'dir') return fail(`cp: target '${destination}' is not a directory`);
+
+        const errors: string[] = [];
+        for (const source of sources) {
+            const { path: sourcePath, node: sourceNode } = await lookup(ctx, source);
+            const targetPath = destNode?.type === 'dir' ? resolveVfsPath(destPath, vfsBasename(sourcePath) || '.', 'unix') : destPath;
+            if (!sourceNode) { errors.push(`cp: cannot stat '${source}': No such file or directory`); continue; }
+            if (sourceNode.type === 'dir' && !recursive) { errors.push(`cp: -r not specified; omitting directory '${source}'`); continue; }
+            if (sourceNode.type === 'dir' && isVfsPathWithin(targetPath, sourcePath)) { errors.push(`cp: cannot copy a directory, '${source}', into itself, '${destination}'`); continue; }
+            const parent = await getVfsNode(ctx.userId, vfsDirname(targetPath));
+            if (!parent || parent.type !== 'dir') { errors.push(`cp: cannot create regular file '${destination}': No such file or directory`); continue; }
+            const existingTarget = targetPath === destPath ? destNode : await getVfsNode(ctx.userId, targetPath);
+            if (existingTarget && existingTarget.type !== sourceNode.type) {
+                errors.push(`cp: cannot overwrite ${existingTarget.type === 'dir' ? 'directory' : 'non-directory'} '${formatVfsPath(targetPath, 'unix')}' with ${sourceNode.type === 'dir' ? 'directory' : 'non-directory'}`);
+                continue;
+            }
+            await copyVfsNode(ctx.userId, sourcePath, targetPath);
+        }
+        return errors.length > 0 ? fail(errors.join('\n')) : ok();
+    },
+
+    async mv(ctx, args) {
+        const { operands } = splitOptions(args, 'unix');
+        if (operands.length < 2) return fail(operands.length === 0 ? 'mv: missing file operand' : `mv: missing destination file operand after '${operands[0]}'`);
+        const destination = operands[operands.length - 1];
+        const { path: destPath, node: destNode } = await lookup(ctx, destination);
+        const sources = operands.slice(0, -1);
+        if (sources.length > 1 && destNode?.type !== 'dir') return fail(`mv: target '${destination}' is not a directory`);
+
+        const errors: string[] = [];
+        for (const source of sources) {
+            const { path: sourcePath, node: sourceNode } = await lookup(ctx, source);
+            const targetPath = destNode?.type === 'dir' ? resolveVfsPath(destPath, vfsBasename(sourcePath) || '.', 'unix') : destPath;
+            if (!sourceNode || sourcePath === '/') { errors.push(`mv: cannot stat '${source}': No such file or directory`); continue; }
+            if (targetPath === sourcePath) { errors.push(`mv: '${source}' and '${destination}' are the same file`); continue; }
+            if (isVfsPathWithin(targetPath, sourcePath)) { errors.push(`mv: cannot move '${source}' to a subdirectory of itself, '${destination}'`); continue; }
+            const parent = await getVfsNode(ctx.userId, vfsDirname(targetPath));
+            if (!parent || parent.type !== 'dir') { errors.push(`mv: cannot move '${source}' to '${destination}': No such file or directory`); continue; }
+            const existingTarget = targetPath === destPath ? destNode : await getVfsNode(ctx.userId, targetPath);
+            if (existingTarget) {
+                if (existingTarget.type === 'dir') { errors.push(`mv: cannot overwrite directory '${formatVfsPath(targetPath, 'unix')}'`); continue; }
+                if (sourceNode.type === 'dir') { errors.push(`mv: cannot overwrite non-directory '${formatVfsPath(targetPath, 'unix')}' with directory '${source}'`); continue; }
+                await removeVfsNode(ctx.userId, targetPath);
+            }
+            await moveVfsNode(ctx.userId, sourcePath, targetPath);
+        }
+        ctx.cwd = (await getVfsSession(ctx.userId)).cwd;
+        return errors.length > 0 ? fail(errors.join('\n')) : ok();
+    },
+
+    async cat(ctx, args, stdin) {
+        if (args.length === 0) return ok(stdin);
+        let stdout = '';
+        const errors: string[] = [];
+        for (const arg of args) {
+            const { node } = await lookup(ctx, arg);
+            if (!node) errors.push(`cat: ${arg}: No such file or directory`);
+            else if (node.type === 'dir') errors.push(`cat: ${arg}: Is a directory`);
+            else stdout += node.content ?? '';
+        }
+        return errors.length > 0 ? fail(errors.join('\n'), stdout) : ok(stdout);
+    },
+
+    async grep(ctx, args, stdin) {
+        const { flags, operands } = splitOptions(args, 'unix');
+        if (operands.length === 0) return { stdout: '', stderr: 'Usage: grep [-i] [-n] [-v] [-c] PATTERN [FILE]...', exitCode: 2 };
+        let regex: RegExp;
+        try {
+            regex = new RegExp(operands[0], flags.has('i') ? 'i' : '');
+        } catch (error) {
+            return { stdout: '', stderr: `grep: invalid pattern: ${error instanceof Error ? error.message : operands[0]}`, exitCode: 2 };
+        }
+        const invert = flags.has('v');
+        return searchContent(ctx, 'grep', operands.slice(1), stdin, line => regex.test(line) !== invert, { lineNumbers: flags.has('n'), countOnly: flags.has('c') });
+    },
+
+    async echo(_ctx, args) {
+        const noNewline = args[0] === '-n';
+        const text = (noNewline ? args.slice(1) : args).join(' ');
+        return ok(noNewline ? text : text + '\n');
+    },
+
+    async touch(ctx, args) {
+        if (args.length === 0) return fail('touch: missing file operand');
+        const errors: string[] = [];
+        for (const arg of args) {
+            const { path: filePath, node } = await lookup(ctx, arg);
+            const parent = await getVfsNode(ctx.userId, vfsDirname(filePath));
+            if (!node && (!parent || parent.type !== 'dir')) errors.push(`touch: cannot touch '${arg}': No such file or directory`);
+            else if (!node || node.type === 'file') await writeVfsFile(ctx.userId, filePath, '', true);
+        }
+        return errors.length > 0 ? fail(errors.join('\n')) : ok();
+    },
+};
+
+// --- Windows commands ---
+
+const WIN_FILE_NOT_FOUND = 'The system cannot find the file specified.';
+const WIN_PATH_NOT_FOUND = 'The system cannot find the path specified.';
+
+const windowsCd: ShellCommand = async (ctx, args) => {
+    const { operands } = splitOptions(args, 'windows');
+    if (operands.length === 0) return ok(formatVfsPath(ctx.cwd, 'windows') + '\n');
+    const { path: targetPath, node } = await lookup(ctx, operands.join(' '));
+    if (!node || node.type !== 'dir') return fail(node ? 'The directory name is invalid.' : WIN_PATH_NOT_FOUND);
+    ctx.cwd = targetPath;
+    await setVfsCwd(ctx.userId, targetPath);
+    return ok();
+};
+
+const windowsMkdir: ShellCommand = async (ctx, args) => {
+    const { operands } = splitOptions(args, 'windows');
+    if (operands.length === 0) return fail('The syntax of the command is incorrect.');
+    const errors: string[] = [];
+    for (const operand of operands) {
+        const { path: dirPath, node } = await lookup(ctx, operand);
+        if (node) { errors.push(`A subdirectory or file ${operand} already exists.`); continue; }
+        let partial = '';
+        for (const segment of dirPath.split('/').filter(Boolean)) {
+            partial += '/' + segment;
+            const existing = await getVfsNode(ctx.userId, partial);
+            if (existing?.type === 'file') { errors.push(WIN_PATH_NOT_FOUND); break; }
+            if (!existing) await makeVfsDirectory(ctx.userId, partial);
+        }
+    }
+    return errors.length > 0 ? fail(errors.join('\n')) : ok();
+};
+
+const windowsRmdir: ShellCommand = async (ctx, args) => {
+    const { flags, operands } = splitOptions(args, 'windows');
+    if (operands.length === 0) return fail('The syntax of the command is incorrect.');
+    const errors: string[] = [];
+    for (const operand of operands) {
+        const { path: dirPath, node } = await lookup(ctx, operand);
+        if (!node) errors.push(WIN_FILE_NOT_FOUND);
+        else if (node.type !== 'dir' || dirPath === '/') errors.push('The directory name is invalid.');
+        else if (!flags.has('S') && (await listVfsChildren(ctx.userId, dirPath)).length > 0) errors.push('The directory is not empty.');
+        else await removeVfsNode(ctx.userId, dirPath);
+    }
+    ctx.cwd = (await getVfsSession(ctx.userId)).cwd;
+    return errors.length > 0 ? fail(errors.join('\n')) : ok();
+};
+
+const windowsDel: ShellCommand = async (ctx, args) => {
+    const { operands } = splitOptions(args, 'windows');
+    if (operands.length === 0) return fail('The syntax of the command is incorrect.');
+    const errors: string[] = [];
+    for (const operand of operands) {
+        const { path: nodePath, node } = await lookup(ctx, operand);
+        if (!node) { errors.push(`Could Not Find ${formatVfsPath(nodePath, 'windows')}`); continue; }
+        // Like cmd, deleting a directory deletes the files directly inside it
+        const files = node.type === 'dir' ? (await listVfsChildren(ctx.userId, nodePath)).filter(child => child.type === 'file') : [node];
+        for (const file of files) await removeVfsNode(ctx.userId, file.path);
+    }
+    return errors.length > 0 ? fail(errors.join('\n')) : ok();
+};
+
+const windowsCommands: Record<string, ShellCommand> = {
+    cd: windowsCd,
+    chdir: windowsCd,
+
+    async dir(ctx, args) {
+        const { flags, operands } = splitOptions(args, 'windows');
+        const targets = operands.length > 0 ? operands : ['.'];
+        const entries: { node: VfsNode; name: string }[] = [];
+        let directoryPath = ctx.cwd;
+        for (const target of targets) {
+            const { path: targetPath, node } = await lookup(ctx, target);
+            if (!node) continue;
+            if (node.type === 'dir' && targets.length === 1) {
+                directoryPath = targetPath;
+                if (targetPath !== '/') {
+                    const parent = (await getVfsNode(ctx.userId, vfsDirname(targetPath))) ?? node;
+                    entries.push({ node, name: '.' }, { node: parent, name: '..' });
+                }
+                (await listVfsChildren(ctx.userId, targetPath)).forEach(child => entries.push({ node: child, name: vfsBasename(child.path) }));
+            } else {
+                // Several operands (e.g. an expanded wildcard) are listed as entries of their directory
+                directoryPath = vfsDirname(targetPath);
+                entries.push({ node, name: vfsBasename(targetPath) });
+            }
+        }
+        if (entries.length === 0) return fail('File Not Found');
+
+        if (flags.has('B')) {
+            return ok(asLines(entries.filter(entry => entry.name !== '.' && entry.name !== '..').map(entry => entry.name).join('\n')));
+        }
+        const lines = [' Volume in drive C is SIMSHELL', ` Directory of ${formatVfsPath(directoryPath, 'windows')}`, ''];
+        let fileCount = 0;
+        let dirCount = 0;
+        let totalBytes = 0;
+        for (const entry of entries) {
+            const column = entry.node.type === 'dir' ? '<DIR>         ' : String(entry.node.size).padStart(14);
+            lines.push(`${formatWindowsDate(entry.node.modifiedAt)}    ${column} ${entry.name}`);
+            if (entry.node.type === 'dir') dirCount++;
+            else { fileCount++; totalBytes += entry.node.size; }
+        }
+        lines.push(`${String(fileCount).padStart(16)} File(s) ${String(totalBytes).padStart(14)} bytes`);
+        lines.push(`${String(dirCount).padStart(16)} Dir(s)`);
+        return ok(lines.join('\n') + '\n');
+    },
+
+    async copy(ctx, args) {
+        const { operands } = splitOptions(args, 'windows');
+        if (operands.length === 0) return fail('The syntax of the command is incorrect.');
+        const sources = operands.length > 1 ? operands.slice(0, -1) : operands;
+        const destination = operands.length > 1 ? operands[operands.length - 1] : '.';
+        const { path: destPath, node: destNode } = await lookup(ctx, destination);
+
+        let copied = 0;
+        for (const source of sources) {
+            const { path: sourcePath, node: sourceNode } = await lookup(ctx, source);
+            if (!sourceNode) return fail(WIN_FILE_NOT_FOUND, `        ${copied} file(s) copied.\n`);
+            // Copying a directory copies the files directly inside it
+            const files = sourceNode.type === 'dir' ? (await listVfsChildren(ctx.userId, sourcePath)).filter(child => child.type === 'file') : [sourceNode];
+            for (const file of files) {
+                const targetPath = destNode?.type === 'dir' ? resolveVfsPath(destPath, vfsBasename(file.path), 'unix') : destPath;
+                if (targetPath === file.path) return fail('The file cannot be copied onto itself.', `        ${copied} file(s) copied.\n`);
+                const parent = await getVfsNode(ctx.userId, vfsDirname(targetPath));
+                if (!parent || parent.type !== 'dir') return fail(WIN_PATH_NOT_FOUND, `        ${copied} file(s) copied.\n`);
+                await writeVfsFile(ctx.userId, targetPath, file.content ?? '');
+                copied++;
+            }
+        }
+        return ok(`        ${copied} file(s) copied.\n`);
+    },
+
+    async move(ctx, args) {
+        const { operands } = splitOptions(args, 'windows');
+        if (operands.length < 2) return fail('The syntax of the command is incorrect.');
+        const destination = operands[operands.length - 1];
+        const { path: destPath, node: destNode } = await lookup(ctx, destination);
+        let moved = 0;
+        for (const source of operands.slice(0, -1)) {
+            const { path: sourcePath, node: sourceNode } = await lookup(ctx, source);
+            if (!sourceNode || sourcePath === '/') return fail(WIN_FILE_NOT_FOUND, moved > 0 ? `        ${moved} file(s) moved.\n` : '');
+            const targetPath = destNode?.type === 'dir' ? resolveVfsPath(destPath, vfsBasename(sourcePath), 'unix') : destPath;
+            if (isVfsPathWithin(targetPath, sourcePath)) return fail('The process cannot access the file because it is being used by another process.');
+            const parent = await getVfsNode(ctx.userId, vfsDirname(targetPath));
+            if (!parent || parent.type !== 'dir') return fail(WIN_PATH_NOT_FOUND);
+            const existingTarget = await getVfsNode(ctx.userId, targetPath);
+            if (existingTarget) {
+                if (existingTarget.type === 'dir' || sourceNode.type === 'dir') return fail('Access is denied.');
+                await removeVfsNode(ctx.userId, targetPath);
+            }
+            await moveVfsNode(ctx.userId, sourcePath, targetPath);
+            moved++;
+        }
+        ctx.cwd = (await getVfsSession(ctx.userId)).cwd;
+        return ok(`        ${moved} file(s) moved.\n`);
+    },
+
+    async type(ctx, args) {
+        const { operands } = splitOptions(args, 'windows');
+        if (operands.length === 0) return fail('The syntax of the command is incorrect.');
+        let stdout = '';
+        const errors: string[] = [];
+        for (const operand of operands) {
+            const { node } = await lookup(ctx, operand);
+            if (!node) errors.push(WIN_FILE_NOT_FOUND);
+            else if (node.type === 'dir') errors.push('Access is denied.');
+            else stdout += (operands.length > 1 ? `\n${operand}\n\n\n` : '') + (node.content ?? '');
+        }
+        return errors.length > 0 ? fail(errors.join('\n'), stdout) : ok(stdout);
+    },
+
+    async findstr(ctx, args, stdin) {
+        const { flags, operands, values } = splitOptions(args, 'windows');
+        const caseInsensitive = flags.has('I');
+        let searchStrings: string[];
+        let files: string[];
+        if (values.has('C')) {
+            searchStrings = [values.get('C') as string];
+            files = operands;
+        } else {
+            if (operands.length === 0) return { stdout: '', stderr: 'FINDSTR: Bad command line', exitCode: 2 };
+            searchStrings = operands[0].split(/\s+/).filter(Boolean); // Space-separated strings are alternatives
+            files = operands.slice(1);
+        }
+        let matchers: RegExp[];
+        try {
+            matchers = searchStrings.map(text => new RegExp(flags.has('R') ? text : text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), caseInsensitive ? 'i' : ''));
+        } catch {
+            return { stdout: '', stderr: 'FINDSTR: Bad regular expression', exitCode: 2 };
+        }
+        const invert = flags.has('V');
+        return searchContent(ctx, 'findstr', files, stdin, line => matchers.some(matcher => matcher.test(line)) !== invert, { lineNumbers: flags.has('N') });
+    },
+
+    async echo(_ctx, args) {
+        return ok(args.length === 0 ? 'ECHO is on.\n' : args.join(' ') + '\n');
+    },
+
+    mkdir: windowsMkdir,
+    md: windowsMkdir,
+    rmdir: windowsRmdir,
+    rd: windowsRmdir,
+    del: windowsDel,
+    erase: windowsDel,
+};
+
+async function runStage(ctx: ShellContext, stage: PipelineStage, stdin: string): Promise<CommandOutput> {
+    const args: string[] = [];
+    for (const word of stage.words) {
+        args.push(...(await expandWord(ctx, word)));
+    }
+    const commandName = args[0];
+    const command = ctx.style === 'unix' ? unixCommands[commandName] : windowsCommands[commandName.toLowerCase()];
+    if (!command) {
+        return ctx.style === 'unix'
+            ? { stdout: '', stderr: `${commandName}: command not found`, exitCode: 127 }
+            : { stdout: '', stderr: `'${commandName}' is not recognized as an internal or external command,\noperable program or batch file.`, exitCode: 1 };
+    }
+    const output = await command(ctx, args.slice(1), stdin);
+
+    if (stage.redirect) {
+        const { path: targetPath, node } = await lookup(ctx, stage.redirect.target);
+        const parent = await getVfsNode(ctx.userId, vfsDirname(targetPath));
+        const redirectError = node?.type === 'dir'
+            ? (ctx.style === 'unix' ? `${stage.redirect.target}: Is a directory` : 'Access is denied.')
+            : (!parent || parent.type !== 'dir' ? (ctx.style === 'unix' ? `${stage.redirect.target}: No such file or directory` : WIN_PATH_NOT_FOUND) : null);
+        if (redirectError) {
+            return { stdout: '', stderr: [output.stderr, redirectError].filter(Boolean).join('\n'), exitCode: 1 };
+        }
+        await writeVfsFile(ctx.userId, targetPath, output.stdout, stage.redirect.append);
+        return { ...output, stdout: '' };
+    }
+    return output;
+}
+
+/**
+ * Executes a unix or windows command line against the user's virtual filesystem.
+ * Supports pipes ('|'), output redirection ('>' and '>>') and wildcards in the last path segment.
+ * Both modes share one tree; windows paths are shown as drive C:.
+ * @param userId - The ID of the user whose virtual filesystem is used.
+ * @param style - 'unix' or 'windows', selecting the command set and path syntax.
+ * @param commandLine - The command line as entered.
+ * @returns A promise that resolves with the captured stdout, stderr, exit code and current directory.
+ * @throws Throws an error if the virtual filesystem tables are missing (run 'init db').
+ */
+export async function runVirtualShellCommand(userId: number, style: VfsPathStyle, commandLine: string): Promise<VirtualShellResult> {
+    const session = await getVfsSession(userId);
+    const ctx: ShellContext = { userId, style, cwd: session.cwd, home: session.home };
+    const stderrParts: string[] = [];
+    let stdout = '';
+    let exitCode = 0;
+
+    try {
+        const stages = parsePipeline(tokenize(commandLine, style));
+        for (const stage of stages) {
+            if (stage.words.length === 0) continue;
+            try {
+                const output = await runStage(ctx, stage, stdout);
+                stdout = output.stdout;
+                exitCode = output.exitCode;
+                if (output.stderr) stderrParts.push(output.stderr);
+            } catch (error) {
+                if (error instanceof Error && error.message.includes('no such table')) throw error;
+                stdout = '';
+                exitCode = 1;
+                stderrParts.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('no such table')) throw error;
+        stderrParts.push(`${style === 'unix' ? 'bash' : 'cmd'}: ${error instanceof Error ? error.message : String(error)}`);
+        exitCode = 2;
+    }
+
+    return { stdout, stderr: stderrParts.join('\n'), exitCode, cwd: formatVfsPath(ctx.cwd, style) };
+}